@@ -0,0 +1,44 @@
+/**
+ * Service worker for Web Push notifications.
+ *
+ * Pushes come from the send-push-notifications Edge Function as
+ * { title, url, tag }. Clicking the notification focuses an open tab of the
+ * app and navigates it to `url`, or opens a new one.
+ */
+
+self.addEventListener("push", (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch (error) {
+    payload = { title: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || "New notification", {
+      tag: payload.tag,
+      data: { url: payload.url || self.registration.scope },
+    }),
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = event.notification.data && event.notification.data.url;
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((windows) => {
+        const existing = windows.find((client) =>
+          client.url.startsWith(self.registration.scope),
+        );
+        if (existing) {
+          return existing.focus().then((client) => client.navigate(url));
+        }
+        return self.clients.openWindow(url);
+      }),
+  );
+});
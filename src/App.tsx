@@ -26,6 +26,7 @@ import { Toaster } from "./components/ui/toaster";
 import { SidebarProvider } from "./context/SidebarContext";
 import { ThemeProvider } from "./context/ThemeContext";
 import { LanguageProvider } from "./context/LanguageContext";
+import { EncryptionProvider } from "./context/EncryptionContext";
 
 /**
  * PrivateRoute Component
@@ -198,6 +199,7 @@ function AppRoutes() {
  * 2. ThemeProvider - Manages light/dark theme preferences
  * 3. LanguageProvider - Manages language/localization settings
  * 4. SidebarProvider - Manages sidebar state (open/closed)
+ * 5. EncryptionProvider - Unlocks the keys for encrypted recordings
  * 
  * @returns The fully configured application with all providers
  */
@@ -207,10 +209,12 @@ function App() {
       <ThemeProvider>
         <LanguageProvider>
           <SidebarProvider>
-            <Suspense fallback={<p>Loading...</p>}>
-              <AppRoutes />
-            </Suspense>
-            <Toaster />
+            <EncryptionProvider>
+              <Suspense fallback={<p>Loading...</p>}>
+                <AppRoutes />
+              </Suspense>
+              <Toaster />
+            </EncryptionProvider>
           </SidebarProvider>
         </LanguageProvider>
       </ThemeProvider>
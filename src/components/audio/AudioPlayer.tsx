@@ -10,6 +10,9 @@ import {
 } from "lucide-react";
 import { Button } from "../ui/button";
 import { Slider } from "../ui/slider";
+import Waveform from "./Waveform";
+import { openDecryptedAudio } from "@/lib/crypto";
+import { WaveformPeaks } from "@/lib/api";
 
 /**
  * Marker Interface
@@ -21,6 +24,19 @@ interface Marker {
   id: string;               // Unique identifier for the marker
   timestamp: number;        // Position in seconds where the marker starts
   endTimestamp?: number;    // Optional end position for segment markers
+  color?: string;           // Hex color, e.g. of the feedback's first tag
+  label?: string;           // Shown with the time when hovering, e.g. tag names
+}
+
+/**
+ * RedactedRange Interface
+ * 
+ * A stretch of audio containing redacted PII, bleeped on the server.
+ * The player shades it on the waveform.
+ */
+interface RedactedRange {
+  start: number;            // Start of the range in seconds
+  end: number;              // End of the range in seconds
 }
 
 /**
@@ -34,6 +50,15 @@ interface AudioPlayerProps {
   onMarkerClick?: (markerId: string) => void;  // Called when a marker is clicked
   onTimeUpdate?: (time: number) => void;       // Called when playback position changes
   onAddFeedback?: () => void;                 // Called when user wants to add feedback
+  redactedRanges?: RedactedRange[];           // Optional bleeped ranges to shade on the waveform
+  onSourceError?: () => void;                 // Called when the audio fails to load, e.g. an expired signed URL
+  decryptionKey?: CryptoKey;                  // Session key, when src points at an encrypted recording
+  mimeType?: string;                          // Type of the decrypted audio
+  peaks?: WaveformPeaks | null;               // Precomputed waveform peaks, if the recording has them
+  onSelectRange?: (start: number, end: number) => void; // Called when a range is dragged on the waveform
+  matchTimes?: number[];                      // Find-in-transcript matches to tick on the timeline
+  activeMatchIndex?: number | null;           // Index of the current find match
+  audioRef?: React.MutableRefObject<HTMLAudioElement | null>; // Receives the audio element, e.g. for following playback
 }
 
 /**
@@ -62,6 +87,15 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({
   onMarkerClick,
   onTimeUpdate,
   onAddFeedback,
+  redactedRanges = [],
+  onSourceError,
+  decryptionKey,
+  mimeType,
+  peaks,
+  onSelectRange,
+  matchTimes,
+  activeMatchIndex,
+  audioRef: externalAudioRef,
 }) => {
   // State for player functionality
   const [isPlaying, setIsPlaying] = useState(false);        // Whether audio is currently playing
@@ -70,11 +104,19 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({
   const [volume, setVolume] = useState(0.7);                // Volume level (0-1)
   const [isMuted, setIsMuted] = useState(false);            // Whether audio is muted
   const [showVolumeSlider, setShowVolumeSlider] = useState(false); // Whether to show volume controls
+  const [decryptedSrc, setDecryptedSrc] = useState("");     // Playable URL of the decrypted recording
 
   // References to DOM elements and timers
-  const audioRef = useRef<HTMLAudioElement>(null);          // Reference to the audio element
+  const audioRef = useRef<HTMLAudioElement | null>(null);   // Reference to the audio element
   const volumeControlRef = useRef<HTMLDivElement>(null);    // Reference to volume control UI
   const volumeSliderTimeoutRef = useRef<number | null>(null); // Timeout for hiding volume slider
+  const lastTimeRef = useRef(0);                            // Last known position, kept across source changes
+  const srcRef = useRef(src);                               // Latest source, read when decryption starts
+  srcRef.current = src;
+
+  // Encrypted recordings play from the decrypted stream, not the signed URL
+  const playableSrc = decryptionKey ? decryptedSrc : src;
+  const previousSrcRef = useRef(playableSrc);               // Source before the latest change
 
   /**
    * Effect: Set up audio event listeners
@@ -89,29 +131,114 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({
     // Update current time and notify parent when playback position changes
     const handleTimeUpdate = () => {
       setCurrentTime(audio.currentTime);
+      lastTimeRef.current = audio.currentTime;
       if (onTimeUpdate) {
         onTimeUpdate(audio.currentTime);
       }
     };
 
-    // Set total duration when metadata is loaded
-    const handleLoadedMetadata = () => setDuration(audio.duration);
+    // Set total duration when metadata is loaded. Streamed (decrypted)
+    // audio only knows its full duration once the stream has ended.
+    const handleLoadedMetadata = () =>
+      setDuration(Number.isFinite(audio.duration) ? audio.duration : 0);
     
+    // Keep the play button in sync when playback is started or stopped
+    // from outside, e.g. by the transcript or a followed viewer
+    const handlePlay = () => setIsPlaying(true);
+    const handlePause = () => setIsPlaying(false);
+
     // Update UI when playback ends
     const handleEnded = () => setIsPlaying(false);
 
+    // Let the parent mint a fresh URL if loading fails
+    const handleError = () => onSourceError?.();
+
     // Add event listeners
     audio.addEventListener("timeupdate", handleTimeUpdate);
     audio.addEventListener("loadedmetadata", handleLoadedMetadata);
+    audio.addEventListener("durationchange", handleLoadedMetadata);
+    audio.addEventListener("play", handlePlay);
+    audio.addEventListener("pause", handlePause);
     audio.addEventListener("ended", handleEnded);
+    audio.addEventListener("error", handleError);
 
     // Clean up event listeners when component unmounts
     return () => {
       audio.removeEventListener("timeupdate", handleTimeUpdate);
       audio.removeEventListener("loadedmetadata", handleLoadedMetadata);
+      audio.removeEventListener("durationchange", handleLoadedMetadata);
+      audio.removeEventListener("play", handlePlay);
+      audio.removeEventListener("pause", handlePause);
       audio.removeEventListener("ended", handleEnded);
+      audio.removeEventListener("error", handleError);
+    };
+  }, [onTimeUpdate, onSourceError]);
+
+  /**
+   * Effect: Decrypt encrypted recordings
+   * 
+   * Decrypts the encrypted file with the session key for the player.
+   * Refreshed signed URLs don't restart the stream; it already holds an
+   * open download, and picks up the latest URL if it has to start over.
+   */
+  const hasSrc = !!src;
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !decryptionKey || !hasSrc) return;
+
+    let isCancelled = false;
+    let playback: { url: string; cancel: () => void } | null = null;
+
+    openDecryptedAudio(
+      () => srcRef.current,
+      decryptionKey,
+      mimeType || "audio/mpeg",
+      audio,
+    )
+      .then((result) => {
+        playback = result;
+        if (isCancelled) {
+          result.cancel();
+          URL.revokeObjectURL(result.url);
+          return;
+        }
+        setDecryptedSrc(result.url);
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          console.error("Error opening encrypted audio:", error);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+      if (playback) {
+        playback.cancel();
+        URL.revokeObjectURL(playback.url);
+      }
+      setDecryptedSrc("");
     };
-  }, [onTimeUpdate]);
+  }, [decryptionKey, mimeType, hasSrc]);
+
+  /**
+   * Effect: Resume after a source change
+   * 
+   * Signed URLs are swapped for fresh ones during long playback. Pick up
+   * where the old URL left off instead of jumping back to the start.
+   */
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || previousSrcRef.current === playableSrc) return;
+
+    const hadSource = !!previousSrcRef.current;
+    previousSrcRef.current = playableSrc;
+    if (!hadSource || !playableSrc) return;
+
+    audio.currentTime = lastTimeRef.current;
+    if (isPlaying) {
+      audio.play().catch(() => setIsPlaying(false));
+    }
+  }, [playableSrc]);
 
   /**
    * Effect: Handle volume slider timeout
@@ -251,57 +378,30 @@ const AudioPlayer: React.FC<AudioPlayerProps> = ({
   return (
     <div className="w-full p-4 bg-white rounded-lg shadow-sm">
       <audio
-        ref={audioRef}
-        src={src}
+        ref={(element) => {
+          audioRef.current = element;
+          if (externalAudioRef) {
+            externalAudioRef.current = element;
+          }
+        }}
+        src={playableSrc || undefined}
         preload="metadata"
         crossOrigin="anonymous"
       />
 
       {/* Waveform visualization with markers */}
-      <div className="relative h-12 bg-gray-100 rounded-md mb-2 overflow-hidden">
-        {feedbackMarkers.map((marker) => {
-          const startPosition = (marker.timestamp / duration) * 100;
-          const rangeWidth = marker.endTimestamp
-            ? ((marker.endTimestamp - marker.timestamp) / duration) * 100
-            : 0;
-
-          return (
-            <div
-              key={marker.id}
-              className="absolute top-0 h-full cursor-pointer group"
-              style={{
-                left: `${startPosition}%`,
-                width: marker.endTimestamp ? `${rangeWidth}%` : "2px",
-                backgroundColor: marker.endTimestamp
-                  ? "rgba(220, 38, 38, 0.3)"
-                  : "rgb(220, 38, 38)",
-              }}
-              onClick={() => onMarkerClick?.(marker.id)}
-              title={
-                marker.endTimestamp
-                  ? `Feedback from ${formatTime(marker.timestamp)} to ${formatTime(marker.endTimestamp)}`
-                  : `Feedback at ${formatTime(marker.timestamp)}`
-              }
-            >
-              <div className="absolute top-0 -ml-2 opacity-0 group-hover:opacity-100 transition-opacity bg-red-600 text-white text-xs rounded px-1 py-0.5 whitespace-nowrap z-10">
-                {marker.endTimestamp
-                  ? `${formatTime(marker.timestamp)} - ${formatTime(marker.endTimestamp)}`
-                  : formatTime(marker.timestamp)}
-              </div>
-              <div className="absolute top-0 left-0 w-3 h-3 bg-red-600 rounded-full -ml-1 -mt-1"></div>
-              {marker.endTimestamp && (
-                <div className="absolute top-0 right-0 w-3 h-3 bg-red-600 rounded-full -mr-1 -mt-1"></div>
-              )}
-            </div>
-          );
-        })}
-
-        {/* Progress indicator */}
-        <div
-          className="absolute top-0 h-full bg-blue-200 opacity-30"
-          style={{ width: `${(currentTime / duration) * 100}%` }}
-        />
-      </div>
+      <Waveform
+        peaks={peaks}
+        duration={duration}
+        currentTime={currentTime}
+        markers={feedbackMarkers}
+        shadedRanges={redactedRanges}
+        ticks={matchTimes}
+        activeTick={activeMatchIndex}
+        onSeek={(time) => handleSeek([time])}
+        onMarkerClick={onMarkerClick}
+        onSelectRange={onSelectRange}
+      />
 
       {/* Time slider */}
       <Slider
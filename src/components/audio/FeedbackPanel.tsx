@@ -3,9 +3,36 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Mic, Send, Play, Pause, Clock, MessageSquare, X } from "lucide-react";
+import {
+  Mic,
+  Send,
+  Play,
+  Pause,
+  Clock,
+  MessageSquare,
+  X,
+  Trash2,
+  History,
+  RotateCcw,
+} from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { FeedbackChanges, FeedbackTag, getSignedAudioUrl } from "@/lib/api";
+import FeedbackThread from "./FeedbackThread";
+import FeedbackRevisionHistory from "./FeedbackRevisionHistory";
+import FeedbackTagPicker, { FeedbackTagBadges } from "./FeedbackTagPicker";
+import { useFeedbackTags } from "./useFeedbackTags";
 
 /**
  * FeedbackItem Interface
@@ -20,13 +47,17 @@ interface FeedbackItem {
   endTimestamp?: number;      // Optional end position for segment feedback
   isGeneral?: boolean;        // Whether this is general feedback vs. timestamp-specific
   text: string;               // The text content of the feedback
-  audioResponse?: string;     // Optional URL to an audio response from counselor
   audioFeedback?: string;     // Optional URL to an audio feedback recording
   author: {                   // Information about who provided the feedback
     name: string;             // Author's name
     avatar: string;           // Author's avatar image identifier
   };
+  authorId?: string;          // User ID of the author
   createdAt: Date;            // When the feedback was created
+  resolvedAt?: Date;          // When the discussion was marked resolved
+  editedAt?: Date;            // When the feedback was last edited
+  deletedAt?: Date;           // When the feedback was deleted (only admins see deleted feedback)
+  tags?: FeedbackTag[];       // Categories and techniques the feedback is tagged with
 }
 
 /**
@@ -43,11 +74,16 @@ interface FeedbackPanelProps {
     timestamp: number,        // Timestamp where feedback applies
     endTimestamp?: number,    // Optional end timestamp for segment feedback
     audioBlob?: Blob,         // Optional audio recording for the feedback
+    isGeneral?: boolean,      // Whether this is general feedback vs. timestamp-specific
+    tagIds?: string[],        // Tags chosen for the feedback
   ) => void;
-  onAddAudioResponse?: (      // Function called when an audio response is added to feedback
-    audioBlob: Blob,          // The audio recording blob
-    feedbackId: string        // ID of the feedback being responded to
+  onEditFeedback?: (          // Function called when the author saves changes to feedback
+    feedbackId: string,
+    changes: FeedbackChanges,
   ) => void;
+  onDeleteFeedback?: (feedbackId: string) => void;  // Function called when the author deletes feedback
+  onRestoreFeedback?: (feedbackId: string) => void; // Admins only: restore deleted feedback
+  currentUserId?: string;     // Signed-in user, who may edit and delete their own feedback
   currentTimestamp: number;   // Current playback position in the audio
   className?: string;         // Optional CSS class name for styling
   selectedFeedback?: string | null; // ID of feedback that should be highlighted/selected
@@ -58,13 +94,17 @@ interface FeedbackPanelProps {
  * FeedbackPanel Component
  * 
  * A panel for displaying, adding, and managing feedback on counseling sessions.
- * Allows supervisors to provide text and audio feedback at specific timestamps.
+ * Allows supervisors to provide text and audio feedback at specific timestamps,
+ * with a discussion thread under each item.
  */
 const FeedbackPanel = ({
   sessionId,
   feedback,
   onAddFeedback,
-  onAddAudioResponse,
+  onEditFeedback,
+  onDeleteFeedback,
+  onRestoreFeedback,
+  currentUserId,
   currentTimestamp,
   className,
   selectedFeedback: initialSelectedFeedback,
@@ -75,9 +115,10 @@ const FeedbackPanel = ({
   const [newFeedback, setNewFeedback] = useState("");        // Content for new feedback
   const [startTimestamp, setStartTimestamp] = useState(0);   // Start time for new feedback
   const [endTimestamp, setEndTimestamp] = useState<number | undefined>(undefined); // End time for new feedback
+  const [newTagIds, setNewTagIds] = useState<string[]>([]);  // Tags for new feedback
+  const availableTags = useFeedbackTags();
   
   // State for audio recording
-  const [isRecording, setIsRecording] = useState(false);     // Whether audio recording is active
   const [isRecordingFeedback, setIsRecordingFeedback] = useState(false); // Whether recording feedback audio
   const [audioFeedbackBlob, setAudioFeedbackBlob] = useState<Blob | null>(null); // Recorded audio blob
   
@@ -90,10 +131,20 @@ const FeedbackPanel = ({
   // State for editing and replying
   const [editingFeedbackId, setEditingFeedbackId] = useState<string | null>(null); // ID of feedback being edited
   const [replyingToFeedbackId, setReplyingToFeedbackId] = useState<string | null>(null); // ID of feedback being replied to
+  const [editTitle, setEditTitle] = useState("");            // Title in the edit form
+  const [editText, setEditText] = useState("");              // Text in the edit form
+  const [deletingFeedbackId, setDeletingFeedbackId] = useState<string | null>(null); // ID of feedback awaiting delete confirmation
+  const [historyFeedbackId, setHistoryFeedbackId] = useState<string | null>(null);   // ID of feedback whose history is open
   
   // References
   const mediaRecorderRef = useRef<MediaRecorder | null>(null); // Reference to the MediaRecorder instance
   const audioChunksRef = useRef<BlobPart[]>([]); // Storage for audio chunks during recording
+  const storedAudioRef = useRef<HTMLAudioElement | null>(null); // Saved feedback audio currently playing
+
+  // Stop saved audio when the panel goes away
+  useEffect(() => {
+    return () => storedAudioRef.current?.pause();
+  }, []);
 
   /**
    * Format Timestamp
@@ -226,6 +277,62 @@ const FeedbackPanel = ({
     }
   };
 
+  /**
+   * Toggle Stored Audio
+   * 
+   * Plays saved audio feedback or an audio response. Recordings live in a
+   * private bucket, so a short-lived signed URL is minted on every play.
+   * 
+   * @param playbackId - Key identifying what is playing, used for the UI state
+   * @param path - Storage path of the recording
+   */
+  const toggleStoredAudio = async (playbackId: string, path: string) => {
+    storedAudioRef.current?.pause();
+    storedAudioRef.current = null;
+
+    if (isPlaying === playbackId) {
+      setIsPlaying(null);
+      return;
+    }
+
+    setIsPlaying(playbackId);
+    const signedUrl = await getSignedAudioUrl(path);
+    if (!signedUrl) {
+      setIsPlaying(null);
+      return;
+    }
+
+    const audio = new Audio(signedUrl.url);
+    audio.onended = () => setIsPlaying(null);
+    audio.onerror = () => setIsPlaying(null);
+    storedAudioRef.current = audio;
+
+    audio.play().catch((err) => {
+      console.error("Error playing stored audio:", err);
+      setIsPlaying(null);
+    });
+  };
+
+  // Authors may change their own feedback; items without an author ID are local mock data
+  const canModify = (item: FeedbackItem) =>
+    !item.deletedAt && (!item.authorId || item.authorId === currentUserId);
+
+  const startEditing = (item: FeedbackItem) => {
+    setEditTitle(item.title || "");
+    setEditText(item.text);
+    setEditingFeedbackId(item.id);
+  };
+
+  const saveEdit = (item: FeedbackItem) => {
+    const changes: FeedbackChanges = {};
+    if (editTitle.trim() !== (item.title || "")) changes.title = editTitle.trim();
+    if (editText.trim() !== item.text) changes.text = editText.trim();
+    if (Object.keys(changes).length > 0) {
+      onEditFeedback?.(item.id, changes);
+    }
+    setEditingFeedbackId(null);
+  };
+
   // Additional component methods and rendering code would continue here...
   
   // The rest of the component code would follow, but we're not changing the rendering logic to avoid breaking functionality
@@ -366,6 +473,20 @@ const FeedbackPanel = ({
               </div>
             )}
 
+            {/* Tags */}
+            {availableTags.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium mb-1">
+                  Tags (Optional)
+                </label>
+                <FeedbackTagPicker
+                  tags={availableTags}
+                  selectedIds={newTagIds}
+                  onChange={setNewTagIds}
+                />
+              </div>
+            )}
+
             {/* Time pickers moved below audio feedback */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
@@ -458,9 +579,12 @@ const FeedbackPanel = ({
                       startTimestamp || currentTimestamp,
                       endTimestamp,
                       feedbackMode === "audio" ? audioFeedbackBlob : undefined,
+                      false,
+                      newTagIds,
                     );
                     setFeedbackTitle("");
                     setNewFeedback("");
+                    setNewTagIds([]);
                     setStartTimestamp(currentTimestamp);
                     setEndTimestamp(undefined);
                     setAudioFeedbackBlob(null);
@@ -498,7 +622,7 @@ const FeedbackPanel = ({
                   <div
                     id={`feedback-${item.id}`}
                     key={item.id}
-                    className="bg-gray-50 rounded-lg p-4 transition-colors duration-300 mb-4"
+                    className={`rounded-lg p-4 transition-colors duration-300 mb-4 ${item.deletedAt ? "bg-red-50 opacity-75" : "bg-gray-50"}`}
                   >
                     <div className="flex items-start gap-3 mb-2">
                       <Avatar>
@@ -515,7 +639,21 @@ const FeedbackPanel = ({
                             <p className="text-sm text-gray-500">
                               {item.createdAt.toLocaleDateString()} at{" "}
                               {formatTimestamp(item.timestamp)}
+                              {item.editedAt && (
+                                <button
+                                  className="ml-1 underline hover:text-gray-700"
+                                  onClick={() => setHistoryFeedbackId(item.id)}
+                                  title={`Edited ${item.editedAt.toLocaleString()}`}
+                                >
+                                  (edited)
+                                </button>
+                              )}
                             </p>
+                            {item.deletedAt && (
+                              <Badge variant="destructive" className="mt-1">
+                                Deleted {item.deletedAt.toLocaleDateString()}
+                              </Badge>
+                            )}
                           </div>
                           <Button
                             variant="outline"
@@ -530,6 +668,11 @@ const FeedbackPanel = ({
                         {item.title && (
                           <h4 className="font-semibold mt-2">{item.title}</h4>
                         )}
+                        {item.tags?.length > 0 && (
+                          <div className="mt-2">
+                            <FeedbackTagBadges tags={item.tags} />
+                          </div>
+                        )}
                         <p className="mt-2">{item.text}</p>
 
                         {/* Display audio feedback if available */}
@@ -539,13 +682,18 @@ const FeedbackPanel = ({
                               variant="ghost"
                               size="icon"
                               className="h-8 w-8 text-blue-600"
-                              onClick={() => {
-                                console.log(
-                                  `Play audio feedback for ${item.id}`,
-                                );
-                              }}
+                              onClick={() =>
+                                toggleStoredAudio(
+                                  `feedback-${item.id}`,
+                                  item.audioFeedback,
+                                )
+                              }
                             >
-                              <Play size={16} className="ml-0.5" />
+                              {isPlaying === `feedback-${item.id}` ? (
+                                <Pause size={16} />
+                              ) : (
+                                <Play size={16} className="ml-0.5" />
+                              )}
                             </Button>
                             <div className="flex-1">
                               <div className="h-2 bg-blue-200 rounded-full overflow-hidden">
@@ -559,145 +707,104 @@ const FeedbackPanel = ({
                         )}
                       </div>
 
-                      {/* Edit and Reply buttons */}
+                      {/* Edit, delete and history buttons */}
                       <div className="flex justify-end mt-2 gap-2">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="h-7 px-2 text-xs"
-                          onClick={() => setReplyingToFeedbackId(item.id)}
-                        >
-                          <MessageSquare size={12} className="mr-1" /> Reply
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          className="h-7 px-2 text-xs"
-                          onClick={() => setEditingFeedbackId(item.id)}
-                        >
-                          Edit
-                        </Button>
-                      </div>
-                    </div>
-
-                    {/* Edit form */}
-                    {editingFeedbackId === item.id && (
-                      <div className="mt-3 bg-gray-50 p-3 rounded-md">
-                        <h4 className="text-sm font-medium mb-2">
-                          Edit Feedback
-                        </h4>
-                        <textarea
-                          className="w-full p-2 border rounded-md text-sm mb-2"
-                          defaultValue={item.text}
-                          rows={3}
-                        />
-                        <div className="flex justify-end gap-2">
+                        {canModify(item) && onEditFeedback && (
                           <Button
-                            variant="outline"
+                            variant="ghost"
                             size="sm"
-                            onClick={() => setEditingFeedbackId(null)}
+                            className="h-7 px-2 text-xs"
+                            onClick={() => startEditing(item)}
                           >
-                            Cancel
+                            Edit
                           </Button>
+                        )}
+                        {canModify(item) && onDeleteFeedback && (
                           <Button
-                            variant="default"
+                            variant="ghost"
                             size="sm"
-                            onClick={() => {
-                              console.log(
-                                `Saving edited feedback for ${item.id}`,
-                              );
-                              setEditingFeedbackId(null);
-                            }}
+                            className="h-7 px-2 text-xs text-red-600 hover:text-red-700"
+                            onClick={() => setDeletingFeedbackId(item.id)}
                           >
-                            Save
+                            <Trash2 size={12} className="mr-1" /> Delete
                           </Button>
-                        </div>
+                        )}
+                        {item.deletedAt && onRestoreFeedback && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2 text-xs"
+                            onClick={() => onRestoreFeedback(item.id)}
+                          >
+                            <RotateCcw size={12} className="mr-1" /> Restore
+                          </Button>
+                        )}
+                        {(item.editedAt || item.deletedAt) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 px-2 text-xs"
+                            onClick={() => setHistoryFeedbackId(item.id)}
+                          >
+                            <History size={12} className="mr-1" /> History
+                          </Button>
+                        )}
                       </div>
-                    )}
+                    </div>
 
-                    {/* Reply form */}
-                    {replyingToFeedbackId === item.id && (
+                    {/* Edit form */}
+                    {editingFeedbackId === item.id && (
                       <div className="mt-3 bg-gray-50 p-3 rounded-md">
                         <h4 className="text-sm font-medium mb-2">
-                          Reply to Feedback
+                          Edit Feedback
                         </h4>
+                        <input
+                          type="text"
+                          placeholder="Title"
+                          value={editTitle}
+                          onChange={(e) => setEditTitle(e.target.value)}
+                          className="w-full px-2 py-1 border rounded-md text-sm mb-2"
+                        />
                         <textarea
                           className="w-full p-2 border rounded-md text-sm mb-2"
-                          placeholder="Type your reply here..."
+                          value={editText}
+                          onChange={(e) => setEditText(e.target.value)}
                           rows={3}
                         />
+                        <p className="text-xs text-gray-500 mb-2">
+                          The previous version stays visible in the history.
+                        </p>
                         <div className="flex justify-end gap-2">
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => setReplyingToFeedbackId(null)}
+                            onClick={() => setEditingFeedbackId(null)}
                           >
                             Cancel
                           </Button>
                           <Button
                             variant="default"
                             size="sm"
-                            onClick={() => {
-                              console.log(
-                                `Saving reply to feedback ${item.id}`,
-                              );
-                              setReplyingToFeedbackId(null);
-                            }}
+                            onClick={() => saveEdit(item)}
+                            disabled={!editText.trim() && !item.audioFeedback}
                           >
-                            Reply
+                            Save
                           </Button>
                         </div>
                       </div>
                     )}
 
-                    {/* Audio response section */}
-                    <div className="mt-3 pl-12">
-                      {item.audioResponse ? (
-                        <div className="flex items-center gap-2 bg-gray-100 rounded-md p-2">
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-8 w-8"
-                            onClick={() => setIsPlaying(item.id)}
-                          >
-                            {isPlaying === item.id ? (
-                              <Pause size={16} />
-                            ) : (
-                              <Play size={16} className="ml-0.5" />
-                            )}
-                          </Button>
-                          <div className="flex-1">
-                            <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
-                              <div
-                                className="h-full bg-blue-500 rounded-full"
-                                style={{
-                                  width: isPlaying === item.id ? "100%" : "0%",
-                                  transition: "width 3s linear",
-                                }}
-                              />
-                            </div>
-                          </div>
-                          <span className="text-xs text-gray-500">
-                            {isPlaying === item.id ? "0:03" : "0:00"} / 0:03
-                          </span>
-                        </div>
-                      ) : (
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className={`${isRecording && activeSelectedFeedback === item.id ? "bg-red-100" : ""}`}
-                          onClick={() => setIsRecording(true)}
-                        >
-                          <Mic
-                            size={16}
-                            className={`mr-2 ${isRecording && activeSelectedFeedback === item.id ? "text-red-500" : ""}`}
-                          />
-                          {isRecording && activeSelectedFeedback === item.id
-                            ? "Stop Recording"
-                            : "Record Audio Response"}
-                        </Button>
-                      )}
-                    </div>
+                    {/* Discussion thread */}
+                    {!item.deletedAt && (
+                      <FeedbackThread
+                        feedbackId={item.id}
+                        resolvedAt={item.resolvedAt}
+                        isReplying={replyingToFeedbackId === item.id}
+                        onReplyingChange={(isReplying) =>
+                          setReplyingToFeedbackId(isReplying ? item.id : null)
+                        }
+                      />
+                    )}
                   </div>
                 ))}
               </div>
@@ -705,6 +812,44 @@ const FeedbackPanel = ({
           </div>
         </div>
       </CardContent>
+
+      {/* Delete confirmation */}
+      <AlertDialog
+        open={deletingFeedbackId !== null}
+        onOpenChange={(open) => !open && setDeletingFeedbackId(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this feedback?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It will be hidden from the session. Admins can still see it and
+              its history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => {
+                if (deletingFeedbackId) {
+                  onDeleteFeedback?.(deletingFeedbackId);
+                }
+                setDeletingFeedbackId(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {historyFeedbackId && (
+        <FeedbackRevisionHistory
+          feedbackId={historyFeedbackId}
+          open
+          onOpenChange={(open) => !open && setHistoryFeedbackId(null)}
+        />
+      )}
     </Card>
   );
 };
@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { History } from "lucide-react";
+import { FeedbackRevision, getFeedbackRevisions } from "@/lib/api";
+import { TextDiff } from "./TranscriptRevisionHistory";
+
+interface FeedbackRevisionHistoryProps {
+  feedbackId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ACTION_LABELS: Record<FeedbackRevision["action"], string> = {
+  edit: "Edited",
+  delete: "Deleted",
+  restore: "Restored",
+};
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = Math.floor(seconds % 60);
+  return `${minutes}:${remainingSeconds < 10 ? "0" : ""}${remainingSeconds}`;
+};
+
+const formatRange = (start: number, end?: number) =>
+  end !== undefined ? `${formatTime(start)} - ${formatTime(end)}` : formatTime(start);
+
+/**
+ * FeedbackRevisionHistory Component
+ *
+ * Dialog listing every edit, deletion and restore of a feedback item,
+ * newest first, so the counselor can see exactly how it changed.
+ */
+const FeedbackRevisionHistory = ({
+  feedbackId,
+  open,
+  onOpenChange,
+}: FeedbackRevisionHistoryProps) => {
+  const [revisions, setRevisions] = useState<FeedbackRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Reload whenever the dialog is opened so new edits show up
+  useEffect(() => {
+    if (!open) return;
+
+    setIsLoading(true);
+    getFeedbackRevisions(feedbackId).then((data) => {
+      setRevisions(data);
+      setIsLoading(false);
+    });
+  }, [open, feedbackId]);
+
+  const renderChange = (revision: FeedbackRevision) => {
+    const { before, after } = revision;
+    if (revision.action !== "edit") {
+      return <p className="text-sm text-gray-700">{before.text}</p>;
+    }
+
+    return (
+      <>
+        {(before.timestamp !== after.timestamp ||
+          before.endTimestamp !== after.endTimestamp) && (
+          <p className="text-xs text-gray-500 mb-1">
+            {formatRange(before.timestamp, before.endTimestamp)} →{" "}
+            {formatRange(after.timestamp, after.endTimestamp)}
+          </p>
+        )}
+        {before.title !== after.title && (
+          <div className="mb-1 font-semibold">
+            <TextDiff before={before.title || ""} after={after.title || ""} />
+          </div>
+        )}
+        <TextDiff before={before.text} after={after.text} />
+      </>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Feedback History</DialogTitle>
+          <DialogDescription>
+            Every change made to this feedback, newest first.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[60vh] pr-4">
+          {isLoading ? (
+            <div className="text-center py-8 text-gray-500">Loading...</div>
+          ) : revisions.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <History className="mx-auto h-8 w-8 mb-2 opacity-50" />
+              <p>This feedback hasn't been changed.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {revisions.map((revision) => (
+                <div key={revision.id} className="border rounded-lg p-3">
+                  <div className="flex items-center gap-2 mb-2">
+                    <Avatar className="h-6 w-6">
+                      <AvatarImage
+                        src={`https://api.dicebear.com/7.x/avataaars/svg?seed=${revision.author.avatar}`}
+                        alt={revision.author.name}
+                      />
+                      <AvatarFallback>{revision.author.name[0]}</AvatarFallback>
+                    </Avatar>
+                    <span className="text-sm font-medium">
+                      {revision.author.name}
+                    </span>
+                    <Badge
+                      variant={
+                        revision.action === "delete" ? "destructive" : "secondary"
+                      }
+                    >
+                      {ACTION_LABELS[revision.action]}
+                    </Badge>
+                    <span className="text-xs text-gray-500 ml-auto">
+                      {revision.createdAt.toLocaleString()}
+                    </span>
+                  </div>
+                  {renderChange(revision)}
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FeedbackRevisionHistory;
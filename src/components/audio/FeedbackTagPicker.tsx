@@ -0,0 +1,98 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { FeedbackTag, FeedbackTagCategory } from "@/lib/api";
+
+export const TAG_CATEGORY_LABELS: Record<FeedbackTagCategory, string> = {
+  general: "Category",
+  technique: "Technique",
+};
+
+/**
+ * FeedbackTagBadges Component
+ *
+ * The tags of a feedback item as small colored badges.
+ */
+export const FeedbackTagBadges = ({ tags }: { tags?: FeedbackTag[] }) => {
+  if (!tags || tags.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {tags.map((tag) => (
+        <Badge
+          key={tag.id}
+          variant="outline"
+          className="font-normal"
+          style={{ borderColor: tag.color, color: tag.color }}
+        >
+          {tag.name}
+        </Badge>
+      ))}
+    </div>
+  );
+};
+
+interface FeedbackTagPickerProps {
+  tags: FeedbackTag[];          // Tags to choose from
+  selectedIds: string[];
+  onChange: (selectedIds: string[]) => void;
+}
+
+/**
+ * FeedbackTagPicker Component
+ *
+ * Toggleable tags, grouped by category, for categorizing feedback.
+ */
+const FeedbackTagPicker = ({
+  tags,
+  selectedIds,
+  onChange,
+}: FeedbackTagPickerProps) => {
+  if (tags.length === 0) return null;
+
+  const toggle = (tagId: string) =>
+    onChange(
+      selectedIds.includes(tagId)
+        ? selectedIds.filter((id) => id !== tagId)
+        : [...selectedIds, tagId],
+    );
+
+  return (
+    <div className="space-y-2">
+      {(Object.keys(TAG_CATEGORY_LABELS) as FeedbackTagCategory[]).map(
+        (category) => {
+          const categoryTags = tags.filter((tag) => tag.category === category);
+          if (categoryTags.length === 0) return null;
+
+          return (
+            <div key={category} className="flex flex-wrap items-center gap-1">
+              <span className="text-xs text-gray-500 w-16">
+                {TAG_CATEGORY_LABELS[category]}
+              </span>
+              {categoryTags.map((tag) => {
+                const isSelected = selectedIds.includes(tag.id);
+                return (
+                  <button
+                    key={tag.id}
+                    type="button"
+                    className="rounded-md border px-2 py-0.5 text-xs transition-colors"
+                    style={
+                      isSelected
+                        ? { backgroundColor: tag.color, borderColor: tag.color, color: "white" }
+                        : { borderColor: tag.color, color: tag.color }
+                    }
+                    aria-pressed={isSelected}
+                    onClick={() => toggle(tag.id)}
+                  >
+                    {tag.name}
+                  </button>
+                );
+              })}
+            </div>
+          );
+        },
+      )}
+    </div>
+  );
+};
+
+export default FeedbackTagPicker;
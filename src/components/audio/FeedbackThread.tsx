@@ -0,0 +1,328 @@
+import React, { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  CheckCircle2,
+  Mic,
+  MessageSquare,
+  Pause,
+  Play,
+  RotateCcw,
+  Send,
+  X,
+} from "lucide-react";
+import {
+  addFeedbackReply,
+  FeedbackReply,
+  getFeedbackReplies,
+  getSignedAudioUrl,
+  setFeedbackResolved,
+} from "@/lib/api";
+
+/**
+ * FeedbackThread Props
+ */
+interface FeedbackThreadProps {
+  feedbackId: string;           // Feedback item the thread belongs to
+  resolvedAt?: Date;            // When the thread was resolved, if it is
+  isReplying: boolean;          // Whether the reply form is open
+  onReplyingChange: (isReplying: boolean) => void; // Open or close the reply form
+  onResolvedChange?: (resolvedAt: Date | null) => void; // Called after resolving or reopening
+  compact?: boolean;            // Smaller layout for inline use, e.g. in the transcript
+}
+
+/**
+ * FeedbackThread Component
+ *
+ * The discussion under a feedback item: text and audio replies from the
+ * counselor and the supervisor in chronological order, a reply form and a
+ * resolved state either party can toggle.
+ */
+const FeedbackThread = ({
+  feedbackId,
+  resolvedAt: initialResolvedAt,
+  isReplying,
+  onReplyingChange,
+  onResolvedChange,
+  compact = false,
+}: FeedbackThreadProps) => {
+  const [replies, setReplies] = useState<FeedbackReply[]>([]);
+  const [resolvedAt, setResolvedAt] = useState<Date | null>(initialResolvedAt || null);
+  const [replyText, setReplyText] = useState("");
+  const [audioBlob, setAudioBlob] = useState<Blob | null>(null); // Recorded reply, before posting
+  const [isRecording, setIsRecording] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [playingId, setPlayingId] = useState<string | null>(null); // Reply whose audio is playing
+
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const audioChunksRef = useRef<BlobPart[]>([]);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  // Load the thread
+  useEffect(() => {
+    let isCancelled = false;
+    getFeedbackReplies(feedbackId).then((result) => {
+      if (!isCancelled) {
+        setReplies(result);
+      }
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [feedbackId]);
+
+  useEffect(() => {
+    setResolvedAt(initialResolvedAt || null);
+  }, [initialResolvedAt]);
+
+  // Stop playback and recording when the thread goes away
+  useEffect(
+    () => () => {
+      audioRef.current?.pause();
+      mediaRecorderRef.current?.stream
+        .getTracks()
+        .forEach((track) => track.stop());
+    },
+    [],
+  );
+
+  const formatDate = (date: Date) =>
+    `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`;
+
+  const startRecording = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mediaRecorder = new MediaRecorder(stream);
+      mediaRecorderRef.current = mediaRecorder;
+      audioChunksRef.current = [];
+
+      mediaRecorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+          audioChunksRef.current.push(event.data);
+        }
+      };
+      mediaRecorder.onstop = () => {
+        setAudioBlob(new Blob(audioChunksRef.current, { type: "audio/webm" }));
+      };
+
+      mediaRecorder.start();
+      setIsRecording(true);
+    } catch (error) {
+      console.error("Error starting recording:", error);
+    }
+  };
+
+  const stopRecording = () => {
+    const mediaRecorder = mediaRecorderRef.current;
+    if (mediaRecorder && mediaRecorder.state !== "inactive") {
+      mediaRecorder.stop();
+      mediaRecorder.stream.getTracks().forEach((track) => track.stop());
+    }
+    setIsRecording(false);
+  };
+
+  // Play a recorded reply through a freshly signed URL
+  const togglePlayback = async (reply: FeedbackReply) => {
+    audioRef.current?.pause();
+    audioRef.current = null;
+
+    if (playingId === reply.id || !reply.audioPath) {
+      setPlayingId(null);
+      return;
+    }
+
+    setPlayingId(reply.id);
+    const signedUrl = await getSignedAudioUrl(reply.audioPath);
+    if (!signedUrl) {
+      setPlayingId(null);
+      return;
+    }
+
+    const audio = new Audio(signedUrl.url);
+    audio.onended = () => setPlayingId(null);
+    audio.onerror = () => setPlayingId(null);
+    audioRef.current = audio;
+    audio.play().catch((error) => {
+      console.error("Error playing reply:", error);
+      setPlayingId(null);
+    });
+  };
+
+  const closeReplyForm = () => {
+    stopRecording();
+    setReplyText("");
+    setAudioBlob(null);
+    onReplyingChange(false);
+  };
+
+  const sendReply = async () => {
+    if (!replyText.trim() && !audioBlob) return;
+
+    setIsSending(true);
+    try {
+      const reply = await addFeedbackReply(
+        feedbackId,
+        replyText,
+        audioBlob || undefined,
+      );
+      setReplies((current) => [...current, reply]);
+      closeReplyForm();
+    } catch (error) {
+      console.error("Error sending reply:", error);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const toggleResolved = async () => {
+    const result = await setFeedbackResolved(feedbackId, !resolvedAt);
+    setResolvedAt(result);
+    onResolvedChange?.(result);
+  };
+
+  const avatarSize = compact ? "h-6 w-6" : "h-8 w-8";
+
+  return (
+    <div className={compact ? "space-y-2" : "mt-3 pl-12 space-y-3"}>
+      {/* Replies, oldest first */}
+      {replies.map((reply) => (
+        <div key={reply.id} className="flex items-start gap-2">
+          <Avatar className={avatarSize}>
+            <AvatarImage
+              src={`https://api.dicebear.com/7.x/avataaars/svg?seed=${reply.author.avatar}`}
+              alt={reply.author.name}
+            />
+            <AvatarFallback>{reply.author.name[0]}</AvatarFallback>
+          </Avatar>
+          <div className="flex-1 min-w-0 bg-white border rounded-md px-3 py-2">
+            <p className="text-xs text-gray-500">
+              <span className="font-medium text-gray-700">
+                {reply.author.name}
+              </span>{" "}
+              · {formatDate(reply.createdAt)}
+            </p>
+            {reply.text && (
+              <p className={`${compact ? "text-xs" : "text-sm"} mt-1 whitespace-pre-wrap`}>
+                {reply.text}
+              </p>
+            )}
+            {reply.audioPath && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 mt-1 text-xs text-blue-600"
+                onClick={() => togglePlayback(reply)}
+              >
+                {playingId === reply.id ? (
+                  <Pause size={12} className="mr-1" />
+                ) : (
+                  <Play size={12} className="mr-1" />
+                )}
+                Audio reply
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {/* Reply form */}
+      {isReplying && (
+        <div className="bg-gray-50 p-3 rounded-md space-y-2">
+          <Textarea
+            placeholder="Type your reply here..."
+            value={replyText}
+            onChange={(e) => setReplyText(e.target.value)}
+            rows={compact ? 2 : 3}
+            className="text-sm"
+            autoFocus
+          />
+          {audioBlob && (
+            <div className="flex items-center gap-2 text-xs text-blue-700 bg-blue-50 rounded-md px-2 py-1">
+              <Mic size={12} />
+              Audio reply recorded
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 ml-auto text-red-500 hover:text-red-700"
+                onClick={() => setAudioBlob(null)}
+                title="Remove recording"
+              >
+                <X size={12} />
+              </Button>
+            </div>
+          )}
+          <div className="flex items-center justify-between gap-2">
+            {!audioBlob && (
+              <Button
+                variant={isRecording ? "destructive" : "outline"}
+                size="sm"
+                onClick={isRecording ? stopRecording : startRecording}
+              >
+                <Mic
+                  size={14}
+                  className={`mr-1 ${isRecording ? "animate-pulse" : ""}`}
+                />
+                {isRecording ? "Stop Recording" : "Record"}
+              </Button>
+            )}
+            <div className="flex gap-2 ml-auto">
+              <Button variant="outline" size="sm" onClick={closeReplyForm}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={sendReply}
+                disabled={
+                  isSending || isRecording || (!replyText.trim() && !audioBlob)
+                }
+              >
+                <Send size={14} className="mr-1" /> Reply
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Thread actions */}
+      <div className="flex items-center gap-2">
+        {resolvedAt && (
+          <span className="text-xs text-green-700 flex items-center">
+            <CheckCircle2 size={12} className="mr-1" />
+            Resolved {resolvedAt.toLocaleDateString()}
+          </span>
+        )}
+        <div className="flex gap-1 ml-auto">
+          {!isReplying && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => onReplyingChange(true)}
+            >
+              <MessageSquare size={12} className="mr-1" /> Reply
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={toggleResolved}
+          >
+            {resolvedAt ? (
+              <>
+                <RotateCcw size={12} className="mr-1" /> Reopen
+              </>
+            ) : (
+              <>
+                <CheckCircle2 size={12} className="mr-1" /> Resolve
+              </>
+            )}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FeedbackThread;
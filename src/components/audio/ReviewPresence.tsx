@@ -0,0 +1,85 @@
+import React from "react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Radio } from "lucide-react";
+import { ReviewViewer } from "@/lib/api";
+
+interface ReviewPresenceProps {
+  viewers: ReviewViewer[];            // Others who have the session open
+  followers: ReviewViewer[];          // Those following the current user's playback
+  followingId: string | null;         // Viewer whose playback the current user follows
+  onFollow: (viewerId: string | null) => void;
+}
+
+/**
+ * ReviewPresence Component
+ *
+ * Avatars of everyone else viewing the session. Clicking an avatar follows
+ * that viewer's playback; clicking it again stops.
+ */
+const ReviewPresence = ({
+  viewers,
+  followers,
+  followingId,
+  onFollow,
+}: ReviewPresenceProps) => {
+  if (viewers.length === 0) return null;
+
+  const leader = viewers.find((viewer) => viewer.userId === followingId);
+
+  return (
+    <div className="flex items-center gap-3">
+      {leader ? (
+        <span className="flex items-center text-xs text-blue-600">
+          <Radio className="h-3 w-3 mr-1" />
+          Following {leader.name}
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 ml-1 text-xs"
+            onClick={() => onFollow(null)}
+          >
+            Stop
+          </Button>
+        </span>
+      ) : (
+        followers.length > 0 && (
+          <span className="flex items-center text-xs text-gray-500">
+            <Radio className="h-3 w-3 mr-1" />
+            {followers.map((follower) => follower.name).join(", ")} following
+            your playback
+          </span>
+        )
+      )}
+      <div className="flex -space-x-2">
+        {viewers.map((viewer) => {
+          const isFollowed = viewer.userId === followingId;
+          return (
+            <button
+              key={viewer.userId}
+              className={`rounded-full ring-2 ${
+                isFollowed ? "ring-blue-500" : "ring-white"
+              }`}
+              title={
+                isFollowed
+                  ? `Stop following ${viewer.name}`
+                  : `${viewer.name} is viewing. Click to follow their playback`
+              }
+              onClick={() => onFollow(isFollowed ? null : viewer.userId)}
+            >
+              <Avatar className="h-8 w-8">
+                <AvatarImage
+                  src={`https://api.dicebear.com/7.x/avataaars/svg?seed=${viewer.avatar}`}
+                  alt={viewer.name}
+                />
+                <AvatarFallback>{viewer.name[0]?.toUpperCase()}</AvatarFallback>
+              </Avatar>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewPresence;
@@ -0,0 +1,303 @@
+import React, { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ClipboardList, Link2, X } from "lucide-react";
+import {
+  getRubricForSessionType,
+  getRubricScores,
+  RubricScore,
+  RubricTemplate,
+  saveRubricScore,
+} from "@/lib/api";
+
+/**
+ * RubricScoring Props
+ */
+interface RubricScoringProps {
+  sessionId: string;
+  sessionType?: string;         // Picks the rubric template
+  feedback: {                   // Feedback that can be cited as evidence
+    id: string;
+    timestamp: number;
+    title?: string;
+    text: string;
+  }[];
+  canScore: boolean;            // Whether the user is the session's supervisor
+  onEvidenceClick?: (feedbackId: string) => void; // Jump to a cited feedback item
+  className?: string;
+}
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = Math.floor(seconds % 60);
+  return `${minutes}:${remainingSeconds < 10 ? "0" : ""}${remainingSeconds}`;
+};
+
+/**
+ * RubricScoring Component
+ *
+ * Scores a session against the competency rubric for its session type.
+ * The supervisor picks a score per criterion, adds a comment and links
+ * feedback items as evidence; the counselor sees the result read-only.
+ * Every change is saved right away.
+ */
+const RubricScoring = ({
+  sessionId,
+  sessionType,
+  feedback,
+  canScore,
+  onEvidenceClick,
+  className = "",
+}: RubricScoringProps) => {
+  const [rubric, setRubric] = useState<RubricTemplate | null>(null);
+  const [scores, setScores] = useState<Record<string, RubricScore>>({}); // Keyed by criterion ID
+  const [commentDrafts, setCommentDrafts] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setIsLoading(true);
+
+    Promise.all([
+      getRubricForSessionType(sessionType),
+      getRubricScores(sessionId),
+    ]).then(([template, sessionScores]) => {
+      if (isCancelled) return;
+      setRubric(template);
+      setScores(
+        Object.fromEntries(sessionScores.map((score) => [score.criterionId, score])),
+      );
+      setCommentDrafts(
+        Object.fromEntries(
+          sessionScores.map((score) => [score.criterionId, score.comment || ""]),
+        ),
+      );
+      setIsLoading(false);
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [sessionId, sessionType]);
+
+  const saveScore = async (
+    criterionId: string,
+    changes: Partial<Omit<RubricScore, "criterionId">> | null,
+  ) => {
+    const current = scores[criterionId];
+    const next = changes && {
+      score: changes.score ?? current?.score,
+      comment: changes.comment ?? current?.comment,
+      evidenceFeedbackIds:
+        changes.evidenceFeedbackIds ?? current?.evidenceFeedbackIds ?? [],
+    };
+
+    const saved = await saveRubricScore(sessionId, criterionId, next);
+    setScores((currentScores) => {
+      const { [criterionId]: _, ...rest } = currentScores;
+      return saved ? { ...rest, [criterionId]: saved } : rest;
+    });
+    if (!saved) {
+      setCommentDrafts((drafts) => ({ ...drafts, [criterionId]: "" }));
+    }
+  };
+
+  // Clicking the current score again clears it
+  const handleScoreClick = (criterionId: string, value: number) => {
+    saveScore(
+      criterionId,
+      scores[criterionId]?.score === value ? null : { score: value },
+    );
+  };
+
+  const handleCommentBlur = (criterionId: string) => {
+    const comment = (commentDrafts[criterionId] || "").trim();
+    if (comment !== (scores[criterionId]?.comment || "")) {
+      saveScore(criterionId, { comment });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-4 text-center text-gray-500">Loading rubric...</div>
+    );
+  }
+
+  if (!rubric) {
+    return (
+      <div className="p-8 text-center text-gray-500">
+        <ClipboardList className="mx-auto h-8 w-8 mb-2 opacity-50" />
+        <p>No rubric has been set up for {sessionType || "this type of"} sessions.</p>
+      </div>
+    );
+  }
+
+  const scoredValues = Object.values(scores).map((score) => score.score);
+  const average =
+    scoredValues.length > 0
+      ? scoredValues.reduce((sum, value) => sum + value, 0) / scoredValues.length
+      : null;
+
+  return (
+    <ScrollArea className={className}>
+      <div className="p-4 space-y-4">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <h3 className="font-medium">{rubric.name}</h3>
+            {rubric.description && (
+              <p className="text-sm text-gray-500">{rubric.description}</p>
+            )}
+          </div>
+          <div className="text-right shrink-0">
+            <div className="text-lg font-semibold">
+              {average !== null ? average.toFixed(1) : "–"}
+              <span className="text-sm font-normal text-gray-500">
+                {" "}
+                / {rubric.scaleMax}
+              </span>
+            </div>
+            <p className="text-xs text-gray-500">
+              {scoredValues.length} of {rubric.criteria.length} scored
+            </p>
+          </div>
+        </div>
+
+        {rubric.criteria.map((criterion) => {
+          const score = scores[criterion.id];
+          const evidence = feedback.filter((item) =>
+            score?.evidenceFeedbackIds.includes(item.id),
+          );
+          const linkable = feedback.filter(
+            (item) => !score?.evidenceFeedbackIds.includes(item.id),
+          );
+
+          return (
+            <div key={criterion.id} className="border rounded-lg p-3 space-y-2">
+              <div>
+                <p className="font-medium text-sm">{criterion.name}</p>
+                {criterion.description && (
+                  <p className="text-xs text-gray-500">
+                    {criterion.description}
+                  </p>
+                )}
+              </div>
+
+              {/* Score */}
+              <div className="flex gap-1">
+                {Array.from({ length: rubric.scaleMax }, (_, i) => i + 1).map(
+                  (value) => (
+                    <Button
+                      key={value}
+                      variant={score?.score === value ? "default" : "outline"}
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      disabled={!canScore}
+                      onClick={() => handleScoreClick(criterion.id, value)}
+                    >
+                      {value}
+                    </Button>
+                  ),
+                )}
+              </div>
+
+              {/* Comment */}
+              {canScore && score ? (
+                <Textarea
+                  placeholder="Comment on this score (optional)"
+                  value={commentDrafts[criterion.id] || ""}
+                  onChange={(e) =>
+                    setCommentDrafts((drafts) => ({
+                      ...drafts,
+                      [criterion.id]: e.target.value,
+                    }))
+                  }
+                  onBlur={() => handleCommentBlur(criterion.id)}
+                  rows={2}
+                  className="text-sm"
+                />
+              ) : (
+                score?.comment && (
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                    {score.comment}
+                  </p>
+                )
+              )}
+
+              {/* Evidence */}
+              {evidence.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {evidence.map((item) => (
+                    <Badge
+                      key={item.id}
+                      variant="secondary"
+                      className="cursor-pointer gap-1 font-normal"
+                      onClick={() => onEvidenceClick?.(item.id)}
+                    >
+                      <Link2 size={12} />
+                      {formatTime(item.timestamp)}
+                      <span className="max-w-[120px] truncate">
+                        {item.title || item.text}
+                      </span>
+                      {canScore && (
+                        <button
+                          className="ml-1 hover:text-red-600"
+                          title="Remove evidence"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            saveScore(criterion.id, {
+                              evidenceFeedbackIds: score.evidenceFeedbackIds.filter(
+                                (id) => id !== item.id,
+                              ),
+                            });
+                          }}
+                        >
+                          <X size={12} />
+                        </button>
+                      )}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              {canScore && score && linkable.length > 0 && (
+                <Select
+                  value=""
+                  onValueChange={(feedbackId) =>
+                    saveScore(criterion.id, {
+                      evidenceFeedbackIds: [
+                        ...score.evidenceFeedbackIds,
+                        feedbackId,
+                      ],
+                    })
+                  }
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue placeholder="Link feedback as evidence" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {linkable.map((item) => (
+                      <SelectItem key={item.id} value={item.id}>
+                        {formatTime(item.timestamp)} –{" "}
+                        {(item.title || item.text).slice(0, 60)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </ScrollArea>
+  );
+};
+
+export default RubricScoring;
@@ -0,0 +1,90 @@
+import React from "react";
+import { ReactionType } from "@/lib/api";
+import { SegmentReactionCount } from "./useSegmentReactions";
+
+// The reactions on offer, in display order
+export const REACTIONS: { type: ReactionType; emoji: string; label: string }[] = [
+  { type: "like", emoji: "👍", label: "Well done" },
+  { type: "insightful", emoji: "💡", label: "Insightful" },
+  { type: "question", emoji: "❓", label: "Question" },
+  { type: "concern", emoji: "⚠️", label: "Concern" },
+];
+
+interface SegmentReactionPickerProps {
+  counts?: SegmentReactionCount[];  // Current reactions on the segment
+  onToggle: (reaction: ReactionType) => void;
+}
+
+/**
+ * SegmentReactionPicker Component
+ *
+ * One button per reaction type, for the segment toolbar. Reactions the user
+ * already gave are highlighted; clicking one again takes it back.
+ */
+export const SegmentReactionPicker = ({
+  counts = [],
+  onToggle,
+}: SegmentReactionPickerProps) => (
+  <>
+    {REACTIONS.map(({ type, emoji, label }) => {
+      const isMine = counts.some((count) => count.reaction === type && count.mine);
+      return (
+        <button
+          key={type}
+          className={`p-1 rounded text-sm leading-none ${
+            isMine ? "bg-yellow-100" : "hover:bg-gray-100"
+          }`}
+          title={label}
+          aria-pressed={isMine}
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggle(type);
+          }}
+        >
+          {emoji}
+        </button>
+      );
+    })}
+  </>
+);
+
+interface SegmentReactionCountsProps {
+  counts?: SegmentReactionCount[];
+  onToggle?: (reaction: ReactionType) => void;
+}
+
+/**
+ * SegmentReactionCounts Component
+ *
+ * Compact emoji + count chips for the reactions a segment received.
+ */
+const SegmentReactionCounts = ({ counts = [], onToggle }: SegmentReactionCountsProps) => {
+  if (counts.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-1">
+      {counts.map(({ reaction, count, mine }) => {
+        const { emoji, label } = REACTIONS.find((item) => item.type === reaction);
+        return (
+          <button
+            key={reaction}
+            className={`flex items-center gap-0.5 rounded-full border px-1.5 text-xs ${
+              mine ? "border-yellow-400 bg-yellow-50" : "border-gray-200"
+            }`}
+            title={mine ? `${label} (click to undo)` : label}
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggle?.(reaction);
+            }}
+            onMouseDown={(e) => e.stopPropagation()}
+          >
+            <span>{emoji}</span>
+            <span className="font-medium text-gray-600">{count}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SegmentReactionCounts;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from "react";
+import React, { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import {
   Card,
   CardContent,
@@ -23,14 +23,59 @@ import {
   Pause,
   X,
   ThumbsUp,
+  Eye,
+  EyeOff,
+  Lock,
 } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/components/ui/use-toast";
+import { ToastAction } from "@/components/ui/toast";
 import AudioPlayer from "./AudioPlayer";
 import MiniPlayer from "./MiniPlayer";
 import FeedbackPanel from "./FeedbackPanel";
-import Transcript from "./Transcript";
+import RubricScoring from "./RubricScoring";
+import FeedbackTagPicker from "./FeedbackTagPicker";
+import { useFeedbackTags } from "./useFeedbackTags";
+import { REACTIONS } from "./SegmentReactions";
+import { useSegmentReactions } from "./useSegmentReactions";
+import ReviewPresence from "./ReviewPresence";
+import SupervisionRequests from "./SupervisionRequests";
+import { useReviewRoom } from "./useReviewRoom";
+import Transcript, { getSpeakerLabel } from "./Transcript";
+import TranscriptRevisionHistory from "./TranscriptRevisionHistory";
+import { useSignedAudioUrl } from "./useSignedAudioUrl";
 import { Session } from "./SessionList";
+import { useAuth } from "../../../supabase/auth";
+import { useEncryption } from "@/context/EncryptionContext";
+import {
+  assignSegmentsToSpeaker,
+  completeSupervision,
+  editTranscriptSegment,
+  FeedbackChanges,
+  FeedbackTag,
+  getRedactionRanges,
+  getSpeakerRoles,
+  getSupervisors,
+  getTranscriptForSession,
+  getWaveformPeaks,
+  mergeSpeakers,
+  mergeTranscriptSegments,
+  ReactionType,
+  reassignSupervisor,
+  RedactionRange,
+  redactTranscript,
+  shareSessionKey,
+  SpeakerRole,
+  SpeakerRoles,
+  splitTranscriptSegment,
+  Supervisor,
+  TranscriptSegment,
+  TranscriptSegmentChanges,
+  updateSpeakerRoles,
+  WaveformPeaks,
+} from "@/lib/api";
 
 /**
  * FeedbackItem Interface
@@ -44,28 +89,19 @@ interface FeedbackItem {
   timestamp: number;          // Position in seconds where the feedback starts
   endTimestamp?: number;      // Optional end position for segment feedback
   text: string;               // The text content of the feedback
-  audioResponse?: string;     // Optional URL to an audio response from the counselor
   audioFeedback?: string;     // Optional URL to an audio recording of the feedback
   author: {                   // Information about who provided the feedback
     name: string;             // Supervisor's name
     avatar: string;           // Supervisor's avatar image identifier
   };
+  authorId?: string;          // User ID of the author
   createdAt: Date;            // When the feedback was created
+  resolvedAt?: Date;          // When the discussion was marked resolved
+  editedAt?: Date;            // When the feedback was last edited
+  deletedAt?: Date;           // When the feedback was deleted (only admins see deleted feedback)
+  tags?: FeedbackTag[];       // Categories and techniques; the first one colors the marker
   isGeneral?: boolean;        // Whether this is general feedback vs. timestamp-specific
-}
-
-/**
- * TranscriptSegment Interface
- * 
- * Represents a segment of the session transcript with timing information.
- * The transcript helps users navigate the audio and understand the content.
- */
-interface TranscriptSegment {
-  id: string;                 // Unique identifier for the segment
-  start: number;              // Start time in seconds
-  end: number;                // End time in seconds
-  text: string;               // The transcribed text content
-  speaker?: string;           // Who is speaking in this segment (e.g., "Counselor" or "Client")
+  segmentId?: string;         // Transcript segment it was left on; kept through splits and merges
 }
 
 /**
@@ -89,7 +125,7 @@ interface TranscriptSelection {
  */
 interface SessionDetailProps {
   session: Session;           // The counseling session being reviewed
-  audioUrl: string;           // URL to the audio recording
+  audioUrl: string;           // Storage path (or plain URL) of the audio recording
   feedback: FeedbackItem[];   // Array of existing feedback items
   onBack: () => void;         // Function to navigate back to the sessions list
   onAddFeedback?: (           // Function called when new feedback is added
@@ -99,11 +135,20 @@ interface SessionDetailProps {
     endTimestamp?: number,    // Optional end timestamp for segment feedback
     audioBlob?: Blob,         // Optional audio recording of the feedback
     isGeneral?: boolean,      // Whether this is general feedback vs. timestamp-specific
+    tagIds?: string[],        // Tags chosen for the feedback
+    segmentId?: string,       // Transcript segment the feedback was left on
   ) => void;
-  onAddAudioResponse?: (      // Function called when a response is added to feedback
-    audioBlob: Blob,          // The audio response recording
-    feedbackId: string        // ID of the feedback being responded to
+  onEditFeedback?: (          // Function called when the author saves changes to feedback
+    feedbackId: string,
+    changes: FeedbackChanges,
   ) => void;
+  onDeleteFeedback?: (feedbackId: string) => void;  // Function called when the author deletes feedback
+  onRestoreFeedback?: (feedbackId: string) => void; // Admins only: restore deleted feedback
+  onSessionChange?: (         // Called when the session is updated, e.g. reassigned to another supervisor
+    changes: Partial<Session>
+  ) => void;
+  initialTimestamp?: number;  // Seconds to start the recording at, e.g. from a search hit
+  initialFeedbackId?: string; // Feedback to select when the session opens
   className?: string;         // Optional CSS class name for styling
 }
 
@@ -121,7 +166,12 @@ const SessionDetail = ({
   feedback,
   onBack,
   onAddFeedback,
-  onAddAudioResponse,
+  onEditFeedback,
+  onDeleteFeedback,
+  onRestoreFeedback,
+  onSessionChange,
+  initialTimestamp,
+  initialFeedbackId,
   className,
 }: SessionDetailProps) => {
   // Playback state
@@ -139,6 +189,8 @@ const SessionDetail = ({
   const [showFeedbackForm, setShowFeedbackForm] = useState(false); // Whether to show the feedback form
   const [feedbackTitle, setFeedbackTitle] = useState("");        // Title for new feedback
   const [feedbackText, setFeedbackText] = useState("");          // Content for new feedback
+  const [feedbackTagIds, setFeedbackTagIds] = useState<string[]>([]); // Tags for new feedback
+  const availableTags = useFeedbackTags();
   
   // General comment state
   const [generalComment, setGeneralComment] = useState("");      // General comment on the session
@@ -147,6 +199,7 @@ const SessionDetail = ({
   // UI state
   const [feedbackToSegmentMap, setFeedbackToSegmentMap] = useState<Record<string, FeedbackItem[]>>({}); // Maps transcript segments to feedback
   const [isFeedbackPanelMinimized, setIsFeedbackPanelMinimized] = useState(false); // Whether the feedback panel is minimized
+  const [activePanelTab, setActivePanelTab] = useState("feedback"); // Feedback or rubric scoring
   
   // Audio recording state
   const [isRecordingFeedback, setIsRecordingFeedback] = useState(false); // Whether currently recording feedback
@@ -159,55 +212,292 @@ const SessionDetail = ({
   const audioChunksRef = useRef<BlobPart[]>([]);                // Storage for audio chunks during recording
   const audioRef = useRef<HTMLAudioElement>(null);              // Reference to the audio element
   const fullPlayerRef = useRef<HTMLDivElement>(null);           // Reference to the player container
-  
-  // Track which transcript segments the user has liked
-  const [likedSegments, setLikedSegments] = useState<string[]>([]);
 
   /**
    * Separate feedback into general and specific categories
    * General feedback applies to the entire session
    * Specific feedback is tied to particular timestamps
+   * Deleted feedback (which only admins receive) stays in the feedback panel
    */
-  const generalFeedback = feedback.filter((item) => item.isGeneral);
-  const specificFeedback = feedback.filter((item) => !item.isGeneral);
-
-  // Mock transcript data - in a real app, this would come from an API or database
-  const [transcriptSegments, setTranscriptSegments] = useState<TranscriptSegment[]>([
-    {
-      id: "segment-1",
-      start: 0,
-      end: 15,
-      text: "Hello and welcome to today's session. How have you been feeling since our last meeting?",
-      speaker: "Counselor",
-    },
-    {
-      id: "segment-2",
-      start: 16,
-      end: 30,
-      text: "I've been doing okay, I guess. The exercises you suggested helped a bit with my anxiety, but I still had a few difficult moments this week.",
-      speaker: "Client",
-    },
-    {
-      id: "segment-3",
-      start: 31,
-      end: 45,
-      text: "I'm glad to hear the exercises were helpful. Can you tell me more about those difficult moments?",
-      speaker: "Counselor",
+  const activeFeedback = feedback.filter((item) => !item.deletedAt);
+  const generalFeedback = activeFeedback.filter((item) => item.isGeneral);
+  const specificFeedback = activeFeedback.filter((item) => !item.isGeneral);
+
+  // Transcript segments for this session, loaded from the database
+  const [transcriptSegments, setTranscriptSegments] = useState<TranscriptSegment[]>([]);
+  const [isTranscriptLoading, setIsTranscriptLoading] = useState(true);
+  const [speakerRoles, setSpeakerRoles] = useState<SpeakerRoles>({}); // Maps diarized speaker IDs to roles
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false); // Whether the transcript history dialog is open
+  const [redactionRanges, setRedactionRanges] = useState<RedactionRange[]>([]); // Audio ranges bleeped for PII
+  const [showOriginal, setShowOriginal] = useState(false); // Owner only: show unredacted transcript and audio
+  const [transcriptMatches, setTranscriptMatches] = useState<{
+    times: number[];
+    activeIndex: number | null;
+  }>({ times: [], activeIndex: null }); // Find-in-transcript matches, ticked on the player
+
+  // Only the counselor who owns the recording may see or correct the unredacted original
+  const { user, isSupervisor } = useAuth();
+  const isOwner = !session.userId || session.userId === user?.id;
+  const isRedacted = transcriptSegments.some((segment) => segment.redactedText);
+  const canCorrectTranscript = !isRedacted || (isOwner && showOriginal);
+
+  // Everyone else plays the copy bleeped on the server. The owner plays the
+  // original when asking for it or while the copy is being rendered.
+  const playsOriginal =
+    isOwner && (showOriginal || !session.redactedAudioPath);
+  const playbackPath = playsOriginal ? audioUrl : session.redactedAudioPath;
+
+  // Short-lived signed URL for the private recording, renewed before it expires
+  const { url: signedAudioUrl, renewIfExpired: renewAudioUrl } =
+    useSignedAudioUrl(playbackPath);
+
+  const { countsBySegment: reactionCounts, toggleReaction } = useSegmentReactions(
+    session.id,
+    user?.id,
+  );
+
+  // Who else has the session open, and whose playback we follow
+  const viewer = useMemo(
+    () =>
+      user && {
+        userId: user.id,
+        name: user.user_metadata?.full_name || user.email || "Unknown",
+        avatar: user.email || user.id,
+      },
+    [user?.id],
+  );
+  const audioElementRef = useRef<HTMLAudioElement | null>(null); // The player's audio element, for following playback
+  const { viewers, followers, followingId, follow } = useReviewRoom(
+    session.id,
+    viewer,
+    audioElementRef,
+  );
+
+  // Opening a feedback form brings the feedback tab to the front
+  useEffect(() => {
+    if (showFeedbackForm || showGeneralCommentForm) {
+      setActivePanelTab("feedback");
+    }
+  }, [showFeedbackForm, showGeneralCommentForm]);
+
+  // Encrypted recordings need the session key, unwrapped with the user's private key
+  const { unlockSessionKey } = useEncryption();
+  const { toast } = useToast();
+  const [sessionKey, setSessionKey] = useState<CryptoKey | null>(null);
+  const [keyError, setKeyError] = useState<string | null>(null);
+  const [supervisors, setSupervisors] = useState<Supervisor[]>([]); // Owner only: supervisors to reassign to
+  const [isReassigning, setIsReassigning] = useState(false);
+
+  const unlockRecording = useCallback(() => {
+    if (!session.isEncrypted) return;
+
+    let isCancelled = false;
+    setKeyError(null);
+    unlockSessionKey(session.id, session.keyVersion || 1)
+      .then((key) => {
+        if (isCancelled) return;
+        setSessionKey(key);
+        // Supervisors who set up encryption after the upload get their copy
+        // the next time the owner opens the session
+        if (isOwner && session.supervisor?.id) {
+          shareSessionKey(session.id, session.keyVersion || 1, key, [
+            session.supervisor.id,
+          ]).catch((error) =>
+            console.error("Error sharing key with supervisor:", error),
+          );
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          setKeyError(error.message);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [session.id, session.keyVersion, session.isEncrypted]);
+
+  // Unlock the recording whenever a different session (or key version) is opened
+  useEffect(() => {
+    setSessionKey(null);
+    return unlockRecording();
+  }, [unlockRecording]);
+
+  // Waveform peaks are precomputed when the recording is processed
+  const [peaks, setPeaks] = useState<WaveformPeaks | null>(null);
+  useEffect(() => {
+    setPeaks(null);
+    if (!session.peaksPath) return;
+
+    let isCancelled = false;
+    getWaveformPeaks(session.peaksPath).then((result) => {
+      if (!isCancelled) {
+        setPeaks(result);
+      }
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [session.peaksPath]);
+
+  // Links such as search hits open the session at a given moment
+  useEffect(() => {
+    if (initialFeedbackId) {
+      setSelectedFeedbackId(initialFeedbackId);
+    }
+
+    const audio = document.querySelector("audio");
+    if (initialTimestamp === undefined || !audio) return;
+
+    const seek = () => {
+      audio.currentTime = initialTimestamp;
+      setCurrentTimestamp(initialTimestamp);
+    };
+    // Seeking only sticks once the recording's metadata has loaded
+    if (audio.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      seek();
+      return;
+    }
+    audio.addEventListener("loadedmetadata", seek, { once: true });
+    return () => audio.removeEventListener("loadedmetadata", seek);
+  }, [session.id, initialTimestamp, initialFeedbackId]);
+
+  // The owner can ask other supervisors and hand the session over
+  useEffect(() => {
+    if (isOwner) {
+      getSupervisors().then(setSupervisors);
+    }
+  }, [isOwner]);
+
+  /**
+   * Hand the session over to a supervisor who accepted a request for it.
+   * Encrypted recordings are re-encrypted with a fresh key so the previous
+   * supervisor loses access.
+   */
+  const handleReassignSupervisor = async (supervisorId: string) => {
+    const supervisor = supervisors.find((item) => item.id === supervisorId);
+    if (!supervisor || supervisorId === session.supervisor?.id) return;
+
+    setIsReassigning(true);
+    try {
+      const changes = await reassignSupervisor(
+        session,
+        supervisorId,
+        sessionKey || undefined,
+      );
+      onSessionChange?.({
+        ...changes,
+        supervisor: {
+          id: supervisor.id,
+          name: supervisor.name,
+          avatar: supervisor.avatar,
+        },
+      });
+      toast({
+        title: "Supervisor changed",
+        description: `${supervisor.name} can now review this session.`,
+      });
+    } catch (error) {
+      console.error("Error reassigning supervisor:", error);
+      toast({
+        title: "Could not change supervisor",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsReassigning(false);
+    }
+  };
+
+  // Only the session's supervisor completes the review
+  const isReviewer = !!user && session.supervisor?.id === user.id;
+  const [isCompleting, setIsCompleting] = useState(false);
+
+  const handleCompleteReview = async () => {
+    setIsCompleting(true);
+    try {
+      await completeSupervision(session.id);
+      onSessionChange?.({ status: "completed" });
+      toast({
+        title: "Review completed",
+        description: "The counselor has been notified.",
+      });
+    } catch (error) {
+      console.error("Error completing review:", error);
+      toast({
+        title: "Could not complete review",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsCompleting(false);
+    }
+  };
+
+  // Load the transcript whenever a different session is opened
+  useEffect(() => {
+    let isCancelled = false;
+    setIsTranscriptLoading(true);
+
+    Promise.all([
+      getTranscriptForSession(session.id),
+      getSpeakerRoles(session.id),
+      getRedactionRanges(session.id),
+    ]).then(([segments, roles, ranges]) => {
+      if (!isCancelled) {
+        setTranscriptSegments(segments);
+        setSpeakerRoles(roles);
+        setRedactionRanges(ranges);
+        setShowOriginal(false);
+        setIsTranscriptLoading(false);
+      }
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [session.id]);
+
+  // Segments as shown in the transcript: redacted unless the owner asked for the original
+  const displayedSegments = showOriginal
+    ? transcriptSegments
+    : transcriptSegments.map((segment) =>
+        segment.redactedText
+          ? { ...segment, text: segment.redactedText }
+          : segment,
+      );
+
+  /**
+   * Talk time per speaker label, used for the counselor/client talk-time ratio
+   */
+  const talkTime = transcriptSegments.reduce<Record<string, number>>(
+    (totals, segment) => {
+      if (!segment.speaker) return totals;
+      const label = getSpeakerLabel(segment.speaker, speakerRoles);
+      totals[label] = (totals[label] || 0) + (segment.end - segment.start);
+      return totals;
     },
-    // Additional transcript segments would be here in a real implementation
-  ]);
+    {},
+  );
+  const totalTalkTime = Object.values(talkTime).reduce(
+    (sum, seconds) => sum + seconds,
+    0,
+  );
 
   // Map feedback to transcript segments
   useEffect(() => {
-    // This is a simplified mapping - in a real app, you would have a more sophisticated algorithm
-    // to match feedback to transcript segments based on timestamps
+    // Feedback left on a segment stays on it through corrections; older
+    // feedback is matched by its timestamp
+    const findSegment = (item: FeedbackItem) =>
+      (item.segmentId &&
+        transcriptSegments.find((seg) => seg.id === item.segmentId)) ||
+      transcriptSegments.find(
+        (seg) => item.timestamp >= seg.start && item.timestamp <= seg.end,
+      );
+
     const segmentIds = specificFeedback
-      .map((item) => {
-        const segment = transcriptSegments.find(
-          (seg) => item.timestamp >= seg.start && item.timestamp <= seg.end,
-        );
-        return segment?.id || "";
-      })
+      .map((item) => findSegment(item)?.id || "")
       .filter((id) => id !== "");
 
     setHighlightedSegmentIds(segmentIds);
@@ -215,9 +505,7 @@ const SessionDetail = ({
     // Create a mapping of segment IDs to feedback items
     const mapping: Record<string, FeedbackItem[]> = {};
     specificFeedback.forEach((item) => {
-      const segment = transcriptSegments.find(
-        (seg) => item.timestamp >= seg.start && item.timestamp <= seg.end,
-      );
+      const segment = findSegment(item);
       if (segment) {
         if (!mapping[segment.id]) {
           mapping[segment.id] = [];
@@ -227,21 +515,6 @@ const SessionDetail = ({
     });
 
     setFeedbackToSegmentMap(mapping);
-
-    // Extract liked segments
-    const liked = specificFeedback
-      .filter(
-        (item) => item.text.includes("👍") || item.title?.includes("Liked"),
-      )
-      .map((item) => {
-        const segment = transcriptSegments.find(
-          (seg) => item.timestamp >= seg.start && item.timestamp <= seg.end,
-        );
-        return segment?.id || "";
-      })
-      .filter((id) => id !== "");
-
-    setLikedSegments(liked);
   }, [specificFeedback, transcriptSegments]);
 
   // Set up intersection observer for the full player
@@ -380,6 +653,12 @@ const SessionDetail = ({
     }
   };
 
+  const handleTranscriptMatchesChange = useCallback(
+    (times: number[], activeIndex: number | null) =>
+      setTranscriptMatches({ times, activeIndex }),
+    [],
+  );
+
   const handlePlayPause = () => {
     const audio = document.querySelector("audio");
     if (audio) {
@@ -469,6 +748,8 @@ const SessionDetail = ({
           transcriptSelection.endTime,
           undefined,
           false,
+          feedbackTagIds,
+          transcriptSelection.startId,
         );
       } else if (showGeneralCommentForm) {
         onAddFeedback(
@@ -486,9 +767,28 @@ const SessionDetail = ({
     setTranscriptSelection(null);
     setFeedbackTitle("");
     setFeedbackText("");
+    setFeedbackTagIds([]);
     setGeneralComment("");
   };
 
+  // Handle a range dragged on the waveform: select the transcript it covers
+  const handleWaveformSelection = (start: number, end: number) => {
+    const covered = displayedSegments.filter(
+      (segment) => segment.end > start && segment.start < end,
+    );
+    setTranscriptSelection({
+      startId: covered[0]?.id ?? "",
+      endId: covered[covered.length - 1]?.id ?? "",
+      startTime: start,
+      endTime: end,
+      text: covered.map((segment) => segment.text).join(" "),
+    });
+    setFeedbackTitle("");
+    setFeedbackText("");
+    setShowFeedbackForm(true);
+    setIsFeedbackPanelMinimized(false);
+  };
+
   // Handle feedback on a specific segment
   const handleFeedbackOnSegment = (segmentId: string) => {
     const segment = transcriptSegments.find((seg) => seg.id === segmentId);
@@ -506,27 +806,130 @@ const SessionDetail = ({
     }
   };
 
-  // Handle like on a segment
-  const handleLikeSegment = (segmentId: string) => {
-    const segment = transcriptSegments.find((seg) => seg.id === segmentId);
-    if (segment && onAddFeedback) {
-      onAddFeedback(
-        "Liked",
-        "👍 This part was well done.",
-        segment.start,
-        undefined,
-        undefined,
-        false,
-      );
+  // React to a segment, or take the reaction back; the toast offers an undo
+  const handleToggleReaction = async (segmentId: string, reaction: ReactionType) => {
+    const added = await toggleReaction(segmentId, reaction);
+    const { emoji, label } = REACTIONS.find((item) => item.type === reaction);
+    toast({
+      title: added ? `${emoji} ${label}` : "Reaction removed",
+      action: (
+        <ToastAction
+          altText="Undo"
+          onClick={() => toggleReaction(segmentId, reaction)}
+        >
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
 
-      // Add to liked segments immediately for UI feedback
-      setLikedSegments((prev) => {
-        if (prev.includes(segmentId)) return prev;
-        return [...prev, segmentId];
-      });
+  // Map a diarized speaker to Counselor/Client/Other
+  const handleSpeakerRoleChange = (speaker: string, role: SpeakerRole) => {
+    const nextRoles = { ...speakerRoles, [speaker]: role };
+    setSpeakerRoles(nextRoles);
+    updateSpeakerRoles(session.id, nextRoles);
+  };
+
+  // Fold one speaker into another, e.g. when diarization split a single voice in two
+  const handleMergeSpeakers = (fromSpeaker: string, intoSpeaker: string) => {
+    setTranscriptSegments((prev) =>
+      prev.map((segment) =>
+        segment.speaker === fromSpeaker
+          ? { ...segment, speaker: intoSpeaker }
+          : segment,
+      ),
+    );
+    mergeSpeakers(session.id, fromSpeaker, intoSpeaker);
+
+    if (speakerRoles[fromSpeaker]) {
+      const { [fromSpeaker]: _removed, ...nextRoles } = speakerRoles;
+      setSpeakerRoles(nextRoles);
+      updateSpeakerRoles(session.id, nextRoles);
     }
   };
 
+  // Move segments to another (possibly new) speaker to split a speaker apart
+  const handleReassignSegments = (segmentIds: string[], speaker: string) => {
+    setTranscriptSegments((prev) =>
+      prev.map((segment) =>
+        segmentIds.includes(segment.id) ? { ...segment, speaker } : segment,
+      ),
+    );
+    assignSegmentsToSpeaker(segmentIds, speaker);
+  };
+
+  // Corrections can add or remove PII, so redo the redaction pass afterwards
+  const refreshRedaction = async () => {
+    const result = await redactTranscript(session.id);
+    if (!result) return;
+
+    setTranscriptSegments((prev) =>
+      prev.map((segment) => ({
+        ...segment,
+        redactedText: result.redactedText[segment.id],
+      })),
+    );
+    setRedactionRanges(result.ranges);
+    // The bleeped copy is withdrawn until the server has rendered the new ranges
+    onSessionChange?.({
+      redactedAudioPath: undefined,
+      redactedAudioMimeType: undefined,
+    });
+  };
+
+  // Save a correction to a segment's text or boundaries
+  const handleEditSegment = async (
+    segmentId: string,
+    changes: TranscriptSegmentChanges,
+  ) => {
+    const segment = transcriptSegments.find((seg) => seg.id === segmentId);
+    if (!segment) return;
+
+    const updated = await editTranscriptSegment(segment, changes);
+    setTranscriptSegments((prev) =>
+      prev.map((seg) => (seg.id === segmentId ? updated : seg)),
+    );
+    refreshRedaction();
+  };
+
+  // Split a segment in two, e.g. when one segment covers both speakers
+  const handleSplitSegment = async (
+    segmentId: string,
+    splitAt: number,
+    firstText: string,
+    secondText: string,
+  ) => {
+    const segment = transcriptSegments.find((seg) => seg.id === segmentId);
+    if (!segment) return;
+
+    const parts = await splitTranscriptSegment(
+      segment,
+      splitAt,
+      firstText,
+      secondText,
+    );
+    setTranscriptSegments((prev) =>
+      prev.flatMap((seg) => (seg.id === segmentId ? parts : [seg])),
+    );
+    refreshRedaction();
+  };
+
+  // Merge a segment with the one that follows it
+  const handleMergeWithNext = async (segmentId: string) => {
+    const index = transcriptSegments.findIndex((seg) => seg.id === segmentId);
+    const first = transcriptSegments[index];
+    const second = transcriptSegments[index + 1];
+    if (!first || !second) return;
+
+    const merged = await mergeTranscriptSegments(first, second);
+    setTranscriptSegments((prev) =>
+      prev
+        .filter((seg) => seg.id !== second.id)
+        .map((seg) => (seg.id === first.id ? merged : seg)),
+    );
+    refreshRedaction();
+  };
+
   // Start recording audio feedback
   const startRecordingFeedback = async () => {
     try {
@@ -590,8 +993,11 @@ const SessionDetail = ({
         transcriptSelection.endTime,
         audioFeedbackBlob,
         false,
+        feedbackTagIds,
+        transcriptSelection.startId,
       );
       setAudioFeedbackBlob(null);
+      setFeedbackTagIds([]);
       setShowFeedbackForm(false);
       setTranscriptSelection(null);
     }
@@ -613,11 +1019,53 @@ const SessionDetail = ({
               <Clock className="h-4 w-4 mr-1" />
               <span>{formatDuration(duration)}</span>
             </div>
+            {isOwner && isRedacted && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-gray-500 -ml-2 mt-1"
+                onClick={() => setShowOriginal(!showOriginal)}
+              >
+                {showOriginal ? (
+                  <EyeOff className="h-4 w-4 mr-1" />
+                ) : (
+                  <Eye className="h-4 w-4 mr-1" />
+                )}
+                {showOriginal ? "Show redacted" : "Show original"}
+              </Button>
+            )}
+            {isOwner && supervisors.length > 0 && (
+              <SupervisionRequests
+                session={session}
+                supervisors={supervisors}
+                canHandOver={!session.isEncrypted || !!sessionKey}
+                isHandingOver={isReassigning}
+                onHandOver={handleReassignSupervisor}
+              />
+            )}
+            {totalTalkTime > 0 && (
+              <div className="flex items-center text-sm text-gray-500 mt-1 gap-2">
+                <span>Talk time:</span>
+                {Object.entries(talkTime).map(([label, seconds]) => (
+                  <span key={label}>
+                    {label} {Math.round((seconds / totalTalkTime) * 100)}%
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
         </div>
-        <Badge className={getStatusColor(session.status)}>
-          {getStatusText(session.status)}
-        </Badge>
+        <div className="flex items-center gap-4">
+          <ReviewPresence
+            viewers={viewers}
+            followers={followers}
+            followingId={followingId}
+            onFollow={follow}
+          />
+          <Badge className={getStatusColor(session.status)}>
+            {getStatusText(session.status)}
+          </Badge>
+        </div>
       </div>
 
       {/* Main content */}
@@ -626,33 +1074,87 @@ const SessionDetail = ({
         <div className="md:w-2/3 flex flex-col overflow-hidden">
           {/* Audio player */}
           <div ref={fullPlayerRef} className="p-4">
+            {session.isEncrypted && !sessionKey && (
+              <div className="flex items-center justify-between p-3 mb-2 bg-gray-50 rounded-md text-sm text-gray-600">
+                <span className="flex items-center">
+                  <Lock className="h-4 w-4 mr-2" />
+                  {keyError || "Unlocking encrypted recording..."}
+                </span>
+                {keyError && (
+                  <Button variant="outline" size="sm" onClick={unlockRecording}>
+                    Unlock
+                  </Button>
+                )}
+              </div>
+            )}
+            {!playbackPath && (
+              <div className="flex items-center p-3 mb-2 bg-gray-50 rounded-md text-sm text-gray-600">
+                <EyeOff className="h-4 w-4 mr-2" />
+                The redacted recording is still being prepared.
+              </div>
+            )}
             <AudioPlayer
-              src={audioUrl}
+              key={playbackPath}
+              src={session.isEncrypted && !sessionKey ? "" : signedAudioUrl}
+              onSourceError={renewAudioUrl}
+              decryptionKey={sessionKey || undefined}
+              mimeType={
+                playsOriginal
+                  ? session.audioMimeType
+                  : session.redactedAudioMimeType
+              }
               feedbackMarkers={specificFeedback.map((item) => ({
                 id: item.id,
                 timestamp: item.timestamp,
                 endTimestamp: item.endTimestamp,
+                color: item.tags?.[0]?.color,
+                label: item.tags?.map((tag) => tag.name).join(", "),
               }))}
               onMarkerClick={handleMarkerClick}
               onTimeUpdate={setCurrentTimestamp}
+              redactedRanges={playsOriginal ? undefined : redactionRanges}
+              peaks={peaks}
+              onSelectRange={handleWaveformSelection}
+              matchTimes={transcriptMatches.times}
+              activeMatchIndex={transcriptMatches.activeIndex}
+              audioRef={audioElementRef}
             />
           </div>
 
           {/* Transcript */}
           <div className="flex-1 overflow-hidden">
             <Transcript
-              segments={transcriptSegments}
+              segments={displayedSegments}
               currentTime={currentTimestamp}
               highlightedSegmentIds={highlightedSegmentIds}
               onSegmentClick={handleSegmentClick}
               onSelectionChange={handleTranscriptSelection}
               onFeedbackClick={handleFeedbackOnSegment}
-              onLikeClick={handleLikeSegment}
+              onToggleReaction={handleToggleReaction}
               isPlaying={isPlaying}
               feedbackItems={feedbackToSegmentMap}
-              likedSegments={likedSegments}
+              onEditFeedback={onEditFeedback}
+              onDeleteFeedback={onDeleteFeedback}
+              currentUserId={user?.id}
+              reactions={reactionCounts}
+              isLoading={isTranscriptLoading}
+              speakerRoles={speakerRoles}
+              onSpeakerRoleChange={isOwner ? handleSpeakerRoleChange : undefined}
+              onMergeSpeakers={isOwner ? handleMergeSpeakers : undefined}
+              onReassignSegments={isOwner ? handleReassignSegments : undefined}
+              onEditSegment={canCorrectTranscript ? handleEditSegment : undefined}
+              onSplitSegment={canCorrectTranscript ? handleSplitSegment : undefined}
+              onMergeWithNext={canCorrectTranscript ? handleMergeWithNext : undefined}
+              onShowHistory={() => setIsHistoryOpen(true)}
+              onSeek={(time) => handleSeek([time])}
+              onMatchesChange={handleTranscriptMatchesChange}
               className="h-full"
             />
+            <TranscriptRevisionHistory
+              sessionId={session.id}
+              open={isHistoryOpen}
+              onOpenChange={setIsHistoryOpen}
+            />
           </div>
         </div>
 
@@ -680,17 +1182,12 @@ const SessionDetail = ({
                   >
                     <Plus className="h-4 w-4 mr-1" /> Add General Comment
                   </Button>
-                  {session.status !== "completed" && (
+                  {isReviewer && session.status !== "completed" && (
                     <Button
                       variant="default"
                       size="sm"
-                      onClick={() => {
-                        // In a real app, this would call an API to update the session status
-                        // For now, we'll just show a toast message
-                        alert(
-                          "Review completed! Notification sent to counselor.",
-                        );
-                      }}
+                      disabled={isCompleting}
+                      onClick={handleCompleteReview}
                     >
                       Complete Review
                     </Button>
@@ -705,200 +1202,246 @@ const SessionDetail = ({
                 </div>
               </div>
 
-              {/* Feedback content */}
-              <div className="flex-1 overflow-hidden">
-                {showFeedbackForm ? (
-                  <div className="p-4 space-y-4">
-                    <h3 className="font-medium">
-                      {transcriptSelection
-                        ? "Add Feedback for Selected Text"
-                        : "Add Feedback"}
-                    </h3>
-
-                    {/* Feedback mode toggle */}
-                    <div className="flex space-x-4">
-                      <label className="flex items-center space-x-2">
-                        <input
-                          type="radio"
-                          checked={feedbackMode === "text"}
-                          onChange={() => setFeedbackMode("text")}
-                          className="h-4 w-4"
-                        />
-                        <span>Text Feedback</span>
-                      </label>
-                      <label className="flex items-center space-x-2">
-                        <input
-                          type="radio"
-                          checked={feedbackMode === "audio"}
-                          onChange={() => setFeedbackMode("audio")}
-                          className="h-4 w-4"
-                        />
-                        <span>Audio Feedback</span>
-                      </label>
-                    </div>
+              <Tabs
+                value={activePanelTab}
+                onValueChange={setActivePanelTab}
+                className="flex-1 flex flex-col overflow-hidden"
+              >
+                <TabsList className="mx-4 mt-3 self-start">
+                  <TabsTrigger value="feedback">Feedback</TabsTrigger>
+                  <TabsTrigger value="scoring">Scoring</TabsTrigger>
+                </TabsList>
+
+                {/* Feedback content */}
+                <TabsContent value="feedback" className="flex-1 overflow-hidden">
+                  {showFeedbackForm ? (
+                    <div className="p-4 space-y-4">
+                      <h3 className="font-medium">
+                        {transcriptSelection
+                          ? "Add Feedback for Selected Text"
+                          : "Add Feedback"}
+                      </h3>
 
-                    {/* Selected text display */}
-                    {transcriptSelection && (
-                      <div className="bg-blue-50 p-3 rounded-md">
-                        <p className="text-sm text-gray-600 mb-1">
-                          Selected text (
-                          {formatTimestamp(transcriptSelection.startTime)} -{" "}
-                          {formatTimestamp(transcriptSelection.endTime)}):
-                        </p>
-                        <p className="text-sm">"{transcriptSelection.text}"</p>
+                      {/* Feedback mode toggle */}
+                      <div className="flex space-x-4">
+                        <label className="flex items-center space-x-2">
+                          <input
+                            type="radio"
+                            checked={feedbackMode === "text"}
+                            onChange={() => setFeedbackMode("text")}
+                            className="h-4 w-4"
+                          />
+                          <span>Text Feedback</span>
+                        </label>
+                        <label className="flex items-center space-x-2">
+                          <input
+                            type="radio"
+                            checked={feedbackMode === "audio"}
+                            onChange={() => setFeedbackMode("audio")}
+                            className="h-4 w-4"
+                          />
+                          <span>Audio Feedback</span>
+                        </label>
                       </div>
-                    )}
-
-                    {/* Feedback title */}
-                    <div>
-                      <label
-                        htmlFor="feedback-title"
-                        className="block text-sm font-medium mb-1"
-                      >
-                        Feedback Title (Optional)
-                      </label>
-                      <Input
-                        id="feedback-title"
-                        value={feedbackTitle}
-                        onChange={(e) => setFeedbackTitle(e.target.value)}
-                        placeholder="Enter a title for your feedback"
-                      />
-                    </div>
 
-                    {/* Text feedback */}
-                    {feedbackMode === "text" && (
+                      {/* Selected text display */}
+                      {transcriptSelection && (
+                        <div className="bg-blue-50 p-3 rounded-md">
+                          <p className="text-sm text-gray-600 mb-1">
+                            {transcriptSelection.text ? "Selected text" : "Selected audio"} (
+                            {formatTimestamp(transcriptSelection.startTime)} -{" "}
+                            {formatTimestamp(transcriptSelection.endTime)}){transcriptSelection.text ? ":" : ""}
+                          </p>
+                          {transcriptSelection.text && (
+                            <p className="text-sm">"{transcriptSelection.text}"</p>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Feedback title */}
                       <div>
                         <label
-                          htmlFor="feedback-text"
+                          htmlFor="feedback-title"
                           className="block text-sm font-medium mb-1"
                         >
-                          Feedback
+                          Feedback Title (Optional)
                         </label>
-                        <Textarea
-                          id="feedback-text"
-                          value={feedbackText}
-                          onChange={(e) => setFeedbackText(e.target.value)}
-                          placeholder="Enter your feedback here"
-                          rows={5}
+                        <Input
+                          id="feedback-title"
+                          value={feedbackTitle}
+                          onChange={(e) => setFeedbackTitle(e.target.value)}
+                          placeholder="Enter a title for your feedback"
                         />
                       </div>
-                    )}
 
-                    {/* Audio feedback */}
-                    {feedbackMode === "audio" && (
-                      <div className="space-y-2">
-                        <label className="block text-sm font-medium">
-                          Audio Feedback
-                        </label>
-                        {!audioFeedbackBlob ? (
-                          <Button
-                            variant={
-                              isRecordingFeedback ? "destructive" : "outline"
-                            }
-                            onClick={
-                              isRecordingFeedback
-                                ? stopRecordingFeedback
-                                : startRecordingFeedback
-                            }
-                            className="w-full flex items-center justify-center"
+                      {/* Text feedback */}
+                      {feedbackMode === "text" && (
+                        <div>
+                          <label
+                            htmlFor="feedback-text"
+                            className="block text-sm font-medium mb-1"
                           >
-                            <Mic
-                              className={`h-4 w-4 mr-2 ${isRecordingFeedback ? "animate-pulse" : ""}`}
-                            />
-                            {isRecordingFeedback
-                              ? "Stop Recording"
-                              : "Start Recording"}
-                          </Button>
-                        ) : (
-                          <div className="flex items-center space-x-2">
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={playFeedbackAudio}
-                              className="flex-1 flex items-center justify-center"
-                            >
-                              {isFeedbackAudioPlaying ? (
-                                <Pause className="h-4 w-4 mr-2" />
-                              ) : (
-                                <Play className="h-4 w-4 mr-2" />
-                              )}
-                              {isFeedbackAudioPlaying ? "Playing..." : "Play"}
-                            </Button>
+                            Feedback
+                          </label>
+                          <Textarea
+                            id="feedback-text"
+                            value={feedbackText}
+                            onChange={(e) => setFeedbackText(e.target.value)}
+                            placeholder="Enter your feedback here"
+                            rows={5}
+                          />
+                        </div>
+                      )}
+
+                      {/* Audio feedback */}
+                      {feedbackMode === "audio" && (
+                        <div className="space-y-2">
+                          <label className="block text-sm font-medium">
+                            Audio Feedback
+                          </label>
+                          {!audioFeedbackBlob ? (
                             <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => setAudioFeedbackBlob(null)}
+                              variant={
+                                isRecordingFeedback ? "destructive" : "outline"
+                              }
+                              onClick={
+                                isRecordingFeedback
+                                  ? stopRecordingFeedback
+                                  : startRecordingFeedback
+                              }
+                              className="w-full flex items-center justify-center"
                             >
-                              <X className="h-4 w-4" />
+                              <Mic
+                                className={`h-4 w-4 mr-2 ${isRecordingFeedback ? "animate-pulse" : ""}`}
+                              />
+                              {isRecordingFeedback
+                                ? "Stop Recording"
+                                : "Start Recording"}
                             </Button>
-                          </div>
-                        )}
+                          ) : (
+                            <div className="flex items-center space-x-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={playFeedbackAudio}
+                                className="flex-1 flex items-center justify-center"
+                              >
+                                {isFeedbackAudioPlaying ? (
+                                  <Pause className="h-4 w-4 mr-2" />
+                                ) : (
+                                  <Play className="h-4 w-4 mr-2" />
+                                )}
+                                {isFeedbackAudioPlaying ? "Playing..." : "Play"}
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setAudioFeedbackBlob(null)}
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Tags */}
+                      {availableTags.length > 0 && (
+                        <div>
+                          <label className="block text-sm font-medium mb-1">
+                            Tags (Optional)
+                          </label>
+                          <FeedbackTagPicker
+                            tags={availableTags}
+                            selectedIds={feedbackTagIds}
+                            onChange={setFeedbackTagIds}
+                          />
+                        </div>
+                      )}
+
+                      {/* Action buttons */}
+                      <div className="flex justify-end space-x-2 pt-2">
+                        <Button
+                          variant="outline"
+                          onClick={() => {
+                            setShowFeedbackForm(false);
+                            setTranscriptSelection(null);
+                            setAudioFeedbackBlob(null);
+                            setFeedbackTagIds([]);
+                          }}
+                        >
+                          Cancel
+                        </Button>
+                        <Button
+                          onClick={
+                            feedbackMode === "audio" && audioFeedbackBlob
+                              ? submitAudioFeedback
+                              : handleFeedbackSubmit
+                          }
+                          disabled={
+                            (feedbackMode === "text" && !feedbackText.trim()) ||
+                            (feedbackMode === "audio" && !audioFeedbackBlob)
+                          }
+                        >
+                          Submit Feedback
+                        </Button>
                       </div>
-                    )}
-
-                    {/* Action buttons */}
-                    <div className="flex justify-end space-x-2 pt-2">
-                      <Button
-                        variant="outline"
-                        onClick={() => {
-                          setShowFeedbackForm(false);
-                          setTranscriptSelection(null);
-                          setAudioFeedbackBlob(null);
-                        }}
-                      >
-                        Cancel
-                      </Button>
-                      <Button
-                        onClick={
-                          feedbackMode === "audio" && audioFeedbackBlob
-                            ? submitAudioFeedback
-                            : handleFeedbackSubmit
-                        }
-                        disabled={
-                          (feedbackMode === "text" && !feedbackText.trim()) ||
-                          (feedbackMode === "audio" && !audioFeedbackBlob)
-                        }
-                      >
-                        Submit Feedback
-                      </Button>
                     </div>
-                  </div>
-                ) : showGeneralCommentForm ? (
-                  <div className="p-4 space-y-4">
-                    <h3 className="font-medium">Add General Comment</h3>
-                    <Textarea
-                      value={generalComment}
-                      onChange={(e) => setGeneralComment(e.target.value)}
-                      placeholder="Enter a general comment about the session"
-                      rows={5}
-                    />
-                    <div className="flex justify-end space-x-2 pt-2">
-                      <Button
-                        variant="outline"
-                        onClick={() => setShowGeneralCommentForm(false)}
-                      >
-                        Cancel
-                      </Button>
-                      <Button
-                        onClick={handleFeedbackSubmit}
-                        disabled={!generalComment.trim()}
-                      >
-                        Submit Comment
-                      </Button>
+                  ) : showGeneralCommentForm ? (
+                    <div className="p-4 space-y-4">
+                      <h3 className="font-medium">Add General Comment</h3>
+                      <Textarea
+                        value={generalComment}
+                        onChange={(e) => setGeneralComment(e.target.value)}
+                        placeholder="Enter a general comment about the session"
+                        rows={5}
+                      />
+                      <div className="flex justify-end space-x-2 pt-2">
+                        <Button
+                          variant="outline"
+                          onClick={() => setShowGeneralCommentForm(false)}
+                        >
+                          Cancel
+                        </Button>
+                        <Button
+                          onClick={handleFeedbackSubmit}
+                          disabled={!generalComment.trim()}
+                        >
+                          Submit Comment
+                        </Button>
+                      </div>
                     </div>
-                  </div>
-                ) : (
-                  <FeedbackPanel
+                  ) : (
+                    <FeedbackPanel
+                      sessionId={session.id}
+                      feedback={feedback}
+                      onAddFeedback={onAddFeedback}
+                      onEditFeedback={onEditFeedback}
+                      onDeleteFeedback={onDeleteFeedback}
+                      onRestoreFeedback={onRestoreFeedback}
+                      currentUserId={user?.id}
+                      currentTimestamp={currentTimestamp}
+                      selectedFeedback={selectedFeedbackId}
+                      className="h-full"
+                    />
+                  )}
+                </TabsContent>
+
+                {/* Rubric scores */}
+                <TabsContent value="scoring" className="flex-1 overflow-hidden">
+                  <RubricScoring
                     sessionId={session.id}
-                    feedback={feedback}
-                    onAddFeedback={onAddFeedback}
-                    onAddAudioResponse={onAddAudioResponse}
-                    currentTimestamp={currentTimestamp}
-                    selectedFeedback={selectedFeedbackId}
+                    sessionType={session.sessionType}
+                    feedback={activeFeedback}
+                    canScore={
+                      session.supervisor?.id === user?.id ||
+                      (!session.userId && isSupervisor())
+                    }
+                    onEvidenceClick={handleMarkerClick}
                     className="h-full"
                   />
-                )}
-              </div>
+                </TabsContent>
+              </Tabs>
             </div>
           )}
         </div>
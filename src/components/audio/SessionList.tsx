@@ -9,6 +9,8 @@ import {
   MessageSquare,
   User,
   ChevronRight,
+  FileText,
+  AudioWaveform,
 } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 
@@ -25,6 +27,16 @@ export interface Session {
     avatar: string;
   };
   sessionType?: string;
+  transcriptionStatus?: "queued" | "transcribing" | "ready" | "failed";
+  processingStatus?: "queued" | "processing" | "ready" | "failed"; // Server-side transcoding and normalization
+  userId?: string; // Counselor who owns the recording
+  audioPath?: string; // Storage path of the recording in the private audio bucket
+  redactedAudioPath?: string; // Storage path of the bleeped copy everyone but the owner plays
+  redactedAudioMimeType?: string; // Type of the bleeped copy once decrypted
+  peaksPath?: string; // Storage path of the precomputed waveform peaks
+  isEncrypted?: boolean; // Recording was encrypted in the browser before upload
+  audioMimeType?: string; // Type of the recording once decrypted
+  keyVersion?: number; // Current version of the session key
 }
 
 interface SessionListProps {
@@ -80,6 +92,64 @@ const SessionList = ({
     }
   };
 
+  const getTranscriptionText = (
+    status: NonNullable<Session["transcriptionStatus"]>,
+  ) => {
+    switch (status) {
+      case "queued":
+        return "Transcript queued";
+      case "transcribing":
+        return "Transcribing...";
+      case "ready":
+        return "Transcript ready";
+      case "failed":
+        return "Transcription failed";
+    }
+  };
+
+  const getProcessingText = (
+    status: NonNullable<Session["processingStatus"]>,
+  ) => {
+    switch (status) {
+      case "queued":
+        return "Audio queued";
+      case "processing":
+        return "Processing audio...";
+      case "ready":
+        return "Audio ready";
+      case "failed":
+        return "Audio processing failed";
+    }
+  };
+
+  const getProcessingColor = (
+    status: NonNullable<Session["processingStatus"]>,
+  ) => {
+    switch (status) {
+      case "processing":
+        return "text-blue-600 animate-pulse";
+      case "failed":
+        return "text-red-600";
+      default:
+        return "text-gray-500";
+    }
+  };
+
+  const getTranscriptionColor = (
+    status: NonNullable<Session["transcriptionStatus"]>,
+  ) => {
+    switch (status) {
+      case "transcribing":
+        return "text-blue-600 animate-pulse";
+      case "ready":
+        return "text-green-600";
+      case "failed":
+        return "text-red-600";
+      default:
+        return "text-gray-500";
+    }
+  };
+
   return (
     <Card className={className}>
       <CardHeader>{/* Title removed as requested */}</CardHeader>
@@ -109,7 +179,9 @@ const SessionList = ({
                   <div className="flex flex-wrap items-center text-sm text-gray-500 mb-3 gap-3">
                     <div className="flex items-center">
                       <Clock size={14} className="mr-1" />
-                      {formatDuration(session.duration)}
+                      {session.duration > 0
+                        ? formatDuration(session.duration)
+                        : "--:--"}
                     </div>
                     <div className="flex items-center">
                       <MessageSquare size={14} className="mr-1" />
@@ -119,6 +191,23 @@ const SessionList = ({
                     {session.sessionType && (
                       <div>Type: {session.sessionType}</div>
                     )}
+                    {session.processingStatus &&
+                      session.processingStatus !== "ready" && (
+                        <div
+                          className={`flex items-center ${getProcessingColor(session.processingStatus)}`}
+                        >
+                          <AudioWaveform size={14} className="mr-1" />
+                          {getProcessingText(session.processingStatus)}
+                        </div>
+                      )}
+                    {session.transcriptionStatus && (
+                      <div
+                        className={`flex items-center ${getTranscriptionColor(session.transcriptionStatus)}`}
+                      >
+                        <FileText size={14} className="mr-1" />
+                        {getTranscriptionText(session.transcriptionStatus)}
+                      </div>
+                    )}
                   </div>
 
                   <div className="flex justify-between items-center">
@@ -19,8 +19,43 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Upload, X, FileAudio, Clock } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Upload,
+  X,
+  FileAudio,
+  HardDrive,
+  Lock,
+  Mic,
+  Pause,
+  Play,
+  RotateCcw,
+  Square,
+} from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
+import { useEncryption } from "@/context/EncryptionContext";
+import { useAuth } from "../../../supabase/auth";
+import {
+  discardRecording,
+  getRecoveredRecordings,
+  loadRecording,
+  RecoveredRecording,
+  useSessionRecorder,
+} from "./useSessionRecorder";
+import {
+  getPendingUploads,
+  PendingUpload,
+  prepareSessionUpload,
+  removePendingUpload,
+  UploadedRecording,
+  uploadSessionRecording,
+} from "@/lib/api";
+import {
+  encryptFile,
+  generateSessionKey,
+  unwrapSessionKey,
+} from "@/lib/crypto";
 
 interface Supervisor {
   id: string;
@@ -30,17 +65,18 @@ interface Supervisor {
 interface SessionUploaderProps {
   supervisors: Supervisor[];
   onUpload: (data: {
-    audioFile: File;
     title: string;
     notes: string;
-    supervisorId: string;
+    supervisorId: string;         // Asked to review the session
+    supervisionMessage?: string;  // Optional note sent with the request
     sessionType?: string;
+    recording: UploadedRecording; // The recording, already in storage
   }) => Promise<void>;
   className?: string;
 }
 
-// Session types
-const sessionTypes = [
+// Session types, also the keys of rubric templates
+export const sessionTypes = [
   "Initial Assessment",
   "Follow-up",
   "Cognitive Behavioral Therapy",
@@ -51,6 +87,24 @@ const sessionTypes = [
   "Other",
 ];
 
+// State of the upload that is currently shown
+type UploadState = "uploading" | "paused" | "retrying" | "failed";
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Recording length as H:MM:SS, or M:SS under an hour
+const formatElapsed = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const remainingSeconds = Math.floor(seconds % 60).toString().padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, "0")}:${remainingSeconds}`
+    : `${minutes}:${remainingSeconds}`;
+};
+
 const SessionUploader = ({
   supervisors,
   onUpload,
@@ -59,14 +113,48 @@ const SessionUploader = ({
   const [title, setTitle] = useState("");
   const [notes, setNotes] = useState("");
   const [supervisorId, setSupervisorId] = useState("");
+  const [supervisionMessage, setSupervisionMessage] = useState("");
   const [sessionType, setSessionType] = useState("");
   const [file, setFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
-  const [duration, setDuration] = useState<number | null>(null);
+  const [encryptionProgress, setEncryptionProgress] = useState<number | null>(null); // Fraction encrypted, null when idle
+
+  // Resumable upload state
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]); // Unfinished uploads, including earlier visits
+  const [activeUpload, setActiveUpload] = useState<PendingUpload | null>(null);
+  const [uploadState, setUploadState] = useState<UploadState | null>(null);
+  const [bytesUploaded, setBytesUploaded] = useState(0);
+  const [retryMessage, setRetryMessage] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null); // Aborting pauses the active upload
+  const sessionKeysRef = useRef<Record<string, CryptoKey>>({});    // Unwrapped session keys by upload id
+
+  // In-browser recording
+  const [mode, setMode] = useState<"file" | "record">("file");
+  const [recordingId, setRecordingId] = useState<string | null>(null); // Recording the selected file came from
+  const [recoveredRecordings, setRecoveredRecordings] = useState<RecoveredRecording[]>([]);
+  const { user } = useAuth();
+  const recorder = useSessionRecorder(user?.id);
+
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const { getPrivateKey } = useEncryption();
   const location = useLocation();
 
+  // Offer to finish uploads left over from an earlier visit
+  useEffect(() => {
+    getPendingUploads().then(setPendingUploads);
+
+    // Stop uploading when leaving the page; the upload can be resumed later
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Offer recordings that were interrupted before they were uploaded
+  useEffect(() => {
+    if (user) {
+      getRecoveredRecordings(user.id).then(setRecoveredRecordings);
+    }
+  }, [user?.id]);
+
   // Check if we have a supervisorId in the location state
   useEffect(() => {
     if (location.state && location.state.supervisorId) {
@@ -89,13 +177,6 @@ const SessionUploader = ({
     }
 
     setFile(selectedFile);
-
-    // Get audio duration
-    const audio = new Audio();
-    audio.src = URL.createObjectURL(selectedFile);
-    audio.onloadedmetadata = () => {
-      setDuration(audio.duration);
-    };
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -118,27 +199,141 @@ const SessionUploader = ({
     }
 
     setFile(droppedFile);
-
-    // Get audio duration
-    const audio = new Audio();
-    audio.src = URL.createObjectURL(droppedFile);
-    audio.onloadedmetadata = () => {
-      setDuration(audio.duration);
-    };
   };
 
   const handleRemoveFile = () => {
     setFile(null);
-    setDuration(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
+    // A removed recording stays in the recovered list until discarded there
+    if (recordingId && user) {
+      setRecordingId(null);
+      getRecoveredRecordings(user.id).then(setRecoveredRecordings);
+    }
   };
 
-  const formatDuration = (seconds: number) => {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = Math.floor(seconds % 60);
-    return `${minutes}:${remainingSeconds < 10 ? "0" : ""}${remainingSeconds}`;
+  const startRecording = async () => {
+    try {
+      await recorder.start();
+    } catch (error) {
+      console.error("Error starting recording:", error);
+      toast({
+        title: "Microphone unavailable",
+        description: "Allow microphone access in your browser to record.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Finish recording and select the result for upload
+  const stopRecording = async () => {
+    try {
+      const recording = await recorder.stop();
+      setRecordingId(recording.id);
+      setFile(recording.file);
+    } catch (error) {
+      console.error("Error stopping recording:", error);
+    }
+  };
+
+  const selectRecoveredRecording = async (recording: RecoveredRecording) => {
+    if (!user) return;
+    try {
+      setFile(await loadRecording(user.id, recording.id));
+      setRecordingId(recording.id);
+      setMode("record");
+    } catch (error) {
+      console.error("Error loading recording:", error);
+      toast({
+        title: "Recording unavailable",
+        description: "The saved recording could not be read.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const discardRecoveredRecording = async (recording: RecoveredRecording) => {
+    if (!user) return;
+    await discardRecording(user.id, recording.id);
+    setRecoveredRecordings((recordings) =>
+      recordings.filter((item) => item.id !== recording.id),
+    );
+  };
+
+  /**
+   * Upload a queued recording and, once it is in storage, create the session.
+   * Aborting the controller pauses; the upload is kept for resuming later.
+   */
+  const runUpload = async (upload: PendingUpload) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setActiveUpload(upload);
+    setUploadState("uploading");
+    setBytesUploaded(upload.bytesUploaded);
+    setRetryMessage(null);
+
+    try {
+      await uploadSessionRecording(upload, {
+        signal: controller.signal,
+        onProgress: (uploaded) => {
+          setBytesUploaded(uploaded);
+          setUploadState("uploading");
+          setRetryMessage(null);
+        },
+        onRetry: (attempt, delay) => {
+          setUploadState("retrying");
+          setRetryMessage(
+            `Connection problem, retrying in ${Math.round(delay / 1000)}s (attempt ${attempt})`,
+          );
+        },
+      });
+
+      await onUpload({
+        title: upload.details.title,
+        notes: upload.details.notes,
+        supervisorId: upload.details.supervisorId,
+        supervisionMessage: upload.details.supervisionMessage,
+        sessionType: upload.details.sessionType,
+        recording: {
+          path: upload.path,
+          mimeType: upload.mimeType,
+          sessionKey: sessionKeysRef.current[upload.id],
+        },
+      });
+
+      await removePendingUpload(upload);
+      delete sessionKeysRef.current[upload.id];
+      setPendingUploads((uploads) =>
+        uploads.filter((item) => item.id !== upload.id),
+      );
+      setActiveUpload(null);
+      setUploadState(null);
+
+      toast({
+        title: "Session uploaded successfully",
+        description:
+          "Your supervisor has been asked to review it. You'll be notified when they respond.",
+        variant: "default",
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        setUploadState("paused");
+        return;
+      }
+      console.error("Error uploading session:", error);
+      setUploadState("failed");
+      toast({
+        title: "Upload failed",
+        description:
+          "The upload was interrupted. Resume it to continue where it left off.",
+        variant: "destructive",
+      });
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -147,30 +342,55 @@ const SessionUploader = ({
 
     setIsUploading(true);
     try {
-      await onUpload({
-        audioFile: file,
-        title,
-        notes,
-        supervisorId,
-        sessionType,
-      });
+      // Make sure the counselor has a key pair the session key can be shared with
+      await getPrivateKey();
+
+      // Encrypt the recording before it leaves the browser
+      const sessionKey = await generateSessionKey();
+      setEncryptionProgress(0);
+      const encryptedBlob = await encryptFile(
+        file,
+        sessionKey,
+        setEncryptionProgress,
+      );
+      setEncryptionProgress(null);
 
-      // Reset form
+      const upload = await prepareSessionUpload(
+        {
+          title,
+          notes,
+          supervisorId,
+          supervisionMessage,
+          sessionType,
+          fileName: file.name,
+        },
+        file,
+        { blob: encryptedBlob, sessionKey },
+      );
+      sessionKeysRef.current[upload.id] = sessionKey;
+      setPendingUploads((uploads) => [...uploads, upload]);
+
+      // The queued upload holds the recording now, so its checkpoints can go
+      if (recordingId && user) {
+        await discardRecording(user.id, recordingId);
+        setRecoveredRecordings((recordings) =>
+          recordings.filter((item) => item.id !== recordingId),
+        );
+        setRecordingId(null);
+      }
+
+      // Reset form; the upload continues from the queued copy
       setTitle("");
       setNotes("");
       setSupervisorId("");
+      setSupervisionMessage("");
       setSessionType("");
       setFile(null);
-      setDuration(null);
       if (fileInputRef.current) {
         fileInputRef.current.value = "";
       }
 
-      toast({
-        title: "Session uploaded successfully",
-        description: "Your supervisor will be notified of your request.",
-        variant: "default",
-      });
+      await runUpload(upload);
     } catch (error) {
       toast({
         title: "Upload failed",
@@ -180,19 +400,175 @@ const SessionUploader = ({
       });
     } finally {
       setIsUploading(false);
+      setEncryptionProgress(null);
     }
   };
 
+  const pauseUpload = () => abortControllerRef.current?.abort();
+
+  // Resume a paused or failed upload, or one left over from an earlier visit
+  const resumeUpload = async (upload: PendingUpload) => {
+    abortControllerRef.current?.abort();
+    try {
+      if (upload.wrappedSessionKey && !sessionKeysRef.current[upload.id]) {
+        sessionKeysRef.current[upload.id] = await unwrapSessionKey(
+          upload.wrappedSessionKey,
+          await getPrivateKey(),
+        );
+      }
+    } catch (error) {
+      console.error("Error unlocking upload:", error);
+      return;
+    }
+    await runUpload(upload);
+  };
+
+  const discardUpload = async (upload: PendingUpload) => {
+    if (activeUpload?.id === upload.id) {
+      abortControllerRef.current?.abort();
+      setActiveUpload(null);
+      setUploadState(null);
+    }
+    await removePendingUpload(upload, true);
+    delete sessionKeysRef.current[upload.id];
+    setPendingUploads((uploads) =>
+      uploads.filter((item) => item.id !== upload.id),
+    );
+  };
+
+  const isUploadRunning =
+    uploadState === "uploading" || uploadState === "retrying";
+
   return (
     <Card className={className}>
       <CardHeader>
         <CardTitle>Upload Session Recording</CardTitle>
         <CardDescription>
-          Upload an audio recording of your counseling session to request
+          Upload or record audio of your counseling session to request
           feedback from a supervisor.
         </CardDescription>
       </CardHeader>
       <CardContent>
+        {/* Unfinished uploads */}
+        {pendingUploads.length > 0 && (
+          <div className="space-y-3 mb-6">
+            {pendingUploads.map((upload) => {
+              const isActive = activeUpload?.id === upload.id;
+              const uploaded = isActive ? bytesUploaded : upload.bytesUploaded;
+              const percent = Math.round((uploaded / upload.blob.size) * 100);
+
+              return (
+                <div key={upload.id} className="bg-gray-50 rounded-lg p-4 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {upload.details.title}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {isActive && uploadState === "uploading"
+                          ? `Uploading... ${percent}%`
+                          : isActive && uploadState === "retrying"
+                            ? retryMessage
+                            : isActive && uploadState === "failed"
+                              ? `Upload interrupted at ${percent}%`
+                              : `Paused at ${percent}%`}
+                        {" · "}
+                        {formatBytes(uploaded)} of {formatBytes(upload.blob.size)}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      {isActive && isUploadRunning ? (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={pauseUpload}
+                          title="Pause upload"
+                        >
+                          <Pause size={18} />
+                        </Button>
+                      ) : (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => resumeUpload(upload)}
+                          disabled={isUploadRunning}
+                          title={
+                            isActive && uploadState === "failed"
+                              ? "Retry upload"
+                              : "Resume upload"
+                          }
+                        >
+                          {isActive && uploadState === "failed" ? (
+                            <RotateCcw size={18} />
+                          ) : (
+                            <Play size={18} />
+                          )}
+                        </Button>
+                      )}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => discardUpload(upload)}
+                        className="text-gray-500 hover:text-red-500"
+                        title="Cancel upload"
+                      >
+                        <X size={18} />
+                      </Button>
+                    </div>
+                  </div>
+                  <Progress value={percent} />
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Recordings interrupted before upload */}
+        {recoveredRecordings
+          .filter((recording) => recording.id !== recordingId)
+          .map((recording) => (
+            <div
+              key={recording.id}
+              className="bg-amber-50 rounded-lg p-4 mb-3 flex items-center justify-between"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium">
+                  Unsaved recording from{" "}
+                  {new Date(recording.startedAt).toLocaleString()}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {formatElapsed(recording.duration)}
+                  {" · "}
+                  {formatBytes(recording.size)}
+                </p>
+              </div>
+              <div className="flex items-center space-x-1">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => selectRecoveredRecording(recording)}
+                  disabled={!!file || recorder.state !== "idle"}
+                >
+                  Use recording
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => discardRecoveredRecording(recording)}
+                  className="text-gray-500 hover:text-red-500"
+                  title="Discard recording"
+                >
+                  <X size={18} />
+                </Button>
+              </div>
+            </div>
+          ))}
+
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-2">
             <Label htmlFor="title">Session Title</Label>
@@ -222,7 +598,7 @@ const SessionUploader = ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="supervisor">Select Supervisor</Label>
+            <Label htmlFor="supervisor">Request a Supervisor</Label>
             <Select
               value={supervisorId}
               onValueChange={setSupervisorId}
@@ -239,6 +615,20 @@ const SessionUploader = ({
                 ))}
               </SelectContent>
             </Select>
+            <p className="text-xs text-gray-500">
+              The supervisor is assigned once they accept the request.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="supervision-message">Message to Supervisor (optional)</Label>
+            <Textarea
+              id="supervision-message"
+              placeholder="Why you'd like this supervisor to review the session..."
+              value={supervisionMessage}
+              onChange={(e) => setSupervisionMessage(e.target.value)}
+              className="min-h-[60px]"
+            />
           </div>
 
           <div className="space-y-2">
@@ -250,11 +640,87 @@ const SessionUploader = ({
               onChange={(e) => setNotes(e.target.value)}
               className="min-h-[100px]"
             />
+            <p className="text-xs text-gray-500">
+              Add a line such as "Client: Jane Doe" to have those names
+              redacted from the transcript your supervisor sees.
+            </p>
           </div>
 
           <div className="space-y-2">
-            <Label>Audio Recording</Label>
-            {!file ? (
+            <div className="flex items-center justify-between">
+              <Label>Audio Recording</Label>
+              <Tabs
+                value={mode}
+                onValueChange={(value) => setMode(value as "file" | "record")}
+              >
+                <TabsList className="h-8">
+                  <TabsTrigger
+                    value="file"
+                    className="text-xs"
+                    disabled={recorder.state !== "idle"}
+                  >
+                    Upload file
+                  </TabsTrigger>
+                  <TabsTrigger value="record" className="text-xs">
+                    Record session
+                  </TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
+            {!file && mode === "record" ? (
+              <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
+                {recorder.state === "idle" ? (
+                  <>
+                    <Mic className="h-10 w-10 text-gray-400 mx-auto mb-2" />
+                    <p className="text-sm font-medium mb-3">
+                      Record the session with this device's microphone
+                    </p>
+                    <Button type="button" onClick={startRecording}>
+                      <Mic className="h-4 w-4 mr-2" />
+                      Start recording
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <p
+                      className={`text-3xl font-mono mb-3 ${recorder.state === "recording" ? "text-red-600" : "text-gray-500"}`}
+                    >
+                      {formatElapsed(recorder.elapsed)}
+                    </p>
+                    {/* Input level */}
+                    <div className="h-2 bg-gray-200 rounded-full overflow-hidden mb-4">
+                      <div
+                        className="h-full bg-green-500 transition-[width] duration-75"
+                        style={{ width: `${recorder.level * 100}%` }}
+                      />
+                    </div>
+                    <div className="flex justify-center space-x-2">
+                      {recorder.state === "recording" ? (
+                        <Button type="button" variant="outline" onClick={recorder.pause}>
+                          <Pause className="h-4 w-4 mr-2" />
+                          Pause
+                        </Button>
+                      ) : (
+                        <Button type="button" variant="outline" onClick={recorder.resume}>
+                          <Play className="h-4 w-4 mr-2" />
+                          Resume
+                        </Button>
+                      )}
+                      <Button type="button" variant="destructive" onClick={stopRecording}>
+                        <Square className="h-4 w-4 mr-2" />
+                        Stop
+                      </Button>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-3">
+                      {recorder.state === "paused"
+                        ? "Paused"
+                        : "Recording"}{" "}
+                      · saved on this device every few seconds
+                    </p>
+                  </>
+                )}
+              </div>
+            ) : !file ? (
               <div
                 className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center cursor-pointer hover:bg-gray-50 transition-colors"
                 onDragOver={handleDragOver}
@@ -285,8 +751,8 @@ const SessionUploader = ({
                       {file.name}
                     </p>
                     <p className="text-xs text-gray-500 flex items-center mt-1">
-                      <Clock size={12} className="mr-1" />
-                      {duration ? formatDuration(duration) : "Calculating..."}
+                      <HardDrive size={12} className="mr-1" />
+                      {formatBytes(file.size)}
                     </p>
                   </div>
                 </div>
@@ -301,6 +767,10 @@ const SessionUploader = ({
                 </Button>
               </div>
             )}
+            <p className="text-xs text-gray-500 flex items-center">
+              <Lock size={12} className="mr-1" />
+              Encrypted in your browser before upload
+            </p>
           </div>
         </form>
       </CardContent>
@@ -308,10 +778,16 @@ const SessionUploader = ({
         <Button
           type="submit"
           className="w-full"
-          disabled={!file || !title || !supervisorId || isUploading}
+          disabled={
+            !file || !title || !supervisorId || isUploading
+          }
           onClick={handleSubmit}
         >
-          {isUploading ? "Uploading..." : "Request Feedback"}
+          {encryptionProgress !== null
+            ? `Encrypting... ${Math.round(encryptionProgress * 100)}%`
+            : isUploading
+              ? "Uploading..."
+              : "Request Feedback"}
         </Button>
       </CardFooter>
     </Card>
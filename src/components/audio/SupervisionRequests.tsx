@@ -0,0 +1,213 @@
+import React, { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { Check, Clock, X } from "lucide-react";
+import {
+  cancelSupervisionRequest,
+  getSessionSupervisionRequests,
+  requestSupervision,
+  Supervisor,
+  SupervisionRequest,
+} from "@/lib/api";
+import { Session } from "./SessionList";
+
+interface SupervisionRequestsProps {
+  session: Session;
+  supervisors: Supervisor[];          // Approved supervisors the owner can ask
+  canHandOver: boolean;               // False while an encrypted recording is locked
+  isHandingOver: boolean;             // A handover (and key rotation) is running
+  onHandOver: (supervisorId: string) => void;
+}
+
+/**
+ * SupervisionRequests Component
+ *
+ * The owner's view of who reviews a session: the current supervisor, the
+ * latest request and its answer, and a picker to ask another supervisor.
+ * A supervisor who accepts a session that already has one takes over when
+ * the owner hands it over, which re-encrypts encrypted recordings.
+ */
+const SupervisionRequests = ({
+  session,
+  supervisors,
+  canHandOver,
+  isHandingOver,
+  onHandOver,
+}: SupervisionRequestsProps) => {
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<SupervisionRequest[]>([]);
+  const [supervisorId, setSupervisorId] = useState("");
+  const [message, setMessage] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  const currentSupervisorId = session.supervisor?.id || "";
+
+  useEffect(() => {
+    let isCancelled = false;
+    getSessionSupervisionRequests(session.id).then((result) => {
+      if (!isCancelled) {
+        setRequests(result);
+      }
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [session.id, currentSupervisorId]);
+
+  const refresh = () => getSessionSupervisionRequests(session.id).then(setRequests);
+
+  const pending = requests.find((request) => request.status === "requested");
+  // An accepted request from someone other than the current supervisor
+  const handover = requests.find(
+    (request) =>
+      request.status === "accepted" &&
+      request.supervisor.id !== currentSupervisorId,
+  );
+  const latest = requests[0];
+
+  const sendRequest = async () => {
+    const supervisor = supervisors.find((item) => item.id === supervisorId);
+    if (!supervisor) return;
+
+    setIsSending(true);
+    try {
+      await requestSupervision(session.id, supervisor.id, message);
+      setSupervisorId("");
+      setMessage("");
+      await refresh();
+      toast({
+        title: "Request sent",
+        description: `${supervisor.name} will be asked to review this session.`,
+      });
+    } catch (error) {
+      console.error("Error requesting supervision:", error);
+      toast({
+        title: "Could not send request",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const cancelRequest = async (request: SupervisionRequest) => {
+    try {
+      await cancelSupervisionRequest(request.id);
+    } catch (error) {
+      console.error("Error cancelling supervision request:", error);
+      toast({
+        title: "Could not withdraw request",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+    refresh();
+  };
+
+  return (
+    <div className="text-sm text-gray-500 mt-1 space-y-1">
+      <div className="flex items-center gap-2">
+        <span>Supervisor:</span>
+        <span className="text-gray-700">
+          {session.supervisor?.name || "Unassigned"}
+        </span>
+      </div>
+
+      {pending ? (
+        <div className="flex items-center gap-2">
+          <Clock className="h-4 w-4" />
+          <span>Waiting for {pending.supervisor.name} to respond</span>
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0"
+            onClick={() => cancelRequest(pending)}
+          >
+            Withdraw
+          </Button>
+        </div>
+      ) : (
+        latest?.status === "declined" && (
+          <div className="flex items-center gap-2 text-red-600">
+            <X className="h-4 w-4" />
+            <span>
+              {latest.supervisor.name} declined
+              {latest.declineReason ? `: ${latest.declineReason}` : ""}
+            </span>
+          </div>
+        )
+      )}
+
+      {handover && (
+        <div className="flex items-center gap-2 text-green-700">
+          <Check className="h-4 w-4" />
+          <span>{handover.supervisor.name} accepted</span>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7"
+            disabled={!canHandOver || isHandingOver}
+            onClick={() => onHandOver(handover.supervisor.id)}
+          >
+            Hand over
+          </Button>
+          {isHandingOver && <span>Re-encrypting...</span>}
+        </div>
+      )}
+
+      {!pending && !handover && (
+        <div className="flex items-center gap-2">
+          <Select value={supervisorId} onValueChange={setSupervisorId}>
+            <SelectTrigger className="h-7 w-48">
+              <SelectValue
+                placeholder={
+                  currentSupervisorId
+                    ? "Ask another supervisor"
+                    : "Request a supervisor"
+                }
+              />
+            </SelectTrigger>
+            <SelectContent>
+              {supervisors
+                .filter((supervisor) => supervisor.id !== currentSupervisorId)
+                .map((supervisor) => (
+                  <SelectItem key={supervisor.id} value={supervisor.id}>
+                    {supervisor.name}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          {supervisorId && (
+            <>
+              <Input
+                className="h-7 w-56"
+                placeholder="Message (optional)"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+              />
+              <Button
+                size="sm"
+                className="h-7"
+                disabled={isSending}
+                onClick={sendRequest}
+              >
+                Send request
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SupervisionRequests;
@@ -1,13 +1,76 @@
-import React, { useEffect, useRef, useState, useCallback } from "react";
-import { MessageSquare, ThumbsUp, Play, Pause, X } from "lucide-react";
+import React, { useEffect, useRef, useState } from "react";
+import {
+  MessageSquare,
+  Play,
+  Pause,
+  X,
+  ChevronDown,
+  Pencil,
+  Scissors,
+  Merge,
+  History,
+  CheckCircle2,
+  Trash2,
+  Search,
+  ChevronUp,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  FeedbackChanges,
+  ReactionType,
+  SpeakerRole,
+  SpeakerRoles,
+  TranscriptSegment,
+  TranscriptSegmentChanges,
+} from "@/lib/api";
+import FeedbackThread from "./FeedbackThread";
+import FeedbackRevisionHistory from "./FeedbackRevisionHistory";
+import SegmentReactionCounts, { SegmentReactionPicker } from "./SegmentReactions";
+import { SegmentReactionCount } from "./useSegmentReactions";
+import { findTextMatches, foldQuery, TextMatch } from "@/lib/textMatch";
 
-interface TranscriptSegment {
-  id: string;
-  start: number;
-  end: number;
-  text: string;
-  speaker?: string;
+// Segments the speech-to-text engine was unsure about are flagged for review
+const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// Colors are assigned to speakers in order of first appearance
+const SPEAKER_COLORS = [
+  { dot: "bg-blue-500", text: "text-blue-700" },
+  { dot: "bg-emerald-500", text: "text-emerald-700" },
+  { dot: "bg-purple-500", text: "text-purple-700" },
+  { dot: "bg-orange-500", text: "text-orange-700" },
+  { dot: "bg-pink-500", text: "text-pink-700" },
+];
+
+const SPEAKER_ROLE_LABELS: Record<SpeakerRole, string> = {
+  counselor: "Counselor",
+  client: "Client",
+  other: "Other",
+};
+
+// Display name for a diarized speaker: its role if mapped, otherwise the raw ID
+export const getSpeakerLabel = (speaker: string, speakerRoles: SpeakerRoles) =>
+  speakerRoles[speaker] ? SPEAKER_ROLE_LABELS[speakerRoles[speaker]] : speaker;
+
+// A find-in-transcript match, with its time estimated from the text position
+interface TranscriptMatch extends TextMatch {
+  segmentId: string;
+  time: number;
 }
 
 interface TranscriptProps {
@@ -26,24 +89,60 @@ interface TranscriptProps {
   ) => void;
   className?: string;
   onFeedbackClick?: (segmentId: string) => void;
-  onLikeClick?: (segmentId: string) => void;
+  onToggleReaction?: (segmentId: string, reaction: ReactionType) => void;
   isPlaying: boolean;
   feedbackItems?: Record<string, any[]>;
-  likedSegments?: string[];
+  onEditFeedback?: (feedbackId: string, changes: FeedbackChanges) => void;
+  onDeleteFeedback?: (feedbackId: string) => void;
+  currentUserId?: string;
+  reactions?: Record<string, SegmentReactionCount[]>; // Reaction counts per segment ID
+  isLoading?: boolean;
+  speakerRoles?: SpeakerRoles;
+  onSpeakerRoleChange?: (speaker: string, role: SpeakerRole) => void;
+  onMergeSpeakers?: (fromSpeaker: string, intoSpeaker: string) => void;
+  onReassignSegments?: (segmentIds: string[], speaker: string) => void;
+  onEditSegment?: (
+    segmentId: string,
+    changes: TranscriptSegmentChanges,
+  ) => void;
+  onSplitSegment?: (
+    segmentId: string,
+    splitAt: number,
+    firstText: string,
+    secondText: string,
+  ) => void;
+  onMergeWithNext?: (segmentId: string) => void;
+  onShowHistory?: () => void;
+  onSeek?: (time: number) => void; // Seek without starting playback, e.g. to a find match
+  onMatchesChange?: (times: number[], activeIndex: number | null) => void;
 }
 
 const Transcript = ({
-  segments,
+  segments: allSegments,
   currentTime,
   highlightedSegmentIds,
   onSegmentClick,
   onSelectionChange,
   className,
   onFeedbackClick,
-  onLikeClick,
+  onToggleReaction,
   isPlaying,
   feedbackItems = {},
-  likedSegments = [],
+  onEditFeedback,
+  onDeleteFeedback,
+  currentUserId,
+  reactions = {},
+  isLoading = false,
+  speakerRoles = {},
+  onSpeakerRoleChange,
+  onMergeSpeakers,
+  onReassignSegments,
+  onEditSegment,
+  onSplitSegment,
+  onMergeWithNext,
+  onShowHistory,
+  onSeek,
+  onMatchesChange,
 }: TranscriptProps) => {
   const activeSegmentRef = useRef<HTMLDivElement>(null);
   const transcriptRef = useRef<HTMLDivElement>(null);
@@ -61,11 +160,151 @@ const Transcript = ({
   const [replyingToFeedbackId, setReplyingToFeedbackId] = useState<
     string | null
   >(null);
+  const [openThreadsSegmentId, setOpenThreadsSegmentId] = useState<
+    string | null
+  >(null); // Segment whose feedback threads are shown inline
+  const [feedbackDraft, setFeedbackDraft] = useState("");
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(
+    null,
+  );
+  const [historyFeedbackId, setHistoryFeedbackId] = useState<string | null>(
+    null,
+  );
+
+  // Authors may change their own feedback; items without an author ID are local mock data
+  const canModifyFeedback = (item: any) =>
+    !item.authorId || item.authorId === currentUserId;
+  const [hiddenSpeakers, setHiddenSpeakers] = useState<string[]>([]);
+  const [correctingSegmentId, setCorrectingSegmentId] = useState<
+    string | null
+  >(null);
+  const [draftText, setDraftText] = useState("");
+  const [draftStart, setDraftStart] = useState("");
+  const [draftEnd, setDraftEnd] = useState("");
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const draftTextRef = useRef<HTMLTextAreaElement>(null);
+  const canCorrect = !!(onEditSegment || onSplitSegment || onMergeWithNext);
+  const [findQuery, setFindQuery] = useState("");
+  const [activeMatchIndex, setActiveMatchIndex] = useState(0);
+
+  // Distinct speakers in order of first appearance
+  const speakers = allSegments.reduce<string[]>((list, segment) => {
+    if (segment.speaker && !list.includes(segment.speaker)) {
+      list.push(segment.speaker);
+    }
+    return list;
+  }, []);
+
+  // Segments of hidden speakers are filtered out before any other logic runs
+  const segments = allSegments.filter(
+    (segment) => !segment.speaker || !hiddenSpeakers.includes(segment.speaker),
+  );
+
+  const getSpeakerColor = (speaker: string) =>
+    SPEAKER_COLORS[speakers.indexOf(speaker) % SPEAKER_COLORS.length];
+
+  const toggleSpeakerVisibility = (speaker: string) => {
+    setHiddenSpeakers((prev) =>
+      prev.includes(speaker)
+        ? prev.filter((hidden) => hidden !== speaker)
+        : [...prev, speaker],
+    );
+  };
+
+  // Next unused "Speaker N" ID, used when splitting segments off to a new speaker
+  const getNewSpeakerId = () => {
+    const highest = speakers.reduce((max, speaker) => {
+      const match = speaker.match(/^Speaker (\d+)$/);
+      return match ? Math.max(max, parseInt(match[1])) : max;
+    }, 0);
+    return `Speaker ${highest + 1}`;
+  };
 
   const currentSegment = segments.find(
     (segment) => currentTime >= segment.start && currentTime <= segment.end,
   );
 
+  // Matches of the find query across the visible segments, in order
+  const foldedQuery = foldQuery(findQuery);
+  const matches = foldedQuery
+    ? segments.flatMap((segment) =>
+        findTextMatches(segment.text, foldedQuery).map<TranscriptMatch>(
+          (match) => ({
+            ...match,
+            segmentId: segment.id,
+            time:
+              segment.start +
+              ((segment.end - segment.start) * match.start) /
+                Math.max(segment.text.length, 1),
+          }),
+        ),
+      )
+    : [];
+  const activeMatch =
+    matches.length > 0
+      ? matches[Math.min(activeMatchIndex, matches.length - 1)]
+      : null;
+
+  // Start a new find from the first match after the playback position
+  useEffect(() => {
+    const next = matches.findIndex((match) => match.time >= currentTime);
+    setActiveMatchIndex(next === -1 ? 0 : next);
+  }, [foldedQuery]);
+
+  // Segments are new arrays on every render, so compare the match times by value
+  const matchTimesKey = matches.map((match) => match.time).join(",");
+  useEffect(() => {
+    onMatchesChange?.(
+      matches.map((match) => match.time),
+      activeMatch ? matches.indexOf(activeMatch) : null,
+    );
+  }, [matchTimesKey, activeMatchIndex]);
+
+  // Clear the player's ticks when the transcript goes away
+  useEffect(() => () => onMatchesChange?.([], null), []);
+
+  useEffect(() => {
+    document
+      .getElementById("transcript-active-match")
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [activeMatch?.segmentId, activeMatch?.start]);
+
+  const goToMatch = (index: number) => {
+    if (matches.length === 0) return;
+    const wrapped = (index + matches.length) % matches.length;
+    setActiveMatchIndex(wrapped);
+    onSeek?.(matches[wrapped].time);
+  };
+
+  const currentMatchIndex = activeMatch ? matches.indexOf(activeMatch) : -1;
+
+  // Segment text with the find matches marked
+  const renderSegmentText = (segment: TranscriptSegment) => {
+    const segmentMatches = matches.filter(
+      (match) => match.segmentId === segment.id,
+    );
+    if (segmentMatches.length === 0) return segment.text;
+
+    const parts: React.ReactNode[] = [];
+    let offset = 0;
+    segmentMatches.forEach((match) => {
+      const isActiveMatch = match === activeMatch;
+      parts.push(segment.text.slice(offset, match.start));
+      parts.push(
+        <mark
+          key={match.start}
+          id={isActiveMatch ? "transcript-active-match" : undefined}
+          className={`rounded-sm ${isActiveMatch ? "bg-orange-300" : "bg-yellow-200"}`}
+        >
+          {segment.text.slice(match.start, match.end)}
+        </mark>,
+      );
+      offset = match.end;
+    });
+    parts.push(segment.text.slice(offset));
+    return parts;
+  };
+
   // Scroll to the active segment when currentTime changes, but only if playing
   useEffect(() => {
     if (
@@ -251,22 +490,6 @@ const Transcript = ({
     return currentIndex === Math.max(startIndex, endIndex);
   };
 
-  // Toggle like for a segment
-  const handleToggleLike = useCallback(
-    (segmentId: string) => {
-      if (likedSegments.includes(segmentId)) {
-        // Unlike - in a real app, you would call an API to remove the like
-        if (onLikeClick) {
-          // This is a placeholder for unlike functionality
-          console.log(`Unlike segment ${segmentId}`);
-        }
-      } else if (onLikeClick) {
-        onLikeClick(segmentId);
-      }
-    },
-    [likedSegments, onLikeClick],
-  );
-
   // Get first and last selected segments
   const getFirstAndLastSelectedSegments = () => {
     if (!selectionStart || !selectionEnd) return { first: null, last: null };
@@ -289,9 +512,242 @@ const Transcript = ({
   const { first: firstSelectedSegment, last: lastSelectedSegment } =
     getFirstAndLastSelectedSegments();
 
+  // Open the inline correction editor for a segment
+  const startCorrecting = (segment: TranscriptSegment) => {
+    setCorrectingSegmentId(segment.id);
+    setDraftText(segment.text);
+    setDraftStart(formatEditableTime(segment.start));
+    setDraftEnd(formatEditableTime(segment.end));
+    setDraftError(null);
+  };
+
+  const stopCorrecting = () => {
+    setCorrectingSegmentId(null);
+    setDraftError(null);
+  };
+
+  const handleSaveCorrection = (segment: TranscriptSegment) => {
+    const start = parseEditableTime(draftStart);
+    const end = parseEditableTime(draftEnd);
+
+    if (start === null || end === null) {
+      setDraftError("Use m:ss or m:ss.s for start and end times.");
+      return;
+    }
+    if (start >= end) {
+      setDraftError("The segment must end after it starts.");
+      return;
+    }
+    if (!draftText.trim()) {
+      setDraftError("The segment text can't be empty.");
+      return;
+    }
+
+    // The fields show times rounded to 0.1s, so a time only counts as changed
+    // when it differs from the rounded original; untouched times are kept exact
+    const changes: TranscriptSegmentChanges = {};
+    if (draftText.trim() !== segment.text) {
+      changes.text = draftText.trim();
+    }
+    if (start !== parseEditableTime(formatEditableTime(segment.start))) {
+      changes.start = start;
+    }
+    if (end !== parseEditableTime(formatEditableTime(segment.end))) {
+      changes.end = end;
+    }
+
+    if (Object.keys(changes).length > 0) {
+      onEditSegment?.(segment.id, changes);
+    }
+    stopCorrecting();
+  };
+
+  // Split the segment where the text cursor is, estimating the time from the text position
+  const handleSplitAtCursor = (segment: TranscriptSegment) => {
+    const position = draftTextRef.current?.selectionStart ?? 0;
+    const firstText = draftText.slice(0, position).trim();
+    const secondText = draftText.slice(position).trim();
+
+    if (!firstText || !secondText) {
+      setDraftError("Place the cursor between two words to split.");
+      return;
+    }
+
+    const splitAt =
+      Math.round(
+        (segment.start +
+          ((segment.end - segment.start) * position) / draftText.length) *
+          10,
+      ) / 10;
+    if (splitAt <= segment.start || splitAt >= segment.end) {
+      setDraftError("This segment is too short to split here.");
+      return;
+    }
+
+    onSplitSegment?.(segment.id, splitAt, firstText, secondText);
+    stopCorrecting();
+  };
+
+  // Reassign the whole selection when the segment is part of it, otherwise just the segment
+  const handleReassignSpeaker = (segmentId: string, speaker: string) => {
+    if (!onReassignSegments) return;
+
+    const segmentIds = isInSelection(segmentId)
+      ? segments.filter((seg) => isInSelection(seg.id)).map((seg) => seg.id)
+      : [segmentId];
+    onReassignSegments(segmentIds, speaker);
+  };
+
   return (
     <div className={`bg-white shadow-md p-4 flex flex-col ${className}`}>
-      <h3 className="text-lg font-medium mb-4">Transcript</h3>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium">Transcript</h3>
+        {onShowHistory && (
+          <Button variant="ghost" size="sm" onClick={onShowHistory}>
+            <History size={14} className="mr-1" /> History
+          </Button>
+        )}
+      </div>
+
+      {/* Find in transcript */}
+      {allSegments.length > 0 && (
+        <div className="flex items-center gap-1 mb-4">
+          <div className="relative flex-1">
+            <Search
+              size={14}
+              className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-500"
+            />
+            <Input
+              value={findQuery}
+              onChange={(e) => setFindQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  goToMatch(currentMatchIndex + (e.shiftKey ? -1 : 1));
+                } else if (e.key === "Escape") {
+                  setFindQuery("");
+                }
+              }}
+              placeholder="Find in transcript"
+              aria-label="Find in transcript"
+              className="h-8 pl-8"
+            />
+          </div>
+          {foldedQuery && (
+            <span className="text-xs text-gray-500 whitespace-nowrap px-1">
+              {matches.length > 0
+                ? `${currentMatchIndex + 1} of ${matches.length}`
+                : "No matches"}
+            </span>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            title="Previous match (Shift+Enter)"
+            disabled={matches.length === 0}
+            onClick={() => goToMatch(currentMatchIndex - 1)}
+          >
+            <ChevronUp size={16} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            title="Next match (Enter)"
+            disabled={matches.length === 0}
+            onClick={() => goToMatch(currentMatchIndex + 1)}
+          >
+            <ChevronDown size={16} />
+          </Button>
+          {findQuery && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              title="Clear"
+              onClick={() => setFindQuery("")}
+            >
+              <X size={16} />
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Speaker legend with role mapping, filtering and merging */}
+      {speakers.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {speakers.map((speaker) => {
+            const color = getSpeakerColor(speaker);
+            const isHidden = hiddenSpeakers.includes(speaker);
+
+            return (
+              <DropdownMenu key={speaker}>
+                <DropdownMenuTrigger asChild>
+                  <button
+                    className={`flex items-center gap-2 px-2 py-1 rounded-md border text-sm hover:bg-gray-50 ${isHidden ? "opacity-50" : ""}`}
+                  >
+                    <span className={`h-2.5 w-2.5 rounded-full ${color.dot}`} />
+                    <span className={`font-medium ${color.text}`}>
+                      {getSpeakerLabel(speaker, speakerRoles)}
+                    </span>
+                    {speakerRoles[speaker] && (
+                      <span className="text-xs text-gray-500">{speaker}</span>
+                    )}
+                    <ChevronDown size={14} className="text-gray-500" />
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  <DropdownMenuLabel>{speaker} is the...</DropdownMenuLabel>
+                  <DropdownMenuRadioGroup
+                    value={speakerRoles[speaker] || ""}
+                    onValueChange={(role) =>
+                      onSpeakerRoleChange?.(speaker, role as SpeakerRole)
+                    }
+                  >
+                    {Object.entries(SPEAKER_ROLE_LABELS).map(
+                      ([role, label]) => (
+                        <DropdownMenuRadioItem
+                          key={role}
+                          value={role}
+                          disabled={!onSpeakerRoleChange}
+                        >
+                          {label}
+                        </DropdownMenuRadioItem>
+                      ),
+                    )}
+                  </DropdownMenuRadioGroup>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuCheckboxItem
+                    checked={!isHidden}
+                    onCheckedChange={() => toggleSpeakerVisibility(speaker)}
+                  >
+                    Show in transcript
+                  </DropdownMenuCheckboxItem>
+                  {onMergeSpeakers && speakers.length > 1 && (
+                    <DropdownMenuSub>
+                      <DropdownMenuSubTrigger>Merge into</DropdownMenuSubTrigger>
+                      <DropdownMenuSubContent>
+                        {speakers
+                          .filter((other) => other !== speaker)
+                          .map((other) => (
+                            <DropdownMenuItem
+                              key={other}
+                              onClick={() => onMergeSpeakers(speaker, other)}
+                            >
+                              {getSpeakerLabel(other, speakerRoles)}
+                              {speakerRoles[other] && ` (${other})`}
+                            </DropdownMenuItem>
+                          ))}
+                      </DropdownMenuSubContent>
+                    </DropdownMenuSub>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            );
+          })}
+        </div>
+      )}
 
       {/* Sticky reaction container */}
       {stickyReactionVisible && selectionStart && selectionEnd && (
@@ -344,24 +800,12 @@ const Transcript = ({
           >
             <MessageSquare size={16} className="text-green-600" />
           </button>
-          <button
-            className="p-1 hover:bg-gray-100 rounded"
-            title="Like"
-            onClick={() => {
-              if (selectionStart) {
-                handleToggleLike(selectionStart);
-              }
-            }}
-          >
-            <ThumbsUp
-              size={16}
-              className={
-                likedSegments.includes(selectionStart)
-                  ? "text-yellow-600 fill-yellow-600"
-                  : "text-yellow-600"
-              }
+          {onToggleReaction && selectionStart && (
+            <SegmentReactionPicker
+              counts={reactions[selectionStart]}
+              onToggle={(reaction) => onToggleReaction(selectionStart, reaction)}
             />
-          </button>
+          )}
           <button
             className="p-1 hover:bg-gray-100 rounded ml-auto"
             title="Clear selection"
@@ -413,12 +857,25 @@ const Transcript = ({
       )}
 
       <div className="overflow-y-auto flex-grow relative" ref={transcriptRef}>
+        {isLoading && (
+          <div className="text-center py-8 text-gray-500">
+            Loading transcript...
+          </div>
+        )}
+        {!isLoading && allSegments.length === 0 && (
+          <div className="text-center py-8 text-gray-500">
+            <p>No transcript available for this session yet.</p>
+          </div>
+        )}
         {segments.map((segment) => {
           const isActive = currentSegment?.id === segment.id;
           const isHighlighted = highlightedSegmentIds.includes(segment.id);
           const isSelected = isInSelection(segment.id);
           const isFirst = isFirstInSelection(segment.id);
           const isLast = isLastInSelection(segment.id);
+          const isLowConfidence =
+            segment.confidence !== undefined &&
+            segment.confidence < LOW_CONFIDENCE_THRESHOLD;
 
           return (
             <div
@@ -441,17 +898,267 @@ const Transcript = ({
               style={{ cursor: "default" }}
             >
               {segment.speaker && (
-                <div className="font-semibold text-sm text-gray-700 mb-1 select-none">
-                  {segment.speaker} ({formatTime(segment.start)} -{" "}
-                  {formatTime(segment.end)})
+                <div className="flex items-center gap-1 font-semibold text-sm text-gray-700 mb-1 select-none">
+                  <span
+                    className={`h-2 w-2 rounded-full ${getSpeakerColor(segment.speaker).dot}`}
+                  />
+                  {onReassignSegments ? (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger
+                        asChild
+                        onClick={(e) => e.stopPropagation()}
+                        onMouseDown={(e) => e.stopPropagation()}
+                      >
+                        <button
+                          className={`flex items-center hover:underline ${getSpeakerColor(segment.speaker).text}`}
+                          title="Change speaker"
+                        >
+                          {getSpeakerLabel(segment.speaker, speakerRoles)}
+                          <ChevronDown size={12} className="ml-0.5" />
+                        </button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent
+                        align="start"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <DropdownMenuLabel>
+                          {isInSelection(segment.id)
+                            ? "Move selection to"
+                            : "Move segment to"}
+                        </DropdownMenuLabel>
+                        {speakers
+                          .filter((other) => other !== segment.speaker)
+                          .map((other) => (
+                            <DropdownMenuItem
+                              key={other}
+                              onClick={() =>
+                                handleReassignSpeaker(segment.id, other)
+                              }
+                            >
+                              {getSpeakerLabel(other, speakerRoles)}
+                              {speakerRoles[other] && ` (${other})`}
+                            </DropdownMenuItem>
+                          ))}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          onClick={() =>
+                            handleReassignSpeaker(segment.id, getNewSpeakerId())
+                          }
+                        >
+                          New speaker
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  ) : (
+                    <span className={getSpeakerColor(segment.speaker).text}>
+                      {getSpeakerLabel(segment.speaker, speakerRoles)}
+                    </span>
+                  )}
+                  <span>
+                    ({formatTime(segment.start)} - {formatTime(segment.end)})
+                  </span>
+                </div>
+              )}
+              {correctingSegmentId === segment.id ? (
+                <div
+                  className="space-y-2"
+                  onClick={(e) => e.stopPropagation()}
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onMouseUp={(e) => e.stopPropagation()}
+                >
+                  <Textarea
+                    ref={draftTextRef}
+                    value={draftText}
+                    onChange={(e) => setDraftText(e.target.value)}
+                    rows={3}
+                  />
+                  <div className="flex items-center gap-2 text-sm">
+                    <label htmlFor={`start-${segment.id}`}>Start</label>
+                    <Input
+                      id={`start-${segment.id}`}
+                      value={draftStart}
+                      onChange={(e) => setDraftStart(e.target.value)}
+                      className="h-8 w-20"
+                    />
+                    <label htmlFor={`end-${segment.id}`}>End</label>
+                    <Input
+                      id={`end-${segment.id}`}
+                      value={draftEnd}
+                      onChange={(e) => setDraftEnd(e.target.value)}
+                      className="h-8 w-20"
+                    />
+                  </div>
+                  {draftError && (
+                    <p className="text-xs text-red-600">{draftError}</p>
+                  )}
+                  <div className="flex flex-wrap justify-end gap-2">
+                    {onSplitSegment && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleSplitAtCursor(segment)}
+                      >
+                        <Scissors size={14} className="mr-1" /> Split at cursor
+                      </Button>
+                    )}
+                    {onMergeWithNext &&
+                      allSegments.findIndex((seg) => seg.id === segment.id) <
+                        allSegments.length - 1 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            onMergeWithNext(segment.id);
+                            stopCorrecting();
+                          }}
+                        >
+                          <Merge size={14} className="mr-1" /> Merge with next
+                        </Button>
+                      )}
+                    <Button variant="outline" size="sm" onClick={stopCorrecting}>
+                      Cancel
+                    </Button>
+                    {onEditSegment && (
+                      <Button
+                        size="sm"
+                        onClick={() => handleSaveCorrection(segment)}
+                      >
+                        Save
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ) : (
+                <div
+                  className={`text-gray-800 select-text ${isLowConfidence ? "underline decoration-dotted decoration-orange-400" : ""}`}
+                  style={{ cursor: "text" }}
+                  title={
+                    isLowConfidence
+                      ? `Low transcription confidence (${Math.round(segment.confidence * 100)}%)`
+                      : undefined
+                  }
+                >
+                  {renderSegmentText(segment)}
                 </div>
               )}
-              <div
-                className="text-gray-800 select-text"
-                style={{ cursor: "text" }}
-              >
-                {segment.text}
-              </div>
+
+              {/* Feedback threads on this segment */}
+              {openThreadsSegmentId === segment.id &&
+                feedbackItems[segment.id]?.length > 0 && (
+                  <div
+                    className="mt-3 space-y-3"
+                    onClick={(e) => e.stopPropagation()}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onMouseUp={(e) => e.stopPropagation()}
+                  >
+                    {feedbackItems[segment.id].map((item) => (
+                      <div
+                        key={item.id}
+                        className="bg-white border rounded-md p-3 space-y-2"
+                      >
+                        <div className="flex items-center gap-1 text-xs text-gray-500">
+                          <span className="font-medium text-gray-700">
+                            {item.author?.name}
+                          </span>
+                          · {formatTime(item.timestamp)}
+                          {item.editedAt && (
+                            <button
+                              className="underline hover:text-gray-700"
+                              onClick={() => setHistoryFeedbackId(item.id)}
+                            >
+                              (edited)
+                            </button>
+                          )}
+                          {canModifyFeedback(item) &&
+                            editingFeedbackId !== item.id && (
+                              <span className="ml-auto flex gap-1">
+                                {onEditFeedback && (
+                                  <button
+                                    className="p-1 rounded hover:bg-gray-100"
+                                    title="Edit feedback"
+                                    onClick={() => {
+                                      setFeedbackDraft(item.text);
+                                      setEditingFeedbackId(item.id);
+                                    }}
+                                  >
+                                    <Pencil size={12} />
+                                  </button>
+                                )}
+                                {onDeleteFeedback &&
+                                  (confirmingDeleteId === item.id ? (
+                                    <button
+                                      className="px-1 rounded text-red-600 hover:bg-red-50"
+                                      onClick={() => {
+                                        onDeleteFeedback(item.id);
+                                        setConfirmingDeleteId(null);
+                                      }}
+                                      onBlur={() => setConfirmingDeleteId(null)}
+                                    >
+                                      Confirm delete
+                                    </button>
+                                  ) : (
+                                    <button
+                                      className="p-1 rounded hover:bg-gray-100"
+                                      title="Delete feedback"
+                                      onClick={() => setConfirmingDeleteId(item.id)}
+                                    >
+                                      <Trash2 size={12} />
+                                    </button>
+                                  ))}
+                              </span>
+                            )}
+                        </div>
+                        {item.title && (
+                          <p className="text-sm font-semibold">{item.title}</p>
+                        )}
+                        {editingFeedbackId === item.id ? (
+                          <div className="space-y-2">
+                            <Textarea
+                              value={feedbackDraft}
+                              onChange={(e) => setFeedbackDraft(e.target.value)}
+                              rows={2}
+                              className="text-sm"
+                            />
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setEditingFeedbackId(null)}
+                              >
+                                Cancel
+                              </Button>
+                              <Button
+                                size="sm"
+                                disabled={!feedbackDraft.trim()}
+                                onClick={() => {
+                                  if (feedbackDraft.trim() !== item.text) {
+                                    onEditFeedback?.(item.id, {
+                                      text: feedbackDraft.trim(),
+                                    });
+                                  }
+                                  setEditingFeedbackId(null);
+                                }}
+                              >
+                                Save
+                              </Button>
+                            </div>
+                          </div>
+                        ) : (
+                          item.text && <p className="text-sm">{item.text}</p>
+                        )}
+                        <FeedbackThread
+                          feedbackId={item.id}
+                          resolvedAt={item.resolvedAt}
+                          isReplying={replyingToFeedbackId === item.id}
+                          onReplyingChange={(isReplying) =>
+                            setReplyingToFeedbackId(isReplying ? item.id : null)
+                          }
+                          compact
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
 
               {/* Single reaction container at the top of the first selected segment */}
               {isSelected && isFirst && !stickyReactionVisible && (
@@ -484,49 +1191,78 @@ const Transcript = ({
                   >
                     <MessageSquare size={16} className="text-green-600" />
                   </button>
-                  <button
-                    className="p-1 hover:bg-gray-100 rounded"
-                    title="Like"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleToggleLike(segment.id);
-                    }}
-                  >
-                    <ThumbsUp
-                      size={16}
-                      className={
-                        likedSegments.includes(segment.id)
-                          ? "text-yellow-600 fill-yellow-600"
-                          : "text-yellow-600"
-                      }
+                  {onToggleReaction && (
+                    <SegmentReactionPicker
+                      counts={reactions[segment.id]}
+                      onToggle={(reaction) => onToggleReaction(segment.id, reaction)}
                     />
-                  </button>
+                  )}
                 </div>
               )}
 
-              {/* Feedback and Like indicators - always reserve space */}
+              {/* Feedback and reaction indicators - always reserve space */}
               <div className="absolute right-4 top-1/2 transform -translate-y-1/2">
                 <div className="flex items-center gap-2">
+                  {canCorrect && correctingSegmentId !== segment.id && (
+                    <button
+                      className="p-1 rounded hover:bg-gray-100 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Correct transcript"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        startCorrecting(segment);
+                      }}
+                      onMouseDown={(e) => e.stopPropagation()}
+                    >
+                      <Pencil size={14} className="text-gray-500" />
+                    </button>
+                  )}
                   {feedbackItems[segment.id]?.length > 0 && (
-                    <>
-                      <MessageSquare size={14} className="text-blue-600" />
+                    <button
+                      className="flex items-center gap-1 p-1 rounded hover:bg-gray-100"
+                      title={
+                        openThreadsSegmentId === segment.id
+                          ? "Hide discussion"
+                          : "Show discussion"
+                      }
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setOpenThreadsSegmentId(
+                          openThreadsSegmentId === segment.id ? null : segment.id,
+                        );
+                      }}
+                      onMouseDown={(e) => e.stopPropagation()}
+                    >
+                      {feedbackItems[segment.id].every((item) => item.resolvedAt) ? (
+                        <CheckCircle2 size={14} className="text-green-600" />
+                      ) : (
+                        <MessageSquare size={14} className="text-blue-600" />
+                      )}
                       <span className="text-xs font-medium text-blue-600">
                         {feedbackItems[segment.id]?.length || 0}
                       </span>
-                    </>
-                  )}
-                  {likedSegments.includes(segment.id) && (
-                    <ThumbsUp
-                      size={14}
-                      className="text-yellow-600 fill-yellow-600"
-                    />
+                    </button>
                   )}
+                  <SegmentReactionCounts
+                    counts={reactions[segment.id]}
+                    onToggle={
+                      onToggleReaction &&
+                      ((reaction) => onToggleReaction(segment.id, reaction))
+                    }
+                  />
                 </div>
               </div>
             </div>
           );
         })}
       </div>
+
+      {historyFeedbackId && (
+        <FeedbackRevisionHistory
+          feedbackId={historyFeedbackId}
+          open={!!historyFeedbackId}
+          onOpenChange={(open) => !open && setHistoryFeedbackId(null)}
+        />
+      )}
     </div>
   );
 };
@@ -537,4 +1273,24 @@ const formatTime = (seconds: number) => {
   return `${minutes}:${remainingSeconds < 10 ? "0" : ""}${remainingSeconds}`;
 };
 
+// m:ss.s with one decimal, precise enough to nudge segment boundaries.
+// Rounds before splitting off the minutes, so 59.96 becomes 1:00.0.
+const formatEditableTime = (seconds: number) => {
+  const tenths = Math.round(seconds * 10);
+  const minutes = Math.floor(tenths / 600);
+  const remainingSeconds = (tenths % 600) / 10;
+  return `${minutes}:${remainingSeconds < 10 ? "0" : ""}${remainingSeconds.toFixed(1)}`;
+};
+
+// Accepts "m:ss", "m:ss.s" or plain seconds; returns null when unparseable
+const parseEditableTime = (value: string): number | null => {
+  const parts = value.trim().split(":");
+  if (parts.length > 2 || parts.some((part) => part === "" || isNaN(Number(part)))) {
+    return null;
+  }
+  return parts.length === 2
+    ? Number(parts[0]) * 60 + Number(parts[1])
+    : Number(parts[0]);
+};
+
 export default Transcript;
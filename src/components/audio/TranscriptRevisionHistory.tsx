@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { History } from "lucide-react";
+import { getTranscriptRevisions, TranscriptRevision } from "@/lib/api";
+import { diffWords } from "@/lib/text-diff";
+
+interface TranscriptRevisionHistoryProps {
+  sessionId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ACTION_LABELS: Record<TranscriptRevision["action"], string> = {
+  edit: "Edited text",
+  retime: "Adjusted timing",
+  split: "Split segment",
+  merge: "Merged segments",
+};
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = Math.floor(seconds % 60);
+  return `${minutes}:${remainingSeconds < 10 ? "0" : ""}${remainingSeconds}`;
+};
+
+/**
+ * TextDiff Component
+ *
+ * Renders a word-level diff: removed words struck through in red,
+ * added words highlighted in green.
+ */
+export const TextDiff = ({ before, after }: { before: string; after: string }) => (
+  <p className="text-sm leading-relaxed">
+    {diffWords(before, after).map((part, index) => (
+      <span
+        key={index}
+        className={
+          part.type === "added"
+            ? "bg-green-100 text-green-800"
+            : part.type === "removed"
+              ? "bg-red-100 text-red-800 line-through"
+              : ""
+        }
+      >
+        {part.text}
+      </span>
+    ))}
+  </p>
+);
+
+/**
+ * TranscriptRevisionHistory Component
+ *
+ * Dialog listing every correction made to a session transcript,
+ * newest first, with who made it and what changed.
+ */
+const TranscriptRevisionHistory = ({
+  sessionId,
+  open,
+  onOpenChange,
+}: TranscriptRevisionHistoryProps) => {
+  const [revisions, setRevisions] = useState<TranscriptRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Reload whenever the dialog is opened so new corrections show up
+  useEffect(() => {
+    if (!open) return;
+
+    setIsLoading(true);
+    getTranscriptRevisions(sessionId).then((data) => {
+      setRevisions(data);
+      setIsLoading(false);
+    });
+  }, [open, sessionId]);
+
+  const renderChange = (revision: TranscriptRevision) => {
+    const [before] = revision.before;
+    const [after] = revision.after;
+
+    switch (revision.action) {
+      case "edit":
+      case "retime":
+        return (
+          <>
+            {(before.start !== after.start || before.end !== after.end) && (
+              <p className="text-xs text-gray-500 mb-1">
+                {formatTime(before.start)} - {formatTime(before.end)} →{" "}
+                {formatTime(after.start)} - {formatTime(after.end)}
+              </p>
+            )}
+            <TextDiff before={before.text} after={after.text} />
+          </>
+        );
+      case "split":
+        return (
+          <>
+            <p className="text-xs text-gray-500 mb-1">
+              Split at {formatTime(revision.after[1]?.start ?? before.end)}
+            </p>
+            {revision.after.map((segment) => (
+              <p
+                key={segment.id}
+                className="text-sm border-l-2 border-gray-300 pl-2 mb-1"
+              >
+                {segment.text}
+              </p>
+            ))}
+          </>
+        );
+      case "merge":
+        return (
+          <TextDiff
+            before={revision.before.map((segment) => segment.text).join(" | ")}
+            after={after.text}
+          />
+        );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Transcript History</DialogTitle>
+          <DialogDescription>
+            Every correction made to this transcript, newest first.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-[60vh] pr-4">
+          {isLoading ? (
+            <div className="text-center py-8 text-gray-500">Loading...</div>
+          ) : revisions.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <History className="mx-auto h-8 w-8 mb-2 opacity-50" />
+              <p>No corrections have been made yet.</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {revisions.map((revision) => (
+                <div key={revision.id} className="border rounded-lg p-3">
+                  <div className="flex items-center gap-2 mb-2">
+                    <Avatar className="h-6 w-6">
+                      <AvatarImage
+                        src={`https://api.dicebear.com/7.x/avataaars/svg?seed=${revision.author.avatar}`}
+                        alt={revision.author.name}
+                      />
+                      <AvatarFallback>{revision.author.name[0]}</AvatarFallback>
+                    </Avatar>
+                    <span className="text-sm font-medium">
+                      {revision.author.name}
+                    </span>
+                    <Badge variant="secondary">
+                      {ACTION_LABELS[revision.action]}
+                    </Badge>
+                    <span className="text-xs text-gray-500 ml-auto">
+                      {revision.createdAt.toLocaleString()}
+                    </span>
+                  </div>
+                  {renderChange(revision)}
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TranscriptRevisionHistory;
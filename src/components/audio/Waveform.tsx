@@ -0,0 +1,404 @@
+import React, { useState, useRef, useEffect, useCallback } from "react";
+import { ZoomIn, ZoomOut } from "lucide-react";
+import { Button } from "../ui/button";
+import { WaveformPeaks } from "@/lib/api";
+
+/**
+ * WaveformMarker Interface
+ *
+ * A feedback point or range drawn on top of the waveform.
+ */
+export interface WaveformMarker {
+  id: string;               // Unique identifier for the marker
+  timestamp: number;        // Position in seconds where the marker starts
+  endTimestamp?: number;    // Optional end position for range markers
+  color?: string;           // Hex color (#rrggbb); red when not set
+  label?: string;           // Shown with the time when hovering
+}
+
+/**
+ * WaveformRange Interface
+ *
+ * A stretch of audio shaded on the waveform, e.g. a bleeped PII range.
+ */
+export interface WaveformRange {
+  start: number;            // Start of the range in seconds
+  end: number;              // End of the range in seconds
+}
+
+/**
+ * Waveform Props
+ */
+interface WaveformProps {
+  peaks?: WaveformPeaks | null;               // Precomputed peaks; a plain bar is shown without them
+  duration: number;                           // Length of the recording in seconds
+  currentTime: number;                        // Playback position in seconds
+  markers?: WaveformMarker[];                 // Feedback markers to overlay
+  shadedRanges?: WaveformRange[];             // Ranges to shade, e.g. redacted audio
+  ticks?: number[];                           // Times to tick along the bottom, e.g. find matches
+  activeTick?: number | null;                 // Index of the tick to emphasize
+  onSeek: (time: number) => void;             // Called when the waveform is clicked
+  onMarkerClick?: (markerId: string) => void; // Called when a marker is clicked
+  onSelectRange?: (start: number, end: number) => void; // Called after dragging across a range
+}
+
+const HEIGHT = 64;            // Height of the waveform in CSS pixels
+const MAX_ZOOM = 16;          // Maximum zoom factor relative to fitting the whole recording
+const DRAG_THRESHOLD = 4;     // Pixels the pointer must move before a click becomes a drag
+const DEFAULT_MARKER_COLOR = "#dc2626"; // Markers without a tag color (red-600)
+const PLAYED_COLOR = "rgb(37, 99, 235)";
+const UNPLAYED_COLOR = "rgb(156, 163, 175)";
+
+/**
+ * Format Time Helper Function
+ *
+ * Converts seconds into a human-readable format (MM:SS).
+ */
+const formatTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = Math.floor(seconds % 60);
+  return `${minutes}:${remainingSeconds.toString().padStart(2, "0")}`;
+};
+
+/**
+ * Waveform Component
+ *
+ * Draws the recording's peaks as a zoomable, scrollable waveform with
+ * feedback markers on top. Clicking seeks; dragging selects a range.
+ * Only the visible part is drawn, so long recordings stay cheap to render
+ * at any zoom level.
+ */
+const Waveform: React.FC<WaveformProps> = ({
+  peaks,
+  duration,
+  currentTime,
+  markers = [],
+  shadedRanges = [],
+  ticks = [],
+  activeTick = null,
+  onSeek,
+  onMarkerClick,
+  onSelectRange,
+}) => {
+  const [zoom, setZoom] = useState(1);                       // 1 fits the whole recording
+  const [viewportWidth, setViewportWidth] = useState(0);     // Visible width in CSS pixels
+  const [scrollLeft, setScrollLeft] = useState(0);
+  const [selection, setSelection] = useState<WaveformRange | null>(null); // Range being (or last) dragged
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragStartRef = useRef<{ x: number; time: number } | null>(null);
+  const isDraggingRef = useRef(false);
+
+  const contentWidth = viewportWidth * zoom;
+
+  // Convert between seconds and pixels along the (zoomed) waveform
+  const timeToX = (time: number) =>
+    duration > 0 ? (time / duration) * contentWidth : 0;
+  const percent = (time: number) =>
+    duration > 0 ? `${(time / duration) * 100}%` : "0%";
+
+  /**
+   * Effect: Track the visible width
+   */
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(() =>
+      setViewportWidth(element.clientWidth),
+    );
+    observer.observe(element);
+    setViewportWidth(element.clientWidth);
+
+    return () => observer.disconnect();
+  }, []);
+
+  /**
+   * Effect: Follow the playhead
+   *
+   * When zoomed in, scroll along once playback leaves the visible part.
+   */
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element || zoom === 1 || isDraggingRef.current) return;
+
+    const x = timeToX(currentTime);
+    if (x < element.scrollLeft || x > element.scrollLeft + viewportWidth) {
+      element.scrollLeft = x - viewportWidth * 0.1;
+    }
+  }, [currentTime, zoom, viewportWidth]);
+
+  /**
+   * Effect: Draw the visible peaks
+   */
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !peaks || viewportWidth === 0 || duration === 0) return;
+
+    const pixelRatio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(viewportWidth * pixelRatio);
+    canvas.height = Math.round(HEIGHT * pixelRatio);
+
+    const context = canvas.getContext("2d");
+    if (!context) return;
+    context.scale(pixelRatio, pixelRatio);
+    context.clearRect(0, 0, viewportWidth, HEIGHT);
+
+    const peakCount = peaks.data.length / 2;
+    const secondsPerPixel = duration / contentWidth;
+    const middle = HEIGHT / 2;
+    const playedX = timeToX(currentTime) - scrollLeft;
+
+    for (let x = 0; x < viewportWidth; x++) {
+      // Peaks covered by this pixel column
+      const start = (scrollLeft + x) * secondsPerPixel * peaks.peaksPerSecond;
+      const first = Math.floor(start);
+      const last = Math.min(
+        Math.max(
+          Math.floor(start + secondsPerPixel * peaks.peaksPerSecond),
+          first + 1,
+        ),
+        peakCount,
+      );
+      if (first >= peakCount) break;
+
+      let min = 0;
+      let max = 0;
+      for (let index = first; index < last; index++) {
+        min = Math.min(min, peaks.data[index * 2]);
+        max = Math.max(max, peaks.data[index * 2 + 1]);
+      }
+
+      context.fillStyle = x < playedX ? PLAYED_COLOR : UNPLAYED_COLOR;
+      context.fillRect(
+        x,
+        middle - max * middle,
+        1,
+        Math.max((max - min) * middle, 1),
+      );
+    }
+  }, [peaks, viewportWidth, zoom, scrollLeft, currentTime, duration]);
+
+  // Time under the pointer
+  const getPointerTime = (event: React.PointerEvent) => {
+    const rect = scrollRef.current!.getBoundingClientRect();
+    const x = event.clientX - rect.left + scrollRef.current!.scrollLeft;
+    return Math.min(Math.max((x / contentWidth) * duration, 0), duration);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    if (duration === 0 || event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStartRef.current = { x: event.clientX, time: getPointerTime(event) };
+    isDraggingRef.current = false;
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const dragStart = dragStartRef.current;
+    if (!dragStart) return;
+
+    if (Math.abs(event.clientX - dragStart.x) >= DRAG_THRESHOLD) {
+      isDraggingRef.current = true;
+    }
+    if (isDraggingRef.current) {
+      const time = getPointerTime(event);
+      setSelection({
+        start: Math.min(dragStart.time, time),
+        end: Math.max(dragStart.time, time),
+      });
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    const dragStart = dragStartRef.current;
+    if (!dragStart) return;
+    dragStartRef.current = null;
+
+    if (isDraggingRef.current && onSelectRange) {
+      const time = getPointerTime(event);
+      onSelectRange(Math.min(dragStart.time, time), Math.max(dragStart.time, time));
+    } else {
+      setSelection(null);
+      onSeek(dragStart.time);
+    }
+    isDraggingRef.current = false;
+  };
+
+  /**
+   * Change Zoom
+   *
+   * Zooms around the playhead so it stays in the same place on screen.
+   */
+  const changeZoom = useCallback(
+    (factor: number) => {
+      const element = scrollRef.current;
+      const newZoom = Math.min(Math.max(zoom * factor, 1), MAX_ZOOM);
+      if (!element || newZoom === zoom) return;
+
+      const playheadOffset = timeToX(currentTime) - element.scrollLeft;
+      setZoom(newZoom);
+      requestAnimationFrame(() => {
+        element.scrollLeft =
+          (currentTime / duration) * viewportWidth * newZoom - playheadOffset;
+      });
+    },
+    [zoom, currentTime, duration, viewportWidth],
+  );
+
+  return (
+    <div className="mb-2">
+      <div
+        ref={scrollRef}
+        className="relative bg-gray-100 rounded-md overflow-x-auto overflow-y-hidden select-none"
+        style={{ height: HEIGHT }}
+        onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
+      >
+        <div
+          className="relative h-full cursor-pointer"
+          style={{ width: contentWidth || "100%" }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        >
+          {/* Peaks, drawn for the visible part only */}
+          {peaks && (
+            <canvas
+              ref={canvasRef}
+              className="sticky left-0 top-0 block pointer-events-none"
+              style={{ width: viewportWidth, height: HEIGHT }}
+            />
+          )}
+
+          {/* Progress indicator when there are no peaks to colour */}
+          {!peaks && (
+            <div
+              className="absolute top-0 h-full bg-blue-200 opacity-30"
+              style={{ width: percent(currentTime) }}
+            />
+          )}
+
+          {/* Shaded (e.g. redacted) ranges */}
+          {shadedRanges.map((range, index) => (
+            <div
+              key={`shaded-${index}`}
+              className="absolute top-0 h-full bg-gray-800 opacity-40 pointer-events-none"
+              style={{
+                left: percent(range.start),
+                width: percent(range.end - range.start),
+              }}
+              title={`Redacted ${formatTime(range.start)} - ${formatTime(range.end)}`}
+            />
+          ))}
+
+          {/* Ticks, e.g. find-in-transcript matches */}
+          {ticks.map((time, index) => (
+            <div
+              key={`tick-${index}`}
+              className={`absolute bottom-0 w-0.5 pointer-events-none ${index === activeTick ? "h-1/2 bg-orange-500" : "h-1/3 bg-yellow-500"}`}
+              style={{ left: percent(time) }}
+            />
+          ))}
+
+          {/* Feedback markers */}
+          {markers.map((marker) => {
+            const color = marker.color || DEFAULT_MARKER_COLOR;
+            const time = marker.endTimestamp
+              ? `${formatTime(marker.timestamp)} - ${formatTime(marker.endTimestamp)}`
+              : formatTime(marker.timestamp);
+
+            return (
+              <div
+                key={marker.id}
+                className="absolute top-0 h-full cursor-pointer group"
+                style={{
+                  left: percent(marker.timestamp),
+                  width: marker.endTimestamp
+                    ? percent(marker.endTimestamp - marker.timestamp)
+                    : "2px",
+                  // Ranges are the marker color at 30% opacity
+                  backgroundColor: marker.endTimestamp ? `${color}4d` : color,
+                }}
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={() => onMarkerClick?.(marker.id)}
+                title={
+                  (marker.endTimestamp
+                    ? `Feedback from ${formatTime(marker.timestamp)} to ${formatTime(marker.endTimestamp)}`
+                    : `Feedback at ${formatTime(marker.timestamp)}`) +
+                  (marker.label ? ` (${marker.label})` : "")
+                }
+              >
+                <div
+                  className="absolute top-0 -ml-2 opacity-0 group-hover:opacity-100 transition-opacity text-white text-xs rounded px-1 py-0.5 whitespace-nowrap z-10"
+                  style={{ backgroundColor: color }}
+                >
+                  {marker.label ? `${time} · ${marker.label}` : time}
+                </div>
+                <div
+                  className="absolute top-0 left-0 w-3 h-3 rounded-full -ml-1 -mt-1"
+                  style={{ backgroundColor: color }}
+                ></div>
+                {marker.endTimestamp && (
+                  <div
+                    className="absolute top-0 right-0 w-3 h-3 rounded-full -mr-1 -mt-1"
+                    style={{ backgroundColor: color }}
+                  ></div>
+                )}
+              </div>
+            );
+          })}
+
+          {/* Dragged selection */}
+          {selection && (
+            <div
+              className="absolute top-0 h-full bg-blue-400 opacity-30 border-x border-blue-600 pointer-events-none"
+              style={{
+                left: percent(selection.start),
+                width: percent(selection.end - selection.start),
+              }}
+            />
+          )}
+
+          {/* Playhead */}
+          {peaks && (
+            <div
+              className="absolute top-0 h-full w-px bg-blue-700 pointer-events-none"
+              style={{ left: percent(currentTime) }}
+            />
+          )}
+        </div>
+      </div>
+
+      {/* Zoom controls */}
+      {peaks && (
+        <div className="flex items-center justify-end gap-1 mt-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-gray-500"
+            onClick={() => changeZoom(0.5)}
+            disabled={zoom <= 1}
+            title="Zoom out"
+          >
+            <ZoomOut size={14} />
+          </Button>
+          <span className="text-xs text-gray-500 w-8 text-center">
+            {zoom}x
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-gray-500"
+            onClick={() => changeZoom(2)}
+            disabled={zoom >= MAX_ZOOM}
+            title="Zoom in"
+          >
+            <ZoomIn size={14} />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Waveform;
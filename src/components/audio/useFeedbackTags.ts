@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react";
+import { FeedbackTag, getFeedbackTags } from "@/lib/api";
+
+/**
+ * useFeedbackTags Hook
+ *
+ * Loads the tags that can be put on new feedback, in display order.
+ */
+export const useFeedbackTags = () => {
+  const [tags, setTags] = useState<FeedbackTag[]>([]);
+
+  useEffect(() => {
+    let isCancelled = false;
+    getFeedbackTags().then((result) => {
+      if (!isCancelled) {
+        setTags(result);
+      }
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  return tags;
+};
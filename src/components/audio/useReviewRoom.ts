@@ -0,0 +1,123 @@
+import { MutableRefObject, useEffect, useRef, useState } from "react";
+import {
+  joinReviewRoom,
+  PlaybackState,
+  ReviewRoom,
+  ReviewViewer,
+} from "@/lib/api";
+
+const DRIFT_TOLERANCE = 1.5;      // Seconds a follower may lag before it seeks
+const POSITION_INTERVAL = 2000;   // Milliseconds between position updates while playing
+
+// Bring the local player in line with the leader's
+const applyPlayback = (
+  audio: HTMLAudioElement | null,
+  { time, isPlaying }: PlaybackState,
+) => {
+  if (!audio) return;
+
+  if (Math.abs(audio.currentTime - time) > DRIFT_TOLERANCE) {
+    audio.currentTime = time;
+  }
+  if (isPlaying && audio.paused) {
+    audio.play().catch(() => undefined);
+  } else if (!isPlaying && !audio.paused) {
+    audio.pause();
+  }
+};
+
+/**
+ * useReviewRoom Hook
+ *
+ * Live review of a session: who else has it open, and "follow playback" for
+ * supervision meetings. Following a viewer makes the local player track
+ * their position; a viewer only shares their playback while someone
+ * follows them. audioRef is the player's audio element, from AudioPlayer.
+ */
+export const useReviewRoom = (
+  sessionId: string,
+  viewer: ReviewViewer | null,
+  audioRef: MutableRefObject<HTMLAudioElement | null>,
+) => {
+  const [viewers, setViewers] = useState<ReviewViewer[]>([]);
+  const [followingId, setFollowingId] = useState<string | null>(null);
+  const roomRef = useRef<ReviewRoom | null>(null);
+  const followingIdRef = useRef<string | null>(null);
+
+  const viewerId = viewer?.userId;
+
+  useEffect(() => {
+    if (!viewer) return;
+
+    const room = joinReviewRoom(sessionId, viewer, {
+      onViewersChange: setViewers,
+      onPlayback: (state) => {
+        if (state.leaderId === followingIdRef.current) {
+          applyPlayback(audioRef.current, state);
+        }
+      },
+    });
+    roomRef.current = room;
+
+    return () => {
+      room.leave();
+      roomRef.current = null;
+      followingIdRef.current = null;
+      setViewers([]);
+      setFollowingId(null);
+    };
+  }, [sessionId, viewerId]);
+
+  const follow = (leaderId: string | null) => {
+    followingIdRef.current = leaderId;
+    setFollowingId(leaderId);
+    roomRef.current?.follow(leaderId);
+  };
+
+  // Stop following someone who closed the session
+  useEffect(() => {
+    if (followingId && !viewers.some((item) => item.userId === followingId)) {
+      follow(null);
+    }
+  }, [viewers, followingId]);
+
+  const others = viewers.filter((item) => item.userId !== viewerId);
+  const followers = others.filter((item) => item.followingId === viewerId);
+  const hasFollowers = followers.length > 0;
+
+  // Share playback while anyone follows along
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!hasFollowers || !audio) return;
+
+    const send = () =>
+      roomRef.current?.sendPlayback({
+        time: audio.currentTime,
+        isPlaying: !audio.paused,
+      });
+
+    let lastSentAt = 0;
+    const handleTimeUpdate = () => {
+      if (Date.now() - lastSentAt >= POSITION_INTERVAL) {
+        lastSentAt = Date.now();
+        send();
+      }
+    };
+
+    // New followers start from where we are
+    send();
+    audio.addEventListener("play", send);
+    audio.addEventListener("pause", send);
+    audio.addEventListener("seeked", send);
+    audio.addEventListener("timeupdate", handleTimeUpdate);
+
+    return () => {
+      audio.removeEventListener("play", send);
+      audio.removeEventListener("pause", send);
+      audio.removeEventListener("seeked", send);
+      audio.removeEventListener("timeupdate", handleTimeUpdate);
+    };
+  }, [hasFollowers, followers.length]);
+
+  return { viewers: others, followers, followingId, follow };
+};
@@ -0,0 +1,96 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  addSegmentReaction,
+  getSegmentReactions,
+  ReactionType,
+  removeSegmentReaction,
+  SegmentReaction,
+} from "@/lib/api";
+import { REACTIONS } from "./SegmentReactions";
+
+export interface SegmentReactionCount {
+  reaction: ReactionType;
+  count: number;
+  mine: boolean;          // Whether the current user gave this reaction
+}
+
+/**
+ * useSegmentReactions Hook
+ *
+ * Loads the reactions on a session's transcript and counts them per segment.
+ * `toggleReaction` adds the current user's reaction, or takes it back if
+ * they already gave it, and resolves to whether it was added. Calling it
+ * again with the same arguments undoes the change.
+ */
+export const useSegmentReactions = (sessionId: string, currentUserId?: string) => {
+  const [reactions, setReactions] = useState<SegmentReaction[]>([]);
+  // Latest reactions for toggles fired from stale closures, e.g. an undo toast
+  const reactionsRef = useRef<SegmentReaction[]>([]);
+
+  const updateReactions = (next: SegmentReaction[]) => {
+    reactionsRef.current = next;
+    setReactions(next);
+  };
+
+  useEffect(() => {
+    let isCancelled = false;
+    updateReactions([]);
+    getSegmentReactions(sessionId).then((result) => {
+      if (!isCancelled) {
+        updateReactions(result);
+      }
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [sessionId]);
+
+  const countsBySegment = useMemo(() => {
+    const counts: Record<string, SegmentReactionCount[]> = {};
+    reactions.forEach((reaction) => {
+      if (!counts[reaction.segmentId]) {
+        counts[reaction.segmentId] = [];
+      }
+      const segmentCounts = counts[reaction.segmentId];
+      let entry = segmentCounts.find((item) => item.reaction === reaction.reaction);
+      if (!entry) {
+        entry = { reaction: reaction.reaction, count: 0, mine: false };
+        segmentCounts.push(entry);
+      }
+      entry.count += 1;
+      entry.mine = entry.mine || reaction.userId === currentUserId;
+    });
+
+    // Same order as the picker
+    const order = REACTIONS.map(({ type }) => type);
+    Object.values(counts).forEach((segmentCounts) =>
+      segmentCounts.sort((a, b) => order.indexOf(a.reaction) - order.indexOf(b.reaction)),
+    );
+    return counts;
+  }, [reactions, currentUserId]);
+
+  const toggleReaction = async (
+    segmentId: string,
+    reaction: ReactionType,
+  ): Promise<boolean> => {
+    const mine = reactionsRef.current.find(
+      (item) =>
+        item.segmentId === segmentId &&
+        item.reaction === reaction &&
+        item.userId === currentUserId,
+    );
+
+    if (mine) {
+      updateReactions(reactionsRef.current.filter((item) => item.id !== mine.id));
+      await removeSegmentReaction(mine.id);
+      return false;
+    }
+
+    const saved = await addSegmentReaction(sessionId, segmentId, reaction);
+    // Count it as ours even when it was only applied locally
+    updateReactions([...reactionsRef.current, { ...saved, userId: currentUserId }]);
+    return true;
+  };
+
+  return { countsBySegment, toggleReaction };
+};
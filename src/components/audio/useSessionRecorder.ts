@@ -0,0 +1,294 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  deleteLocalItem,
+  getAllLocalItems,
+  putLocalItem,
+} from "@/lib/localStore";
+
+// How often the recorder hands over audio, which is checkpointed right away
+const CHECKPOINT_INTERVAL_MS = 5000;
+
+// Preferred formats, best first; the browser picks its default otherwise
+const MIME_TYPES = [
+  "audio/webm;codecs=opus",
+  "audio/ogg;codecs=opus",
+  "audio/mp4",
+];
+
+// One checkpointed piece of a recording, stored in the "recordings" store
+interface RecordingChunk {
+  id: string;               // `${recordingId}-${index}`
+  recordingId: string;
+  userId: string;
+  index: number;            // Position of the chunk in the recording
+  blob: Blob;
+  mimeType: string;
+  startedAt: number;        // When the recording started
+  elapsed: number;          // Seconds recorded up to the end of this chunk
+}
+
+// A recording left behind by a crash or a closed tab
+export interface RecoveredRecording {
+  id: string;
+  mimeType: string;
+  startedAt: number;
+  duration: number;         // Seconds recorded before the last checkpoint
+  size: number;             // Bytes
+}
+
+export type RecorderState = "idle" | "recording" | "paused";
+
+const getExtension = (mimeType: string) =>
+  mimeType.includes("ogg") ? "ogg" : mimeType.includes("mp4") ? "m4a" : "webm";
+
+// Turn recorded chunks into a file the upload pipeline accepts
+const toFile = (chunks: Blob[], mimeType: string, startedAt: number) => {
+  const type = mimeType.split(";")[0] || "audio/webm";
+  const date = new Date(startedAt).toISOString().slice(0, 16).replace(":", "-");
+  return new File(chunks, `recording-${date}.${getExtension(type)}`, { type });
+};
+
+const getChunks = async (userId: string) => {
+  const chunks = await getAllLocalItems<RecordingChunk>("recordings");
+  return chunks.filter((chunk) => chunk.userId === userId);
+};
+
+/**
+ * Recordings of this user that never made it into an upload, oldest first
+ */
+export const getRecoveredRecordings = async (
+  userId: string,
+): Promise<RecoveredRecording[]> => {
+  try {
+    const recordings: Record<string, RecoveredRecording> = {};
+    (await getChunks(userId)).forEach((chunk) => {
+      const recording = (recordings[chunk.recordingId] ||= {
+        id: chunk.recordingId,
+        mimeType: chunk.mimeType,
+        startedAt: chunk.startedAt,
+        duration: 0,
+        size: 0,
+      });
+      recording.duration = Math.max(recording.duration, chunk.elapsed);
+      recording.size += chunk.blob.size;
+    });
+    return Object.values(recordings).sort((a, b) => a.startedAt - b.startedAt);
+  } catch (error) {
+    console.error("Error in getRecoveredRecordings:", error);
+    return [];
+  }
+};
+
+/**
+ * Reassemble a checkpointed recording into a file
+ */
+export const loadRecording = async (
+  userId: string,
+  recordingId: string,
+): Promise<File> => {
+  const chunks = (await getChunks(userId))
+    .filter((chunk) => chunk.recordingId === recordingId)
+    .sort((a, b) => a.index - b.index);
+
+  if (chunks.length === 0) {
+    throw new Error("Recording not found");
+  }
+  return toFile(
+    chunks.map((chunk) => chunk.blob),
+    chunks[0].mimeType,
+    chunks[0].startedAt,
+  );
+};
+
+/**
+ * Drop the checkpoints of a recording, e.g. once it is queued for upload
+ */
+export const discardRecording = async (userId: string, recordingId: string) => {
+  const chunks = await getChunks(userId);
+  await Promise.all(
+    chunks
+      .filter((chunk) => chunk.recordingId === recordingId)
+      .map((chunk) => deleteLocalItem("recordings", chunk.id)),
+  );
+};
+
+/**
+ * useSessionRecorder Hook
+ *
+ * Records the microphone with `MediaRecorder`. Every few seconds the new
+ * audio is written to IndexedDB, so a crash or a closed tab loses at most
+ * the last checkpoint; `getRecoveredRecordings` finds what was left behind.
+ * While recording, `level` follows the input loudness (0-1) for a meter.
+ *
+ * @param userId - Owner of the checkpoints, so recordings stay per user
+ */
+export const useSessionRecorder = (userId: string | undefined) => {
+  const [state, setState] = useState<RecorderState>("idle");
+  const [elapsed, setElapsed] = useState(0); // Seconds recorded, excluding pauses
+  const [level, setLevel] = useState(0);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const recordingRef = useRef<{ id: string; startedAt: number } | null>(null);
+  const writesRef = useRef<Promise<void>>(Promise.resolve()); // Checkpoint writes, in order
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const animationFrameRef = useRef<number | null>(null);
+
+  // Elapsed time is counted from timestamps so throttled timers don't drift
+  const recordedBeforeRef = useRef(0);                 // Seconds recorded before the last resume
+  const resumedAtRef = useRef<number | null>(null);    // When recording last (re)started
+  const getElapsed = () =>
+    recordedBeforeRef.current +
+    (resumedAtRef.current ? (Date.now() - resumedAtRef.current) / 1000 : 0);
+
+  // Release the microphone and the level meter
+  const releaseInput = useCallback(() => {
+    if (animationFrameRef.current !== null) {
+      cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = null;
+    }
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+    recorderRef.current?.stream.getTracks().forEach((track) => track.stop());
+    setLevel(0);
+  }, []);
+
+  // Stop recording when the component goes away; checkpoints are kept
+  useEffect(
+    () => () => {
+      if (recorderRef.current && recorderRef.current.state !== "inactive") {
+        recorderRef.current.stop();
+      }
+      releaseInput();
+    },
+    [releaseInput],
+  );
+
+  // Tick the clock while recording
+  useEffect(() => {
+    if (state !== "recording") return;
+    const intervalId = window.setInterval(() => setElapsed(getElapsed()), 250);
+    return () => window.clearInterval(intervalId);
+  }, [state]);
+
+  // Ask before leaving the page mid-recording
+  useEffect(() => {
+    if (state === "idle") return;
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [state]);
+
+  // Follow the input level with an analyser on the microphone stream
+  const startLevelMeter = (stream: MediaStream) => {
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    audioContextRef.current = audioContext;
+
+    const samples = new Float32Array(analyser.fftSize);
+    const update = () => {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) {
+        sum += samples[i] * samples[i];
+      }
+      // RMS scaled so normal speech sits around the middle of the meter
+      setLevel(Math.min(Math.sqrt(sum / samples.length) * 4, 1));
+      animationFrameRef.current = requestAnimationFrame(update);
+    };
+    update();
+  };
+
+  const start = async () => {
+    if (!userId || state !== "idle") return;
+
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false },
+    });
+    const mimeType = MIME_TYPES.find((type) =>
+      MediaRecorder.isTypeSupported(type),
+    );
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : {});
+    const recording = { id: crypto.randomUUID(), startedAt: Date.now() };
+
+    recorderRef.current = recorder;
+    recordingRef.current = recording;
+    chunksRef.current = [];
+    recordedBeforeRef.current = 0;
+    resumedAtRef.current = Date.now();
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size === 0) return;
+      const chunk: RecordingChunk = {
+        id: `${recording.id}-${chunksRef.current.length}`,
+        recordingId: recording.id,
+        userId,
+        index: chunksRef.current.length,
+        blob: event.data,
+        mimeType: recorder.mimeType,
+        startedAt: recording.startedAt,
+        elapsed: getElapsed(),
+      };
+      chunksRef.current.push(event.data);
+      writesRef.current = writesRef.current
+        .then(() => putLocalItem("recordings", chunk))
+        .catch((error) => console.error("Error checkpointing recording:", error));
+    };
+
+    recorder.start(CHECKPOINT_INTERVAL_MS);
+    startLevelMeter(stream);
+    setElapsed(0);
+    setState("recording");
+  };
+
+  const pause = () => {
+    if (recorderRef.current?.state !== "recording") return;
+    recorderRef.current.pause();
+    recordedBeforeRef.current = getElapsed();
+    resumedAtRef.current = null;
+    setElapsed(recordedBeforeRef.current);
+    setState("paused");
+  };
+
+  const resume = () => {
+    if (recorderRef.current?.state !== "paused") return;
+    recorderRef.current.resume();
+    resumedAtRef.current = Date.now();
+    setState("recording");
+  };
+
+  /**
+   * Finish recording. Resolves with the recording as a file once every
+   * checkpoint is written; the checkpoints stay until `discardRecording`.
+   */
+  const stop = () =>
+    new Promise<{ id: string; file: File }>((resolve, reject) => {
+      const recorder = recorderRef.current;
+      const recording = recordingRef.current;
+      if (!recorder || !recording || recorder.state === "inactive") {
+        reject(new Error("Not recording"));
+        return;
+      }
+
+      recorder.onstop = async () => {
+        await writesRef.current;
+        resolve({
+          id: recording.id,
+          file: toFile(chunksRef.current, recorder.mimeType, recording.startedAt),
+        });
+      };
+      recordedBeforeRef.current = getElapsed();
+      resumedAtRef.current = null;
+      recorder.stop();
+      releaseInput();
+      setElapsed(recordedBeforeRef.current);
+      setState("idle");
+    });
+
+  return { state, elapsed, level, start, pause, resume, stop };
+};
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from "react";
+import { getSignedAudioUrl, SignedAudioUrl } from "@/lib/api";
+
+// Refresh this long before the signed URL expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * useSignedAudioUrl Hook
+ *
+ * Mints a short-lived signed URL for an audio file in the private bucket and
+ * mints a new one shortly before it expires, so long playback keeps working.
+ * `renewIfExpired` is meant for player load errors, e.g. after the computer
+ * woke from sleep with an expired URL. It leaves valid URLs alone so a file
+ * that fails for another reason doesn't cause a signing loop.
+ *
+ * @param path - Storage path (or an already playable URL) of the audio file
+ */
+export const useSignedAudioUrl = (path: string | null | undefined) => {
+  const [signedUrl, setSignedUrl] = useState<SignedAudioUrl | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!path) {
+      setSignedUrl(null);
+      return;
+    }
+    setSignedUrl(await getSignedAudioUrl(path));
+  }, [path]);
+
+  // Mint a URL whenever the file changes
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Schedule the next refresh ahead of expiry
+  useEffect(() => {
+    if (!signedUrl?.expiresAt) return;
+
+    const timeoutId = window.setTimeout(
+      refresh,
+      Math.max(signedUrl.expiresAt - Date.now() - REFRESH_MARGIN_MS, 0),
+    );
+
+    return () => window.clearTimeout(timeoutId);
+  }, [signedUrl, refresh]);
+
+  const renewIfExpired = useCallback(() => {
+    if (
+      signedUrl?.expiresAt &&
+      Date.now() >= signedUrl.expiresAt - REFRESH_MARGIN_MS
+    ) {
+      refresh();
+    }
+  }, [signedUrl, refresh]);
+
+  return { url: signedUrl?.url ?? "", renewIfExpired };
+};
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { ClipboardList } from "lucide-react";
+import { CompetencySummary, getCompetencySummary } from "@/lib/api";
+
+interface CompetencyScoresProps {
+  userId?: string;      // Counselor whose rubric scores are rolled up
+  className?: string;
+}
+
+/**
+ * CompetencyScores Component
+ *
+ * Card with a counselor's average rubric score per competency across all
+ * scored sessions, as a share of each rubric's scale.
+ */
+const CompetencyScores = ({ userId, className = "" }: CompetencyScoresProps) => {
+  const [summary, setSummary] = useState<CompetencySummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let isCancelled = false;
+    setIsLoading(true);
+    getCompetencySummary(userId).then((result) => {
+      if (!isCancelled) {
+        setSummary(result);
+        setIsLoading(false);
+      }
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [userId]);
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>Competency Scores</CardTitle>
+        <CardDescription>
+          Average rubric scores from your supervisors.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-4 text-gray-500">Loading...</div>
+        ) : summary.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">
+            <ClipboardList className="mx-auto h-8 w-8 mb-2 opacity-50" />
+            <p>No sessions have been scored yet.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {summary.map((item) => (
+              <div key={item.competency}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-medium">{item.competency}</span>
+                  <span className="text-gray-500">
+                    {Math.round(item.averagePercent)}% ·{" "}
+                    {item.sessionCount}{" "}
+                    {item.sessionCount === 1 ? "session" : "sessions"}
+                  </span>
+                </div>
+                <Progress value={item.averagePercent} className="h-2" />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CompetencyScores;
@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { BellRing, Smartphone } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { getPushDevices, PushDevice } from "@/lib/api";
+import {
+  enablePushOnThisDevice,
+  getCurrentPushSubscription,
+  isPushSupported,
+  revokeDevice,
+} from "@/lib/webPush";
+
+/**
+ * PushDevices Component
+ *
+ * The browsers and devices the user gets push notifications on, with a
+ * button to add this browser and one to revoke each device.
+ */
+const PushDevices = () => {
+  const [devices, setDevices] = useState<PushDevice[]>([]);
+  const [currentEndpoint, setCurrentEndpoint] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+  const supported = isPushSupported();
+
+  useEffect(() => {
+    fetchDevices();
+  }, []);
+
+  const fetchDevices = async () => {
+    const [list, subscription] = await Promise.all([
+      getPushDevices(),
+      getCurrentPushSubscription().catch(() => null),
+    ]);
+    setDevices(list);
+    setCurrentEndpoint(subscription ? subscription.endpoint : null);
+  };
+
+  const showError = (error: any, fallback: string) =>
+    toast({
+      title: "Error",
+      description: error?.message || fallback,
+      variant: "destructive",
+    });
+
+  const enableHere = async () => {
+    setBusy(true);
+    try {
+      await enablePushOnThisDevice();
+      await fetchDevices();
+    } catch (error) {
+      showError(error, "Failed to enable push notifications");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revoke = async (device: PushDevice) => {
+    setBusy(true);
+    try {
+      await revokeDevice(device);
+      await fetchDevices();
+    } catch (error) {
+      showError(error, "Failed to revoke device");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const thisDeviceEnabled = devices.some(
+    (device) => device.endpoint === currentEndpoint,
+  );
+
+  return (
+    <div className="space-y-3 pl-6">
+      {devices.map((device) => (
+        <div
+          key={device.id}
+          className="flex items-center justify-between text-sm"
+        >
+          <div className="flex items-center space-x-2">
+            <Smartphone className="h-4 w-4 text-gray-400" />
+            <div>
+              <div className="flex items-center gap-2 dark:text-white">
+                {device.deviceName}
+                {device.endpoint === currentEndpoint && (
+                  <Badge variant="secondary">This device</Badge>
+                )}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                Added {device.createdAt.toLocaleDateString()}
+                {device.lastUsedAt &&
+                  ` · Last notified ${device.lastUsedAt.toLocaleDateString()}`}
+              </div>
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={busy}
+            onClick={() => revoke(device)}
+          >
+            Revoke
+          </Button>
+        </div>
+      ))}
+
+      {!supported ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          This browser can't receive push notifications.
+        </p>
+      ) : (
+        !thisDeviceEnabled && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={busy}
+            onClick={enableHere}
+          >
+            <BellRing className="h-4 w-4 mr-2" />
+            Enable on this device
+          </Button>
+        )
+      )}
+    </div>
+  );
+};
+
+export default PushDevices;
@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from "react";
+import { endOfDay, startOfDay } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import DatePickerWithRange from "@/components/ui/date-picker-with-range";
+import { X } from "lucide-react";
+import {
+  getSearchCounselors,
+  getSupervisors,
+  SearchFilters,
+  SearchHitType,
+  Supervisor,
+} from "@/lib/api";
+import { hasSearchFilters } from "@/lib/searchFilters";
+import { sessionTypes } from "../audio/SessionUploader";
+import { useFeedbackTags } from "../audio/useFeedbackTags";
+
+const HIT_TYPES: { type: SearchHitType; label: string }[] = [
+  { type: "session", label: "Sessions" },
+  { type: "feedback", label: "Feedback" },
+  { type: "transcript", label: "Transcripts" },
+];
+
+const STATUSES: { value: NonNullable<SearchFilters["status"]>; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "in_progress", label: "In Progress" },
+  { value: "completed", label: "Completed" },
+];
+
+// Radix Select can't use an empty value, so "any" stands for no filter
+const ANY = "any";
+
+interface SearchFacetsProps {
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+}
+
+/**
+ * SearchFacets Component
+ *
+ * Filters for the search page: result type, session type, supervisor,
+ * counselor, date range, feedback tag and session status.
+ */
+const SearchFacets = ({ filters, onChange }: SearchFacetsProps) => {
+  const [supervisors, setSupervisors] = useState<Supervisor[]>([]);
+  const [counselors, setCounselors] = useState<{ id: string; name: string }[]>(
+    [],
+  );
+  const tags = useFeedbackTags();
+
+  useEffect(() => {
+    getSupervisors().then(setSupervisors);
+    getSearchCounselors().then(setCounselors);
+  }, []);
+
+  const update = (changes: Partial<SearchFilters>) =>
+    onChange({ ...filters, ...changes });
+
+  const toggleType = (type: SearchHitType) => {
+    const types = filters.types || [];
+    update({
+      types: types.includes(type)
+        ? types.filter((item) => item !== type)
+        : [...types, type],
+    });
+  };
+
+  const renderSelect = (
+    id: string,
+    value: string | undefined,
+    placeholder: string,
+    options: { value: string; label: string }[],
+    onValueChange: (value: string | undefined) => void,
+  ) => (
+    <Select
+      value={value || ANY}
+      onValueChange={(next) => onValueChange(next === ANY ? undefined : next)}
+    >
+      <SelectTrigger
+        id={id}
+        className="w-44 h-9 dark:bg-gray-800 dark:border-gray-700 dark:text-gray-300"
+      >
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+        <SelectItem value={ANY}>{placeholder}</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {HIT_TYPES.map(({ type, label }) => (
+        <Button
+          key={type}
+          size="sm"
+          variant={filters.types?.includes(type) ? "secondary" : "outline"}
+          className="h-9"
+          onClick={() => toggleType(type)}
+        >
+          {label}
+        </Button>
+      ))}
+
+      {renderSelect(
+        "search-session-type",
+        filters.sessionType,
+        "Any session type",
+        sessionTypes.map((type) => ({ value: type, label: type })),
+        (sessionType) => update({ sessionType }),
+      )}
+      {renderSelect(
+        "search-supervisor",
+        filters.supervisorId,
+        "Any supervisor",
+        supervisors.map((supervisor) => ({
+          value: supervisor.id,
+          label: supervisor.name,
+        })),
+        (supervisorId) => update({ supervisorId }),
+      )}
+      {renderSelect(
+        "search-counselor",
+        filters.counselorId,
+        "Any counselor",
+        counselors.map((counselor) => ({
+          value: counselor.id,
+          label: counselor.name,
+        })),
+        (counselorId) => update({ counselorId }),
+      )}
+      {renderSelect(
+        "search-tag",
+        filters.tagId,
+        "Any tag",
+        tags.map((tag) => ({ value: tag.id, label: tag.name })),
+        (tagId) => update({ tagId }),
+      )}
+      {renderSelect(
+        "search-status",
+        filters.status,
+        "Any status",
+        STATUSES,
+        (status) => update({ status: status as SearchFilters["status"] }),
+      )}
+
+      <DatePickerWithRange
+        className="[&_button]:h-9 [&_button]:w-64"
+        placeholder="Any date"
+        value={
+          filters.from || filters.to
+            ? {
+                from: filters.from ? new Date(filters.from) : undefined,
+                to: filters.to ? new Date(filters.to) : undefined,
+              }
+            : undefined
+        }
+        onChange={(range) =>
+          update({
+            from: range?.from ? startOfDay(range.from).toISOString() : undefined,
+            to: range?.to ? endOfDay(range.to).toISOString() : undefined,
+          })
+        }
+      />
+
+      {hasSearchFilters(filters) && (
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-9"
+          onClick={() => onChange({})}
+        >
+          <X className="h-4 w-4 mr-1" />
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default SearchFacets;
@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Check, Clock, Inbox, X } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  getIncomingSupervisionRequests,
+  respondToSupervisionRequest,
+  subscribeToNotifications,
+  SupervisionRequest,
+} from "@/lib/api";
+import { useAuth } from "../../../supabase/auth";
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = Math.floor(seconds % 60);
+  return `${minutes}:${remainingSeconds < 10 ? "0" : ""}${remainingSeconds}`;
+};
+
+/**
+ * SupervisionRequestInbox Component
+ *
+ * Requests from counselors waiting for the current supervisor to accept or
+ * decline, shown above the notifications on the Requests tab. Declining
+ * takes an optional reason, which the counselor sees.
+ */
+const SupervisionRequestInbox = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<SupervisionRequest[]>([]);
+  const [decliningId, setDecliningId] = useState<string | null>(null); // Request whose decline reason is being written
+  const [declineReason, setDeclineReason] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // New requests arrive with a notification, so reload on every change
+  useEffect(() => {
+    getIncomingSupervisionRequests().then(setRequests);
+    if (!user) return;
+
+    return subscribeToNotifications(user.id, () =>
+      getIncomingSupervisionRequests().then(setRequests),
+    );
+  }, [user?.id]);
+
+  const respond = async (
+    request: SupervisionRequest,
+    accept: boolean,
+    reason?: string,
+  ) => {
+    setBusyId(request.id);
+    try {
+      await respondToSupervisionRequest(request.id, accept, reason);
+      setRequests((current) =>
+        current.filter((item) => item.id !== request.id),
+      );
+      setDecliningId(null);
+      setDeclineReason("");
+      toast({
+        title: accept ? "Request accepted" : "Request declined",
+        description: accept
+          ? `${request.counselor.name} has been told you'll review '${request.sessionTitle}'.`
+          : `${request.counselor.name} can now ask another supervisor.`,
+      });
+    } catch (error) {
+      console.error("Error responding to supervision request:", error);
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to respond to the request",
+        variant: "destructive",
+      });
+      // The counselor may have withdrawn it in the meantime
+      getIncomingSupervisionRequests().then(setRequests);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4 mb-8">
+      <h2 className="flex items-center text-lg font-medium text-gray-800">
+        <Inbox className="h-5 w-5 mr-2 text-purple-500" />
+        Waiting for your response
+        <span className="ml-2 bg-purple-100 text-purple-800 text-xs font-medium px-2 py-0.5 rounded-full">
+          {requests.length}
+        </span>
+      </h2>
+
+      {requests.map((request) => (
+        <Card key={request.id} className="border-l-4 border-l-purple-500">
+          <CardContent className="p-4">
+            <div className="flex items-start gap-4">
+              <Avatar className="h-10 w-10 mt-1">
+                <AvatarImage
+                  src={`https://api.dicebear.com/7.x/avataaars/svg?seed=${request.counselor.id}`}
+                  alt={request.counselor.name}
+                />
+                <AvatarFallback>{request.counselor.name[0]}</AvatarFallback>
+              </Avatar>
+              <div className="flex-1">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="font-medium">{request.sessionTitle}</h3>
+                    <p className="text-sm text-gray-500">
+                      {request.counselor.name} · {request.sessionType}
+                      {request.sessionDuration > 0 &&
+                        ` · ${formatDuration(request.sessionDuration)}`}
+                    </p>
+                  </div>
+                  <span className="flex items-center text-xs text-gray-500">
+                    <Clock size={12} className="mr-1" />
+                    {request.createdAt.toLocaleDateString()}
+                  </span>
+                </div>
+
+                {request.message && (
+                  <p className="mt-2 text-gray-600 border-l-2 border-gray-200 pl-3 italic">
+                    {request.message}
+                  </p>
+                )}
+
+                {decliningId === request.id ? (
+                  <div className="mt-3 space-y-2">
+                    <Textarea
+                      placeholder="Reason for declining (optional), e.g. not taking new sessions this month"
+                      value={declineReason}
+                      onChange={(e) => setDeclineReason(e.target.value)}
+                      className="min-h-[60px]"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={busyId === request.id}
+                        onClick={() => {
+                          setDecliningId(null);
+                          setDeclineReason("");
+                        }}
+                      >
+                        Cancel
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        disabled={busyId === request.id}
+                        onClick={() => respond(request, false, declineReason)}
+                      >
+                        Decline request
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="mt-3 flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busyId === request.id}
+                      onClick={() => {
+                        setDecliningId(request.id);
+                        setDeclineReason("");
+                      }}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Decline
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={busyId === request.id}
+                      onClick={() => respond(request, true)}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Accept
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default SupervisionRequestInbox;
@@ -0,0 +1,46 @@
+import React from "react";
+import { SearchHit } from "@/lib/api";
+
+// Open the hit's session; feedback and transcript hits also jump to their
+// position in the recording
+export const getSearchHitPath = (hit: SearchHit) => {
+  const params = new URLSearchParams({ session: hit.sessionId });
+  if (hit.position !== null) {
+    params.set("t", String(Math.floor(hit.position)));
+  }
+  if (hit.type === "feedback") {
+    params.set("feedback", hit.id);
+  }
+  return `/sessions?${params.toString()}`;
+};
+
+interface SearchSnippetProps {
+  snippet: string;
+  className?: string;
+}
+
+/**
+ * SearchSnippet Component
+ *
+ * Renders a search snippet with its <mark> highlights. The snippet is user
+ * content, so it is split on the markers and rendered as text rather than
+ * set as HTML.
+ */
+const SearchSnippet = ({ snippet, className }: SearchSnippetProps) => (
+  <span className={className}>
+    {snippet.split(/(<mark>.*?<\/mark>)/g).map((part, index) =>
+      part.startsWith("<mark>") ? (
+        <mark
+          key={index}
+          className="bg-yellow-200 dark:bg-yellow-700 dark:text-white rounded-sm px-0.5"
+        >
+          {part.slice(6, -7)}
+        </mark>
+      ) : (
+        part
+      ),
+    )}
+  </span>
+);
+
+export default SearchSnippet;
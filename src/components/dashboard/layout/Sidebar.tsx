@@ -17,8 +17,12 @@ import {
   Moon,
   Sun,
   Globe,
+  Search,
+  BellRing,
 } from "lucide-react";
 import { useAuth } from "../../../../supabase/auth";
+import { useSavedSearches } from "./useSavedSearches";
+import { getSearchPath } from "@/lib/searchFilters";
 
 interface SidebarProps {
   activeItem: string;
@@ -31,6 +35,7 @@ const Sidebar = ({ activeItem, isCollapsed, setIsCollapsed }: SidebarProps) => {
   const { t, language, setLanguage } = useLanguage();
   const { theme, setTheme } = useTheme();
   const { signOut } = useAuth();
+  const { savedSearches } = useSavedSearches();
 
   const defaultItems = [
     {
@@ -130,6 +135,38 @@ const Sidebar = ({ activeItem, isCollapsed, setIsCollapsed }: SidebarProps) => {
             </Button>
           </div>
 
+          {!isCollapsed && savedSearches.length > 0 && (
+            <div className="mt-6 px-3">
+              <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">
+                {t("saved_searches")}
+              </h3>
+              {savedSearches.map((savedSearch) => (
+                <Button
+                  key={savedSearch.id}
+                  variant="ghost"
+                  className="w-full justify-start gap-2 text-sm h-9 dark:text-gray-300"
+                  title={savedSearch.query || savedSearch.name}
+                  onClick={() =>
+                    handleNavigation(
+                      savedSearch.name,
+                      getSearchPath(
+                        savedSearch.query,
+                        savedSearch.filters,
+                        savedSearch.id,
+                      ),
+                    )
+                  }
+                >
+                  <Search className="h-4 w-4 shrink-0" />
+                  <span className="truncate">{savedSearch.name}</span>
+                  {savedSearch.notify && (
+                    <BellRing className="h-3 w-3 ml-auto shrink-0 text-gray-400" />
+                  )}
+                </Button>
+              ))}
+            </div>
+          )}
+
           {!isCollapsed && (
             <div className="mt-6 px-3">
               <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">
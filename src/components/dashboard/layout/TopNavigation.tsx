@@ -3,8 +3,8 @@ import { useNavigate } from "react-router-dom";
 import { useSidebar } from "@/context/SidebarContext";
 import { useTheme } from "@/context/ThemeContext";
 import { useLanguage } from "@/context/LanguageContext";
-import { supabase } from "@/supabase/supabase";
 import {
+  Bell,
   Search,
   User,
   PanelLeft,
@@ -32,27 +32,18 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useAuth } from "../../../../supabase/auth";
 import { Link } from "react-router-dom";
 import { Badge } from "@/components/ui/badge";
-
-interface SearchResult {
-  id: string;
-  title: string;
-  type: "session" | "feedback";
-  path: string;
-}
+import { useUnreadNotificationCount } from "./useUnreadNotificationCount";
+import SearchSnippet, { getSearchHitPath } from "./SearchSnippet";
+import { searchEverything, SearchHit } from "@/lib/api";
 
 interface TopNavigationProps {
   onSearch?: (query: string) => void;
-  notifications?: Array<{ id: string; title: string }>;
   isCollapsed: boolean;
   setIsCollapsed: (value: boolean) => void;
 }
 
 const TopNavigation = ({
   onSearch = () => {},
-  notifications = [
-    { id: "1", title: "New project assigned" },
-    { id: "2", title: "Meeting reminder" },
-  ],
   isCollapsed: propIsCollapsed,
   setIsCollapsed: propSetIsCollapsed,
 }: TopNavigationProps) => {
@@ -67,163 +58,31 @@ const TopNavigation = ({
   const { theme } = useTheme();
   const { t } = useLanguage();
   const navigate = useNavigate();
+  const unreadNotificationCount = useUnreadNotificationCount();
 
   const [searchQuery, setSearchQuery] = useState("");
-  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [searchResults, setSearchResults] = useState<SearchHit[]>([]);
   const [showResults, setShowResults] = useState(false);
 
   useEffect(() => {
-    const performSearch = async () => {
-      if (searchQuery.length < 2) {
-        setSearchResults([]);
-        return;
-      }
-
-      try {
-        // Mock data for testing - this simulates database results
-        // In a real app, this would be replaced with actual database queries
-        const mockSessions = [
-          {
-            id: "s1",
-            title: "Initial Assessment with Client A",
-            description: "First session with new client",
-          },
-          {
-            id: "s2",
-            title: "Cognitive Behavioral Therapy Session",
-            description: "Follow-up CBT session",
-          },
-          {
-            id: "s3",
-            title: "Family Therapy Session",
-            description: "Working with family dynamics",
-          },
-          {
-            id: "s4",
-            title: "Crisis Intervention",
-            description: "Emergency session for client in distress",
-          },
-          {
-            id: "s5",
-            title: "Mindfulness Training",
-            description: "Teaching mindfulness techniques",
-          },
-        ];
-
-        const mockFeedback = [
-          {
-            id: "f1",
-            title: "Great progress",
-            text: "The client showed significant improvement",
-            session_id: "s1",
-          },
-          {
-            id: "f2",
-            title: null,
-            text: "Consider using more open-ended questions",
-            session_id: "s2",
-          },
-          {
-            id: "f3",
-            title: "Technique suggestion",
-            text: "Try incorporating role-playing exercises",
-            session_id: "s3",
-          },
-          {
-            id: "f4",
-            title: null,
-            text: "Good handling of difficult emotions",
-            session_id: "s4",
-          },
-          {
-            id: "f5",
-            title: "Follow-up needed",
-            text: "Schedule a follow-up session soon",
-            session_id: "s5",
-          },
-        ];
-
-        // Filter sessions based on search query
-        const filteredSessions = mockSessions.filter(
-          (session) =>
-            session.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-            session.description
-              .toLowerCase()
-              .includes(searchQuery.toLowerCase()),
-        );
-
-        // Filter feedback based on search query
-        const filteredFeedback = mockFeedback.filter(
-          (item) =>
-            (item.title &&
-              item.title.toLowerCase().includes(searchQuery.toLowerCase())) ||
-            item.text.toLowerCase().includes(searchQuery.toLowerCase()),
-        );
-
-        // Format results
-        const formattedSessions = filteredSessions.map((session) => ({
-          id: session.id,
-          title: session.title,
-          type: "session" as const,
-          path: `/sessions/${session.id}`,
-        }));
-
-        const formattedFeedback = filteredFeedback.map((item) => ({
-          id: item.id,
-          title: item.title || item.text.substring(0, 30) + "...",
-          type: "feedback" as const,
-          path: `/sessions/${item.session_id}?feedback=${item.id}`,
-        }));
-
-        setSearchResults([...formattedSessions, ...formattedFeedback]);
-
-        // Uncomment and use this code when connected to a real Supabase database
-        /*
-        // Search sessions
-        const { data: sessions, error: sessionsError } = await supabase
-          .from("sessions")
-          .select("id, title, description")
-          .or(`title.ilike.%${searchQuery}%,description.ilike.%${searchQuery}%`)
-          .limit(5);
-
-        if (sessionsError) throw sessionsError;
+    if (searchQuery.length < 2) {
+      setSearchResults([]);
+      return;
+    }
 
-        // Search feedback
-        const { data: feedback, error: feedbackError } = await supabase
-          .from("feedback")
-          .select("id, title, text, session_id")
-          .or(`title.ilike.%${searchQuery}%,text.ilike.%${searchQuery}%`)
-          .limit(5);
-
-        if (feedbackError) throw feedbackError;
-
-        // Format results
-        const formattedSessions =
-          sessions?.map((session) => ({
-            id: session.id,
-            title: session.title,
-            type: "session" as const,
-            path: `/sessions/${session.id}`,
-          })) || [];
-
-        const formattedFeedback =
-          feedback?.map((item) => ({
-            id: item.id,
-            title: item.title || item.text.substring(0, 30) + "...",
-            type: "feedback" as const,
-            path: `/sessions/${item.session_id}?feedback=${item.id}`,
-          })) || [];
-
-        setSearchResults([...formattedSessions, ...formattedFeedback]);
-        */
-      } catch (error) {
-        console.error("Search error:", error);
-        setSearchResults([]);
+    // Ignore answers to queries the user has already typed past
+    let isCancelled = false;
+    const debounceTimer = setTimeout(async () => {
+      const hits = await searchEverything(searchQuery, 8);
+      if (!isCancelled) {
+        setSearchResults(hits);
       }
-    };
+    }, 300);
 
-    const debounceTimer = setTimeout(performSearch, 300);
-    return () => clearTimeout(debounceTimer);
+    return () => {
+      isCancelled = true;
+      clearTimeout(debounceTimer);
+    };
   }, [searchQuery]);
 
   if (!user) return null;
@@ -235,10 +94,10 @@ const TopNavigation = ({
     onSearch(query);
   };
 
-  const handleResultClick = (path: string) => {
+  const handleResultClick = (hit: SearchHit) => {
     setShowResults(false);
     setSearchQuery("");
-    navigate(path);
+    navigate(getSearchHitPath(hit));
   };
 
   return (
@@ -288,10 +147,10 @@ const TopNavigation = ({
                     <div
                       key={`${result.type}-${result.id}`}
                       className="p-3 hover:bg-gray-100 dark:hover:bg-gray-700 cursor-pointer border-b border-gray-100 dark:border-gray-700 last:border-0"
-                      onClick={() => handleResultClick(result.path)}
+                      onClick={() => handleResultClick(result)}
                     >
-                      <div className="flex items-center justify-between">
-                        <div className="font-medium text-sm dark:text-gray-200">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="font-medium text-sm dark:text-gray-200 truncate">
                           {result.title}
                         </div>
                         <Badge
@@ -299,12 +158,24 @@ const TopNavigation = ({
                           className={
                             result.type === "session"
                               ? "bg-blue-50 dark:bg-blue-900 text-blue-600 dark:text-blue-200"
-                              : "bg-green-50 dark:bg-green-900 text-green-600 dark:text-green-200"
+                              : result.type === "feedback"
+                                ? "bg-green-50 dark:bg-green-900 text-green-600 dark:text-green-200"
+                                : "bg-purple-50 dark:bg-purple-900 text-purple-600 dark:text-purple-200"
                           }
                         >
-                          {result.type === "session" ? "Session" : "Feedback"}
+                          {result.type === "session"
+                            ? "Session"
+                            : result.type === "feedback"
+                              ? "Feedback"
+                              : "Transcript"}
                         </Badge>
                       </div>
+                      {result.type !== "session" && result.snippet && (
+                        <SearchSnippet
+                          snippet={result.snippet}
+                          className="mt-1 text-xs text-gray-500 dark:text-gray-400 line-clamp-2"
+                        />
+                      )}
                     </div>
                   ))}
                 </div>
@@ -319,6 +190,20 @@ const TopNavigation = ({
       </div>
 
       <div className="flex items-center gap-2">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative text-gray-700 dark:text-gray-300"
+          title={t("notifications")}
+          onClick={() => navigate("/notifications")}
+        >
+          <Bell className="h-5 w-5" />
+          {unreadNotificationCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-medium flex items-center justify-center">
+              {unreadNotificationCount > 99 ? "99+" : unreadNotificationCount}
+            </span>
+          )}
+        </Button>
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button
@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import {
+  createSavedSearch,
+  deleteSavedSearch,
+  getSavedSearches,
+  SavedSearch,
+  SearchFilters,
+  setSavedSearchNotify,
+} from "@/lib/api";
+import { useAuth } from "../../../../supabase/auth";
+
+// Every mounted hook reloads when one of them changes the list, so the
+// Sidebar picks up a search saved on the search page
+const listeners = new Set<() => void>();
+const notifyChanged = () => listeners.forEach((listener) => listener());
+
+/**
+ * useSavedSearches Hook
+ *
+ * The current user's saved searches, sorted by name, with functions to
+ * save, update and delete them.
+ */
+export const useSavedSearches = () => {
+  const { user } = useAuth();
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let isCancelled = false;
+    const refresh = () =>
+      getSavedSearches().then((result) => {
+        if (!isCancelled) {
+          setSavedSearches(result);
+        }
+      });
+
+    refresh();
+    listeners.add(refresh);
+    return () => {
+      isCancelled = true;
+      listeners.delete(refresh);
+    };
+  }, [user?.id]);
+
+  const saveSearch = async (
+    name: string,
+    query: string,
+    filters: SearchFilters,
+    notify: boolean,
+  ) => {
+    const saved = await createSavedSearch(name, query, filters, notify);
+    notifyChanged();
+    return saved;
+  };
+
+  const setNotify = async (savedSearchId: string, notify: boolean) => {
+    await setSavedSearchNotify(savedSearchId, notify);
+    notifyChanged();
+  };
+
+  const removeSearch = async (savedSearchId: string) => {
+    await deleteSavedSearch(savedSearchId);
+    notifyChanged();
+  };
+
+  return { savedSearches, saveSearch, setNotify, removeSearch };
+};
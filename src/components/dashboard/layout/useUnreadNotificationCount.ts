@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+import {
+  getUnreadNotificationCount,
+  subscribeToNotifications,
+} from "@/lib/api";
+import { useAuth } from "../../../../supabase/auth";
+
+/**
+ * useUnreadNotificationCount Hook
+ *
+ * The current user's number of unread notifications, kept up to date
+ * through realtime as notifications arrive or are read elsewhere.
+ */
+export const useUnreadNotificationCount = () => {
+  const { user } = useAuth();
+  const [count, setCount] = useState(0);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let isCancelled = false;
+    const refresh = () =>
+      getUnreadNotificationCount().then((result) => {
+        if (!isCancelled) {
+          setCount(result);
+        }
+      });
+
+    refresh();
+    const unsubscribe = subscribeToNotifications(user.id, refresh);
+    return () => {
+      isCancelled = true;
+      unsubscribe();
+    };
+  }, [user?.id]);
+
+  return count;
+};
@@ -7,6 +7,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/supabase/auth";
 import { Navigate } from "react-router-dom";
 import UserList from "./UserList";
+import EncryptionRecovery from "./EncryptionRecovery";
+import RubricTemplates from "./RubricTemplates";
+import FeedbackTags from "./FeedbackTags";
 import { Shield, Users, UserCheck } from "lucide-react";
 
 export default function AdminDashboard() {
@@ -102,7 +105,10 @@ export default function AdminDashboard() {
             <TabsList className="mb-4">
               <TabsTrigger value="users">Users</TabsTrigger>
               <TabsTrigger value="supervisors">Supervisors</TabsTrigger>
+              <TabsTrigger value="rubrics">Rubrics</TabsTrigger>
+              <TabsTrigger value="tags">Tags</TabsTrigger>
               <TabsTrigger value="activity">Activity Log</TabsTrigger>
+              <TabsTrigger value="encryption">Encryption</TabsTrigger>
             </TabsList>
 
             <TabsContent value="users" className="space-y-4">
@@ -122,6 +128,14 @@ export default function AdminDashboard() {
               </Card>
             </TabsContent>
 
+            <TabsContent value="rubrics" className="space-y-4">
+              <RubricTemplates />
+            </TabsContent>
+
+            <TabsContent value="tags" className="space-y-4">
+              <FeedbackTags />
+            </TabsContent>
+
             <TabsContent value="activity" className="space-y-4">
               <Card>
                 <CardContent className="pt-6">
@@ -132,6 +146,10 @@ export default function AdminDashboard() {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="encryption" className="space-y-4">
+              <EncryptionRecovery />
+            </TabsContent>
           </Tabs>
         </main>
       </div>
@@ -0,0 +1,356 @@
+import React, { useState, useEffect } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { KeyRound, LifeBuoy, Server } from "lucide-react";
+import { supabase } from "@/supabase/supabase";
+import { useToast } from "@/components/ui/use-toast";
+import { getEscrowKey, restoreUserAccess, saveEscrowKey } from "@/lib/api";
+import {
+  exportPublicKey,
+  generateKeyPair,
+  protectPrivateKey,
+  unlockPrivateKey,
+} from "@/lib/crypto";
+
+const MIN_PASSPHRASE_LENGTH = 10;
+
+interface UserOption {
+  id: string;
+  full_name: string;
+  role: string;
+}
+
+export default function EncryptionRecovery() {
+  const [hasRecoveryKey, setHasRecoveryKey] = useState(false);
+  const [hasProcessingKey, setHasProcessingKey] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [users, setUsers] = useState<UserOption[]>([]);
+
+  // Recovery key setup
+  const [newPassphrase, setNewPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+
+  // Processing key, shown once after it is generated
+  const [processingSecret, setProcessingSecret] = useState<string | null>(null);
+
+  // Restoring a user's access
+  const [selectedUserId, setSelectedUserId] = useState("");
+  const [recoveryPassphrase, setRecoveryPassphrase] = useState("");
+
+  const [isWorking, setIsWorking] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const fetchStatus = async () => {
+    try {
+      setLoading(true);
+
+      const [recoveryKey, processingKey, { data, error }] = await Promise.all([
+        getEscrowKey("recovery"),
+        getEscrowKey("processing"),
+        supabase
+          .from("user_profiles")
+          .select("id, full_name, role")
+          .order("full_name"),
+      ]);
+
+      if (error) throw error;
+
+      setHasRecoveryKey(!!recoveryKey);
+      setHasProcessingKey(!!processingKey);
+      setUsers(data);
+    } catch (error) {
+      console.error("Error fetching encryption status:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load encryption settings",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createRecoveryKey = async () => {
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      toast({
+        title: "Passphrase too short",
+        description: `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (newPassphrase !== confirmation) {
+      toast({
+        title: "Passphrases do not match",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      const keyPair = await generateKeyPair();
+      await saveEscrowKey(
+        "recovery",
+        await exportPublicKey(keyPair.publicKey),
+        await protectPrivateKey(keyPair.privateKey, newPassphrase),
+      );
+
+      setHasRecoveryKey(true);
+      setNewPassphrase("");
+      setConfirmation("");
+      toast({
+        title: "Recovery key created",
+        description: "New recordings can now be recovered by admins.",
+      });
+    } catch (error) {
+      console.error("Error creating recovery key:", error);
+      toast({
+        title: "Error",
+        description: "Failed to create the recovery key",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const createProcessingKey = async () => {
+    try {
+      setIsWorking(true);
+      const keyPair = await generateKeyPair();
+      await saveEscrowKey(
+        "processing",
+        await exportPublicKey(keyPair.publicKey),
+      );
+
+      // The private half is never stored; it goes into the Edge Function secrets
+      const privateJwk = await crypto.subtle.exportKey(
+        "jwk",
+        keyPair.privateKey,
+      );
+      setProcessingSecret(JSON.stringify(privateJwk));
+      setHasProcessingKey(true);
+    } catch (error) {
+      console.error("Error creating processing key:", error);
+      toast({
+        title: "Error",
+        description: "Failed to create the processing key",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const restoreAccess = async () => {
+    try {
+      setIsWorking(true);
+      const recoveryKey = await getEscrowKey("recovery");
+      if (!recoveryKey) {
+        throw new Error("No recovery key has been set up");
+      }
+
+      let privateKey: CryptoKey;
+      try {
+        privateKey = await unlockPrivateKey(recoveryKey, recoveryPassphrase);
+      } catch {
+        throw new Error("That recovery passphrase is not correct");
+      }
+
+      const restored = await restoreUserAccess(selectedUserId, privateKey);
+      setRecoveryPassphrase("");
+      toast({
+        title: "Access restored",
+        description: `Restored access to ${restored} recording${restored === 1 ? "" : "s"}.`,
+      });
+    } catch (error) {
+      console.error("Error restoring access:", error);
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-4">Loading encryption settings...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Recovery key */}
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-medium flex items-center gap-2">
+              <LifeBuoy className="h-5 w-5" />
+              Recovery Key
+            </h3>
+            <Badge variant={hasRecoveryKey ? "default" : "outline"}>
+              {hasRecoveryKey ? "Configured" : "Not configured"}
+            </Badge>
+          </div>
+          <p className="text-gray-500 text-sm">
+            Every recording key is also wrapped for the recovery key, so admins
+            can restore access for users who forget their passphrase. Only
+            recordings uploaded after the key exists can be recovered.
+          </p>
+          {!hasRecoveryKey && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="recovery-passphrase-new">
+                  Recovery passphrase
+                </Label>
+                <Input
+                  id="recovery-passphrase-new"
+                  type="password"
+                  value={newPassphrase}
+                  onChange={(e) => setNewPassphrase(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recovery-passphrase-confirmation">
+                  Confirm passphrase
+                </Label>
+                <Input
+                  id="recovery-passphrase-confirmation"
+                  type="password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                />
+              </div>
+              <Button
+                onClick={createRecoveryKey}
+                disabled={isWorking || !newPassphrase}
+              >
+                Create recovery key
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Processing key */}
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-medium flex items-center gap-2">
+              <Server className="h-5 w-5" />
+              Processing Key
+            </h3>
+            <Badge variant={hasProcessingKey ? "default" : "outline"}>
+              {hasProcessingKey ? "Configured" : "Not configured"}
+            </Badge>
+          </div>
+          <p className="text-gray-500 text-sm">
+            Lets the transcription service decrypt recordings. Its private key
+            is only shown once and must be stored as the
+            PROCESSING_PRIVATE_KEY Edge Function secret.
+            {hasProcessingKey &&
+              " Generating a new key stops older recordings from being transcribed again."}
+          </p>
+          {processingSecret ? (
+            <div className="space-y-2">
+              <Label htmlFor="processing-secret">
+                PROCESSING_PRIVATE_KEY
+              </Label>
+              <Textarea
+                id="processing-secret"
+                readOnly
+                rows={4}
+                value={processingSecret}
+                className="font-mono text-xs"
+              />
+              <Button
+                variant="outline"
+                onClick={() => setProcessingSecret(null)}
+              >
+                I have stored the key
+              </Button>
+            </div>
+          ) : (
+            <Button
+              variant={hasProcessingKey ? "outline" : "default"}
+              onClick={createProcessingKey}
+              disabled={isWorking}
+            >
+              {hasProcessingKey
+                ? "Generate new processing key"
+                : "Generate processing key"}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Restore access */}
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <h3 className="text-lg font-medium flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Restore User Access
+          </h3>
+          <p className="text-gray-500 text-sm">
+            After a user creates a new passphrase, re-share the recordings they
+            own or supervise with their new key.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>User</Label>
+              <Select value={selectedUserId} onValueChange={setSelectedUserId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a user" />
+                </SelectTrigger>
+                <SelectContent>
+                  {users.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {user.full_name || "Unnamed user"} ({user.role})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recovery-passphrase">Recovery passphrase</Label>
+              <Input
+                id="recovery-passphrase"
+                type="password"
+                value={recoveryPassphrase}
+                onChange={(e) => setRecoveryPassphrase(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={restoreAccess}
+              disabled={
+                isWorking ||
+                !hasRecoveryKey ||
+                !selectedUserId ||
+                !recoveryPassphrase
+              }
+            >
+              {isWorking ? "Restoring..." : "Restore access"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
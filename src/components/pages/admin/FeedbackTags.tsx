@@ -0,0 +1,251 @@
+import React, { useState, useEffect } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Archive, ArchiveRestore, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  deleteFeedbackTag,
+  FeedbackTag,
+  FeedbackTagCategory,
+  getFeedbackTags,
+  saveFeedbackTag,
+  setFeedbackTagArchived,
+} from "@/lib/api";
+import { TAG_CATEGORY_LABELS } from "../../audio/FeedbackTagPicker";
+
+const NEW_TAG_COLOR = "#2563eb";
+
+export default function FeedbackTags() {
+  const [tags, setTags] = useState<FeedbackTag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newName, setNewName] = useState("");
+  const [newCategory, setNewCategory] = useState<FeedbackTagCategory>("general");
+  const [newColor, setNewColor] = useState(NEW_TAG_COLOR);
+  const [deletingTag, setDeletingTag] = useState<FeedbackTag | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchTags();
+  }, []);
+
+  const fetchTags = async () => {
+    setLoading(true);
+    setTags(await getFeedbackTags(true));
+    setLoading(false);
+  };
+
+  const showError = (description: string) =>
+    toast({ title: "Error", description, variant: "destructive" });
+
+  const addTag = async () => {
+    try {
+      const tag = await saveFeedbackTag(
+        { name: newName.trim(), category: newCategory, color: newColor },
+        tags.length,
+      );
+      setTags([...tags, tag]);
+      setNewName("");
+      setNewColor(NEW_TAG_COLOR);
+    } catch (error) {
+      console.error("Error adding tag:", error);
+      showError("Failed to add the tag. Tag names must be unique.");
+    }
+  };
+
+  // Save a changed name, category or color of an existing tag
+  const updateTag = async (tag: FeedbackTag, changes: Partial<FeedbackTag>) => {
+    const updated = { ...tag, ...changes };
+    if (!updated.name.trim()) return;
+
+    setTags(tags.map((t) => (t.id === tag.id ? updated : t)));
+    try {
+      await saveFeedbackTag({ ...updated, name: updated.name.trim() });
+    } catch (error) {
+      console.error("Error updating tag:", error);
+      showError("Failed to update the tag.");
+      fetchTags();
+    }
+  };
+
+  const toggleArchived = async (tag: FeedbackTag) => {
+    try {
+      await setFeedbackTagArchived(tag.id, !tag.archivedAt);
+      setTags(
+        tags.map((t) =>
+          t.id === tag.id
+            ? { ...t, archivedAt: tag.archivedAt ? undefined : new Date() }
+            : t,
+        ),
+      );
+    } catch (error) {
+      console.error("Error archiving tag:", error);
+      showError("Failed to archive the tag.");
+    }
+  };
+
+  const confirmDelete = async () => {
+    try {
+      await deleteFeedbackTag(deletingTag.id);
+      setTags(tags.filter((tag) => tag.id !== deletingTag.id));
+    } catch (error) {
+      console.error("Error deleting tag:", error);
+      showError("Failed to delete the tag.");
+    } finally {
+      setDeletingTag(null);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-4">Loading tags...</div>;
+  }
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        <div>
+          <h3 className="text-lg font-medium">Feedback Tags</h3>
+          <p className="text-gray-500 text-sm">
+            Supervisors pick these when adding feedback; the first tag colors
+            the feedback's marker on the recording. Archived tags stay on
+            existing feedback but can no longer be picked.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {tags.map((tag) => (
+            <div key={tag.id} className="flex items-center gap-2">
+              <input
+                type="color"
+                value={tag.color}
+                onChange={(e) => updateTag(tag, { color: e.target.value })}
+                className="h-9 w-9 rounded border cursor-pointer"
+                title="Tag color"
+              />
+              <Input
+                defaultValue={tag.name}
+                onBlur={(e) =>
+                  e.target.value.trim() !== tag.name &&
+                  updateTag(tag, { name: e.target.value })
+                }
+                className="flex-1"
+              />
+              <Select
+                value={tag.category}
+                onValueChange={(category: FeedbackTagCategory) =>
+                  updateTag(tag, { category })
+                }
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TAG_CATEGORY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {tag.archivedAt && <Badge variant="outline">Archived</Badge>}
+              <Button
+                variant="ghost"
+                size="icon"
+                title={tag.archivedAt ? "Restore tag" : "Archive tag"}
+                onClick={() => toggleArchived(tag)}
+              >
+                {tag.archivedAt ? (
+                  <ArchiveRestore className="h-4 w-4" />
+                ) : (
+                  <Archive className="h-4 w-4" />
+                )}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Delete tag"
+                onClick={() => setDeletingTag(tag)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {/* New tag */}
+        <div className="flex items-center gap-2 pt-2 border-t">
+          <input
+            type="color"
+            value={newColor}
+            onChange={(e) => setNewColor(e.target.value)}
+            className="h-9 w-9 rounded border cursor-pointer"
+            title="Tag color"
+          />
+          <Input
+            placeholder="New tag, e.g. Active Listening"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            className="flex-1"
+          />
+          <Select
+            value={newCategory}
+            onValueChange={(category: FeedbackTagCategory) =>
+              setNewCategory(category)
+            }
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TAG_CATEGORY_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={addTag} disabled={!newName.trim()}>
+            <Plus className="h-4 w-4 mr-1" /> Add tag
+          </Button>
+        </div>
+
+        <AlertDialog
+          open={!!deletingTag}
+          onOpenChange={(open) => !open && setDeletingTag(null)}
+        >
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete "{deletingTag?.name}"?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The tag will be removed from all feedback. Archive it instead
+                to keep it on existing feedback.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardContent>
+    </Card>
+  );
+}
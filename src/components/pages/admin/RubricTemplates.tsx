@@ -0,0 +1,379 @@
+import React, { useState, useEffect } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowDown, ArrowUp, ClipboardList, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  deleteRubricTemplate,
+  getRubricTemplates,
+  RubricTemplate,
+  saveRubricTemplate,
+} from "@/lib/api";
+import { sessionTypes } from "../../audio/SessionUploader";
+
+// Select value standing for the default template (session_type NULL)
+const DEFAULT_TYPE = "__default";
+
+type TemplateDraft = Omit<RubricTemplate, "id"> & { id?: string };
+
+const emptyDraft = (): TemplateDraft => ({
+  name: "",
+  description: "",
+  sessionType: null,
+  scaleMax: 5,
+  criteria: [{ id: "", name: "" }],
+});
+
+export default function RubricTemplates() {
+  const [templates, setTemplates] = useState<RubricTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<TemplateDraft | null>(null); // Template being edited
+  const [deletingTemplate, setDeletingTemplate] = useState<RubricTemplate | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const fetchTemplates = async () => {
+    setLoading(true);
+    setTemplates(await getRubricTemplates());
+    setLoading(false);
+  };
+
+  const typeLabel = (sessionType: string | null) =>
+    sessionType || "Default (all other session types)";
+
+  // Session types that don't have a template yet, plus the one being edited
+  const availableTypes = [null, ...sessionTypes].filter(
+    (type) =>
+      type === draft?.sessionType ||
+      !templates.some((template) => template.sessionType === type),
+  );
+
+  const updateCriterion = (
+    index: number,
+    changes: { name?: string; description?: string },
+  ) => {
+    setDraft({
+      ...draft,
+      criteria: draft.criteria.map((criterion, i) =>
+        i === index ? { ...criterion, ...changes } : criterion,
+      ),
+    });
+  };
+
+  const moveCriterion = (index: number, offset: number) => {
+    const criteria = [...draft.criteria];
+    [criteria[index], criteria[index + offset]] = [
+      criteria[index + offset],
+      criteria[index],
+    ];
+    setDraft({ ...draft, criteria });
+  };
+
+  const saveDraft = async () => {
+    const criteria = draft.criteria
+      .filter((criterion) => criterion.name.trim())
+      .map((criterion) => ({
+        ...criterion,
+        id: criterion.id || undefined,
+        name: criterion.name.trim(),
+        description: criterion.description?.trim() || undefined,
+      }));
+
+    if (!draft.name.trim() || criteria.length === 0) {
+      toast({
+        title: "Rubric incomplete",
+        description: "Give the rubric a name and at least one criterion.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      await saveRubricTemplate({ ...draft, name: draft.name.trim(), criteria });
+      setDraft(null);
+      toast({ title: "Rubric saved" });
+      fetchTemplates();
+    } catch (error) {
+      console.error("Error saving rubric:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save the rubric",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    try {
+      await deleteRubricTemplate(deletingTemplate.id);
+      fetchTemplates();
+    } catch (error) {
+      console.error("Error deleting rubric:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the rubric",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingTemplate(null);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-4">Loading rubrics...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {draft ? (
+        <Card>
+          <CardContent className="pt-6 space-y-4">
+            <h3 className="text-lg font-medium">
+              {draft.id ? "Edit Rubric" : "New Rubric"}
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rubric-name">Name</Label>
+                <Input
+                  id="rubric-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Session type</Label>
+                <Select
+                  value={draft.sessionType ?? DEFAULT_TYPE}
+                  onValueChange={(value) =>
+                    setDraft({
+                      ...draft,
+                      sessionType: value === DEFAULT_TYPE ? null : value,
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableTypes.map((type) => (
+                      <SelectItem key={type ?? DEFAULT_TYPE} value={type ?? DEFAULT_TYPE}>
+                        {typeLabel(type)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rubric-scale">Highest score</Label>
+                <Input
+                  id="rubric-scale"
+                  type="number"
+                  min={2}
+                  max={10}
+                  value={draft.scaleMax}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      scaleMax: Math.min(Math.max(Number(e.target.value) || 2, 2), 10),
+                    })
+                  }
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rubric-description">Description</Label>
+              <Input
+                id="rubric-description"
+                value={draft.description || ""}
+                onChange={(e) =>
+                  setDraft({ ...draft, description: e.target.value })
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Criteria</Label>
+              {draft.criteria.map((criterion, index) => (
+                <div key={criterion.id || index} className="flex gap-2 items-center">
+                  <Input
+                    placeholder="Competency, e.g. Empathy"
+                    value={criterion.name}
+                    onChange={(e) => updateCriterion(index, { name: e.target.value })}
+                    className="w-1/3"
+                  />
+                  <Input
+                    placeholder="What a good score looks like (optional)"
+                    value={criterion.description || ""}
+                    onChange={(e) =>
+                      updateCriterion(index, { description: e.target.value })
+                    }
+                    className="flex-1"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === 0}
+                    onClick={() => moveCriterion(index, -1)}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === draft.criteria.length - 1}
+                    onClick={() => moveCriterion(index, 1)}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() =>
+                      setDraft({
+                        ...draft,
+                        criteria: draft.criteria.filter((_, i) => i !== index),
+                      })
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setDraft({
+                    ...draft,
+                    criteria: [...draft.criteria, { id: "", name: "" }],
+                  })
+                }
+              >
+                <Plus className="h-4 w-4 mr-1" /> Add criterion
+              </Button>
+              {draft.id && (
+                <p className="text-xs text-gray-500">
+                  Removing a criterion also removes the scores given for it.
+                </p>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+              <Button onClick={saveDraft} disabled={isWorking}>
+                {isWorking ? "Saving..." : "Save rubric"}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="flex justify-between items-center">
+          <p className="text-gray-500 text-sm">
+            Supervisors score each session against the rubric for its session
+            type, or the default rubric if the type has none.
+          </p>
+          <Button onClick={() => setDraft(emptyDraft())}>
+            <Plus className="h-4 w-4 mr-1" /> New rubric
+          </Button>
+        </div>
+      )}
+
+      {templates.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6 text-center text-gray-500">
+            <ClipboardList className="mx-auto h-8 w-8 mb-2 opacity-50" />
+            <p>No rubrics have been set up yet.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        templates.map((template) => (
+          <Card key={template.id}>
+            <CardContent className="pt-6 space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <h3 className="text-lg font-medium">{template.name}</h3>
+                  <Badge variant="outline">{typeLabel(template.sessionType)}</Badge>
+                  <Badge variant="secondary">1-{template.scaleMax}</Badge>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDraft(template)}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDeletingTemplate(template)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              {template.description && (
+                <p className="text-gray-500 text-sm">{template.description}</p>
+              )}
+              <div className="flex flex-wrap gap-1">
+                {template.criteria.map((criterion) => (
+                  <Badge key={criterion.id} variant="secondary" className="font-normal">
+                    {criterion.name}
+                  </Badge>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <AlertDialog
+        open={!!deletingTemplate}
+        onOpenChange={(open) => !open && setDeletingTemplate(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this rubric?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All scores given with "{deletingTemplate?.name}" will be deleted
+              too. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
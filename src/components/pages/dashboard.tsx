@@ -10,6 +10,7 @@ import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { useAuth } from "../../../supabase/auth";
+import CompetencyScores from "../dashboard/CompetencyScores";
 import { Link } from "react-router-dom";
 import {
   FileAudio,
@@ -324,6 +325,12 @@ const Dashboard = () => {
             </Card>
           </div>
 
+          {/* Rubric scores across sessions */}
+          <CompetencyScores
+            userId={user?.id}
+            className="border border-gray-200 shadow-sm mb-8"
+          />
+
           {/* Recent Feedback */}
           <Card className="border border-gray-200 shadow-sm">
             <CardHeader>
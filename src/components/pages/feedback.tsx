@@ -19,6 +19,10 @@ import {
   Pause,
 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { FeedbackTag } from "@/lib/api";
+import FeedbackTagPicker, {
+  FeedbackTagBadges,
+} from "../audio/FeedbackTagPicker";
 
 interface FeedbackItem {
   id: string;
@@ -30,6 +34,7 @@ interface FeedbackItem {
   title?: string;
   audioResponse?: string;
   audioFeedback?: string;
+  tags?: FeedbackTag[];
   author: {
     name: string;
     avatar: string;
@@ -37,6 +42,26 @@ interface FeedbackItem {
   createdAt: Date;
 }
 
+// Tags used by the mock feedback below
+const strengthTag: FeedbackTag = {
+  id: "tag-strength",
+  name: "Strength",
+  category: "general",
+  color: "#16a34a",
+};
+const growthAreaTag: FeedbackTag = {
+  id: "tag-growth-area",
+  name: "Growth Area",
+  category: "general",
+  color: "#d97706",
+};
+const cbtTag: FeedbackTag = {
+  id: "tag-cbt",
+  name: "CBT",
+  category: "technique",
+  color: "#2563eb",
+};
+
 const FeedbackPage = () => {
   const { isCollapsed, setIsCollapsed } = useSidebar();
   const [activeTab, setActiveTab] = useState("all");
@@ -44,6 +69,7 @@ const FeedbackPage = () => {
   const [feedbackItems, setFeedbackItems] = useState<FeedbackItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isPlaying, setIsPlaying] = useState<string | null>(null);
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
   const { toast } = useToast();
   const navigate = useNavigate();
 
@@ -56,6 +82,7 @@ const FeedbackPage = () => {
       timestamp: 120,
       text: "Great introduction and rapport building. You established trust quickly with the client.",
       title: "Introduction Feedback",
+      tags: [strengthTag],
       author: {
         name: "Dr. Sarah Johnson",
         avatar: "sarah",
@@ -69,6 +96,7 @@ const FeedbackPage = () => {
       timestamp: 450,
       text: "Consider using more open-ended questions here to encourage the client to elaborate.",
       title: "Questioning Technique",
+      tags: [growthAreaTag],
       audioResponse: "audio-response-1.mp3",
       author: {
         name: "Dr. Sarah Johnson",
@@ -83,6 +111,7 @@ const FeedbackPage = () => {
       timestamp: 890,
       text: "Good use of reflection. The client seemed to respond well to this technique.",
       title: "Reflection Technique",
+      tags: [strengthTag, cbtTag],
       author: {
         name: "Dr. Michael Chen",
         avatar: "michael",
@@ -96,6 +125,7 @@ const FeedbackPage = () => {
       timestamp: 1500,
       text: "This would be a good opportunity to introduce the concept of cognitive restructuring.",
       title: "Missed Opportunity",
+      tags: [growthAreaTag, cbtTag],
       audioResponse: "audio-response-2.mp3",
       audioFeedback: "audio-feedback-1.webm",
       author: {
@@ -176,14 +206,27 @@ const FeedbackPage = () => {
     navigate(`/sessions`, { state: { sessionId } });
   };
 
-  // Filter feedback based on active tab and search query
+  // Tags found on the feedback, offered as filters
+  const usedTags = Array.from(
+    new Map(
+      feedbackItems.flatMap((item) => item.tags || []).map((tag) => [tag.id, tag]),
+    ).values(),
+  ).sort(
+    (a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name),
+  );
+
+  // Filter feedback based on active tab, search query and selected tags
   const filteredFeedback = feedbackItems.filter((item) => {
     const matchesSearch =
-      searchQuery === "" ||
-      item.text.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (item.title &&
-        item.title.toLowerCase().includes(searchQuery.toLowerCase())) ||
-      item.sessionTitle.toLowerCase().includes(searchQuery.toLowerCase());
+      (searchQuery === "" ||
+        item.text.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        (item.title &&
+          item.title.toLowerCase().includes(searchQuery.toLowerCase())) ||
+        item.sessionTitle.toLowerCase().includes(searchQuery.toLowerCase())) &&
+      // Feedback must have every selected tag
+      selectedTagIds.every((tagId) =>
+        item.tags?.some((tag) => tag.id === tagId),
+      );
 
     if (activeTab === "all") return matchesSearch;
     if (activeTab === "text") return !item.audioFeedback && matchesSearch;
@@ -235,6 +278,25 @@ const FeedbackPage = () => {
                 onChange={(e) => setSearchQuery(e.target.value)}
               />
             </div>
+            {usedTags.length > 0 && (
+              <div className="flex items-start justify-between gap-2 mt-3">
+                <FeedbackTagPicker
+                  tags={usedTags}
+                  selectedIds={selectedTagIds}
+                  onChange={setSelectedTagIds}
+                />
+                {selectedTagIds.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => setSelectedTagIds([])}
+                  >
+                    Clear tags
+                  </Button>
+                )}
+              </div>
+            )}
           </div>
 
           <Tabs
@@ -262,8 +324,8 @@ const FeedbackPage = () => {
                     No feedback found
                   </h3>
                   <p className="mt-2 text-gray-500">
-                    {searchQuery
-                      ? "Try adjusting your search query."
+                    {searchQuery || selectedTagIds.length > 0
+                      ? "Try adjusting your search query or tags."
                       : "You don't have any feedback yet."}
                   </p>
                 </div>
@@ -293,8 +355,8 @@ const FeedbackPage = () => {
                     No text feedback found
                   </h3>
                   <p className="mt-2 text-gray-500">
-                    {searchQuery
-                      ? "Try adjusting your search query."
+                    {searchQuery || selectedTagIds.length > 0
+                      ? "Try adjusting your search query or tags."
                       : "You don't have any text feedback yet."}
                   </p>
                 </div>
@@ -324,8 +386,8 @@ const FeedbackPage = () => {
                     No audio feedback found
                   </h3>
                   <p className="mt-2 text-gray-500">
-                    {searchQuery
-                      ? "Try adjusting your search query."
+                    {searchQuery || selectedTagIds.length > 0
+                      ? "Try adjusting your search query or tags."
                       : "You don't have any audio feedback yet."}
                   </p>
                 </div>
@@ -355,8 +417,8 @@ const FeedbackPage = () => {
                     No recent feedback found
                   </h3>
                   <p className="mt-2 text-gray-500">
-                    {searchQuery
-                      ? "Try adjusting your search query."
+                    {searchQuery || selectedTagIds.length > 0
+                      ? "Try adjusting your search query or tags."
                       : "You don't have any feedback from the last 7 days."}
                   </p>
                 </div>
@@ -455,6 +517,12 @@ const FeedbackCard = ({
             <h3 className="text-lg font-semibold mb-2">{feedback.title}</h3>
           )}
 
+          {feedback.tags?.length > 0 && (
+            <div className="mb-2">
+              <FeedbackTagBadges tags={feedback.tags} />
+            </div>
+          )}
+
           <p className="text-gray-700 mb-3">{feedback.text}</p>
 
           {feedback.audioFeedback && (
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { useSidebar } from "@/context/SidebarContext";
 import TopNavigation from "../dashboard/layout/TopNavigation";
 import Sidebar from "../dashboard/layout/Sidebar";
@@ -9,121 +9,126 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   Bell,
   CheckCircle,
+  Circle,
   Clock,
   FileAudio,
   MessageSquare,
 } from "lucide-react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import {
+  getNotifications,
+  getUnreadNotificationCount,
+  markAllNotificationsRead,
+  NotificationFilter,
+  setNotificationRead,
+  subscribeToNotifications,
+  UserNotification,
+} from "@/lib/api";
+import { useAuth } from "../../../supabase/auth";
+import SupervisionRequestInbox from "../dashboard/SupervisionRequestInbox";
 
-interface Notification {
-  id: string;
-  type: "feedback" | "request" | "system";
-  title: string;
-  message: string;
-  timestamp: Date;
-  read: boolean;
-  sessionId?: string;
-  sender?: {
-    name: string;
-    avatar: string;
-  };
-}
+const TABS: NotificationFilter[] = ["all", "unread", "feedback", "request", "system"];
 
-// Mock notifications data
-const mockNotifications: Notification[] = [
-  {
-    id: "n1",
-    type: "feedback",
-    title: "New feedback received",
-    message:
-      "Dr. Sarah Johnson has provided feedback on your session 'Client A - Initial Assessment'.",
-    timestamp: new Date(Date.now() - 1000 * 60 * 30), // 30 minutes ago
-    read: false,
-    sessionId: "1",
-    sender: {
-      name: "Dr. Sarah Johnson",
-      avatar: "sarah",
-    },
-  },
-  {
-    id: "n2",
-    type: "request",
-    title: "Feedback request",
-    message:
-      "Your feedback has been requested for 'Client B - Cognitive Behavioral Therapy Session'.",
-    timestamp: new Date(Date.now() - 1000 * 60 * 60 * 3), // 3 hours ago
-    read: true,
-    sessionId: "2",
-  },
-  {
-    id: "n3",
-    type: "system",
-    title: "System maintenance",
-    message:
-      "The system will be undergoing maintenance on Saturday, July 15th from 2:00 AM to 4:00 AM EST.",
-    timestamp: new Date(Date.now() - 1000 * 60 * 60 * 24), // 1 day ago
-    read: true,
-  },
-  {
-    id: "n4",
-    type: "feedback",
-    title: "Audio feedback added",
-    message:
-      "Dr. Michael Chen has added audio feedback to your session 'Client B - Cognitive Behavioral Therapy Session'.",
-    timestamp: new Date(Date.now() - 1000 * 60 * 60 * 26), // 26 hours ago
-    read: false,
-    sessionId: "2",
-    sender: {
-      name: "Dr. Michael Chen",
-      avatar: "michael",
-    },
-  },
-  {
-    id: "n5",
-    type: "system",
-    title: "New feature available",
-    message:
-      "Audio visualization is now available for all session recordings. Try it out!",
-    timestamp: new Date(Date.now() - 1000 * 60 * 60 * 48), // 2 days ago
-    read: true,
-  },
-];
+// Newest first, without duplicates; entries in `fresh` win
+const mergeNotifications = (
+  fresh: UserNotification[],
+  current: UserNotification[],
+) =>
+  [
+    ...fresh,
+    ...current.filter((item) => !fresh.some((f) => f.id === item.id)),
+  ].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
 
 const NotificationsPage = () => {
   const { isCollapsed, setIsCollapsed } = useSidebar();
-  const [activeTab, setActiveTab] = useState("all");
-  const [notifications, setNotifications] =
-    useState<Notification[]>(mockNotifications);
+  const { user } = useAuth();
+  const [searchParams] = useSearchParams();
+  // Emails about new supervision requests link to ?tab=request
+  const [activeTab, setActiveTab] = useState<NotificationFilter>(() => {
+    const tab = searchParams.get("tab") as NotificationFilter;
+    return TABS.includes(tab) ? tab : "all";
+  });
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [unreadCount, setUnreadCount] = useState(0);
   const navigate = useNavigate();
 
-  const unreadCount = notifications.filter((n) => !n.read).length;
+  // Start over from the first page whenever the tab changes
+  useEffect(() => {
+    let isCancelled = false;
+    setIsLoading(true);
+    setPage(0);
+    getNotifications(activeTab, 0).then((result) => {
+      if (isCancelled) return;
+      setNotifications(result.notifications);
+      setHasMore(result.hasMore);
+      setIsLoading(false);
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [activeTab]);
 
-  const filteredNotifications = notifications.filter((notification) => {
-    if (activeTab === "all") return true;
-    if (activeTab === "unread") return !notification.read;
-    if (activeTab === "feedback") return notification.type === "feedback";
-    if (activeTab === "requests") return notification.type === "request";
-    if (activeTab === "system") return notification.type === "system";
-    return true;
-  });
+  // New notifications, and ones read elsewhere, show up without a reload
+  useEffect(() => {
+    getUnreadNotificationCount().then(setUnreadCount);
+    if (!user) return;
+
+    return subscribeToNotifications(user.id, () => {
+      getUnreadNotificationCount().then(setUnreadCount);
+      getNotifications(activeTab, 0).then((result) =>
+        setNotifications((current) =>
+          mergeNotifications(result.notifications, current),
+        ),
+      );
+    });
+  }, [user?.id, activeTab]);
+
+  const loadMore = async () => {
+    setIsLoading(true);
+    const result = await getNotifications(activeTab, page + 1);
+    setNotifications((current) =>
+      mergeNotifications(result.notifications, current),
+    );
+    setHasMore(result.hasMore);
+    setPage(page + 1);
+    setIsLoading(false);
+  };
+
+  const setRead = (id: string, read: boolean) => {
+    const notification = notifications.find((item) => item.id === id);
+    if (!notification || notification.read === read) return;
 
-  const markAsRead = (id: string) => {
     setNotifications(
-      notifications.map((notification) =>
-        notification.id === id ? { ...notification, read: true } : notification,
-      ),
+      notifications
+        .map((item) => (item.id === id ? { ...item, read } : item))
+        // A notification marked read leaves the Unread tab
+        .filter((item) => activeTab !== "unread" || !item.read),
     );
+    setUnreadCount((count) => count + (read ? -1 : 1));
+    setNotificationRead(id, read);
   };
 
-  const markAllAsRead = () => {
+  const markAllAsRead = async () => {
     setNotifications(
-      notifications.map((notification) => ({ ...notification, read: true })),
+      activeTab === "unread"
+        ? []
+        : notifications.map((notification) => ({ ...notification, read: true })),
     );
+    setUnreadCount(0);
+    await markAllNotificationsRead();
   };
 
-  const handleNotificationClick = (notification: Notification) => {
-    markAsRead(notification.id);
-    if (notification.sessionId) {
+  const handleNotificationClick = (notification: UserNotification) => {
+    setRead(notification.id, true);
+    if (notification.event === "supervision_requested") {
+      // The session opens once the request is accepted
+      setActiveTab("request");
+    } else if (notification.savedSearchId) {
+      navigate(`/search?saved=${notification.savedSearchId}`);
+    } else if (notification.sessionId) {
       navigate(`/sessions`, { state: { sessionId: notification.sessionId } });
     }
   };
@@ -184,7 +189,10 @@ const NotificationsPage = () => {
           </div>
 
           <div className="flex justify-between items-center mb-6">
-            <Tabs value={activeTab} onValueChange={setActiveTab}>
+            <Tabs
+              value={activeTab}
+              onValueChange={(value) => setActiveTab(value as NotificationFilter)}
+            >
               <TabsList>
                 <TabsTrigger value="all">All</TabsTrigger>
                 <TabsTrigger value="unread">
@@ -196,7 +204,7 @@ const NotificationsPage = () => {
                   )}
                 </TabsTrigger>
                 <TabsTrigger value="feedback">Feedback</TabsTrigger>
-                <TabsTrigger value="requests">Requests</TabsTrigger>
+                <TabsTrigger value="request">Requests</TabsTrigger>
                 <TabsTrigger value="system">System</TabsTrigger>
               </TabsList>
             </Tabs>
@@ -209,8 +217,14 @@ const NotificationsPage = () => {
             )}
           </div>
 
+          {activeTab === "request" && <SupervisionRequestInbox />}
+
           <div className="space-y-4">
-            {filteredNotifications.length === 0 ? (
+            {isLoading && notifications.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">
+                Loading notifications...
+              </div>
+            ) : notifications.length === 0 ? (
               <div className="text-center py-12 bg-gray-50 rounded-lg">
                 <Bell className="mx-auto h-12 w-12 text-gray-400" />
                 <h3 className="mt-4 text-lg font-medium">No notifications</h3>
@@ -219,7 +233,7 @@ const NotificationsPage = () => {
                 </p>
               </div>
             ) : (
-              filteredNotifications.map((notification) => (
+              notifications.map((notification) => (
                 <Card
                   key={notification.id}
                   className={`overflow-hidden cursor-pointer transition-colors hover:bg-gray-50 ${!notification.read ? "border-l-4 border-l-blue-500" : ""}`}
@@ -251,9 +265,29 @@ const NotificationsPage = () => {
                           >
                             {notification.title}
                           </h3>
-                          <div className="flex items-center text-xs text-gray-500">
-                            <Clock size={12} className="mr-1" />
-                            {formatTime(notification.timestamp)}
+                          <div className="flex items-center gap-2 text-xs text-gray-500">
+                            <span className="flex items-center">
+                              <Clock size={12} className="mr-1" />
+                              {formatTime(notification.timestamp)}
+                            </span>
+                            <button
+                              className="p-1 rounded hover:bg-gray-100"
+                              title={
+                                notification.read
+                                  ? "Mark as unread"
+                                  : "Mark as read"
+                              }
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setRead(notification.id, !notification.read);
+                              }}
+                            >
+                              {notification.read ? (
+                                <Circle size={12} />
+                              ) : (
+                                <CheckCircle size={12} className="text-blue-500" />
+                              )}
+                            </button>
                           </div>
                         </div>
                         <p className="text-gray-600 mt-1">
@@ -265,6 +299,13 @@ const NotificationsPage = () => {
                 </Card>
               ))
             )}
+            {hasMore && (
+              <div className="text-center">
+                <Button variant="outline" onClick={loadMore} disabled={isLoading}>
+                  {isLoading ? "Loading..." : "Load more"}
+                </Button>
+              </div>
+            )}
           </div>
         </main>
       </div>
@@ -29,6 +29,7 @@ import {
   BookOpen,
 } from "lucide-react";
 import { useAuth } from "../../../supabase/auth";
+import CompetencyScores from "../dashboard/CompetencyScores";
 
 interface Session {
   id: string;
@@ -287,6 +288,8 @@ const ProfilePage = () => {
                     </CardContent>
                   </Card>
 
+                  <CompetencyScores userId={user?.id} />
+
                   <Card>
                     <CardHeader>
                       <CardTitle>Recent Sessions</CardTitle>
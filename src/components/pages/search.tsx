@@ -7,7 +7,17 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/components/ui/use-toast";
 import {
   Search,
   Calendar,
@@ -15,22 +25,60 @@ import {
   MessageSquare,
   Headphones,
   FileText,
+  TextQuote,
+  Bookmark,
+  Trash2,
 } from "lucide-react";
 import { useTheme } from "@/context/ThemeContext";
 import { useLanguage } from "@/context/LanguageContext";
+import {
+  getSavedSearch,
+  searchEverything,
+  SearchFilters,
+  SearchHit,
+  SearchHitType,
+} from "@/lib/api";
+import {
+  fromSearchParams,
+  getSearchPath,
+  hasSearchFilters,
+} from "@/lib/searchFilters";
+import SearchSnippet, {
+  getSearchHitPath,
+} from "../dashboard/layout/SearchSnippet";
+import SearchFacets from "../dashboard/SearchFacets";
+import { useSavedSearches } from "../dashboard/layout/useSavedSearches";
 
-interface SearchResult {
-  id: string;
-  title: string;
-  description?: string;
-  type: "session" | "feedback";
-  date: Date;
-  author?: {
-    name: string;
-    avatar: string;
-  };
-  sessionId?: string;
-}
+// Icon, badge label and colors per kind of hit
+const HIT_STYLES: Record<
+  SearchHitType,
+  { label: string; icon: typeof Headphones; iconClass: string; badgeClass: string }
+> = {
+  session: {
+    label: "Session",
+    icon: Headphones,
+    iconClass:
+      "bg-blue-100 dark:bg-blue-900 text-blue-600 dark:text-blue-300",
+    badgeClass:
+      "bg-blue-50 dark:bg-blue-900 text-blue-600 dark:text-blue-200",
+  },
+  feedback: {
+    label: "Feedback",
+    icon: FileText,
+    iconClass:
+      "bg-green-100 dark:bg-green-900 text-green-600 dark:text-green-300",
+    badgeClass:
+      "bg-green-50 dark:bg-green-900 text-green-600 dark:text-green-200",
+  },
+  transcript: {
+    label: "Transcript",
+    icon: TextQuote,
+    iconClass:
+      "bg-purple-100 dark:bg-purple-900 text-purple-600 dark:text-purple-300",
+    badgeClass:
+      "bg-purple-50 dark:bg-purple-900 text-purple-600 dark:text-purple-200",
+  },
+};
 
 const SearchPage = () => {
   const { isCollapsed, setIsCollapsed } = useSidebar();
@@ -39,168 +87,116 @@ const SearchPage = () => {
   const location = useLocation();
   const navigate = useNavigate();
 
+  const { toast } = useToast();
+  const { savedSearches, saveSearch, setNotify, removeSearch } =
+    useSavedSearches();
+
   const [searchQuery, setSearchQuery] = useState("");
-  const [results, setResults] = useState<SearchResult[]>([]);
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [savedSearchId, setSavedSearchId] = useState<string | null>(null);
+  const [results, setResults] = useState<SearchHit[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [saveName, setSaveName] = useState("");
+  const [saveNotify, setSaveNotify] = useState(false);
+
+  const savedSearch = savedSearches.find(
+    (search) => search.id === savedSearchId,
+  );
 
-  // Extract search query from URL
+  // Extract search query, filters and saved search from URL
   useEffect(() => {
     const params = new URLSearchParams(location.search);
     const query = params.get("q") || "";
+    const urlFilters = fromSearchParams(params);
+    const saved = params.get("saved");
     setSearchQuery(query);
-    if (query) {
-      performSearch(query);
+    setFilters(urlFilters);
+    setSavedSearchId(saved);
+
+    if (query || hasSearchFilters(urlFilters)) {
+      performSearch(query, urlFilters);
+    } else if (saved) {
+      // Notification links only carry the saved search, so fill in the rest
+      getSavedSearch(saved).then((search) => {
+        if (search) {
+          navigate(getSearchPath(search.query, search.filters, search.id), {
+            replace: true,
+          });
+        }
+      });
+    } else {
+      setResults([]);
     }
   }, [location.search]);
 
-  const performSearch = async (query: string) => {
+  const performSearch = async (query: string, searchFilters: SearchFilters) => {
     setIsLoading(true);
+    setResults(await searchEverything(query, 50, searchFilters));
+    setIsLoading(false);
+  };
 
-    try {
-      // Mock data for testing - this simulates database results
-      // In a real app, this would be replaced with actual database queries
-      const mockResults: SearchResult[] = [
-        {
-          id: "s1",
-          title: "Initial Assessment with Client A",
-          description: "First session with new client",
-          type: "session",
-          date: new Date(2023, 5, 15),
-          author: {
-            name: "Dr. Sarah Johnson",
-            avatar: "sarah",
-          },
-        },
-        {
-          id: "s2",
-          title: "Cognitive Behavioral Therapy Session",
-          description: "Follow-up CBT session",
-          type: "session",
-          date: new Date(2023, 6, 2),
-          author: {
-            name: "Dr. Michael Chen",
-            avatar: "michael",
-          },
-        },
-        {
-          id: "f1",
-          title: "Great progress",
-          description:
-            "The client showed significant improvement in managing anxiety symptoms",
-          type: "feedback",
-          date: new Date(2023, 5, 16),
-          author: {
-            name: "Dr. Sarah Johnson",
-            avatar: "sarah",
-          },
-          sessionId: "s1",
-        },
-        {
-          id: "f2",
-          title: "Technique suggestion",
-          description:
-            "Consider using more open-ended questions to encourage deeper reflection",
-          type: "feedback",
-          date: new Date(2023, 6, 3),
-          author: {
-            name: "Dr. Michael Chen",
-            avatar: "michael",
-          },
-          sessionId: "s2",
-        },
-        {
-          id: "f3",
-          title: "Follow-up needed",
-          description:
-            "Schedule a follow-up session soon to reinforce progress",
-          type: "feedback",
-          date: new Date(2023, 6, 10),
-          author: {
-            name: "Dr. Emily Rodriguez",
-            avatar: "emily",
-          },
-          sessionId: "s2",
-        },
-      ];
-
-      // Filter results based on search query
-      const filteredResults = mockResults.filter(
-        (result) =>
-          result.title.toLowerCase().includes(query.toLowerCase()) ||
-          (result.description &&
-            result.description.toLowerCase().includes(query.toLowerCase())),
-      );
-
-      setResults(filteredResults);
-
-      // Uncomment and use this code when connected to a real Supabase database
-      /*
-      const supabase = createClient(
-        import.meta.env.VITE_SUPABASE_URL,
-        import.meta.env.VITE_SUPABASE_ANON_KEY
-      );
-      
-      // Search sessions
-      const { data: sessions, error: sessionsError } = await supabase
-        .from("sessions")
-        .select("id, title, description, created_at, counselor_id, supervisor_id")
-        .or(`title.ilike.%${query}%,description.ilike.%${query}%`)
-        .limit(10);
-
-      if (sessionsError) throw sessionsError;
-
-      // Search feedback
-      const { data: feedback, error: feedbackError } = await supabase
-        .from("feedback")
-        .select("id, title, text, created_at, session_id, supervisor_id")
-        .or(`title.ilike.%${query}%,text.ilike.%${query}%`)
-        .limit(10);
-
-      if (feedbackError) throw feedbackError;
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (searchQuery.trim() || hasSearchFilters(filters)) {
+      navigate(getSearchPath(searchQuery.trim(), filters));
+    }
+  };
 
-      // Format results
-      const formattedSessions = sessions?.map(session => ({
-        id: session.id,
-        title: session.title,
-        description: session.description,
-        type: "session" as const,
-        date: new Date(session.created_at),
-        author: {
-          name: "Supervisor Name", // You would fetch this from user_profiles
-          avatar: "supervisor"
-        }
-      })) || [];
+  // Changing the filters makes it a new, unsaved search
+  const handleFiltersChange = (newFilters: SearchFilters) => {
+    navigate(getSearchPath(searchQuery.trim(), newFilters));
+  };
 
-      const formattedFeedback = feedback?.map(item => ({
-        id: item.id,
-        title: item.title || "Feedback",
-        description: item.text,
-        type: "feedback" as const,
-        date: new Date(item.created_at),
-        author: {
-          name: "Supervisor Name", // You would fetch this from user_profiles
-          avatar: "supervisor"
-        },
-        sessionId: item.session_id
-      })) || [];
+  const handleSave = async () => {
+    const query = searchQuery.trim();
+    try {
+      const saved = await saveSearch(saveName.trim(), query, filters, saveNotify);
+      setIsSaveOpen(false);
+      navigate(getSearchPath(query, filters, saved.id), { replace: true });
+    } catch (error) {
+      console.error("Error saving search:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save search. Try a different name.",
+        variant: "destructive",
+      });
+    }
+  };
 
-      setResults([...formattedSessions, ...formattedFeedback]);
-      */
+  const handleDeleteSaved = async () => {
+    if (!savedSearch) return;
+    try {
+      await removeSearch(savedSearch.id);
+      navigate(getSearchPath(savedSearch.query, savedSearch.filters), {
+        replace: true,
+      });
     } catch (error) {
-      console.error("Search error:", error);
-      setResults([]);
-    } finally {
-      setIsLoading(false);
+      console.error("Error deleting saved search:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete saved search.",
+        variant: "destructive",
+      });
     }
   };
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (searchQuery.trim()) {
-      navigate(`/search?q=${encodeURIComponent(searchQuery)}`);
+  const handleNotifyChange = async (notify: boolean) => {
+    if (!savedSearch) return;
+    try {
+      await setNotify(savedSearch.id, notify);
+    } catch (error) {
+      console.error("Error updating saved search:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update saved search.",
+        variant: "destructive",
+      });
     }
   };
 
+  const canSave = !!searchQuery.trim() || hasSearchFilters(filters);
+
   const formatDate = (date: Date) => {
     return date.toLocaleDateString("en-US", {
       year: "numeric",
@@ -209,12 +205,9 @@ const SearchPage = () => {
     });
   };
 
-  const handleResultClick = (result: SearchResult) => {
-    if (result.type === "session") {
-      navigate(`/sessions/${result.id}`);
-    } else if (result.type === "feedback" && result.sessionId) {
-      navigate(`/sessions/${result.sessionId}?feedback=${result.id}`);
-    }
+  const formatPosition = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, "0")}`;
   };
 
   return (
@@ -236,13 +229,52 @@ const SearchPage = () => {
         />
 
         <main className="flex-1 overflow-auto p-6 transition-all duration-300 dark:bg-gray-900 dark:text-gray-100">
-          <div className="mb-6">
-            <h1 className="text-2xl font-bold text-gray-800 dark:text-white">
-              Search Results
-            </h1>
-            <p className="text-gray-600 dark:text-gray-400">
-              {results.length} results found for "{searchQuery}"
-            </p>
+          <div className="mb-6 flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-800 dark:text-white">
+                {savedSearch ? savedSearch.name : "Search Results"}
+              </h1>
+              <p className="text-gray-600 dark:text-gray-400">
+                {searchQuery
+                  ? `${results.length} results found for "${searchQuery}"`
+                  : `${results.length} results found`}
+              </p>
+            </div>
+            {savedSearch ? (
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="saved-search-notify"
+                    checked={savedSearch.notify}
+                    onCheckedChange={handleNotifyChange}
+                  />
+                  <Label
+                    htmlFor="saved-search-notify"
+                    className="text-sm dark:text-gray-300"
+                  >
+                    Notify me about new results
+                  </Label>
+                </div>
+                <Button variant="outline" size="sm" onClick={handleDeleteSaved}>
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete
+                </Button>
+              </div>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!canSave}
+                onClick={() => {
+                  setSaveName(searchQuery.trim());
+                  setSaveNotify(false);
+                  setIsSaveOpen(true);
+                }}
+              >
+                <Bookmark className="h-4 w-4 mr-1" />
+                Save search
+              </Button>
+            )}
           </div>
 
           <form onSubmit={handleSearch} className="mb-6">
@@ -250,7 +282,7 @@ const SearchPage = () => {
               <Search className="absolute left-3 top-3 h-5 w-5 text-gray-500 dark:text-gray-400" />
               <Input
                 type="text"
-                placeholder="Search sessions, feedback..."
+                placeholder="Search sessions, feedback, transcripts..."
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="pl-10 h-12 text-base border-gray-200 dark:border-gray-700 dark:bg-gray-800 dark:text-gray-300"
@@ -261,88 +293,75 @@ const SearchPage = () => {
             </div>
           </form>
 
+          <div className="mb-6">
+            <SearchFacets filters={filters} onChange={handleFiltersChange} />
+          </div>
+
           {isLoading ? (
             <div className="flex justify-center items-center h-64">
               <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
             </div>
           ) : results.length > 0 ? (
             <div className="space-y-4">
-              {results.map((result) => (
-                <Card
-                  key={`${result.type}-${result.id}`}
-                  className="cursor-pointer hover:shadow-md transition-shadow dark:bg-gray-800 dark:border-gray-700"
-                  onClick={() => handleResultClick(result)}
-                >
-                  <CardContent className="p-0">
-                    <div className="p-4 flex items-start gap-4">
-                      <div className="mt-1">
-                        {result.type === "session" ? (
-                          <div className="h-10 w-10 rounded-full bg-blue-100 dark:bg-blue-900 flex items-center justify-center">
-                            <Headphones className="h-5 w-5 text-blue-600 dark:text-blue-300" />
-                          </div>
-                        ) : (
-                          <div className="h-10 w-10 rounded-full bg-green-100 dark:bg-green-900 flex items-center justify-center">
-                            <FileText className="h-5 w-5 text-green-600 dark:text-green-300" />
+              {results.map((result) => {
+                const style = HIT_STYLES[result.type];
+                const Icon = style.icon;
+                return (
+                  <Card
+                    key={`${result.type}-${result.id}`}
+                    className="cursor-pointer hover:shadow-md transition-shadow dark:bg-gray-800 dark:border-gray-700"
+                    onClick={() => navigate(getSearchHitPath(result))}
+                  >
+                    <CardContent className="p-0">
+                      <div className="p-4 flex items-start gap-4">
+                        <div className="mt-1">
+                          <div
+                            className={`h-10 w-10 rounded-full flex items-center justify-center ${style.iconClass}`}
+                          >
+                            <Icon className="h-5 w-5" />
                           </div>
-                        )}
-                      </div>
-                      <div className="flex-1">
-                        <div className="flex justify-between items-start">
-                          <div>
-                            <h3 className="font-medium text-gray-900 dark:text-white">
-                              {result.title}
-                            </h3>
-                            <div className="flex items-center text-xs text-gray-500 dark:text-gray-400 mt-1 space-x-3">
-                              <span className="flex items-center">
-                                <Calendar size={12} className="mr-1" />
-                                {formatDate(result.date)}
-                              </span>
-                              {result.type === "feedback" &&
-                                result.sessionId && (
+                        </div>
+                        <div className="flex-1">
+                          <div className="flex justify-between items-start">
+                            <div>
+                              <h3 className="font-medium text-gray-900 dark:text-white">
+                                {result.title}
+                              </h3>
+                              <div className="flex items-center text-xs text-gray-500 dark:text-gray-400 mt-1 space-x-3">
+                                <span className="flex items-center">
+                                  <Calendar size={12} className="mr-1" />
+                                  {formatDate(result.date)}
+                                </span>
+                                {result.type !== "session" && (
                                   <span className="flex items-center">
                                     <MessageSquare size={12} className="mr-1" />
-                                    From session
+                                    {result.sessionTitle}
+                                  </span>
+                                )}
+                                {result.position !== null && (
+                                  <span className="flex items-center">
+                                    <Clock size={12} className="mr-1" />
+                                    {formatPosition(result.position)}
                                   </span>
                                 )}
+                              </div>
                             </div>
+                            <Badge variant="outline" className={style.badgeClass}>
+                              {style.label}
+                            </Badge>
                           </div>
-                          <Badge
-                            variant="outline"
-                            className={
-                              result.type === "session"
-                                ? "bg-blue-50 dark:bg-blue-900 text-blue-600 dark:text-blue-200"
-                                : "bg-green-50 dark:bg-green-900 text-green-600 dark:text-green-200"
-                            }
-                          >
-                            {result.type === "session" ? "Session" : "Feedback"}
-                          </Badge>
+                          {result.snippet && (
+                            <SearchSnippet
+                              snippet={result.snippet}
+                              className="block text-gray-600 dark:text-gray-300 mt-2 text-sm"
+                            />
+                          )}
                         </div>
-                        {result.description && (
-                          <p className="text-gray-600 dark:text-gray-300 mt-2 text-sm">
-                            {result.description}
-                          </p>
-                        )}
-                        {result.author && (
-                          <div className="flex items-center mt-3">
-                            <Avatar className="h-6 w-6 mr-2">
-                              <AvatarImage
-                                src={`https://api.dicebear.com/7.x/avataaars/svg?seed=${result.author.avatar}`}
-                                alt={result.author.name}
-                              />
-                              <AvatarFallback>
-                                {result.author.name[0]}
-                              </AvatarFallback>
-                            </Avatar>
-                            <span className="text-xs text-gray-500 dark:text-gray-400">
-                              {result.author.name}
-                            </span>
-                          </div>
-                        )}
                       </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
+                    </CardContent>
+                  </Card>
+                );
+              })}
             </div>
           ) : (
             <div className="text-center py-12 bg-gray-50 dark:bg-gray-800 rounded-lg">
@@ -360,6 +379,47 @@ const SearchPage = () => {
           )}
         </main>
       </div>
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent className="dark:bg-gray-800 dark:border-gray-700">
+          <DialogHeader>
+            <DialogTitle className="dark:text-white">Save search</DialogTitle>
+            <DialogDescription>
+              Saved searches appear in the sidebar with their query and
+              filters.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-search-name">Name</Label>
+              <Input
+                id="saved-search-name"
+                value={saveName}
+                onChange={(e) => setSaveName(e.target.value)}
+                className="dark:bg-gray-900 dark:border-gray-700 dark:text-gray-300"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="saved-search-new-notify"
+                checked={saveNotify}
+                onCheckedChange={setSaveNotify}
+              />
+              <Label htmlFor="saved-search-new-notify">
+                Notify me about new results
+              </Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsSaveOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!saveName.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
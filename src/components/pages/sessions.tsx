@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { useSidebar } from "@/context/SidebarContext";
 import { useLocation } from "react-router-dom";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -10,13 +10,19 @@ import Sidebar from "../dashboard/layout/Sidebar";
 import SessionUploader from "../audio/SessionUploader";
 import SessionList, { Session } from "../audio/SessionList";
 import SessionDetail from "../audio/SessionDetail";
-
-// Mock data for supervisors
-const supervisors = [
-  { id: "1", name: "Dr. Sarah Johnson" },
-  { id: "2", name: "Dr. Michael Chen" },
-  { id: "3", name: "Dr. Aisha Patel" },
-];
+import { useFeedbackTags } from "../audio/useFeedbackTags";
+import {
+  deleteFeedback,
+  FeedbackChanges,
+  getFeedbackItem,
+  getSupervisors,
+  restoreFeedback,
+  subscribeToSessionFeedback,
+  updateFeedback,
+  Supervisor,
+  UploadedRecording,
+} from "@/lib/api";
+import { useAuth } from "../../../supabase/auth";
 
 // Mock data for sessions
 const mockSessions: Session[] = [
@@ -33,6 +39,7 @@ const mockSessions: Session[] = [
       avatar: "sarah",
     },
     sessionType: "Initial Assessment",
+    transcriptionStatus: "ready",
   },
   {
     id: "2",
@@ -82,7 +89,6 @@ const mockFeedback = [
     sessionId: "1",
     timestamp: 450, // 7:30 minutes
     text: "Consider using more open-ended questions here to encourage the client to elaborate.",
-    audioResponse: "audio-response-1.mp3",
     author: {
       name: "Dr. Sarah Johnson",
       avatar: "sarah",
@@ -105,7 +111,6 @@ const mockFeedback = [
     sessionId: "1",
     timestamp: 1500, // 25 minutes
     text: "This would be a good opportunity to introduce the concept of cognitive restructuring.",
-    audioResponse: "audio-response-2.mp3",
     author: {
       name: "Dr. Sarah Johnson",
       avatar: "sarah",
@@ -139,7 +144,6 @@ const mockFeedback = [
     sessionId: "2",
     timestamp: 1200, // 20 minutes
     text: "Consider exploring the underlying beliefs more here. There seems to be a core belief about perfectionism.",
-    audioResponse: "audio-response-3.mp3",
     author: {
       name: "Dr. Michael Chen",
       avatar: "michael",
@@ -174,12 +178,30 @@ const SessionsPage = () => {
   const [selectedSessionId, setSelectedSessionId] = useState<string | null>(
     null,
   );
+  const [feedback, setFeedback] = useState<any[]>(mockFeedback);
+  const [supervisors, setSupervisors] = useState<Supervisor[]>([]); // Approved supervisors to send sessions to
+  const feedbackRef = useRef(feedback); // Latest feedback, for realtime updates
+  feedbackRef.current = feedback;
   const { toast } = useToast();
+  const { isAdmin } = useAuth();
+  const feedbackTags = useFeedbackTags();
+
+  useEffect(() => {
+    getSupervisors().then(setSupervisors);
+  }, []);
 
-  // Check if we have a sessionId in the location state
+  // Check if we have a sessionId in the location state, or in the
+  // ?session= query used by notification emails and search hits. Search
+  // hits may also pass a position (?t=) and a feedback item (?feedback=).
+  const linkParams = new URLSearchParams(location.search);
+  const linkedSessionId = linkParams.get("session");
+  const linkedTimestamp = linkParams.get("t");
+  const linkedFeedbackId = linkParams.get("feedback") || undefined;
   useEffect(() => {
     if (location.state && location.state.sessionId) {
       setSelectedSessionId(location.state.sessionId);
+    } else if (linkedSessionId) {
+      setSelectedSessionId(linkedSessionId);
     }
   }, [location]);
 
@@ -188,44 +210,36 @@ const SessionsPage = () => {
     : null;
 
   const sessionFeedback = selectedSessionId
-    ? mockFeedback.filter(
-        (feedback) => feedback.sessionId === selectedSessionId,
-      )
+    ? feedback.filter((item) => item.sessionId === selectedSessionId)
     : [];
 
   const handleUpload = async (data: {
-    audioFile: File;
     title: string;
     notes: string;
     supervisorId: string;
+    supervisionMessage?: string;
     sessionType?: string;
+    recording: UploadedRecording;
   }) => {
-    // In a real implementation, you would upload the file to a storage service
-    // and create a new session in the database
-
-    // Simulate a delay for the upload
-    await new Promise((resolve) => setTimeout(resolve, 1500));
+    // The uploader has already put the recording in storage. In a real
+    // implementation, you would create the session with createSession,
+    // which also sends the supervision request
 
-    // Create a new session
+    // Create a new session; it stays unassigned until the supervisor accepts
     const newSession: Session = {
       id: `${sessions.length + 1}`,
       title: data.title,
       createdAt: new Date(),
-      duration: Math.floor(Math.random() * 3000) + 1200, // Random duration between 20-70 minutes
+      duration: 0, // Measured by the server once the recording is processed
       feedbackCount: 0,
       status: "pending",
       sessionType: data.sessionType || "General",
+      transcriptionStatus: "queued",
+      processingStatus: "queued",
       supervisor: {
-        id: data.supervisorId,
-        name:
-          supervisors.find((supervisor) => supervisor.id === data.supervisorId)
-            ?.name || "Unknown Supervisor",
-        avatar:
-          data.supervisorId === "1"
-            ? "sarah"
-            : data.supervisorId === "2"
-              ? "michael"
-              : "aisha",
+        id: "",
+        name: "Unassigned",
+        avatar: "",
       },
     };
 
@@ -239,22 +253,32 @@ const SessionsPage = () => {
     timestamp: number,
     endTimestamp?: number,
     audioBlob?: Blob,
+    isGeneral?: boolean,
+    tagIds: string[] = [],
+    segmentId?: string,
   ) => {
     if (!selectedSessionId) return;
 
     try {
-      // Mock implementation for now - in a real app this would call the API
+      // Mock implementation for now - in a real app this would call
+      // addFeedback, passing segmentId so the feedback follows its segment
       const newFeedback = {
-        id: `f${mockFeedback.length + 1}`,
+        id: `mock-${Date.now()}`,
         sessionId: selectedSessionId,
+        title,
         timestamp,
+        endTimestamp,
         text,
+        isGeneral,
+        segmentId,
+        tags: feedbackTags.filter((tag) => tagIds.includes(tag.id)),
         author: {
           name: "Current User",
           avatar: "user",
         },
         createdAt: new Date(),
       };
+      setFeedback((current) => [...current, newFeedback]);
 
       // Update the session's feedback count locally
       setSessions(
@@ -280,15 +304,126 @@ const SessionsPage = () => {
     }
   };
 
-  const handleAddAudioResponse = (audioBlob: Blob, feedbackId: string) => {
-    // In a real implementation, you would upload the audio blob to a storage service
-    // and update the feedback item with the audio URL
+  // Count only feedback that hasn't been deleted
+  const adjustFeedbackCount = (sessionId: string, change: number) => {
+    setSessions((current) =>
+      current.map((session) =>
+        session.id === sessionId
+          ? { ...session, feedbackCount: session.feedbackCount + change }
+          : session,
+      ),
+    );
+  };
+
+  // Feedback the other participant adds, edits or resolves shows up live
+  useEffect(() => {
+    if (!selectedSessionId) return;
+
+    return subscribeToSessionFeedback(selectedSessionId, async (feedbackId) => {
+      const item = await getFeedbackItem(feedbackId);
+      const existing = feedbackRef.current.find((f) => f.id === feedbackId);
+
+      // No longer visible to us, e.g. deleted by its author
+      if (!item) {
+        if (existing) {
+          setFeedback((current) => current.filter((f) => f.id !== feedbackId));
+          if (!existing.deletedAt) adjustFeedbackCount(existing.sessionId, -1);
+        }
+        return;
+      }
 
-    toast({
-      title: "Audio response added",
-      description: "Your audio response has been added to the feedback.",
-      variant: "default",
+      setFeedback((current) =>
+        current.some((f) => f.id === item.id)
+          ? current.map((f) => (f.id === item.id ? { ...f, ...item } : f))
+          : [...current, item],
+      );
+      const wasCounted = !!existing && !existing.deletedAt;
+      if (wasCounted !== !item.deletedAt) {
+        adjustFeedbackCount(item.sessionId, item.deletedAt ? -1 : 1);
+      }
     });
+  }, [selectedSessionId]);
+
+  const handleEditFeedback = async (
+    feedbackId: string,
+    changes: FeedbackChanges,
+  ) => {
+    try {
+      const editedAt = await updateFeedback(feedbackId, changes);
+      setFeedback((current) =>
+        current.map((item) =>
+          item.id === feedbackId
+            ? {
+                ...item,
+                ...changes,
+                endTimestamp:
+                  changes.endTimestamp === null
+                    ? undefined
+                    : (changes.endTimestamp ?? item.endTimestamp),
+                editedAt,
+              }
+            : item,
+        ),
+      );
+    } catch (error) {
+      console.error("Error editing feedback:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save your changes. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Admins keep seeing deleted feedback, marked as such, so they can restore it
+  const handleDeleteFeedback = async (feedbackId: string) => {
+    const item = feedback.find((f) => f.id === feedbackId);
+    if (!item) return;
+
+    try {
+      await deleteFeedback(feedbackId);
+      setFeedback((current) =>
+        isAdmin()
+          ? current.map((f) =>
+              f.id === feedbackId ? { ...f, deletedAt: new Date() } : f,
+            )
+          : current.filter((f) => f.id !== feedbackId),
+      );
+      adjustFeedbackCount(item.sessionId, -1);
+      toast({
+        title: "Feedback deleted",
+        description: "The feedback was removed from the session.",
+      });
+    } catch (error) {
+      console.error("Error deleting feedback:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete feedback. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRestoreFeedback = async (feedbackId: string) => {
+    const item = feedback.find((f) => f.id === feedbackId);
+    if (!item) return;
+
+    try {
+      await restoreFeedback(feedbackId);
+      setFeedback((current) =>
+        current.map((f) =>
+          f.id === feedbackId ? { ...f, deletedAt: undefined } : f,
+        ),
+      );
+      adjustFeedbackCount(item.sessionId, 1);
+    } catch (error) {
+      console.error("Error restoring feedback:", error);
+      toast({
+        title: "Error",
+        description: "Failed to restore feedback. Please try again.",
+        variant: "destructive",
+      });
+    }
   };
 
   return (
@@ -323,11 +458,35 @@ const SessionsPage = () => {
           {selectedSession ? (
             <SessionDetail
               session={selectedSession}
-              audioUrl="https://www.soundhelix.com/examples/mp3/SoundHelix-Song-1.mp3" // Using a reliable audio sample source
+              audioUrl={
+                selectedSession.audioPath ||
+                "https://www.soundhelix.com/examples/mp3/SoundHelix-Song-1.mp3" // Sample audio for mock sessions
+              }
               feedback={sessionFeedback}
               onBack={() => setSelectedSessionId(null)}
               onAddFeedback={handleAddFeedback}
-              onAddAudioResponse={handleAddAudioResponse}
+              onEditFeedback={handleEditFeedback}
+              onDeleteFeedback={handleDeleteFeedback}
+              onRestoreFeedback={isAdmin() ? handleRestoreFeedback : undefined}
+              initialTimestamp={
+                selectedSession.id === linkedSessionId && linkedTimestamp !== null
+                  ? Number(linkedTimestamp)
+                  : undefined
+              }
+              initialFeedbackId={
+                selectedSession.id === linkedSessionId
+                  ? linkedFeedbackId
+                  : undefined
+              }
+              onSessionChange={(changes) =>
+                setSessions(
+                  sessions.map((session) =>
+                    session.id === selectedSession.id
+                      ? { ...session, ...changes }
+                      : session,
+                  ),
+                )
+              }
             />
           ) : (
             <div className="w-full">
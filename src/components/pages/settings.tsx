@@ -4,6 +4,7 @@ import { useTheme } from "@/context/ThemeContext";
 import { useLanguage } from "@/context/LanguageContext";
 import TopNavigation from "../dashboard/layout/TopNavigation";
 import Sidebar from "../dashboard/layout/Sidebar";
+import PushDevices from "../dashboard/PushDevices";
 import {
   Card,
   CardContent,
@@ -57,6 +58,9 @@ const SettingsPage = () => {
 
   // Notification settings
   const [emailNotifications, setEmailNotifications] = useState(true);
+  const [emailFrequency, setEmailFrequency] = useState<"immediate" | "daily">(
+    "immediate",
+  );
   const [pushNotifications, setPushNotifications] = useState(true);
   const [feedbackNotifications, setFeedbackNotifications] = useState(true);
   const [requestNotifications, setRequestNotifications] = useState(true);
@@ -97,6 +101,7 @@ const SettingsPage = () => {
           if (data.preferences) {
             const prefs = data.preferences;
             setEmailNotifications(prefs.emailNotifications ?? true);
+            setEmailFrequency(prefs.emailFrequency ?? "immediate");
             setPushNotifications(prefs.pushNotifications ?? true);
             setFeedbackNotifications(prefs.feedbackNotifications ?? true);
             setRequestNotifications(prefs.requestNotifications ?? true);
@@ -161,6 +166,7 @@ const SettingsPage = () => {
           newPreferences = {
             ...newPreferences,
             emailNotifications,
+            emailFrequency,
             pushNotifications,
             feedbackNotifications,
             requestNotifications,
@@ -427,6 +433,36 @@ const SettingsPage = () => {
                         onCheckedChange={setEmailNotifications}
                       />
                     </div>
+                    <div className="flex items-center justify-between pl-6">
+                      <Label
+                        htmlFor="email-frequency"
+                        className="flex-1 text-sm text-gray-500 dark:text-gray-400"
+                      >
+                        {t("emailFrequency")}
+                      </Label>
+                      <Select
+                        value={emailFrequency}
+                        onValueChange={(value) =>
+                          setEmailFrequency(value as "immediate" | "daily")
+                        }
+                        disabled={!emailNotifications}
+                      >
+                        <SelectTrigger
+                          id="email-frequency"
+                          className="w-48 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+                        >
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+                          <SelectItem value="immediate">
+                            {t("emailImmediately")}
+                          </SelectItem>
+                          <SelectItem value="daily">
+                            {t("emailDailyDigest")}
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
                     <div className="flex items-center justify-between">
                       <div className="flex items-center space-x-2">
                         <Smartphone className="h-4 w-4 text-gray-500 dark:text-gray-400" />
@@ -443,6 +479,7 @@ const SettingsPage = () => {
                         onCheckedChange={setPushNotifications}
                       />
                     </div>
+                    {pushNotifications && <PushDevices />}
                   </div>
 
                   <Separator className="dark:bg-gray-700" />
@@ -19,74 +19,8 @@ import {
 } from "lucide-react";
 
 const SupervisorsPage = () => {
-  const [supervisors, setSupervisors] = useState<Supervisor[]>([
-    {
-      id: "1",
-      name: "Dr. Sarah Johnson",
-      specialization: "Cognitive Behavioral Therapy",
-      education: "Ph.D. in Psychology",
-      experience: "10+ years experience",
-      certifications: ["Licensed Professional Counselor"],
-      isAvailable: true,
-      avatar: "sarah",
-      level: "Senior",
-      background: "Clinical Psychology",
-      introduction: "Specializes in CBT and trauma-informed care",
-    },
-    {
-      id: "2",
-      name: "Dr. Michael Chen",
-      specialization: "Family Therapy",
-      education: "Ph.D. in Clinical Psychology",
-      experience: "8 years experience",
-      certifications: ["Board Certified Psychologist"],
-      isAvailable: true,
-      avatar: "michael",
-      level: "Mid-level",
-      background: "Family Therapy",
-      introduction: "Focuses on family dynamics and cultural contexts",
-    },
-    {
-      id: "3",
-      name: "Dr. Emily Rodriguez",
-      specialization: "Trauma-Focused Therapy",
-      education: "Psy.D. in Clinical Psychology",
-      experience: "12 years experience",
-      certifications: ["Certified Trauma Specialist"],
-      isAvailable: false,
-      avatar: "emily",
-      level: "Senior",
-      background: "Trauma Psychology",
-      introduction: "Specializes in trauma recovery and resilience",
-    },
-    {
-      id: "4",
-      name: "Dr. James Wilson",
-      specialization: "Child and Adolescent Therapy",
-      education: "Ph.D. in Developmental Psychology",
-      experience: "15 years experience",
-      certifications: ["Child Mental Health Specialist"],
-      isAvailable: true,
-      avatar: "james",
-      level: "Senior",
-      background: "Developmental Psychology",
-      introduction: "Expert in child and adolescent mental health",
-    },
-    {
-      id: "5",
-      name: "Dr. Aisha Patel",
-      specialization: "Mindfulness-Based Therapy",
-      education: "Ph.D. in Counseling Psychology",
-      experience: "7 years experience",
-      certifications: ["Certified Mindfulness Practitioner"],
-      isAvailable: true,
-      avatar: "aisha",
-      level: "Mid-level",
-      background: "Counseling Psychology",
-      introduction: "Focuses on mindfulness and stress reduction",
-    },
-  ]);
-  const [isLoading, setIsLoading] = useState(false);
+  const [supervisors, setSupervisors] = useState<Supervisor[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
   const navigate = useNavigate();
@@ -95,10 +29,8 @@ const SupervisorsPage = () => {
   useEffect(() => {
     const fetchSupervisors = async () => {
       try {
-        setIsLoading(false); // Set to false since we're using mock data
-        // In a real application, you would fetch from API
-        // const data = await getSupervisors();
-        // setSupervisors(data);
+        const data = await getSupervisors();
+        setSupervisors(data);
         setError(null);
       } catch (err) {
         console.error("Failed to fetch supervisors:", err);
@@ -14,13 +14,28 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 
+interface DatePickerWithRangeProps
+  extends Omit<React.HTMLAttributes<HTMLDivElement>, "onChange"> {
+  value?: DateRange;                              // Controlled range
+  onChange?: (range: DateRange | undefined) => void;
+  placeholder?: string;
+}
+
 export default function DatePickerWithRange({
   className,
-}: React.HTMLAttributes<HTMLDivElement>) {
-  const [date, setDate] = React.useState<DateRange | undefined>({
+  value,
+  onChange,
+  placeholder = "Pick a date",
+}: DatePickerWithRangeProps) {
+  const [uncontrolledDate, setUncontrolledDate] = React.useState<
+    DateRange | undefined
+  >({
     from: new Date(2022, 0, 20),
     to: addDays(new Date(2022, 0, 20), 20),
   });
+  const isControlled = onChange !== undefined;
+  const date = isControlled ? value : uncontrolledDate;
+  const setDate = isControlled ? onChange : setUncontrolledDate;
 
   return (
     <div className={cn("grid gap-2", className)}>
@@ -45,7 +60,7 @@ export default function DatePickerWithRange({
                 format(date.from, "LLL dd, y")
               )
             ) : (
-              <span>Pick a date</span>
+              <span>{placeholder}</span>
             )}
           </Button>
         </PopoverTrigger>
@@ -0,0 +1,239 @@
+import React, { createContext, useContext, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Lock } from "lucide-react";
+import {
+  getMyEncryptionKeys,
+  getSessionKey,
+  saveMyEncryptionKeys,
+  UserEncryptionKeys,
+} from "@/lib/api";
+import {
+  exportPublicKey,
+  generateKeyPair,
+  protectPrivateKey,
+  unlockPrivateKey,
+} from "@/lib/crypto";
+
+const MIN_PASSPHRASE_LENGTH = 10;
+
+type EncryptionContextType = {
+  // Resolve the current user's private key, asking for the passphrase (or to
+  // create one) the first time it is needed in this tab
+  getPrivateKey: () => Promise<CryptoKey>;
+  // Resolve the key of an encrypted session recording
+  unlockSessionKey: (sessionId: string, keyVersion: number) => Promise<CryptoKey>;
+};
+
+const EncryptionContext = createContext<EncryptionContextType | undefined>(
+  undefined,
+);
+
+export const EncryptionProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [mode, setMode] = useState<"setup" | "unlock" | null>(null); // Which dialog is showing
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  // Unlocked keys only live in memory for the lifetime of the tab
+  const privateKeyRef = useRef<CryptoKey | null>(null);
+  const keysRecordRef = useRef<UserEncryptionKeys | null>(null);
+  const sessionKeysRef = useRef<Record<string, Promise<CryptoKey>>>({});
+  const pendingRef = useRef<Promise<CryptoKey> | null>(null);
+  const resolversRef = useRef<{
+    resolve: (key: CryptoKey) => void;
+    reject: (error: Error) => void;
+  } | null>(null);
+
+  const closeDialog = () => {
+    setMode(null);
+    setPassphrase("");
+    setConfirmation("");
+    setError(null);
+    pendingRef.current = null;
+  };
+
+  const getPrivateKey = () => {
+    if (privateKeyRef.current) {
+      return Promise.resolve(privateKeyRef.current);
+    }
+    // Several players may ask at once; show the dialog only once
+    if (!pendingRef.current) {
+      pendingRef.current = new Promise<CryptoKey>(async (resolve, reject) => {
+        resolversRef.current = { resolve, reject };
+        keysRecordRef.current = await getMyEncryptionKeys();
+        setMode(keysRecordRef.current ? "unlock" : "setup");
+      });
+    }
+    return pendingRef.current;
+  };
+
+  const unlockSessionKey = (sessionId: string, keyVersion: number) => {
+    const cacheKey = `${sessionId}:${keyVersion}`;
+    if (!sessionKeysRef.current[cacheKey]) {
+      sessionKeysRef.current[cacheKey] = getPrivateKey()
+        .then((privateKey) => getSessionKey(sessionId, keyVersion, privateKey))
+        .catch((error) => {
+          delete sessionKeysRef.current[cacheKey];
+          throw error;
+        });
+    }
+    return sessionKeysRef.current[cacheKey];
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (mode === "setup") {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(
+          `Use at least ${MIN_PASSPHRASE_LENGTH} characters for your passphrase.`,
+        );
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError("The passphrases do not match.");
+        return;
+      }
+    }
+
+    setIsWorking(true);
+    try {
+      let privateKey: CryptoKey;
+      if (mode === "setup") {
+        const keyPair = await generateKeyPair();
+        await saveMyEncryptionKeys({
+          publicKey: await exportPublicKey(keyPair.publicKey),
+          ...(await protectPrivateKey(keyPair.privateKey, passphrase)),
+        });
+        privateKey = keyPair.privateKey;
+      } else {
+        privateKey = await unlockPrivateKey(keysRecordRef.current, passphrase);
+      }
+
+      privateKeyRef.current = privateKey;
+      resolversRef.current?.resolve(privateKey);
+      closeDialog();
+    } catch (err) {
+      console.error("Error unlocking encryption keys:", err);
+      setError(
+        mode === "unlock"
+          ? "That passphrase is not correct."
+          : "Could not save your encryption keys. Please try again.",
+      );
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCancel = () => {
+    resolversRef.current?.reject(new Error("Encryption passphrase required"));
+    closeDialog();
+  };
+
+  return (
+    <EncryptionContext.Provider value={{ getPrivateKey, unlockSessionKey }}>
+      {children}
+      <Dialog open={mode !== null} onOpenChange={(open) => !open && handleCancel()}>
+        <DialogContent>
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <Lock className="h-5 w-5" />
+                {mode === "setup"
+                  ? "Create an encryption passphrase"
+                  : "Unlock your recordings"}
+              </DialogTitle>
+              <DialogDescription>
+                {mode === "setup"
+                  ? "Recordings are encrypted in your browser before upload. Your passphrase protects the key that opens them; we cannot recover it for you."
+                  : "Enter your encryption passphrase to play encrypted recordings."}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="encryption-passphrase">Passphrase</Label>
+                <Input
+                  id="encryption-passphrase"
+                  type="password"
+                  autoFocus
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                />
+              </div>
+              {mode === "setup" && (
+                <div className="space-y-2">
+                  <Label htmlFor="encryption-passphrase-confirmation">
+                    Confirm passphrase
+                  </Label>
+                  <Input
+                    id="encryption-passphrase-confirmation"
+                    type="password"
+                    value={confirmation}
+                    onChange={(e) => setConfirmation(e.target.value)}
+                  />
+                </div>
+              )}
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              {mode === "unlock" && (
+                <button
+                  type="button"
+                  className="text-sm text-blue-600 hover:underline"
+                  onClick={() => {
+                    setMode("setup");
+                    setPassphrase("");
+                    setError(null);
+                  }}
+                >
+                  Forgot your passphrase?
+                </button>
+              )}
+              {mode === "setup" && keysRecordRef.current && (
+                <p className="text-sm text-amber-700">
+                  Creating a new passphrase replaces your keys. Recordings
+                  shared with your old key stay locked until an admin restores
+                  your access.
+                </p>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleCancel}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isWorking || !passphrase}>
+                {isWorking
+                  ? "Working..."
+                  : mode === "setup"
+                    ? "Create passphrase"
+                    : "Unlock"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </EncryptionContext.Provider>
+  );
+};
+
+export const useEncryption = (): EncryptionContextType => {
+  const context = useContext(EncryptionContext);
+  if (context === undefined) {
+    throw new Error("useEncryption must be used within an EncryptionProvider");
+  }
+  return context;
+};
@@ -1,5 +1,19 @@
 import { supabase } from "@/supabase/supabase";
 import { Session } from "@/components/audio/SessionList";
+import {
+  decryptBlob,
+  encryptFile,
+  generateSessionKey,
+  ProtectedPrivateKey,
+  unwrapSessionKey,
+  wrapSessionKey,
+} from "@/lib/crypto";
+import {
+  deleteLocalItem,
+  getAllLocalItems,
+  putLocalItem,
+} from "@/lib/localStore";
+import { cancelResumableUpload, uploadResumable } from "@/lib/resumableUpload";
 
 // Supervisor types
 export interface Supervisor {
@@ -28,19 +42,351 @@ export interface FeedbackItem {
   sessionId: string;
   timestamp: number;
   text: string;
-  audioResponse?: string;
   author: {
     name: string;
     avatar: string;
   };
+  authorId?: string;
   createdAt: Date;
+  resolvedAt?: Date;      // Set once the thread is marked resolved
+  editedAt?: Date;        // Last time the title, text or timing changed
+  deletedAt?: Date;       // Soft deleted; only admins still see the item
+  tags?: FeedbackTag[];
+  segmentId?: string;     // Transcript segment it was left on; follows splits and merges
 }
 
+export type FeedbackTagCategory = "general" | "technique";
+
+export interface FeedbackTag {
+  id: string;
+  name: string;
+  category: FeedbackTagCategory;
+  color: string;          // Hex color of the tag and its markers, e.g. "#16a34a"
+  archivedAt?: Date;      // Archived tags stay on feedback but can't be picked
+}
+
+// Fields an author may change on their feedback
+export interface FeedbackChanges {
+  title?: string;
+  text?: string;
+  timestamp?: number;
+  endTimestamp?: number | null;
+}
+
+// Feedback fields as stored in a revision snapshot
+export interface FeedbackSnapshot {
+  title?: string;
+  text: string;
+  timestamp: number;
+  endTimestamp?: number;
+}
+
+export interface FeedbackRevision {
+  id: string;
+  feedbackId: string;
+  action: "edit" | "delete" | "restore";
+  before: FeedbackSnapshot;
+  after: FeedbackSnapshot;
+  author: {
+    name: string;
+    avatar: string;
+  };
+  createdAt: Date;
+}
+
+export interface FeedbackReply {
+  id: string;
+  feedbackId: string;
+  text?: string;
+  audioPath?: string;     // Storage path of a recorded reply
+  author: {
+    id: string;
+    name: string;
+    avatar: string;
+  };
+  createdAt: Date;
+}
+
+// Live review types
+// Someone who has a session open, as shared through realtime presence
+export interface ReviewViewer {
+  userId: string;
+  name: string;
+  avatar: string;
+  followingId?: string | null; // Viewer whose playback this one follows
+}
+
+// Playback position a viewer shares with those following them
+export interface PlaybackState {
+  leaderId: string;
+  time: number;
+  isPlaying: boolean;
+}
+
+// What each viewer tracks in the review room's presence
+interface ReviewRoomPresence extends ReviewViewer {
+  playback?: (Omit<PlaybackState, "leaderId"> & { sentAt: number }) | null;
+}
+
+export interface ReviewRoom {
+  follow: (viewerId: string | null) => void;
+  sendPlayback: (state: Omit<PlaybackState, "leaderId">) => void;
+  leave: () => void;
+}
+
+// Segment reaction types
+export type ReactionType = "like" | "insightful" | "question" | "concern";
+
+export interface SegmentReaction {
+  id: string;
+  segmentId: string;
+  userId: string;
+  reaction: ReactionType;
+  createdAt: Date;
+}
+
+// Rubric types
+export interface RubricCriterion {
+  id: string;
+  name: string;           // Competency; scores roll up across templates by name
+  description?: string;
+}
+
+export interface RubricTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  sessionType: string | null;  // null: default for types without their own template
+  scaleMax: number;            // Scores run from 1 to scaleMax
+  criteria: RubricCriterion[]; // In display order
+}
+
+export interface RubricScore {
+  criterionId: string;
+  score: number;
+  comment?: string;
+  evidenceFeedbackIds: string[]; // Feedback items cited as evidence
+  updatedAt?: Date;
+}
+
+// Average over a counselor's scored sessions, per competency
+export interface CompetencySummary {
+  competency: string;
+  averagePercent: number;  // Average score as a percentage of the scale
+  sessionCount: number;
+  lastScoredAt: Date;
+}
+
+// Notification types
+export type NotificationType = "feedback" | "request" | "system";
+
+export type NotificationEvent =
+  | "feedback_added"
+  | "feedback_reply"
+  | "session_assigned"
+  | "supervisor_approved"
+  | "saved_search_match"
+  | "supervision_requested"
+  | "supervision_accepted"
+  | "supervision_declined"
+  | "supervision_completed";
+
+// Which notifications to list: everything, unread ones, or one type
+export type NotificationFilter = "all" | "unread" | NotificationType;
+
+export interface UserNotification {
+  id: string;
+  type: NotificationType;
+  event: NotificationEvent;
+  title: string;
+  message: string;
+  timestamp: Date;
+  read: boolean;
+  sessionId?: string;
+  feedbackId?: string;
+  savedSearchId?: string; // Saved search with new results
+  sender?: {              // Who caused it; absent for system notifications
+    name: string;
+    avatar: string;
+  };
+}
+
+// Supervision request types
+export type SupervisionRequestStatus =
+  | "requested"
+  | "accepted"
+  | "declined"
+  | "cancelled"
+  | "in_review"
+  | "completed";
+
+export interface SupervisionRequest {
+  id: string;
+  sessionId: string;
+  sessionTitle: string;
+  sessionType: string;
+  sessionDuration: number;  // Seconds
+  counselor: {
+    id: string;
+    name: string;
+  };
+  supervisor: {
+    id: string;
+    name: string;
+    avatar: string;
+  };
+  status: SupervisionRequestStatus;
+  message?: string;         // Note from the counselor
+  declineReason?: string;
+  createdAt: Date;
+  respondedAt: Date | null;
+}
+
+// Search types
+export type SearchHitType = "session" | "feedback" | "transcript";
+
+export interface SearchHit {
+  id: string;
+  type: SearchHitType;
+  sessionId: string;
+  sessionTitle: string;
+  title: string;
+  snippet: string;          // Matches wrapped in <mark></mark>; render as text, not HTML
+  position: number | null;  // Seconds into the recording, for feedback and transcript hits
+  rank: number;
+  date: Date;
+}
+
+// Facets that narrow a search; unset facets don't filter
+export interface SearchFilters {
+  types?: SearchHitType[];
+  sessionType?: string;
+  supervisorId?: string;
+  counselorId?: string;     // Owner of the session
+  from?: string;            // ISO timestamps, inclusive
+  to?: string;
+  tagId?: string;
+  status?: Session["status"];
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  notify: boolean;          // Notify about new results
+  createdAt: Date;
+}
+
+// Push device types
+export interface PushDevice {
+  id: string;
+  endpoint: string;       // Identifies the browser; matches PushSubscription.endpoint
+  deviceName: string;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+// Storage types
+export interface SignedAudioUrl {
+  url: string;
+  expiresAt: number | null; // Epoch ms; null for URLs that never expire
+}
+
+// Encryption types
+export interface EncryptedRecording {
+  blob: Blob;             // Output of encryptFile
+  sessionKey: CryptoKey;  // Key the recording was encrypted with
+}
+
+// Resumable upload types
+export interface PendingUploadDetails {
+  title: string;
+  notes: string;
+  supervisorId: string;
+  supervisionMessage?: string; // Note sent with the supervision request
+  sessionType?: string;
+  fileName: string;
+}
+
+export interface PendingUpload {
+  id: string;                 // Key of the upload in IndexedDB
+  userId: string;             // Uploader; other accounts on the same browser don't see it
+  path: string;               // Destination in the audio bucket
+  uploadUrl?: string;         // tus URL, once the upload exists on the server
+  blob: Blob;                 // Bytes being uploaded
+  mimeType: string;           // Type of the original recording
+  wrappedSessionKey?: string; // Session key wrapped for the uploader, set when blob is encrypted
+  bytesUploaded: number;
+  details: PendingUploadDetails;
+  createdAt: number;
+}
+
+export interface UploadedRecording {
+  path: string;               // Storage path of the uploaded file
+  mimeType: string;
+  sessionKey?: CryptoKey;     // Set when the file was encrypted in the browser
+}
+
+export interface UserEncryptionKeys extends ProtectedPrivateKey {
+  publicKey: JsonWebKey;
+}
+
+export type EscrowKeyId = "recovery" | "processing";
+
+// Waveform types
+export interface WaveformPeaks {
+  peaksPerSecond: number;   // Min/max pairs per second of audio
+  data: Float32Array;       // Interleaved min/max pairs, scaled to -1..1
+}
+
+// Transcript types
+export interface TranscriptSegment {
+  id: string;
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+  confidence?: number;
+  redactedText?: string; // Text with PII replaced, set when the segment contained any
+}
+
+// Fields of a segment a correction changes; unset fields keep their value
+export interface TranscriptSegmentChanges {
+  text?: string;
+  start?: number;
+  end?: number;
+}
+
+// Stretch of audio to bleep because the transcript has PII there
+export interface RedactionRange {
+  start: number;
+  end: number;
+  category: string;
+}
+
+export interface TranscriptRevision {
+  id: string;
+  action: "edit" | "retime" | "split" | "merge";
+  before: TranscriptSegment[];
+  after: TranscriptSegment[];
+  author: {
+    name: string;
+    avatar: string;
+  };
+  createdAt: Date;
+}
+
+// Role a diarized speaker plays in the session, keyed by speaker ID
+export type SpeakerRole = "counselor" | "client" | "other";
+export type SpeakerRoles = Record<string, SpeakerRole>;
+
 // API functions for supervisors
+// Only supervisors an admin has approved; sessions can't be sent to others
 export const getSupervisors = async (): Promise<Supervisor[]> => {
   try {
     const { data, error } = await supabase
-      .from("supervisors")
+      .from("approved_supervisors")
       .select("*")
       .order("name");
 
@@ -49,90 +395,6 @@ export const getSupervisors = async (): Promise<Supervisor[]> => {
       throw error;
     }
 
-    if (!data || data.length === 0) {
-      // Return mock data if no supervisors found in the database
-      return [
-        {
-          id: "1",
-          name: "Dr. Sarah Johnson",
-          avatar: "sarah",
-          title: "Clinical Psychologist",
-          specialization: "Cognitive Behavioral Therapy",
-          yearsOfExperience: 12,
-          certifications: ["Licensed Clinical Psychologist", "CBT Certified"],
-          availability: "Monday, Wednesday, Friday",
-          bio: "Dr. Sarah Johnson is a licensed clinical psychologist with over 12 years of experience specializing in cognitive behavioral therapy. She has extensive experience working with adults dealing with anxiety, depression, and trauma.",
-          status: "Available",
-          level: "Senior",
-          experience: "12 years",
-          background: "Clinical Psychology",
-          introduction: "Specializes in CBT and trauma-informed care",
-          recentActivity: [
-            {
-              title: "Reviewed Session: Client B - CBT Session",
-              date: "2 days ago",
-              description:
-                "Provided detailed feedback on therapeutic techniques and client engagement.",
-            },
-          ],
-        },
-        {
-          id: "2",
-          name: "Dr. Michael Chen",
-          avatar: "michael",
-          title: "Family Therapist",
-          specialization: "Family Systems Therapy",
-          yearsOfExperience: 8,
-          certifications: [
-            "Licensed Marriage and Family Therapist",
-            "Certified Family Trauma Professional",
-          ],
-          availability: "Tuesday, Thursday",
-          bio: "Dr. Michael Chen is a licensed marriage and family therapist who specializes in helping families navigate complex dynamics and improve communication. He has particular expertise in cultural issues affecting family systems.",
-          status: "Available",
-          level: "Mid-level",
-          experience: "8 years",
-          background: "Family Therapy",
-          introduction: "Focuses on family dynamics and cultural contexts",
-          recentActivity: [
-            {
-              title: "Reviewed Session: Family Intervention",
-              date: "1 week ago",
-              description:
-                "Provided insights on family communication patterns and intervention strategies.",
-            },
-          ],
-        },
-        {
-          id: "3",
-          name: "Dr. Aisha Patel",
-          avatar: "aisha",
-          title: "Child Psychologist",
-          specialization: "Play Therapy",
-          yearsOfExperience: 10,
-          certifications: [
-            "Licensed Child Psychologist",
-            "Registered Play Therapist",
-          ],
-          availability: "Monday, Tuesday, Thursday",
-          bio: "Dr. Aisha Patel is a child psychologist who specializes in play therapy and developmental issues. She has worked extensively with children experiencing trauma, anxiety, and behavioral challenges.",
-          status: "Available",
-          level: "Senior",
-          experience: "10 years",
-          background: "Child Psychology",
-          introduction: "Expert in play therapy and child development",
-          recentActivity: [
-            {
-              title: "Reviewed Session: Child Play Therapy",
-              date: "3 days ago",
-              description:
-                "Provided feedback on therapeutic play techniques and child engagement strategies.",
-            },
-          ],
-        },
-      ];
-    }
-
     return data.map((supervisor) => ({
       id: supervisor.id,
       name: supervisor.name,
@@ -150,6 +412,7 @@ export const getSupervisors = async (): Promise<Supervisor[]> => {
       availability: supervisor.availability || "Weekdays",
       bio: supervisor.bio || "Experienced counseling supervisor",
       status: supervisor.status || "Available",
+      isAvailable: (supervisor.status || "Available") === "Available",
       recentActivity: supervisor.recent_activity || [],
     }));
   } catch (error) {
@@ -241,7 +504,7 @@ export const getSupervisors = async (): Promise<Supervisor[]> => {
 export const getSupervisorById = async (id: string): Promise<Supervisor> => {
   try {
     const { data, error } = await supabase
-      .from("supervisors")
+      .from("approved_supervisors")
       .select("*")
       .eq("id", id)
       .single();
@@ -268,6 +531,7 @@ export const getSupervisorById = async (id: string): Promise<Supervisor> => {
       availability: data.availability || "Weekdays",
       bio: data.bio || "Experienced counseling supervisor",
       status: data.status || "Available",
+      isAvailable: (data.status || "Available") === "Available",
       recentActivity: data.recent_activity || [],
     };
   } catch (error) {
@@ -378,18 +642,53 @@ export const getSupervisorById = async (id: string): Promise<Supervisor> => {
 };
 
 // API functions for sessions
+
+// Every column the mappers read. audio_url isn't granted to signed-in users,
+// so "*" would fail; owners get it from getOwnAudioPaths.
+const SESSION_COLUMNS =
+  "id, title, user_id, created_at, duration, status, session_type, transcription_status, processing_status, redacted_audio_url, redacted_audio_mime_type, peaks_url, is_encrypted, audio_mime_type, key_version, supervisor:supervisor_id(id, name, avatar)";
+
+// Storage paths of the original recordings, by session; only returned for
+// the caller's own sessions
+const getOwnAudioPaths = async (
+  sessionId?: string,
+): Promise<Record<string, string>> => {
+  let query = supabase.rpc("get_own_session_audio");
+  if (sessionId) {
+    query = query.eq("session_id", sessionId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching recording paths:", error);
+    throw error;
+  }
+
+  const paths: Record<string, string> = {};
+  (data || []).forEach((row: any) => {
+    if (row.audio_url) {
+      paths[row.session_id] = row.audio_url;
+    }
+  });
+  return paths;
+};
+
 export const getSessions = async (): Promise<Session[]> => {
   try {
     const { data: sessionsData, error: sessionsError } = await supabase
       .from("sessions")
-      .select("*, supervisor:supervisor_id(id, name, avatar)")
-      .order("created_at", { ascending: false });
+      .select(SESSION_COLUMNS)
+      .order("created_at", { ascending: false })
+      .returns<any[]>();
 
     if (sessionsError) {
       console.error("Error fetching sessions:", sessionsError);
       throw sessionsError;
     }
 
+    const audioPaths = await getOwnAudioPaths();
+
     // Get feedback counts for each session
     const sessionIds = sessionsData.map((session) => session.id);
     const { data: feedbackData, error: feedbackError } = await supabase
@@ -426,6 +725,16 @@ export const getSessions = async (): Promise<Session[]> => {
       feedbackCount: feedbackCounts[session.id] || 0,
       status: session.status,
       sessionType: session.session_type,
+      transcriptionStatus: session.transcription_status || undefined,
+      processingStatus: session.processing_status || undefined,
+      userId: session.user_id,
+      audioPath: audioPaths[session.id],
+      redactedAudioPath: session.redacted_audio_url || undefined,
+      redactedAudioMimeType: session.redacted_audio_mime_type || undefined,
+      peaksPath: session.peaks_url || undefined,
+      isEncrypted: session.is_encrypted || false,
+      audioMimeType: session.audio_mime_type || undefined,
+      keyVersion: session.key_version || 1,
       supervisor: {
         id: session.supervisor?.id || "",
         name: session.supervisor?.name || "Unassigned",
@@ -486,15 +795,17 @@ export const getSessionById = async (id: string): Promise<Session> => {
   try {
     const { data, error } = await supabase
       .from("sessions")
-      .select("*, supervisor:supervisor_id(id, name, avatar)")
+      .select(SESSION_COLUMNS)
       .eq("id", id)
-      .single();
+      .single<any>();
 
     if (error) {
       console.error(`Error fetching session with ID ${id}:`, error);
       throw error;
     }
 
+    const audioPaths = await getOwnAudioPaths(id);
+
     // Get feedback count for this session
     const { count, error: countError } = await supabase
       .from("feedback")
@@ -517,6 +828,16 @@ export const getSessionById = async (id: string): Promise<Session> => {
       feedbackCount: count || 0,
       status: data.status,
       sessionType: data.session_type,
+      transcriptionStatus: data.transcription_status || undefined,
+      processingStatus: data.processing_status || undefined,
+      userId: data.user_id,
+      audioPath: audioPaths[data.id],
+      redactedAudioPath: data.redacted_audio_url || undefined,
+      redactedAudioMimeType: data.redacted_audio_mime_type || undefined,
+      peaksPath: data.peaks_url || undefined,
+      isEncrypted: data.is_encrypted || false,
+      audioMimeType: data.audio_mime_type || undefined,
+      keyVersion: data.key_version || 1,
       supervisor: {
         id: data.supervisor?.id || "",
         name: data.supervisor?.name || "Unassigned",
@@ -592,58 +913,35 @@ export const getSessionById = async (id: string): Promise<Session> => {
 
 export const createSession = async (sessionData: {
   title: string;
-  supervisorId: string;
-  audioFile: File;
+  supervisorId: string;         // Asked to review; assigned once they accept
+  supervisionMessage?: string;
   notes: string;
   sessionType?: string;
+  recording: UploadedRecording; // Already uploaded with uploadSessionRecording
 }): Promise<Session> => {
   try {
-    // First, upload the audio file to storage
-    const fileName = `${Date.now()}-${sessionData.audioFile.name}`;
-    const filePath = `sessions/${fileName}`;
-
-    const { data: uploadData, error: uploadError } = await supabase.storage
-      .from("audio")
-      .upload(filePath, sessionData.audioFile);
-
-    if (uploadError) {
-      console.error("Error uploading audio file:", uploadError);
-      throw uploadError;
-    }
-
-    // Get the public URL for the uploaded file
-    const { data: urlData } = supabase.storage
-      .from("audio")
-      .getPublicUrl(filePath);
-    const audioUrl = urlData.publicUrl;
-
-    // Create a new session record
     const { data: user } = await supabase.auth.getUser();
     if (!user || !user.user) {
       throw new Error("User not authenticated");
     }
 
-    // Get audio duration
-    const audio = new Audio();
-    audio.src = URL.createObjectURL(sessionData.audioFile);
-    await new Promise((resolve) => {
-      audio.onloadedmetadata = resolve;
-    });
-    const duration = Math.round(audio.duration);
+    const { recording } = sessionData;
 
     const { data, error } = await supabase
       .from("sessions")
       .insert({
         title: sessionData.title,
         user_id: user.user.id,
-        supervisor_id: sessionData.supervisorId,
-        audio_url: audioUrl,
-        duration: duration,
+        audio_url: recording.path, // Storage path; played through signed URLs
         notes: sessionData.notes,
         session_type: sessionData.sessionType || "General",
         status: "pending",
+        processing_status: "queued",
+        transcription_status: "queued",
+        is_encrypted: !!recording.sessionKey,
+        audio_mime_type: recording.mimeType || null,
       })
-      .select("*, supervisor:supervisor_id(id, name, avatar)")
+      .select(SESSION_COLUMNS)
       .single();
 
     if (error) {
@@ -651,6 +949,28 @@ export const createSession = async (sessionData: {
       throw error;
     }
 
+    // Share the session key before transcription needs it. The supervisor
+    // gets a copy once they accept and the owner next opens the session.
+    if (recording.sessionKey) {
+      await shareSessionKey(data.id, 1, recording.sessionKey, [user.user.id]);
+    }
+
+    // The session exists either way; a failed request can be sent again
+    // from the session page
+    try {
+      await requestSupervision(
+        data.id,
+        sessionData.supervisorId,
+        sessionData.supervisionMessage,
+      );
+    } catch (error) {
+      console.error("Error requesting supervision:", error);
+    }
+
+    // Transcode and normalize in the background, then transcribe; the
+    // session list shows progress. Duration is measured by the server.
+    requestProcessing(data.id);
+
     return {
       id: data.id,
       title: data.title,
@@ -659,10 +979,20 @@ export const createSession = async (sessionData: {
       feedbackCount: 0,
       status: data.status,
       sessionType: data.session_type,
+      transcriptionStatus: data.transcription_status || undefined,
+      processingStatus: data.processing_status || undefined,
+      userId: data.user_id,
+      audioPath: recording.path,
+      redactedAudioPath: data.redacted_audio_url || undefined,
+      redactedAudioMimeType: data.redacted_audio_mime_type || undefined,
+      peaksPath: data.peaks_url || undefined,
+      isEncrypted: data.is_encrypted || false,
+      audioMimeType: data.audio_mime_type || undefined,
+      keyVersion: data.key_version || 1,
       supervisor: {
-        id: data.supervisor?.id || "",
-        name: data.supervisor?.name || "Unassigned",
-        avatar: data.supervisor?.avatar || "",
+        id: "",
+        name: "Unassigned",
+        avatar: "",
       },
     };
   } catch (error) {
@@ -676,60 +1006,347 @@ export const createSession = async (sessionData: {
       feedbackCount: 0,
       status: "pending",
       sessionType: sessionData.sessionType || "General",
+      transcriptionStatus: "queued",
+      processingStatus: "queued",
       supervisor: {
-        id: sessionData.supervisorId,
-        name: "Supervisor",
-        avatar: "user",
+        id: "",
+        name: "Unassigned",
+        avatar: "",
       },
     };
   }
 };
 
-// API functions for feedback
-export const getFeedbackForSession = async (
-  sessionId: string,
-): Promise<FeedbackItem[]> => {
+// API functions for resumable uploads
+
+/**
+ * Queue a recording for upload. The upload (including the file) is kept in
+ * IndexedDB until the session is created, so it survives page reloads.
+ */
+export const prepareSessionUpload = async (
+  details: PendingUploadDetails,
+  file: File,
+  encryption?: EncryptedRecording,
+): Promise<PendingUpload> => {
+  const { data: user } = await supabase.auth.getUser();
+  if (!user || !user.user) {
+    throw new Error("User not authenticated");
+  }
+
+  // Keep a copy of the session key only the uploader can unwrap, so the
+  // session can still be created after a reload
+  let wrappedSessionKey: string | undefined;
+  if (encryption) {
+    const publicKeys = await getEncryptionPublicKeys([user.user.id]);
+    if (!publicKeys[user.user.id]) {
+      throw new Error("Set up your encryption passphrase before uploading");
+    }
+    wrappedSessionKey = await wrapSessionKey(
+      encryption.sessionKey,
+      publicKeys[user.user.id],
+    );
+  }
+
+  const fileName = `${Date.now()}-${file.name}`;
+  const upload: PendingUpload = {
+    id: crypto.randomUUID(),
+    userId: user.user.id,
+    path: `sessions/${user.user.id}/${fileName}${encryption ? ".enc" : ""}`,
+    blob: encryption?.blob || file,
+    mimeType: file.type,
+    wrappedSessionKey,
+    bytesUploaded: 0,
+    details,
+    createdAt: Date.now(),
+  };
+
+  await putLocalItem("uploads", upload);
+  return upload;
+};
+
+// Unfinished uploads of the current user, oldest first
+export const getPendingUploads = async (): Promise<PendingUpload[]> => {
   try {
-    const { data: feedbackData, error: feedbackError } = await supabase
-      .from("feedback")
-      .select("*, author:author_id(id, email, user_metadata)")
-      .eq("session_id", sessionId)
-      .order("timestamp");
+    const { data: user } = await supabase.auth.getUser();
+    if (!user || !user.user) {
+      return [];
+    }
 
-    if (feedbackError) {
+    const uploads = await getAllLocalItems<PendingUpload>("uploads");
+    return uploads
+      .filter((upload) => upload.userId === user.user.id)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  } catch (error) {
+    console.error("Error in getPendingUploads:", error);
+    return [];
+  }
+};
+
+/**
+ * Upload (or resume uploading) a queued recording. Progress is saved as it
+ * goes; abort the signal to pause.
+ */
+export const uploadSessionRecording = async (
+  upload: PendingUpload,
+  options: {
+    signal?: AbortSignal;
+    onProgress?: (bytesUploaded: number, bytesTotal: number) => void;
+    onRetry?: (attempt: number, delay: number) => void;
+  } = {},
+) => {
+  let bytesSaved = upload.bytesUploaded;
+
+  await uploadResumable({
+    bucket: "audio",
+    path: upload.path,
+    file: upload.blob,
+    contentType: upload.wrappedSessionKey
+      ? "application/octet-stream"
+      : upload.mimeType,
+    uploadUrl: upload.uploadUrl,
+    signal: options.signal,
+    onUploadUrl: (uploadUrl) => {
+      upload.uploadUrl = uploadUrl;
+      putLocalItem("uploads", upload).catch((error) =>
+        console.error("Error saving upload URL:", error),
+      );
+    },
+    onProgress: (bytesUploaded, bytesTotal) => {
+      upload.bytesUploaded = bytesUploaded;
+      // Saving every chunk would copy the record needlessly; the server is
+      // asked for the real offset on resume anyway
+      if (bytesUploaded - bytesSaved >= 10 * 1024 * 1024) {
+        bytesSaved = bytesUploaded;
+        putLocalItem("uploads", upload).catch((error) =>
+          console.error("Error saving upload progress:", error),
+        );
+      }
+      options.onProgress?.(bytesUploaded, bytesTotal);
+    },
+    onRetry: options.onRetry,
+  });
+
+  await putLocalItem("uploads", upload);
+};
+
+/**
+ * Forget a queued upload, e.g. once its session has been created. Pass
+ * `cancel` to also drop the partial file on the server.
+ */
+export const removePendingUpload = async (
+  upload: PendingUpload,
+  cancel = false,
+) => {
+  if (cancel && upload.uploadUrl) {
+    await cancelResumableUpload(upload.uploadUrl);
+  }
+  await deleteLocalItem("uploads", upload.id);
+};
+
+export const requestProcessing = async (sessionId: string) => {
+  try {
+    const { error } = await supabase.functions.invoke(
+      "supabase-functions-process-recording",
+      {
+        body: { sessionId },
+      },
+    );
+
+    if (error) {
       console.error(
-        `Error fetching feedback for session ${sessionId}:`,
-        feedbackError,
+        `Error requesting processing for session ${sessionId}:`,
+        error,
       );
-      throw feedbackError;
+      throw error;
     }
+  } catch (error) {
+    console.error(
+      `Error in requestProcessing for session ${sessionId}:`,
+      error,
+    );
+  }
+};
 
-    return feedbackData.map((feedback) => ({
-      id: feedback.id,
-      sessionId: feedback.session_id,
-      timestamp: feedback.timestamp,
-      text: feedback.text,
-      audioResponse: feedback.audio_response,
-      author: {
-        name:
-          feedback.author?.user_metadata?.full_name ||
-          feedback.author?.email ||
-          "Unknown",
-        avatar: feedback.author?.email?.split("@")[0] || "user",
+// Render the bleeped copy supervisors play again, e.g. after a key rotation
+export const requestRedactedAudio = async (sessionId: string) => {
+  try {
+    const { error } = await supabase.functions.invoke(
+      "supabase-functions-process-recording",
+      {
+        body: { sessionId, redactedAudioOnly: true },
       },
-      createdAt: new Date(feedback.created_at),
-    }));
+    );
+
+    if (error) {
+      console.error(
+        `Error requesting redacted audio for session ${sessionId}:`,
+        error,
+      );
+      throw error;
+    }
   } catch (error) {
     console.error(
-      `Error in getFeedbackForSession for session ${sessionId}:`,
+      `Error in requestRedactedAudio for session ${sessionId}:`,
       error,
     );
-    // Return mock data as fallback
-    if (sessionId === "1") {
-      return [
-        {
-          id: "f1",
-          sessionId: "1",
+  }
+};
+
+export const requestTranscription = async (sessionId: string) => {
+  try {
+    const { error } = await supabase.functions.invoke(
+      "supabase-functions-transcribe-session",
+      {
+        body: { sessionId },
+      },
+    );
+
+    if (error) {
+      console.error(
+        `Error requesting transcription for session ${sessionId}:`,
+        error,
+      );
+      throw error;
+    }
+  } catch (error) {
+    console.error(
+      `Error in requestTranscription for session ${sessionId}:`,
+      error,
+    );
+  }
+};
+
+// API functions for audio storage
+// Lifetime of signed audio URLs; players refresh them before they run out
+export const SIGNED_URL_EXPIRY_SECONDS = 600;
+
+export const getSignedAudioUrl = async (
+  path: string,
+): Promise<SignedAudioUrl | null> => {
+  // Mock data and recordings made in the browser already carry a playable URL
+  if (/^(https?|blob|data):/.test(path)) {
+    return { url: path, expiresAt: null };
+  }
+
+  try {
+    const { data, error } = await supabase.storage
+      .from("audio")
+      .createSignedUrl(path, SIGNED_URL_EXPIRY_SECONDS);
+
+    if (error) {
+      console.error(`Error creating signed URL for ${path}:`, error);
+      throw error;
+    }
+
+    return {
+      url: data.signedUrl,
+      expiresAt: Date.now() + SIGNED_URL_EXPIRY_SECONDS * 1000,
+    };
+  } catch (error) {
+    console.error(`Error in getSignedAudioUrl for ${path}:`, error);
+    return null;
+  }
+};
+
+// API functions for waveforms
+
+/**
+ * Load the precomputed peaks of a recording (audiowaveform JSON format).
+ * Channels are merged into one. Returns null when the peaks can't be loaded;
+ * the player then shows a plain timeline.
+ */
+export const getWaveformPeaks = async (
+  path: string,
+): Promise<WaveformPeaks | null> => {
+  try {
+    const { data, error } = await supabase.storage.from("audio").download(path);
+
+    if (error) {
+      console.error(`Error downloading waveform ${path}:`, error);
+      throw error;
+    }
+
+    const peaks = JSON.parse(await data.text());
+    const channels = peaks.channels || 1;
+    const scale = 2 ** ((peaks.bits || 8) - 1);
+    const merged = new Float32Array(peaks.length * 2);
+
+    for (let index = 0; index < peaks.length; index++) {
+      let min = 0;
+      let max = 0;
+      for (let channel = 0; channel < channels; channel++) {
+        const offset = (index * channels + channel) * 2;
+        min = Math.min(min, peaks.data[offset] / scale);
+        max = Math.max(max, peaks.data[offset + 1] / scale);
+      }
+      merged[index * 2] = min;
+      merged[index * 2 + 1] = max;
+    }
+
+    return {
+      peaksPerSecond: peaks.sample_rate / peaks.samples_per_pixel,
+      data: merged,
+    };
+  } catch (error) {
+    console.error("Error in getWaveformPeaks:", error);
+    return null;
+  }
+};
+
+// API functions for feedback
+const toFeedbackItem = (feedback: any): FeedbackItem => ({
+  id: feedback.id,
+  sessionId: feedback.session_id,
+  timestamp: feedback.timestamp,
+  text: feedback.text,
+  author: {
+    name:
+      feedback.author?.user_metadata?.full_name ||
+      feedback.author?.email ||
+      "Unknown",
+    avatar: feedback.author?.email?.split("@")[0] || "user",
+  },
+  authorId: feedback.author_id,
+  createdAt: new Date(feedback.created_at),
+  resolvedAt: feedback.resolved_at ? new Date(feedback.resolved_at) : undefined,
+  editedAt: feedback.edited_at ? new Date(feedback.edited_at) : undefined,
+  deletedAt: feedback.deleted_at ? new Date(feedback.deleted_at) : undefined,
+  tags: (feedback.tags || []).map(toFeedbackTag),
+  segmentId: feedback.segment_id || undefined,
+});
+
+export const getFeedbackForSession = async (
+  sessionId: string,
+): Promise<FeedbackItem[]> => {
+  try {
+    const { data: feedbackData, error: feedbackError } = await supabase
+      .from("feedback")
+      .select(
+        "*, author:author_id(id, email, user_metadata), tags:feedback_tags(*)",
+      )
+      .eq("session_id", sessionId)
+      .order("timestamp");
+
+    if (feedbackError) {
+      console.error(
+        `Error fetching feedback for session ${sessionId}:`,
+        feedbackError,
+      );
+      throw feedbackError;
+    }
+
+    return feedbackData.map(toFeedbackItem);
+  } catch (error) {
+    console.error(
+      `Error in getFeedbackForSession for session ${sessionId}:`,
+      error,
+    );
+    // Return mock data as fallback
+    if (sessionId === "1") {
+      return [
+        {
+          id: "f1",
+          sessionId: "1",
           timestamp: 120, // 2 minutes
           text: "Great introduction and rapport building. You established trust quickly with the client.",
           author: {
@@ -743,7 +1360,6 @@ export const getFeedbackForSession = async (
           sessionId: "1",
           timestamp: 450, // 7:30 minutes
           text: "Consider using more open-ended questions here to encourage the client to elaborate.",
-          audioResponse: "audio-response-1.mp3",
           author: {
             name: "Dr. Sarah Johnson",
             avatar: "sarah",
@@ -770,6 +1386,10 @@ export const getFeedbackForSession = async (
   }
 };
 
+/**
+ * Add feedback to a session. `tagIds` are assigned after the feedback is
+ * created; the returned item doesn't include them.
+ */
 export const addFeedback = async (
   sessionId: string,
   text: string,
@@ -778,6 +1398,8 @@ export const addFeedback = async (
   title?: string,
   audioFeedback?: Blob,
   isGeneral?: boolean,
+  tagIds: string[] = [],
+  segmentId?: string,       // Transcript segment the feedback was left on
 ): Promise<FeedbackItem> => {
   try {
     const { data: user } = await supabase.auth.getUser();
@@ -786,10 +1408,10 @@ export const addFeedback = async (
     }
 
     // First, handle audio feedback upload if provided
-    let audioFeedbackUrl = null;
+    let audioFeedbackPath = null;
     if (audioFeedback) {
       const fileName = `${Date.now()}-feedback.webm`;
-      const filePath = `feedback/${fileName}`;
+      const filePath = `feedback/${user.user.id}/${fileName}`;
 
       const { data: uploadData, error: uploadError } = await supabase.storage
         .from("audio")
@@ -800,11 +1422,7 @@ export const addFeedback = async (
         throw uploadError;
       }
 
-      // Get the public URL for the uploaded file
-      const { data: urlData } = supabase.storage
-        .from("audio")
-        .getPublicUrl(filePath);
-      audioFeedbackUrl = urlData.publicUrl;
+      audioFeedbackPath = filePath;
     }
 
     // Then create the feedback record
@@ -817,8 +1435,9 @@ export const addFeedback = async (
         end_timestamp: endTimestamp || null,
         title: title || null,
         text: text,
-        audio_feedback: audioFeedbackUrl,
+        audio_feedback: audioFeedbackPath,
         is_general: isGeneral || false,
+        segment_id: segmentId || null,
       })
       .select("*, author:author_id(id, email, user_metadata)")
       .single();
@@ -828,6 +1447,16 @@ export const addFeedback = async (
       throw error;
     }
 
+    if (tagIds.length > 0) {
+      const { error: tagError } = await supabase
+        .from("feedback_tag_assignments")
+        .insert(tagIds.map((tagId) => ({ feedback_id: data.id, tag_id: tagId })));
+
+      if (tagError) {
+        console.error("Error tagging feedback:", tagError);
+      }
+    }
+
     // Update session status to in_progress if it was pending
     const { error: updateError } = await supabase
       .from("sessions")
@@ -848,7 +1477,6 @@ export const addFeedback = async (
       // title is not part of the FeedbackItem interface
       // title: data.title || undefined,
       text: data.text,
-      audioResponse: data.audio_response,
       // Remove audioFeedback as it's not part of the FeedbackItem interface
       author: {
         name:
@@ -857,7 +1485,9 @@ export const addFeedback = async (
           "Unknown",
         avatar: data.author?.email?.split("@")[0] || "user",
       },
+      authorId: data.author_id,
       createdAt: new Date(data.created_at),
+      segmentId: data.segment_id || undefined,
     };
   } catch (error) {
     console.error("Error in addFeedback:", error);
@@ -872,49 +1502,2261 @@ export const addFeedback = async (
         avatar: "user",
       },
       createdAt: new Date(),
+      segmentId,
     };
   }
 };
 
-export const addAudioResponse = async (
+/**
+ * Change the title, text or timing of feedback. Only its author may; the
+ * previous version is kept in `feedback_revisions` by a database trigger.
+ */
+export const updateFeedback = async (
   feedbackId: string,
-  audioBlob: Blob,
-): Promise<string> => {
+  changes: FeedbackChanges,
+): Promise<Date> => {
   try {
-    // First, upload the audio file to storage
-    const fileName = `${Date.now()}-response.webm`;
-    const filePath = `feedback/${fileName}`;
+    const update: Record<string, unknown> = {};
+    if (changes.title !== undefined) update.title = changes.title || null;
+    if (changes.text !== undefined) update.text = changes.text;
+    if (changes.timestamp !== undefined) update.timestamp = changes.timestamp;
+    if (changes.endTimestamp !== undefined) {
+      update.end_timestamp = changes.endTimestamp;
+    }
 
-    const { data: uploadData, error: uploadError } = await supabase.storage
-      .from("audio")
-      .upload(filePath, audioBlob);
+    const { data, error } = await supabase
+      .from("feedback")
+      .update(update)
+      .eq("id", feedbackId)
+      .select("edited_at")
+      .single();
 
-    if (uploadError) {
-      console.error("Error uploading audio response:", uploadError);
-      throw uploadError;
+    if (error) {
+      console.error(`Error updating feedback ${feedbackId}:`, error);
+      throw error;
     }
 
-    // Get the public URL for the uploaded file
-    const { data: urlData } = supabase.storage
-      .from("audio")
-      .getPublicUrl(filePath);
-    const audioUrl = urlData.publicUrl;
+    return new Date(data.edited_at);
+  } catch (error) {
+    console.error("Error in updateFeedback:", error);
+    // Apply the change locally as fallback
+    return new Date();
+  }
+};
+
+/**
+ * Soft delete feedback. The row stays, hidden from everyone but admins, and
+ * the deletion is recorded in its history.
+ */
+export const deleteFeedback = async (feedbackId: string): Promise<void> => {
+  try {
+    // Through a function: the deleted row is no longer visible to its
+    // author, so RLS rejects the update itself
+    const { error } = await supabase.rpc("delete_feedback", {
+      p_feedback_id: feedbackId,
+    });
 
-    // Update the feedback record with the audio response URL
+    if (error) {
+      console.error(`Error deleting feedback ${feedbackId}:`, error);
+      throw error;
+    }
+  } catch (error) {
+    console.error("Error in deleteFeedback:", error);
+  }
+};
+
+// Admins only: bring soft deleted feedback back
+export const restoreFeedback = async (feedbackId: string): Promise<void> => {
+  try {
     const { error } = await supabase
       .from("feedback")
-      .update({ audio_response: audioUrl })
+      .update({ deleted_at: null })
       .eq("id", feedbackId);
 
     if (error) {
-      console.error("Error updating feedback with audio response:", error);
+      console.error(`Error restoring feedback ${feedbackId}:`, error);
+      throw error;
+    }
+  } catch (error) {
+    console.error("Error in restoreFeedback:", error);
+  }
+};
+
+const toFeedbackSnapshot = (feedback: any): FeedbackSnapshot => ({
+  title: feedback?.title || undefined,
+  text: feedback?.text || "",
+  timestamp: feedback?.timestamp ?? 0,
+  endTimestamp: feedback?.end_timestamp ?? undefined,
+});
+
+// Edit history of a feedback item, newest first
+export const getFeedbackRevisions = async (
+  feedbackId: string,
+): Promise<FeedbackRevision[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("feedback_revisions")
+      .select("*, author:author_id(id, email, user_metadata)")
+      .eq("feedback_id", feedbackId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error(
+        `Error fetching revisions of feedback ${feedbackId}:`,
+        error,
+      );
+      throw error;
+    }
+
+    return data.map((revision) => ({
+      id: revision.id,
+      feedbackId: revision.feedback_id,
+      action: revision.action,
+      before: toFeedbackSnapshot(revision.before),
+      after: toFeedbackSnapshot(revision.after),
+      author: {
+        name:
+          revision.author?.user_metadata?.full_name ||
+          revision.author?.email ||
+          "Unknown",
+        avatar: revision.author?.email?.split("@")[0] || "user",
+      },
+      createdAt: new Date(revision.created_at),
+    }));
+  } catch (error) {
+    console.error("Error in getFeedbackRevisions:", error);
+    return [];
+  }
+};
+
+// API functions for feedback tags
+// Used when tags can't be loaded, e.g. without a database
+const MOCK_FEEDBACK_TAGS: FeedbackTag[] = [
+  {
+    id: "tag-strength",
+    name: "Strength",
+    category: "general",
+    color: "#16a34a",
+  },
+  {
+    id: "tag-growth-area",
+    name: "Growth Area",
+    category: "general",
+    color: "#d97706",
+  },
+  {
+    id: "tag-ethics",
+    name: "Ethics Concern",
+    category: "general",
+    color: "#dc2626",
+  },
+  {
+    id: "tag-cbt",
+    name: "CBT",
+    category: "technique",
+    color: "#2563eb",
+  },
+  {
+    id: "tag-mi",
+    name: "Motivational Interviewing",
+    category: "technique",
+    color: "#7c3aed",
+  },
+];
+
+const toFeedbackTag = (tag: any): FeedbackTag => ({
+  id: tag.id,
+  name: tag.name,
+  category: tag.category,
+  color: tag.color,
+  archivedAt: tag.archived_at ? new Date(tag.archived_at) : undefined,
+});
+
+// The tag list in display order; archived tags only if asked for
+export const getFeedbackTags = async (
+  includeArchived = false,
+): Promise<FeedbackTag[]> => {
+  try {
+    let query = supabase.from("feedback_tags").select("*").order("position");
+    if (!includeArchived) {
+      query = query.is("archived_at", null);
+    }
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching feedback tags:", error);
+      throw error;
+    }
+
+    return data.map(toFeedbackTag);
+  } catch (error) {
+    console.error("Error in getFeedbackTags:", error);
+    // Return mock data as fallback
+    return MOCK_FEEDBACK_TAGS;
+  }
+};
+
+// Admin only: create a tag, or update one when it has an ID
+export const saveFeedbackTag = async (
+  tag: Omit<FeedbackTag, "id" | "archivedAt"> & { id?: string },
+  position?: number,
+): Promise<FeedbackTag> => {
+  const { data, error } = await supabase
+    .from("feedback_tags")
+    .upsert({
+      ...(tag.id ? { id: tag.id } : {}),
+      name: tag.name,
+      category: tag.category,
+      color: tag.color,
+      ...(position !== undefined ? { position } : {}),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error saving feedback tag:", error);
+    throw error;
+  }
+
+  return toFeedbackTag(data);
+};
+
+// Admin only: hide a tag from the picker, or bring it back
+export const setFeedbackTagArchived = async (
+  tagId: string,
+  archived: boolean,
+) => {
+  const { error } = await supabase
+    .from("feedback_tags")
+    .update({ archived_at: archived ? new Date().toISOString() : null })
+    .eq("id", tagId);
+
+  if (error) {
+    console.error(`Error archiving feedback tag ${tagId}:`, error);
+    throw error;
+  }
+};
+
+// Admin only: delete a tag, removing it from all feedback
+export const deleteFeedbackTag = async (tagId: string) => {
+  const { error } = await supabase
+    .from("feedback_tags")
+    .delete()
+    .eq("id", tagId);
+
+  if (error) {
+    console.error(`Error deleting feedback tag ${tagId}:`, error);
+    throw error;
+  }
+};
+
+// API functions for feedback threads
+const toFeedbackReply = (reply: any): FeedbackReply => ({
+  id: reply.id,
+  feedbackId: reply.feedback_id,
+  text: reply.text || undefined,
+  audioPath: reply.audio_path || undefined,
+  author: {
+    id: reply.author_id,
+    name:
+      reply.author?.user_metadata?.full_name || reply.author?.email || "Unknown",
+    avatar: reply.author?.email?.split("@")[0] || "user",
+  },
+  createdAt: new Date(reply.created_at),
+});
+
+// Replies to a feedback item, oldest first
+export const getFeedbackReplies = async (
+  feedbackId: string,
+): Promise<FeedbackReply[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("feedback_replies")
+      .select("*, author:author_id(id, email, user_metadata)")
+      .eq("feedback_id", feedbackId)
+      .order("created_at");
+
+    if (error) {
+      console.error(`Error fetching replies to feedback ${feedbackId}:`, error);
+      throw error;
+    }
+
+    return data.map(toFeedbackReply);
+  } catch (error) {
+    console.error("Error in getFeedbackReplies:", error);
+    return [];
+  }
+};
+
+/**
+ * Reply to a feedback item with text, a recording, or both. Either the
+ * counselor or the supervisor of the session may reply.
+ */
+export const addFeedbackReply = async (
+  feedbackId: string,
+  text: string,
+  audioBlob?: Blob,
+): Promise<FeedbackReply> => {
+  try {
+    const { data: user } = await supabase.auth.getUser();
+    if (!user || !user.user) {
+      throw new Error("User not authenticated");
+    }
+
+    // Recordings go to the replier's folder in the private bucket
+    let audioPath: string | null = null;
+    if (audioBlob) {
+      const filePath = `feedback/${user.user.id}/${Date.now()}-reply.webm`;
+      const { error: uploadError } = await supabase.storage
+        .from("audio")
+        .upload(filePath, audioBlob);
+
+      if (uploadError) {
+        console.error("Error uploading audio reply:", uploadError);
+        throw uploadError;
+      }
+      audioPath = filePath;
+    }
+
+    const { data, error } = await supabase
+      .from("feedback_replies")
+      .insert({
+        feedback_id: feedbackId,
+        author_id: user.user.id,
+        text: text.trim() || null,
+        audio_path: audioPath,
+      })
+      .select("*, author:author_id(id, email, user_metadata)")
+      .single();
+
+    if (error) {
+      console.error("Error adding reply:", error);
+      throw error;
+    }
+
+    return toFeedbackReply(data);
+  } catch (error) {
+    console.error("Error in addFeedbackReply:", error);
+    // Create a mock reply as fallback
+    return {
+      id: `mock-${Date.now()}`,
+      feedbackId,
+      text: text.trim() || undefined,
+      author: {
+        id: "current-user",
+        name: "Current User",
+        avatar: "user",
+      },
+      createdAt: new Date(),
+    };
+  }
+};
+
+// Mark a feedback thread resolved, or reopen it; returns the new resolved time
+export const setFeedbackResolved = async (
+  feedbackId: string,
+  resolved: boolean,
+): Promise<Date | null> => {
+  try {
+    const { data, error } = await supabase.rpc("set_feedback_resolved", {
+      p_feedback_id: feedbackId,
+      p_resolved: resolved,
+    });
+
+    if (error) {
+      console.error(`Error resolving feedback ${feedbackId}:`, error);
+      throw error;
+    }
+
+    return data?.resolved_at ? new Date(data.resolved_at) : null;
+  } catch (error) {
+    console.error("Error in setFeedbackResolved:", error);
+    // Apply the change locally as fallback
+    return resolved ? new Date() : null;
+  }
+};
+
+// API functions for live review
+// A single feedback item, e.g. after a realtime change; null if it isn't visible
+export const getFeedbackItem = async (
+  feedbackId: string,
+): Promise<FeedbackItem | null> => {
+  try {
+    const { data, error } = await supabase
+      .from("feedback")
+      .select(
+        "*, author:author_id(id, email, user_metadata), tags:feedback_tags(*)",
+      )
+      .eq("id", feedbackId)
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Error fetching feedback ${feedbackId}:`, error);
       throw error;
     }
 
-    return audioUrl;
+    return data ? toFeedbackItem(data) : null;
   } catch (error) {
-    console.error("Error in addAudioResponse:", error);
-    // Return a mock URL as fallback
-    return `mock-audio-response-${Date.now()}.mp3`;
+    console.error("Error in getFeedbackItem:", error);
+    return null;
   }
 };
+
+/**
+ * Call onChange with the ID of every feedback item added to or changed on
+ * a session, as it happens. Returns a function that stops listening.
+ */
+export const subscribeToSessionFeedback = (
+  sessionId: string,
+  onChange: (feedbackId: string) => void,
+): (() => void) => {
+  const channel = supabase
+    .channel(`feedback:${sessionId}`)
+    .on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "feedback",
+        filter: `session_id=eq.${sessionId}`,
+      },
+      (payload) => {
+        const row = (
+          payload.eventType === "DELETE" ? payload.old : payload.new
+        ) as { id?: string };
+        if (row?.id) {
+          onChange(row.id);
+        }
+      },
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+/**
+ * Join the live review of a session: who is viewing it, and their playback
+ * positions for "follow playback", all shared through presence. The channel
+ * is private, so realtime authorization only lets the session's counselor
+ * and supervisor in.
+ */
+export const joinReviewRoom = (
+  sessionId: string,
+  viewer: ReviewViewer,
+  handlers: {
+    onViewersChange: (viewers: ReviewViewer[]) => void;
+    onPlayback: (state: PlaybackState) => void;
+  },
+): ReviewRoom => {
+  let presence: ReviewRoomPresence = { ...viewer, followingId: null, playback: null };
+  let isSubscribed = false;
+  const lastPlaybackAt: Record<string, number> = {};
+
+  const channel = supabase.channel(`review:${sessionId}`, {
+    config: { private: true, presence: { key: viewer.userId } },
+  });
+
+  channel
+    .on("presence", { event: "sync" }, () => {
+      // Entries are keyed by user, so a user with the session open in two
+      // tabs counts once, and playback belongs to the key it is tracked
+      // under rather than to whoever the entry claims to be
+      const state = channel.presenceState<ReviewRoomPresence>();
+      const entries = Object.entries(state).map(([userId, [entry]]) => ({
+        userId,
+        entry,
+      }));
+
+      handlers.onViewersChange(
+        entries.map(({ userId, entry }) => ({
+          userId,
+          name: entry.name,
+          avatar: entry.avatar,
+          followingId: entry.followingId,
+        })),
+      );
+
+      // Every sync repeats each entry, so only pass on newer positions
+      entries.forEach(({ userId, entry }) => {
+        const playback = entry.playback;
+        if (!playback || playback.sentAt <= (lastPlaybackAt[userId] || 0)) {
+          return;
+        }
+        lastPlaybackAt[userId] = playback.sentAt;
+        handlers.onPlayback({
+          leaderId: userId,
+          time: playback.time,
+          isPlaying: playback.isPlaying,
+        });
+      });
+    })
+    .subscribe((status) => {
+      if (status === "SUBSCRIBED") {
+        isSubscribed = true;
+        channel.track(presence);
+      }
+    });
+
+  return {
+    follow: (viewerId) => {
+      presence = { ...presence, followingId: viewerId };
+      if (isSubscribed) {
+        channel.track(presence);
+      }
+    },
+    sendPlayback: (state) => {
+      presence = { ...presence, playback: { ...state, sentAt: Date.now() } };
+      if (isSubscribed) {
+        channel.track(presence);
+      }
+    },
+    leave: () => {
+      supabase.removeChannel(channel);
+    },
+  };
+};
+
+// API functions for segment reactions
+const toSegmentReaction = (row: any): SegmentReaction => ({
+  id: row.id,
+  segmentId: row.segment_id,
+  userId: row.user_id,
+  reaction: row.reaction,
+  createdAt: new Date(row.created_at),
+});
+
+// Everyone's reactions on a session's transcript
+export const getSegmentReactions = async (
+  sessionId: string,
+): Promise<SegmentReaction[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("segment_reactions")
+      .select("*")
+      .eq("session_id", sessionId)
+      .order("created_at");
+
+    if (error) {
+      console.error(
+        `Error fetching reactions for session ${sessionId}:`,
+        error,
+      );
+      throw error;
+    }
+
+    return data.map(toSegmentReaction);
+  } catch (error) {
+    console.error(
+      `Error in getSegmentReactions for session ${sessionId}:`,
+      error,
+    );
+    return [];
+  }
+};
+
+export const addSegmentReaction = async (
+  sessionId: string,
+  segmentId: string,
+  reaction: ReactionType,
+): Promise<SegmentReaction> => {
+  try {
+    const { data: user } = await supabase.auth.getUser();
+    if (!user || !user.user) {
+      throw new Error("User not authenticated");
+    }
+
+    const { data, error } = await supabase
+      .from("segment_reactions")
+      .insert({
+        session_id: sessionId,
+        segment_id: segmentId,
+        user_id: user.user.id,
+        reaction,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error(`Error reacting to segment ${segmentId}:`, error);
+      throw error;
+    }
+
+    return toSegmentReaction(data);
+  } catch (error) {
+    console.error("Error in addSegmentReaction:", error);
+    // Create a mock reaction as fallback
+    return {
+      id: `mock-${Date.now()}`,
+      segmentId,
+      userId: "current-user",
+      reaction,
+      createdAt: new Date(),
+    };
+  }
+};
+
+export const removeSegmentReaction = async (reactionId: string) => {
+  try {
+    const { error } = await supabase
+      .from("segment_reactions")
+      .delete()
+      .eq("id", reactionId);
+
+    if (error) {
+      console.error(`Error removing reaction ${reactionId}:`, error);
+      throw error;
+    }
+  } catch (error) {
+    console.error("Error in removeSegmentReaction:", error);
+    // Apply the change locally as fallback
+  }
+};
+
+// API functions for rubrics
+// Used when rubrics can't be loaded, e.g. for the mock sessions
+const MOCK_RUBRIC: RubricTemplate = {
+  id: "mock-rubric",
+  name: "Core Counseling Skills",
+  description: "Competencies assessed in every session",
+  sessionType: null,
+  scaleMax: 5,
+  criteria: [
+    { id: "mock-empathy", name: "Empathy" },
+    { id: "mock-open-questions", name: "Open Questions" },
+    { id: "mock-reflective-listening", name: "Reflective Listening" },
+    { id: "mock-goal-setting", name: "Goal Setting" },
+  ],
+};
+
+const toRubricTemplate = (template: any): RubricTemplate => ({
+  id: template.id,
+  name: template.name,
+  description: template.description || undefined,
+  sessionType: template.session_type,
+  scaleMax: template.scale_max,
+  criteria: (template.criteria || [])
+    .sort((a: any, b: any) => a.position - b.position)
+    .map((criterion: any) => ({
+      id: criterion.id,
+      name: criterion.name,
+      description: criterion.description || undefined,
+    })),
+});
+
+export const getRubricTemplates = async (): Promise<RubricTemplate[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("rubric_templates")
+      .select("*, criteria:rubric_criteria(*)")
+      .order("session_type", { nullsFirst: true });
+
+    if (error) {
+      console.error("Error fetching rubric templates:", error);
+      throw error;
+    }
+
+    return data.map(toRubricTemplate);
+  } catch (error) {
+    console.error("Error in getRubricTemplates:", error);
+    // Return mock data as fallback
+    return [MOCK_RUBRIC];
+  }
+};
+
+// The template for a session type, or the default template if it has none
+export const getRubricForSessionType = async (
+  sessionType?: string,
+): Promise<RubricTemplate | null> => {
+  const templates = await getRubricTemplates();
+  return (
+    templates.find((template) => template.sessionType === sessionType) ||
+    templates.find((template) => template.sessionType === null) ||
+    null
+  );
+};
+
+/**
+ * Admin only: create or update a template. Criteria missing from
+ * `template.criteria` are removed together with their scores; criteria
+ * without an ID are created.
+ */
+export const saveRubricTemplate = async (
+  template: Omit<RubricTemplate, "id"> & { id?: string },
+): Promise<void> => {
+  const { data: user } = await supabase.auth.getUser();
+  if (!user || !user.user) {
+    throw new Error("User not authenticated");
+  }
+
+  const { data: saved, error } = await supabase
+    .from("rubric_templates")
+    .upsert({
+      ...(template.id ? { id: template.id } : { created_by: user.user.id }),
+      name: template.name,
+      description: template.description || null,
+      session_type: template.sessionType,
+      scale_max: template.scaleMax,
+      updated_at: new Date().toISOString(),
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error("Error saving rubric template:", error);
+    throw error;
+  }
+
+  const keptIds = template.criteria
+    .map((criterion) => criterion.id)
+    .filter(Boolean);
+  let removal = supabase
+    .from("rubric_criteria")
+    .delete()
+    .eq("template_id", saved.id);
+  if (keptIds.length > 0) {
+    removal = removal.not("id", "in", `(${keptIds.join(",")})`);
+  }
+  const { error: removeError } = await removal;
+
+  if (removeError) {
+    console.error("Error removing rubric criteria:", removeError);
+    throw removeError;
+  }
+
+  // New criteria have no id; without defaultToNull: false they would be
+  // sent as id null next to the existing ones instead of getting the default
+  const { error: criteriaError } = await supabase.from("rubric_criteria").upsert(
+    template.criteria.map((criterion, position) => ({
+      ...(criterion.id ? { id: criterion.id } : {}),
+      template_id: saved.id,
+      name: criterion.name,
+      description: criterion.description || null,
+      position,
+    })),
+    { defaultToNull: false },
+  );
+
+  if (criteriaError) {
+    console.error("Error saving rubric criteria:", criteriaError);
+    throw criteriaError;
+  }
+};
+
+// Admin only: delete a template with its criteria and their scores
+export const deleteRubricTemplate = async (templateId: string) => {
+  const { error } = await supabase
+    .from("rubric_templates")
+    .delete()
+    .eq("id", templateId);
+
+  if (error) {
+    console.error(`Error deleting rubric template ${templateId}:`, error);
+    throw error;
+  }
+};
+
+const toRubricScore = (score: any): RubricScore => ({
+  criterionId: score.criterion_id,
+  score: score.score,
+  comment: score.comment || undefined,
+  evidenceFeedbackIds: (score.evidence || []).map(
+    (evidence: any) => evidence.feedback_id,
+  ),
+  updatedAt: new Date(score.updated_at),
+});
+
+export const getRubricScores = async (
+  sessionId: string,
+): Promise<RubricScore[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("rubric_scores")
+      .select("*, evidence:rubric_score_evidence(feedback_id)")
+      .eq("session_id", sessionId);
+
+    if (error) {
+      console.error(`Error fetching scores for session ${sessionId}:`, error);
+      throw error;
+    }
+
+    return data.map(toRubricScore);
+  } catch (error) {
+    console.error(`Error in getRubricScores for session ${sessionId}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Supervisor only: score a criterion of a session, or clear its score by
+ * passing null. Returns the saved score.
+ */
+export const saveRubricScore = async (
+  sessionId: string,
+  criterionId: string,
+  score: Omit<RubricScore, "criterionId" | "updatedAt"> | null,
+): Promise<RubricScore | null> => {
+  try {
+    const { data, error } = await supabase.rpc("save_rubric_score", {
+      p_session_id: sessionId,
+      p_criterion_id: criterionId,
+      p_score: score?.score ?? null,
+      p_comment: score?.comment || null,
+      p_feedback_ids: score?.evidenceFeedbackIds || [],
+    });
+
+    if (error) {
+      console.error(`Error scoring session ${sessionId}:`, error);
+      throw error;
+    }
+
+    return data?.id
+      ? { ...score, criterionId, updatedAt: new Date(data.updated_at) }
+      : null;
+  } catch (error) {
+    console.error("Error in saveRubricScore:", error);
+    // Apply the change locally as fallback
+    return score ? { ...score, criterionId, updatedAt: new Date() } : null;
+  }
+};
+
+// Competency averages over the scored sessions of a counselor
+export const getCompetencySummary = async (
+  userId: string,
+): Promise<CompetencySummary[]> => {
+  try {
+    const { data, error } = await supabase.rpc("get_competency_summary", {
+      p_user_id: userId,
+    });
+
+    if (error) {
+      console.error(`Error fetching competency summary for ${userId}:`, error);
+      throw error;
+    }
+
+    return data.map((row: any) => ({
+      competency: row.competency,
+      averagePercent: Number(row.average_percent),
+      sessionCount: Number(row.session_count),
+      lastScoredAt: new Date(row.last_scored_at),
+    }));
+  } catch (error) {
+    console.error("Error in getCompetencySummary:", error);
+    return [];
+  }
+};
+
+// API functions for notifications
+export const NOTIFICATIONS_PAGE_SIZE = 20;
+
+// Used when notifications can't be loaded, e.g. without a database
+const MOCK_NOTIFICATIONS: UserNotification[] = [
+  {
+    id: "n1",
+    type: "feedback",
+    event: "feedback_added",
+    title: "New feedback received",
+    message:
+      "Dr. Sarah Johnson has provided feedback on your session 'Client A - Initial Assessment'.",
+    timestamp: new Date(Date.now() - 1000 * 60 * 30), // 30 minutes ago
+    read: false,
+    sessionId: "1",
+    sender: {
+      name: "Dr. Sarah Johnson",
+      avatar: "sarah",
+    },
+  },
+  {
+    id: "n2",
+    type: "request",
+    event: "session_assigned",
+    title: "Session assigned to you",
+    message:
+      "Your feedback has been requested for 'Client B - Cognitive Behavioral Therapy Session'.",
+    timestamp: new Date(Date.now() - 1000 * 60 * 60 * 3), // 3 hours ago
+    read: true,
+    sessionId: "2",
+  },
+  {
+    id: "n3",
+    type: "system",
+    event: "supervisor_approved",
+    title: "Supervisor account approved",
+    message:
+      "Your supervisor account has been approved. Counselors can now send you sessions to review.",
+    timestamp: new Date(Date.now() - 1000 * 60 * 60 * 24), // 1 day ago
+    read: true,
+  },
+  {
+    id: "n4",
+    type: "feedback",
+    event: "feedback_reply",
+    title: "Audio response received",
+    message:
+      "Dr. Michael Chen responded to your feedback on 'Client B - Cognitive Behavioral Therapy Session'.",
+    timestamp: new Date(Date.now() - 1000 * 60 * 60 * 26), // 26 hours ago
+    read: false,
+    sessionId: "2",
+    sender: {
+      name: "Dr. Michael Chen",
+      avatar: "michael",
+    },
+  },
+];
+
+const matchesNotificationFilter = (
+  notification: UserNotification,
+  filter: NotificationFilter,
+) =>
+  filter === "all" ||
+  (filter === "unread" ? !notification.read : notification.type === filter);
+
+const toUserNotification = (row: any): UserNotification => ({
+  id: row.id,
+  type: row.type,
+  event: row.event,
+  title: row.title,
+  message: row.message,
+  timestamp: new Date(row.created_at),
+  read: !!row.read_at,
+  sessionId: row.session_id || undefined,
+  feedbackId: row.feedback_id || undefined,
+  savedSearchId: row.saved_search_id || undefined,
+  sender: row.actor
+    ? {
+        name: row.actor.user_metadata?.full_name || row.actor.email || "Unknown",
+        avatar: row.actor.email?.split("@")[0] || "user",
+      }
+    : undefined,
+});
+
+// One page of the current user's notifications, newest first
+export const getNotifications = async (
+  filter: NotificationFilter = "all",
+  page = 0,
+): Promise<{ notifications: UserNotification[]; hasMore: boolean }> => {
+  try {
+    const from = page * NOTIFICATIONS_PAGE_SIZE;
+    let query = supabase
+      .from("notifications")
+      .select("*, actor:actor_id(id, email, user_metadata)")
+      .order("created_at", { ascending: false })
+      // One extra row tells whether there is another page
+      .range(from, from + NOTIFICATIONS_PAGE_SIZE);
+
+    if (filter === "unread") {
+      query = query.is("read_at", null);
+    } else if (filter !== "all") {
+      query = query.eq("type", filter);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching notifications:", error);
+      throw error;
+    }
+
+    return {
+      notifications: data
+        .slice(0, NOTIFICATIONS_PAGE_SIZE)
+        .map(toUserNotification),
+      hasMore: data.length > NOTIFICATIONS_PAGE_SIZE,
+    };
+  } catch (error) {
+    console.error("Error in getNotifications:", error);
+    // Return mock data as fallback
+    return {
+      notifications:
+        page === 0
+          ? MOCK_NOTIFICATIONS.filter((notification) =>
+              matchesNotificationFilter(notification, filter),
+            )
+          : [],
+      hasMore: false,
+    };
+  }
+};
+
+export const getUnreadNotificationCount = async (): Promise<number> => {
+  try {
+    const { count, error } = await supabase
+      .from("notifications")
+      .select("id", { count: "exact", head: true })
+      .is("read_at", null);
+
+    if (error) {
+      console.error("Error counting unread notifications:", error);
+      throw error;
+    }
+
+    return count || 0;
+  } catch (error) {
+    console.error("Error in getUnreadNotificationCount:", error);
+    // Return mock data as fallback
+    return MOCK_NOTIFICATIONS.filter((notification) => !notification.read)
+      .length;
+  }
+};
+
+// Mark a notification read, or unread again
+export const setNotificationRead = async (
+  notificationId: string,
+  read: boolean,
+) => {
+  try {
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: read ? new Date().toISOString() : null })
+      .eq("id", notificationId);
+
+    if (error) {
+      console.error(`Error updating notification ${notificationId}:`, error);
+      throw error;
+    }
+  } catch (error) {
+    console.error("Error in setNotificationRead:", error);
+    // Apply the change locally as fallback
+  }
+};
+
+export const markAllNotificationsRead = async () => {
+  try {
+    // RLS limits this to the current user's notifications
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .is("read_at", null);
+
+    if (error) {
+      console.error("Error marking notifications read:", error);
+      throw error;
+    }
+  } catch (error) {
+    console.error("Error in markAllNotificationsRead:", error);
+    // Apply the change locally as fallback
+  }
+};
+
+let notificationChannelCount = 0;
+
+/**
+ * Call onChange whenever one of the user's notifications is created or
+ * changes, e.g. marked read in another tab. Returns a function that stops
+ * listening.
+ */
+export const subscribeToNotifications = (
+  userId: string,
+  onChange: () => void,
+): (() => void) => {
+  // The bell and the notifications page listen at the same time, each on
+  // its own channel
+  notificationChannelCount += 1;
+  const channel = supabase
+    .channel(`notifications:${userId}:${notificationChannelCount}`)
+    .on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "notifications",
+        filter: `user_id=eq.${userId}`,
+      },
+      () => onChange(),
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+// API functions for search
+// Used when search can't reach the database
+const MOCK_SEARCH_HITS: SearchHit[] = [
+  {
+    id: "1",
+    type: "session",
+    sessionId: "1",
+    sessionTitle: "Client A - Initial Assessment",
+    title: "Client A - Initial Assessment",
+    snippet: "First session with new client",
+    position: null,
+    rank: 1,
+    date: new Date(2023, 5, 15),
+  },
+  {
+    id: "2",
+    type: "session",
+    sessionId: "2",
+    sessionTitle: "Client B - Cognitive Behavioral Therapy Session",
+    title: "Client B - Cognitive Behavioral Therapy Session",
+    snippet: "Follow-up CBT session",
+    position: null,
+    rank: 1,
+    date: new Date(2023, 6, 2),
+  },
+  {
+    id: "f1",
+    type: "feedback",
+    sessionId: "1",
+    sessionTitle: "Client A - Initial Assessment",
+    title: "Good rapport building",
+    snippet:
+      "The client showed significant improvement in managing anxiety symptoms",
+    position: 45,
+    rank: 1,
+    date: new Date(2023, 5, 16),
+  },
+  {
+    id: "f2",
+    type: "feedback",
+    sessionId: "2",
+    sessionTitle: "Client B - Cognitive Behavioral Therapy Session",
+    title: "Technique suggestion",
+    snippet:
+      "Consider using more open-ended questions to encourage deeper reflection",
+    position: 120,
+    rank: 1,
+    date: new Date(2023, 6, 3),
+  },
+];
+
+/**
+ * Ranked full-text search over the sessions, feedback and transcripts the
+ * current user can see. Words match by prefix, so this also works as
+ * search-as-you-type.
+ */
+export const searchEverything = async (
+  query: string,
+  limit = 20,
+  filters: SearchFilters = {},
+): Promise<SearchHit[]> => {
+  try {
+    const { data, error } = await supabase.rpc("search_everything", {
+      p_query: query,
+      p_limit: limit,
+      p_types: filters.types?.length ? filters.types : null,
+      p_session_type: filters.sessionType || null,
+      p_supervisor_id: filters.supervisorId || null,
+      p_counselor_id: filters.counselorId || null,
+      p_from: filters.from || null,
+      p_to: filters.to || null,
+      p_tag_id: filters.tagId || null,
+      p_status: filters.status || null,
+    });
+
+    if (error) {
+      console.error("Error searching:", error);
+      throw error;
+    }
+
+    return data.map((row: any) => ({
+      id: row.id,
+      type: row.result_type,
+      sessionId: row.session_id,
+      sessionTitle: row.session_title,
+      title: row.title,
+      snippet: row.snippet || "",
+      position: row.position,
+      rank: row.rank,
+      date: new Date(row.created_at),
+    }));
+  } catch (error) {
+    console.error("Error in searchEverything:", error);
+    // Return mock data as fallback
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return MOCK_SEARCH_HITS.filter(
+      (hit) =>
+        (!filters.types?.length || filters.types.includes(hit.type)) &&
+        words.every((word) =>
+          `${hit.title} ${hit.snippet}`.toLowerCase().includes(word),
+        ),
+    ).slice(0, limit);
+  }
+};
+
+// Counselors whose sessions the current user can see, for the search facets
+export const getSearchCounselors = async (): Promise<
+  { id: string; name: string }[]
+> => {
+  try {
+    const { data, error } = await supabase.rpc("get_search_counselors");
+
+    if (error) {
+      console.error("Error fetching counselors:", error);
+      throw error;
+    }
+
+    return data;
+  } catch (error) {
+    console.error("Error in getSearchCounselors:", error);
+    return [];
+  }
+};
+
+// API functions for saved searches
+const toSavedSearch = (row: any): SavedSearch => ({
+  id: row.id,
+  name: row.name,
+  query: row.query,
+  filters: row.filters || {},
+  notify: row.notify,
+  createdAt: new Date(row.created_at),
+});
+
+export const getSavedSearches = async (): Promise<SavedSearch[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .select("*")
+      .order("name");
+
+    if (error) {
+      console.error("Error fetching saved searches:", error);
+      throw error;
+    }
+
+    return data.map(toSavedSearch);
+  } catch (error) {
+    console.error("Error in getSavedSearches:", error);
+    return [];
+  }
+};
+
+export const getSavedSearch = async (
+  savedSearchId: string,
+): Promise<SavedSearch | null> => {
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .select("*")
+    .eq("id", savedSearchId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error fetching saved search ${savedSearchId}:`, error);
+    return null;
+  }
+
+  return data ? toSavedSearch(data) : null;
+};
+
+export const createSavedSearch = async (
+  name: string,
+  query: string,
+  filters: SearchFilters,
+  notify: boolean,
+): Promise<SavedSearch> => {
+  const { data: user } = await supabase.auth.getUser();
+  if (!user || !user.user) {
+    throw new Error("User not authenticated");
+  }
+
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .insert({ user_id: user.user.id, name, query, filters, notify })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error saving search:", error);
+    throw error;
+  }
+
+  return toSavedSearch(data);
+};
+
+// Turning notifications on only reports results found from now on
+export const setSavedSearchNotify = async (
+  savedSearchId: string,
+  notify: boolean,
+) => {
+  const { error } = await supabase
+    .from("saved_searches")
+    .update(
+      notify
+        ? { notify, last_checked_at: new Date().toISOString() }
+        : { notify },
+    )
+    .eq("id", savedSearchId);
+
+  if (error) {
+    console.error(`Error updating saved search ${savedSearchId}:`, error);
+    throw error;
+  }
+};
+
+export const deleteSavedSearch = async (savedSearchId: string) => {
+  const { error } = await supabase
+    .from("saved_searches")
+    .delete()
+    .eq("id", savedSearchId);
+
+  if (error) {
+    console.error(`Error deleting saved search ${savedSearchId}:`, error);
+    throw error;
+  }
+};
+
+// API functions for supervision requests
+const toSupervisionRequest = (row: any): SupervisionRequest => ({
+  id: row.id,
+  sessionId: row.session_id,
+  sessionTitle: row.session_title,
+  sessionType: row.session_type || "General",
+  sessionDuration: row.session_duration || 0,
+  counselor: {
+    id: row.counselor_id,
+    name: row.counselor_name,
+  },
+  supervisor: {
+    id: row.supervisor_id,
+    name: row.supervisor_name,
+    avatar: row.supervisor_avatar || "",
+  },
+  status: row.status,
+  message: row.message || undefined,
+  declineReason: row.decline_reason || undefined,
+  createdAt: new Date(row.created_at),
+  respondedAt: row.responded_at ? new Date(row.responded_at) : null,
+});
+
+// Requests waiting for the current user to accept or decline, newest first
+export const getIncomingSupervisionRequests = async (): Promise<
+  SupervisionRequest[]
+> => {
+  try {
+    const { data, error } = await supabase.rpc("get_supervision_requests", {
+      p_incoming: true,
+    });
+
+    if (error) {
+      console.error("Error fetching supervision requests:", error);
+      throw error;
+    }
+
+    return data.map(toSupervisionRequest);
+  } catch (error) {
+    console.error("Error in getIncomingSupervisionRequests:", error);
+    return [];
+  }
+};
+
+// Every request made for a session, newest first
+export const getSessionSupervisionRequests = async (
+  sessionId: string,
+): Promise<SupervisionRequest[]> => {
+  try {
+    const { data, error } = await supabase.rpc("get_supervision_requests", {
+      p_session_id: sessionId,
+    });
+
+    if (error) {
+      console.error(
+        `Error fetching supervision requests for session ${sessionId}:`,
+        error,
+      );
+      throw error;
+    }
+
+    return data.map(toSupervisionRequest);
+  } catch (error) {
+    console.error("Error in getSessionSupervisionRequests:", error);
+    return [];
+  }
+};
+
+/**
+ * Ask a supervisor to review a session. They are assigned once they accept;
+ * a session that already has a supervisor is handed over by the owner.
+ */
+export const requestSupervision = async (
+  sessionId: string,
+  supervisorId: string,
+  message?: string,
+): Promise<string> => {
+  const { data, error } = await supabase.rpc("request_supervision", {
+    p_session_id: sessionId,
+    p_supervisor_id: supervisorId,
+    p_message: message || null,
+  });
+
+  if (error) {
+    console.error(`Error requesting supervision for session ${sessionId}:`, error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const respondToSupervisionRequest = async (
+  requestId: string,
+  accept: boolean,
+  reason?: string,
+) => {
+  const { error } = await supabase.rpc("respond_to_supervision_request", {
+    p_request_id: requestId,
+    p_accept: accept,
+    p_reason: reason || null,
+  });
+
+  if (error) {
+    console.error(`Error responding to supervision request ${requestId}:`, error);
+    throw error;
+  }
+};
+
+export const cancelSupervisionRequest = async (requestId: string) => {
+  const { error } = await supabase.rpc("cancel_supervision_request", {
+    p_request_id: requestId,
+  });
+
+  if (error) {
+    console.error(`Error cancelling supervision request ${requestId}:`, error);
+    throw error;
+  }
+};
+
+// The session's supervisor completes the review; the counselor is notified
+export const completeSupervision = async (sessionId: string) => {
+  const { error } = await supabase.rpc("complete_supervision", {
+    p_session_id: sessionId,
+  });
+
+  if (error) {
+    console.error(`Error completing review of session ${sessionId}:`, error);
+    throw error;
+  }
+};
+
+// API functions for push devices
+const toPushDevice = (row: any): PushDevice => ({
+  id: row.id,
+  endpoint: row.endpoint,
+  deviceName: row.device_name || "Unknown device",
+  createdAt: new Date(row.created_at),
+  lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : null,
+});
+
+// Browsers and devices the current user receives push notifications on
+export const getPushDevices = async (): Promise<PushDevice[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("push_subscriptions")
+      .select("id, endpoint, device_name, created_at, last_used_at")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching push devices:", error);
+      throw error;
+    }
+
+    return data.map(toPushDevice);
+  } catch (error) {
+    console.error("Error in getPushDevices:", error);
+    return [];
+  }
+};
+
+// Store this browser's subscription so the server can push to it
+export const savePushSubscription = async (
+  subscription: PushSubscription,
+  deviceName: string,
+): Promise<PushDevice> => {
+  const { keys } = subscription.toJSON();
+
+  const { data, error } = await supabase.rpc("save_push_subscription", {
+    p_endpoint: subscription.endpoint,
+    p_p256dh: keys?.p256dh,
+    p_auth: keys?.auth,
+    p_device_name: deviceName,
+  });
+
+  if (error) {
+    console.error("Error saving push subscription:", error);
+    throw error;
+  }
+
+  return toPushDevice(data);
+};
+
+// Stop pushing to a device; the browser's own subscription is left alone
+export const revokePushDevice = async (deviceId: string) => {
+  const { error } = await supabase
+    .from("push_subscriptions")
+    .delete()
+    .eq("id", deviceId);
+
+  if (error) {
+    console.error(`Error revoking push device ${deviceId}:`, error);
+    throw error;
+  }
+};
+
+// API functions for transcripts
+const toTranscriptSegment = (segment: any): TranscriptSegment => ({
+  id: segment.id,
+  start: segment.start,
+  end: segment.end,
+  text: segment.text,
+  speaker: segment.speaker || undefined,
+  confidence: segment.confidence ?? undefined,
+  redactedText: segment.redacted_text || undefined,
+});
+
+export const getTranscriptForSession = async (
+  sessionId: string,
+): Promise<TranscriptSegment[]> => {
+  try {
+    // Supervisors get the redacted text; only the owner sees the original
+    const { data, error } = await supabase.rpc("get_session_transcript", {
+      p_session_id: sessionId,
+    });
+
+    if (error) {
+      console.error(
+        `Error fetching transcript for session ${sessionId}:`,
+        error,
+      );
+      throw error;
+    }
+
+    return data.map(toTranscriptSegment);
+  } catch (error) {
+    console.error(
+      `Error in getTranscriptForSession for session ${sessionId}:`,
+      error,
+    );
+    // Return mock data as fallback
+    if (sessionId === "1") {
+      return [
+        {
+          id: "segment-1",
+          start: 0,
+          end: 15,
+          text: "Hello and welcome to today's session. How have you been feeling since our last meeting?",
+          speaker: "Speaker 1",
+        },
+        {
+          id: "segment-2",
+          start: 16,
+          end: 30,
+          text: "I've been doing okay, I guess. The exercises you suggested helped a bit with my anxiety, but I still had a few difficult moments this week.",
+          speaker: "Speaker 2",
+        },
+        {
+          id: "segment-3",
+          start: 31,
+          end: 45,
+          text: "I'm glad to hear the exercises were helpful. Can you tell me more about those difficult moments?",
+          speaker: "Speaker 1",
+        },
+      ];
+    }
+    return [];
+  }
+};
+
+export const saveTranscript = async (
+  sessionId: string,
+  segments: Omit<TranscriptSegment, "id">[],
+): Promise<TranscriptSegment[]> => {
+  try {
+    // Replace the whole transcript so re-runs don't leave stale segments
+    // behind; the RPC deletes and inserts in one transaction
+    const { data, error } = await supabase
+      .rpc("replace_transcript", {
+        p_session_id: sessionId,
+        p_segments: segments.map((segment) => ({
+          start: segment.start,
+          end: segment.end,
+          text: segment.text,
+          speaker: segment.speaker || null,
+          confidence: segment.confidence ?? null,
+        })),
+      })
+      .order("start");
+
+    if (error) {
+      console.error(`Error saving transcript for session ${sessionId}:`, error);
+      throw error;
+    }
+
+    return data.map(toTranscriptSegment);
+  } catch (error) {
+    console.error(`Error in saveTranscript for session ${sessionId}:`, error);
+    throw error;
+  }
+};
+
+export const getSpeakerRoles = async (
+  sessionId: string,
+): Promise<SpeakerRoles> => {
+  try {
+    const { data, error } = await supabase
+      .from("sessions")
+      .select("speaker_roles")
+      .eq("id", sessionId)
+      .single();
+
+    if (error) {
+      console.error(
+        `Error fetching speaker roles for session ${sessionId}:`,
+        error,
+      );
+      throw error;
+    }
+
+    return data.speaker_roles || {};
+  } catch (error) {
+    console.error(`Error in getSpeakerRoles for session ${sessionId}:`, error);
+    // Return mock data as fallback
+    if (sessionId === "1") {
+      return { "Speaker 1": "counselor", "Speaker 2": "client" };
+    }
+    return {};
+  }
+};
+
+export const updateSpeakerRoles = async (
+  sessionId: string,
+  speakerRoles: SpeakerRoles,
+): Promise<SpeakerRoles> => {
+  try {
+    const { error } = await supabase
+      .from("sessions")
+      .update({ speaker_roles: speakerRoles })
+      .eq("id", sessionId);
+
+    if (error) {
+      console.error(
+        `Error updating speaker roles for session ${sessionId}:`,
+        error,
+      );
+      throw error;
+    }
+
+    return speakerRoles;
+  } catch (error) {
+    console.error(
+      `Error in updateSpeakerRoles for session ${sessionId}:`,
+      error,
+    );
+    // Keep the local change so the reviewer isn't blocked
+    return speakerRoles;
+  }
+};
+
+export const mergeSpeakers = async (
+  sessionId: string,
+  fromSpeaker: string,
+  intoSpeaker: string,
+): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from("transcript_segments")
+      .update({ speaker: intoSpeaker })
+      .eq("session_id", sessionId)
+      .eq("speaker", fromSpeaker);
+
+    if (error) {
+      console.error(
+        `Error merging speaker ${fromSpeaker} into ${intoSpeaker}:`,
+        error,
+      );
+      throw error;
+    }
+  } catch (error) {
+    console.error(`Error in mergeSpeakers for session ${sessionId}:`, error);
+  }
+};
+
+export const assignSegmentsToSpeaker = async (
+  segmentIds: string[],
+  speaker: string,
+): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from("transcript_segments")
+      .update({ speaker })
+      .in("id", segmentIds);
+
+    if (error) {
+      console.error(`Error assigning segments to speaker ${speaker}:`, error);
+      throw error;
+    }
+  } catch (error) {
+    console.error("Error in assignSegmentsToSpeaker:", error);
+  }
+};
+
+export const editTranscriptSegment = async (
+  segment: TranscriptSegment,
+  changes: TranscriptSegmentChanges,
+): Promise<TranscriptSegment> => {
+  try {
+    const { data, error } = await supabase.rpc("edit_transcript_segment", {
+      p_segment_id: segment.id,
+      p_text: changes.text ?? segment.text,
+      p_start: changes.start ?? segment.start,
+      p_end: changes.end ?? segment.end,
+    });
+
+    if (error) {
+      console.error(`Error editing transcript segment ${segment.id}:`, error);
+      throw error;
+    }
+
+    return toTranscriptSegment(data);
+  } catch (error) {
+    console.error(
+      `Error in editTranscriptSegment for segment ${segment.id}:`,
+      error,
+    );
+    // Apply the change locally as fallback
+    return { ...segment, ...changes };
+  }
+};
+
+export const splitTranscriptSegment = async (
+  segment: TranscriptSegment,
+  splitAt: number,
+  firstText: string,
+  secondText: string,
+): Promise<[TranscriptSegment, TranscriptSegment]> => {
+  try {
+    const { data, error } = await supabase.rpc("split_transcript_segment", {
+      p_segment_id: segment.id,
+      p_split_at: splitAt,
+      p_first_text: firstText,
+      p_second_text: secondText,
+    });
+
+    if (error) {
+      console.error(`Error splitting transcript segment ${segment.id}:`, error);
+      throw error;
+    }
+
+    return [toTranscriptSegment(data[0]), toTranscriptSegment(data[1])];
+  } catch (error) {
+    console.error(
+      `Error in splitTranscriptSegment for segment ${segment.id}:`,
+      error,
+    );
+    // Split locally as fallback
+    return [
+      { ...segment, end: splitAt, text: firstText },
+      {
+        ...segment,
+        id: `${segment.id}-split-${Date.now()}`,
+        start: splitAt,
+        text: secondText,
+      },
+    ];
+  }
+};
+
+export const mergeTranscriptSegments = async (
+  first: TranscriptSegment,
+  second: TranscriptSegment,
+): Promise<TranscriptSegment> => {
+  try {
+    const { data, error } = await supabase.rpc("merge_transcript_segments", {
+      p_first_id: first.id,
+      p_second_id: second.id,
+    });
+
+    if (error) {
+      console.error(
+        `Error merging transcript segments ${first.id} and ${second.id}:`,
+        error,
+      );
+      throw error;
+    }
+
+    return toTranscriptSegment(data);
+  } catch (error) {
+    console.error("Error in mergeTranscriptSegments:", error);
+    // Merge locally as fallback
+    return {
+      ...first,
+      start: Math.min(first.start, second.start),
+      end: Math.max(first.end, second.end),
+      text: `${first.text} ${second.text}`,
+    };
+  }
+};
+
+export const getTranscriptRevisions = async (
+  sessionId: string,
+): Promise<TranscriptRevision[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("transcript_revisions")
+      .select("*, author:author_id(id, email, user_metadata)")
+      .eq("session_id", sessionId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error(
+        `Error fetching transcript revisions for session ${sessionId}:`,
+        error,
+      );
+      throw error;
+    }
+
+    return data.map((revision) => ({
+      id: revision.id,
+      action: revision.action,
+      before: (revision.before || []).map(toTranscriptSegment),
+      after: (revision.after || []).map(toTranscriptSegment),
+      author: {
+        name:
+          revision.author?.user_metadata?.full_name ||
+          revision.author?.email ||
+          "Unknown",
+        avatar: revision.author?.email?.split("@")[0] || "user",
+      },
+      createdAt: new Date(revision.created_at),
+    }));
+  } catch (error) {
+    console.error(
+      `Error in getTranscriptRevisions for session ${sessionId}:`,
+      error,
+    );
+    return [];
+  }
+};
+
+export const getRedactionRanges = async (
+  sessionId: string,
+): Promise<RedactionRange[]> => {
+  try {
+    const { data, error } = await supabase
+      .from("sessions")
+      .select("redaction_ranges")
+      .eq("id", sessionId)
+      .single();
+
+    if (error) {
+      console.error(
+        `Error fetching redaction ranges for session ${sessionId}:`,
+        error,
+      );
+      throw error;
+    }
+
+    return data.redaction_ranges || [];
+  } catch (error) {
+    console.error(
+      `Error in getRedactionRanges for session ${sessionId}:`,
+      error,
+    );
+    return [];
+  }
+};
+
+// Re-run PII redaction, e.g. after the owner corrected the transcript
+export const redactTranscript = async (
+  sessionId: string,
+): Promise<{
+  redactedText: Record<string, string>;
+  ranges: RedactionRange[];
+} | null> => {
+  try {
+    const { data, error } = await supabase.functions.invoke(
+      "supabase-functions-redact-transcript",
+      {
+        body: { sessionId },
+      },
+    );
+
+    if (error) {
+      console.error(`Error redacting transcript for session ${sessionId}:`, error);
+      throw error;
+    }
+
+    return { redactedText: data.redactedText, ranges: data.ranges };
+  } catch (error) {
+    console.error(`Error in redactTranscript for session ${sessionId}:`, error);
+    return null;
+  }
+};
+
+// API functions for recording encryption
+export const getMyEncryptionKeys =
+  async (): Promise<UserEncryptionKeys | null> => {
+    try {
+      const { data: user } = await supabase.auth.getUser();
+      if (!user || !user.user) {
+        throw new Error("User not authenticated");
+      }
+
+      const { data, error } = await supabase
+        .from("user_encryption_keys")
+        .select("*")
+        .eq("user_id", user.user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching encryption keys:", error);
+        throw error;
+      }
+
+      return data
+        ? {
+            publicKey: data.public_key,
+            wrappedKey: data.wrapped_private_key,
+            salt: data.salt,
+            iv: data.iv,
+          }
+        : null;
+    } catch (error) {
+      console.error("Error in getMyEncryptionKeys:", error);
+      return null;
+    }
+  };
+
+// Create or replace the current user's key pair
+export const saveMyEncryptionKeys = async (keys: UserEncryptionKeys) => {
+  const { data: user } = await supabase.auth.getUser();
+  if (!user || !user.user) {
+    throw new Error("User not authenticated");
+  }
+
+  const { error } = await supabase.from("user_encryption_keys").upsert({
+    user_id: user.user.id,
+    public_key: keys.publicKey,
+    wrapped_private_key: keys.wrappedKey,
+    salt: keys.salt,
+    iv: keys.iv,
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    console.error("Error saving encryption keys:", error);
+    throw error;
+  }
+};
+
+// Public keys of the given users plus the recovery and processing keys
+export const getEncryptionPublicKeys = async (
+  userIds: string[],
+): Promise<Record<string, JsonWebKey>> => {
+  const { data, error } = await supabase.rpc("get_encryption_public_keys", {
+    p_user_ids: userIds,
+  });
+
+  if (error) {
+    console.error("Error fetching encryption public keys:", error);
+    throw error;
+  }
+
+  return Object.fromEntries(
+    data.map((row: any) => [row.owner_id, row.public_key]),
+  );
+};
+
+/**
+ * Wrap a session key for each user (if they have set up encryption) and for
+ * the recovery and processing keys. Copies that already exist are kept.
+ */
+export const shareSessionKey = async (
+  sessionId: string,
+  keyVersion: number,
+  sessionKey: CryptoKey,
+  userIds: string[],
+) => {
+  const publicKeys = await getEncryptionPublicKeys(userIds);
+
+  const rows = await Promise.all(
+    Object.entries(publicKeys).map(async ([ownerId, publicKey]) => {
+      const isEscrow = ownerId === "recovery" || ownerId === "processing";
+      return {
+        session_id: sessionId,
+        key_version: keyVersion,
+        recipient: isEscrow ? ownerId : "user",
+        user_id: isEscrow ? null : ownerId,
+        wrapped_key: await wrapSessionKey(sessionKey, publicKey),
+      };
+    }),
+  );
+
+  const { error } = await supabase.from("session_keys").upsert(rows, {
+    onConflict: "session_id,key_version,recipient,user_id",
+    ignoreDuplicates: true,
+  });
+
+  if (error) {
+    console.error(`Error sharing key for session ${sessionId}:`, error);
+    throw error;
+  }
+};
+
+// Unwrap the current user's copy of a session key
+export const getSessionKey = async (
+  sessionId: string,
+  keyVersion: number,
+  privateKey: CryptoKey,
+): Promise<CryptoKey> => {
+  const { data: user } = await supabase.auth.getUser();
+  if (!user || !user.user) {
+    throw new Error("User not authenticated");
+  }
+
+  const { data, error } = await supabase
+    .from("session_keys")
+    .select("wrapped_key")
+    .eq("session_id", sessionId)
+    .eq("key_version", keyVersion)
+    .eq("user_id", user.user.id)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error fetching key for session ${sessionId}:`, error);
+    throw error;
+  }
+
+  if (!data) {
+    throw new Error("This recording has not been shared with you");
+  }
+
+  return unwrapSessionKey(data.wrapped_key, privateKey);
+};
+
+/**
+ * Assign a session to another supervisor. For encrypted recordings this also
+ * rotates the session key: the recording is re-encrypted with a new key that
+ * the previous supervisor never had, and the old file and keys are removed.
+ */
+export const reassignSupervisor = async (
+  session: Session,
+  supervisorId: string,
+  sessionKey?: CryptoKey,
+): Promise<Partial<Session>> => {
+  if (!session.isEncrypted) {
+    const { error } = await supabase
+      .from("sessions")
+      .update({ supervisor_id: supervisorId })
+      .eq("id", session.id);
+
+    if (error) {
+      console.error(`Error reassigning session ${session.id}:`, error);
+      throw error;
+    }
+
+    return {};
+  }
+
+  if (!sessionKey) {
+    throw new Error("Unlock the recording before reassigning it");
+  }
+
+  const { data: user } = await supabase.auth.getUser();
+  if (!user || !user.user) {
+    throw new Error("User not authenticated");
+  }
+
+  const { data: encrypted, error: downloadError } = await supabase.storage
+    .from("audio")
+    .download(session.audioPath);
+
+  if (downloadError) {
+    console.error(`Error downloading session ${session.id}:`, downloadError);
+    throw downloadError;
+  }
+
+  const newKey = await generateSessionKey();
+  const newVersion = (session.keyVersion || 1) + 1;
+  // Keep the original file name so transcription providers can tell the format
+  const originalName = session.audioPath
+    .split("/")
+    .pop()
+    .replace(/^\d+-(v\d+-)?/, "");
+  const newPath = `sessions/${user.user.id}/${Date.now()}-v${newVersion}-${originalName}`;
+  const reencrypted = await encryptFile(
+    await decryptBlob(encrypted, sessionKey),
+    newKey,
+  );
+
+  const { error: uploadError } = await supabase.storage
+    .from("audio")
+    .upload(newPath, reencrypted, {
+      contentType: "application/octet-stream",
+    });
+
+  if (uploadError) {
+    console.error(`Error uploading rotated recording:`, uploadError);
+    throw uploadError;
+  }
+
+  // Share the new key before switching so nobody is locked out in between
+  await shareSessionKey(session.id, newVersion, newKey, [
+    user.user.id,
+    supervisorId,
+  ]);
+
+  const { error: updateError } = await supabase
+    .from("sessions")
+    .update({
+      supervisor_id: supervisorId,
+      audio_url: newPath,
+      key_version: newVersion,
+      // The bleeped copy is under the old key; it is rendered again below
+      redacted_audio_url: null,
+      redacted_audio_mime_type: null,
+    })
+    .eq("id", session.id);
+
+  if (updateError) {
+    console.error(`Error reassigning session ${session.id}:`, updateError);
+    throw updateError;
+  }
+
+  // Old copies are useless now; failing to clean them up isn't fatal
+  const { error: deleteKeysError } = await supabase
+    .from("session_keys")
+    .delete()
+    .eq("session_id", session.id)
+    .lt("key_version", newVersion);
+
+  if (deleteKeysError) {
+    console.error("Error removing old session keys:", deleteKeysError);
+  }
+
+  const { error: removeError } = await supabase.storage
+    .from("audio")
+    .remove([session.audioPath, session.redactedAudioPath].filter(Boolean));
+
+  if (removeError) {
+    console.error("Error removing old recording:", removeError);
+  }
+
+  requestRedactedAudio(session.id);
+
+  return {
+    audioPath: newPath,
+    keyVersion: newVersion,
+    redactedAudioPath: undefined,
+    redactedAudioMimeType: undefined,
+  };
+};
+
+// Admin only: escrow key record including its protected private key
+export const getEscrowKey = async (
+  id: EscrowKeyId,
+): Promise<(ProtectedPrivateKey & { publicKey: JsonWebKey }) | null> => {
+  const { data, error } = await supabase
+    .from("encryption_escrow_keys")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error fetching ${id} key:`, error);
+    throw error;
+  }
+
+  return data
+    ? {
+        publicKey: data.public_key,
+        wrappedKey: data.wrapped_private_key,
+        salt: data.salt,
+        iv: data.iv,
+      }
+    : null;
+};
+
+// Admin only: store the public half of an escrow key (and the protected
+// private half for the recovery key)
+export const saveEscrowKey = async (
+  id: EscrowKeyId,
+  publicKey: JsonWebKey,
+  privateKey?: ProtectedPrivateKey,
+) => {
+  const { data: user } = await supabase.auth.getUser();
+
+  const { error } = await supabase.from("encryption_escrow_keys").upsert({
+    id,
+    public_key: publicKey,
+    wrapped_private_key: privateKey?.wrappedKey ?? null,
+    salt: privateKey?.salt ?? null,
+    iv: privateKey?.iv ?? null,
+    created_by: user?.user?.id ?? null,
+  });
+
+  if (error) {
+    console.error(`Error saving ${id} key:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Admin only: give a user back access to their recordings after they lost
+ * their passphrase and created a new key pair. Every session key escrowed for
+ * recovery on a session they own or supervise is re-wrapped for their new key.
+ *
+ * @returns Number of sessions restored
+ */
+export const restoreUserAccess = async (
+  userId: string,
+  recoveryPrivateKey: CryptoKey,
+): Promise<number> => {
+  const publicKeys = await getEncryptionPublicKeys([userId]);
+  if (!publicKeys[userId]) {
+    throw new Error("This user has not set up a new passphrase yet");
+  }
+
+  const { data: sessions, error: sessionsError } = await supabase
+    .from("sessions")
+    .select("id, key_version")
+    .eq("is_encrypted", true)
+    .or(`user_id.eq.${userId},supervisor_id.eq.${userId}`);
+
+  if (sessionsError) {
+    console.error("Error fetching sessions to restore:", sessionsError);
+    throw sessionsError;
+  }
+
+  let restored = 0;
+  for (const session of sessions) {
+    const { data: escrowed, error } = await supabase
+      .from("session_keys")
+      .select("wrapped_key")
+      .eq("session_id", session.id)
+      .eq("key_version", session.key_version)
+      .eq("recipient", "recovery")
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Error fetching recovery key for ${session.id}:`, error);
+      throw error;
+    }
+    if (!escrowed) continue;
+
+    const sessionKey = await unwrapSessionKey(
+      escrowed.wrapped_key,
+      recoveryPrivateKey,
+    );
+
+    const { error: upsertError } = await supabase.from("session_keys").upsert(
+      {
+        session_id: session.id,
+        key_version: session.key_version,
+        recipient: "user",
+        user_id: userId,
+        wrapped_key: await wrapSessionKey(sessionKey, publicKeys[userId]),
+      },
+      { onConflict: "session_id,key_version,recipient,user_id" },
+    );
+
+    if (upsertError) {
+      console.error(`Error restoring key for ${session.id}:`, upsertError);
+      throw upsertError;
+    }
+    restored++;
+  }
+
+  return restored;
+};
@@ -0,0 +1,456 @@
+/**
+ * Client-side encryption of session recordings.
+ *
+ * Every session gets its own AES-GCM key. The recording is encrypted in
+ * fixed-size chunks so it can be decrypted while it streams:
+ *
+ *   header:  "SRE1" | chunk size (u32) | IV prefix (8 bytes)
+ *   chunk i: AES-GCM(plaintext, iv = prefix | i, aad = i | isLast)
+ *
+ * Binding the chunk index and the "last chunk" flag into each chunk stops
+ * chunks from being reordered or the file from being silently truncated.
+ *
+ * Session keys are never stored in the clear: they are wrapped with the
+ * RSA-OAEP public key of every recipient (counselor, supervisor, the admin
+ * recovery key and the server processing key). A user's private key is kept
+ * in the database wrapped with a key derived from their passphrase.
+ */
+
+const MAGIC = "SRE1";
+const HEADER_SIZE = 16;
+const TAG_SIZE = 16;
+export const ENCRYPTED_CHUNK_SIZE = 256 * 1024;
+
+const PBKDF2_ITERATIONS = 310000;
+
+const RSA_PARAMS = { name: "RSA-OAEP", hash: "SHA-256" };
+
+export interface ProtectedPrivateKey {
+  wrappedKey: string; // Base64 PKCS#8 private key, wrapped with the passphrase key
+  salt: string;       // Base64 PBKDF2 salt
+  iv: string;         // Base64 AES-GCM IV used for wrapping
+}
+
+// Base64 helpers for storing binary values in text columns
+export const toBase64 = (buffer: ArrayBuffer | Uint8Array) => {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string) =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+// IV and additional data for chunk `index`
+const chunkParams = (ivPrefix: Uint8Array, index: number, isLast: boolean) => {
+  const iv = new Uint8Array(12);
+  iv.set(ivPrefix);
+  new DataView(iv.buffer).setUint32(8, index);
+
+  const additionalData = new Uint8Array(5);
+  new DataView(additionalData.buffer).setUint32(0, index);
+  additionalData[4] = isLast ? 1 : 0;
+
+  return { name: "AES-GCM", iv, additionalData };
+};
+
+/**
+ * Generate a fresh key for one session recording
+ */
+export const generateSessionKey = () =>
+  crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+    "encrypt",
+    "decrypt",
+  ]);
+
+/**
+ * Encrypt a recording into the chunked format above
+ *
+ * @param onProgress - Called with the fraction encrypted so far (0-1)
+ */
+export const encryptFile = async (
+  file: Blob,
+  key: CryptoKey,
+  onProgress?: (fraction: number) => void,
+): Promise<Blob> => {
+  const ivPrefix = crypto.getRandomValues(new Uint8Array(8));
+  const header = new Uint8Array(HEADER_SIZE);
+  header.set(new TextEncoder().encode(MAGIC));
+  new DataView(header.buffer).setUint32(4, ENCRYPTED_CHUNK_SIZE);
+  header.set(ivPrefix, 8);
+
+  const parts: BlobPart[] = [header];
+  const chunkCount = Math.max(Math.ceil(file.size / ENCRYPTED_CHUNK_SIZE), 1);
+
+  for (let index = 0; index < chunkCount; index++) {
+    const plaintext = await file
+      .slice(index * ENCRYPTED_CHUNK_SIZE, (index + 1) * ENCRYPTED_CHUNK_SIZE)
+      .arrayBuffer();
+    parts.push(
+      await crypto.subtle.encrypt(
+        chunkParams(ivPrefix, index, index === chunkCount - 1),
+        key,
+        plaintext,
+      ),
+    );
+    onProgress?.((index + 1) / chunkCount);
+  }
+
+  return new Blob(parts, { type: "application/octet-stream" });
+};
+
+/**
+ * Decrypt an encrypted recording as it streams in, yielding plaintext chunks
+ */
+export async function* decryptStream(
+  stream: ReadableStream<Uint8Array>,
+  key: CryptoKey,
+): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  let buffer = new Uint8Array(0);
+  let ivPrefix: Uint8Array | null = null;
+  let encryptedChunkSize = 0;
+  let index = 0;
+  let isDone = false;
+
+  while (!isDone) {
+    const { value, done } = await reader.read();
+    isDone = done;
+    if (value) {
+      const next = new Uint8Array(buffer.length + value.length);
+      next.set(buffer);
+      next.set(value, buffer.length);
+      buffer = next;
+    }
+
+    if (!ivPrefix) {
+      if (buffer.length < HEADER_SIZE) continue;
+      if (new TextDecoder().decode(buffer.slice(0, 4)) !== MAGIC) {
+        throw new Error("Not an encrypted recording");
+      }
+      encryptedChunkSize =
+        new DataView(buffer.buffer, buffer.byteOffset).getUint32(4) + TAG_SIZE;
+      ivPrefix = buffer.slice(8, HEADER_SIZE);
+      buffer = buffer.slice(HEADER_SIZE);
+    }
+
+    // Keep a full chunk back until we know whether it is the last one
+    while (
+      buffer.length > encryptedChunkSize ||
+      (isDone && buffer.length > 0)
+    ) {
+      const size = Math.min(encryptedChunkSize, buffer.length);
+      const isLast = isDone && size === buffer.length;
+      const plaintext = await crypto.subtle.decrypt(
+        chunkParams(ivPrefix, index, isLast),
+        key,
+        buffer.slice(0, size),
+      );
+      buffer = buffer.slice(size);
+      index++;
+      yield new Uint8Array(plaintext);
+    }
+  }
+
+  if (!ivPrefix) {
+    throw new Error("Encrypted recording is truncated");
+  }
+}
+
+/**
+ * Decrypt a whole encrypted recording in memory
+ */
+export const decryptBlob = async (
+  blob: Blob,
+  key: CryptoKey,
+  mimeType?: string,
+): Promise<Blob> => {
+  const parts: BlobPart[] = [];
+  for await (const chunk of decryptStream(blob.stream(), key)) {
+    parts.push(chunk);
+  }
+  return new Blob(parts, { type: mimeType });
+};
+
+/**
+ * Generate an RSA key pair for a user or for an escrow (recovery/processing) key
+ */
+export const generateKeyPair = () =>
+  crypto.subtle.generateKey(
+    {
+      ...RSA_PARAMS,
+      modulusLength: 3072,
+      publicExponent: new Uint8Array([1, 0, 1]),
+    },
+    true,
+    ["wrapKey", "unwrapKey"],
+  );
+
+// Public half of a key pair as stored in the database
+export const exportPublicKey = (publicKey: CryptoKey): Promise<JsonWebKey> =>
+  crypto.subtle.exportKey("jwk", publicKey);
+
+/**
+ * Wrap a session key for a recipient's public key
+ */
+export const wrapSessionKey = async (
+  sessionKey: CryptoKey,
+  publicKey: JsonWebKey,
+): Promise<string> => {
+  const recipientKey = await crypto.subtle.importKey(
+    "jwk",
+    publicKey,
+    RSA_PARAMS,
+    false,
+    ["wrapKey"],
+  );
+  return toBase64(
+    await crypto.subtle.wrapKey("raw", sessionKey, recipientKey, RSA_PARAMS),
+  );
+};
+
+/**
+ * Unwrap a session key with the recipient's private key
+ */
+export const unwrapSessionKey = (wrappedKey: string, privateKey: CryptoKey) =>
+  crypto.subtle.unwrapKey(
+    "raw",
+    fromBase64(wrappedKey),
+    privateKey,
+    RSA_PARAMS,
+    { name: "AES-GCM" },
+    true, // Extractable so it can be re-wrapped for new recipients
+    ["encrypt", "decrypt"],
+  );
+
+// AES key derived from a passphrase, used to wrap a private key
+const derivePassphraseKey = async (passphrase: string, salt: Uint8Array) => {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["wrapKey", "unwrapKey"],
+  );
+};
+
+/**
+ * Protect a private key with a passphrase so it can be stored server side
+ */
+export const protectPrivateKey = async (
+  privateKey: CryptoKey,
+  passphrase: string,
+): Promise<ProtectedPrivateKey> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrappingKey = await derivePassphraseKey(passphrase, salt);
+  const wrappedKey = await crypto.subtle.wrapKey(
+    "pkcs8",
+    privateKey,
+    wrappingKey,
+    { name: "AES-GCM", iv },
+  );
+
+  return {
+    wrappedKey: toBase64(wrappedKey),
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+  };
+};
+
+/**
+ * Unlock a passphrase-protected private key. Rejects on a wrong passphrase.
+ */
+export const unlockPrivateKey = async (
+  record: ProtectedPrivateKey,
+  passphrase: string,
+): Promise<CryptoKey> => {
+  const wrappingKey = await derivePassphraseKey(
+    passphrase,
+    fromBase64(record.salt),
+  );
+  return crypto.subtle.unwrapKey(
+    "pkcs8",
+    fromBase64(record.wrappedKey),
+    wrappingKey,
+    { name: "AES-GCM", iv: fromBase64(record.iv) },
+    RSA_PARAMS,
+    false,
+    ["unwrapKey"],
+  );
+};
+
+// Wait for a SourceBuffer to finish its current operation
+const whenUpdated = (sourceBuffer: SourceBuffer) =>
+  new Promise<void>((resolve, reject) => {
+    sourceBuffer.addEventListener("updateend", () => resolve(), {
+      once: true,
+    });
+    sourceBuffer.addEventListener("error", () => reject(sourceBuffer), {
+      once: true,
+    });
+  });
+
+// Seconds of already played audio kept when the browser runs out of buffer space
+const KEEP_BEHIND_SECONDS = 10;
+
+// Recordings up to this size are decrypted whole, so they seek like any
+// other file; only larger ones are streamed through a MediaSource
+const MAX_IN_MEMORY_BYTES = 200 * 1024 * 1024;
+
+// Wait until playback moves on or is sought, so buffer space may be freed.
+// Paused or stalled audio doesn't send timeupdate, but seeking and play do.
+const whenPlaybackMoves = (audio: HTMLMediaElement, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const events = ["timeupdate", "seeking", "play"];
+    const done = () => {
+      events.forEach((name) => audio.removeEventListener(name, done));
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    events.forEach((name) => audio.addEventListener(name, done));
+    signal.addEventListener("abort", done);
+  });
+
+/**
+ * Open an encrypted recording for playback
+ *
+ * Recordings that fit in memory, and formats MediaSource can't play (e.g.
+ * WAV), are decrypted whole. Larger ones stream through decryptStream into
+ * a MediaSource, so playback starts before the download finishes; seeking
+ * back into audio dropped from the buffer downloads the file again from the
+ * start. getSourceUrl is asked again then, as a signed URL may have been
+ * renewed. Returns a URL for the audio element and a function that stops
+ * the download.
+ */
+export const openDecryptedAudio = async (
+  getSourceUrl: () => string,
+  key: CryptoKey,
+  mimeType: string,
+  audio: HTMLMediaElement,
+): Promise<{ url: string; cancel: () => void }> => {
+  let download = new AbortController();
+  let isCancelled = false;
+  let handleSeeking: (() => void) | null = null;
+  const cancel = () => {
+    isCancelled = true;
+    download.abort();
+    if (handleSeeking) {
+      audio.removeEventListener("seeking", handleSeeking);
+    }
+  };
+
+  const fetchRecording = async (signal: AbortSignal) => {
+    const response = await fetch(getSourceUrl(), { signal });
+    if (!response.ok || !response.body) {
+      throw new Error(`Could not download audio (${response.status})`);
+    }
+    return response;
+  };
+
+  const first = await fetchRecording(download.signal);
+  const size = Number(first.headers.get("Content-Length")) || 0;
+
+  if (
+    !("MediaSource" in window) ||
+    !MediaSource.isTypeSupported(mimeType) ||
+    (size > 0 && size <= MAX_IN_MEMORY_BYTES)
+  ) {
+    const blob = await decryptBlob(await first.blob(), key, mimeType);
+    return { url: URL.createObjectURL(blob), cancel };
+  }
+
+  const mediaSource = new MediaSource();
+
+  // Append the whole recording from its start, dropping played audio when
+  // the browser runs out of buffer space
+  const stream = async (
+    sourceBuffer: SourceBuffer,
+    response: Response,
+    signal: AbortSignal,
+  ) => {
+    for await (const chunk of decryptStream(response.body, key)) {
+      for (;;) {
+        if (signal.aborted) return;
+        try {
+          sourceBuffer.appendBuffer(chunk);
+          await whenUpdated(sourceBuffer);
+          break;
+        } catch (error) {
+          if ((error as DOMException).name !== "QuotaExceededError") {
+            throw error;
+          }
+          // Buffer is full: drop what has been played and wait for playback to move on
+          const removeUntil = audio.currentTime - KEEP_BEHIND_SECONDS;
+          if (removeUntil > 0) {
+            sourceBuffer.remove(0, removeUntil);
+            await whenUpdated(sourceBuffer);
+          }
+          await whenPlaybackMoves(audio, signal);
+        }
+      }
+    }
+
+    if (!signal.aborted) {
+      mediaSource.endOfStream();
+    }
+  };
+
+  const reportError = (error: unknown, signal: AbortSignal) => {
+    if (signal.aborted) return;
+    console.error("Error decrypting audio:", error);
+    if (mediaSource.readyState === "open") {
+      mediaSource.endOfStream("decode");
+    }
+  };
+
+  mediaSource.addEventListener(
+    "sourceopen",
+    () => {
+      if (isCancelled) return;
+      const sourceBuffer = mediaSource.addSourceBuffer(mimeType);
+      sourceBuffer.mode = "sequence";
+
+      // Sequence appends only go forward, so audio dropped from the buffer
+      // can only come back by streaming the file again from the start
+      handleSeeking = () => {
+        const { buffered } = sourceBuffer;
+        if (buffered.length === 0 || audio.currentTime >= buffered.start(0)) {
+          return;
+        }
+
+        download.abort();
+        download = new AbortController();
+        const { signal } = download;
+
+        (async () => {
+          if (sourceBuffer.updating) {
+            await whenUpdated(sourceBuffer);
+          }
+          if (signal.aborted) return;
+          sourceBuffer.remove(0, Infinity);
+          await whenUpdated(sourceBuffer);
+          sourceBuffer.timestampOffset = 0;
+          await stream(sourceBuffer, await fetchRecording(signal), signal);
+        })().catch((error) => reportError(error, signal));
+      };
+      audio.addEventListener("seeking", handleSeeking);
+
+      const { signal } = download;
+      stream(sourceBuffer, first, signal).catch((error) =>
+        reportError(error, signal),
+      );
+    },
+    { once: true },
+  );
+
+  return { url: URL.createObjectURL(mediaSource), cancel };
+};
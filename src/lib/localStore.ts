@@ -0,0 +1,71 @@
+/**
+ * Small promise wrapper around the browser's IndexedDB, used for state that
+ * has to survive a page reload (e.g. unfinished uploads and recordings).
+ */
+
+const DATABASE_NAME = "session-recording-review";
+const DATABASE_VERSION = 2;
+
+// Object stores, all keyed by an `id` property
+export type LocalStoreName = "uploads" | "recordings";
+const STORE_NAMES: LocalStoreName[] = ["uploads", "recordings"];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+      request.onupgradeneeded = () => {
+        STORE_NAMES.forEach((name) => {
+          if (!request.result.objectStoreNames.contains(name)) {
+            request.result.createObjectStore(name, { keyPath: "id" });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+};
+
+// Run a single request against a store and resolve with its result
+const runRequest = async <T>(
+  storeName: LocalStoreName,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = createRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const getLocalItem = <T>(storeName: LocalStoreName, id: string) =>
+  runRequest<T | undefined>(storeName, "readonly", (store) => store.get(id));
+
+export const getAllLocalItems = <T>(storeName: LocalStoreName) =>
+  runRequest<T[]>(storeName, "readonly", (store) => store.getAll());
+
+export const putLocalItem = async <T extends { id: string }>(
+  storeName: LocalStoreName,
+  item: T,
+) => {
+  await runRequest(storeName, "readwrite", (store) => store.put(item));
+};
+
+export const deleteLocalItem = async (
+  storeName: LocalStoreName,
+  id: string,
+) => {
+  await runRequest(storeName, "readwrite", (store) => store.delete(id));
+};
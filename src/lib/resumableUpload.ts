@@ -0,0 +1,203 @@
+/**
+ * Resumable uploads to Supabase Storage over the tus protocol
+ * (https://tus.io/protocols/resumable-upload).
+ *
+ * The file is sent in fixed-size chunks. After an interruption the server is
+ * asked how much it already has and the upload continues from there, so a
+ * dropped connection only costs the chunk that was in flight.
+ */
+import { supabase } from "@/supabase/supabase";
+
+const TUS_VERSION = "1.0.0";
+
+// Supabase Storage only accepts 6 MiB chunks
+export const UPLOAD_CHUNK_SIZE = 6 * 1024 * 1024;
+
+// Wait before each retry of a failed request; one retry per entry
+const RETRY_DELAYS = [1000, 3000, 5000, 10000, 20000];
+
+const getEndpoint = () =>
+  `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`;
+
+export interface ResumableUploadOptions {
+  bucket: string;
+  path: string;                                   // Object name inside the bucket
+  file: Blob;
+  contentType: string;
+  uploadUrl?: string;                             // URL of an upload to resume
+  signal?: AbortSignal;                           // Aborting pauses the upload
+  onUploadUrl?: (uploadUrl: string) => void;      // Called once the upload exists on the server
+  onProgress?: (bytesUploaded: number, bytesTotal: number) => void;
+  onRetry?: (attempt: number, delay: number) => void; // Called before waiting to retry
+}
+
+// Error for responses the upload can't recover from by retrying
+class UploadResponseError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+  }
+}
+
+const getHeaders = async (): Promise<Record<string, string>> => {
+  const { data } = await supabase.auth.getSession();
+  if (!data.session) {
+    throw new Error("User not authenticated");
+  }
+
+  return {
+    authorization: `Bearer ${data.session.access_token}`,
+    apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+    "tus-resumable": TUS_VERSION,
+  };
+};
+
+// tus metadata: comma separated "key base64(value)" pairs
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(unescape(encodeURIComponent(value)))}`)
+    .join(",");
+
+const checkResponse = async (response: Response, action: string) => {
+  if (response.ok) return;
+  const message = `Could not ${action} (${response.status}): ${await response.text()}`;
+  // Client errors won't go away by retrying, except conflicts and rate limits
+  if (
+    response.status >= 400 &&
+    response.status < 500 &&
+    response.status !== 409 &&
+    response.status !== 423 &&
+    response.status !== 429
+  ) {
+    throw new UploadResponseError(message, response.status);
+  }
+  throw new Error(message);
+};
+
+const createUpload = async (options: ResumableUploadOptions) => {
+  const response = await fetch(getEndpoint(), {
+    method: "POST",
+    signal: options.signal,
+    headers: {
+      ...(await getHeaders()),
+      "upload-length": String(options.file.size),
+      "upload-metadata": encodeMetadata({
+        bucketName: options.bucket,
+        objectName: options.path,
+        contentType: options.contentType,
+        cacheControl: "3600",
+      }),
+    },
+  });
+  await checkResponse(response, "start upload");
+
+  const location = response.headers.get("location");
+  if (!location) {
+    throw new Error("Upload server did not return an upload URL");
+  }
+  return new URL(location, getEndpoint()).toString();
+};
+
+// How many bytes the server already has, or null if the upload is gone
+const getOffset = async (uploadUrl: string, signal?: AbortSignal) => {
+  const response = await fetch(uploadUrl, {
+    method: "HEAD",
+    signal,
+    headers: await getHeaders(),
+  });
+  if (response.status === 404 || response.status === 410) {
+    return null;
+  }
+  await checkResponse(response, "check upload");
+  return Number(response.headers.get("upload-offset"));
+};
+
+const sendChunk = async (
+  uploadUrl: string,
+  file: Blob,
+  offset: number,
+  signal?: AbortSignal,
+) => {
+  const response = await fetch(uploadUrl, {
+    method: "PATCH",
+    signal,
+    headers: {
+      ...(await getHeaders()),
+      "content-type": "application/offset+octet-stream",
+      "upload-offset": String(offset),
+    },
+    body: file.slice(offset, offset + UPLOAD_CHUNK_SIZE),
+  });
+  await checkResponse(response, "upload chunk");
+  return Number(response.headers.get("upload-offset"));
+};
+
+const wait = (delay: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    // The signal outlives the wait, so stop listening once it is over
+    const handleAbort = () => {
+      window.clearTimeout(timeoutId);
+      reject(signal.reason);
+    };
+    const timeoutId = window.setTimeout(() => {
+      signal?.removeEventListener("abort", handleAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener("abort", handleAbort, { once: true });
+  });
+
+/**
+ * Upload a file, resuming `uploadUrl` when given. Resolves once the server
+ * has the whole file. Network errors are retried with back-off; aborting
+ * the signal stops the upload so it can be resumed later.
+ */
+export const uploadResumable = async (options: ResumableUploadOptions) => {
+  const { file, signal } = options;
+  let uploadUrl = options.uploadUrl;
+  let attempt = 0;
+
+  for (;;) {
+    try {
+      let offset = uploadUrl ? await getOffset(uploadUrl, signal) : null;
+      if (offset === null) {
+        // Nothing to resume (or the server expired it): start from scratch
+        uploadUrl = await createUpload(options);
+        options.onUploadUrl?.(uploadUrl);
+        offset = 0;
+      }
+      options.onProgress?.(offset, file.size);
+
+      while (offset < file.size) {
+        offset = await sendChunk(uploadUrl, file, offset, signal);
+        options.onProgress?.(offset, file.size);
+        attempt = 0; // Progress was made, so start counting retries again
+      }
+      return;
+    } catch (error) {
+      if (
+        signal?.aborted ||
+        error instanceof UploadResponseError ||
+        attempt >= RETRY_DELAYS.length
+      ) {
+        throw error;
+      }
+      const delay = RETRY_DELAYS[attempt++];
+      options.onRetry?.(attempt, delay);
+      await wait(delay, signal);
+    }
+  }
+};
+
+/**
+ * Tell the server to drop an unfinished upload. Failures are ignored; the
+ * server expires abandoned uploads on its own.
+ */
+export const cancelResumableUpload = async (uploadUrl: string) => {
+  try {
+    await fetch(uploadUrl, { method: "DELETE", headers: await getHeaders() });
+  } catch (error) {
+    console.error("Error cancelling upload:", error);
+  }
+};
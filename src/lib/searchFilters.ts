@@ -0,0 +1,68 @@
+/**
+ * Search state lives in the /search URL so searches can be bookmarked,
+ * shared and opened from the Sidebar's saved searches:
+ *
+ *   /search?q=anxiety&type=feedback,transcript&tag=<id>&from=2024-07-01
+ */
+import { SearchFilters, SearchHitType } from "./api";
+
+// URL parameter for each facet
+const PARAMS: Record<Exclude<keyof SearchFilters, "types">, string> = {
+  sessionType: "sessionType",
+  supervisorId: "supervisor",
+  counselorId: "counselor",
+  from: "from",
+  to: "to",
+  tagId: "tag",
+  status: "status",
+};
+
+export const toSearchParams = (
+  query: string,
+  filters: SearchFilters,
+  savedSearchId?: string,
+) => {
+  const params = new URLSearchParams();
+  if (query) {
+    params.set("q", query);
+  }
+  if (filters.types?.length) {
+    params.set("type", filters.types.join(","));
+  }
+  Object.entries(PARAMS).forEach(([key, param]) => {
+    const value = filters[key as keyof typeof PARAMS];
+    if (value) {
+      params.set(param, value);
+    }
+  });
+  if (savedSearchId) {
+    params.set("saved", savedSearchId);
+  }
+  return params;
+};
+
+export const fromSearchParams = (params: URLSearchParams): SearchFilters => {
+  const filters: SearchFilters = {};
+  const types = params.get("type");
+  if (types) {
+    filters.types = types.split(",") as SearchHitType[];
+  }
+  Object.entries(PARAMS).forEach(([key, param]) => {
+    const value = params.get(param);
+    if (value) {
+      (filters as Record<string, string>)[key] = value;
+    }
+  });
+  return filters;
+};
+
+export const hasSearchFilters = (filters: SearchFilters) =>
+  Object.values(filters).some((value) =>
+    Array.isArray(value) ? value.length > 0 : !!value,
+  );
+
+export const getSearchPath = (
+  query: string,
+  filters: SearchFilters,
+  savedSearchId?: string,
+) => `/search?${toSearchParams(query, filters, savedSearchId).toString()}`;
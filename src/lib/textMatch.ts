@@ -0,0 +1,70 @@
+/**
+ * Case and diacritic insensitive matching for find-in-transcript.
+ *
+ * Both sides are folded before comparing: lowercased, compatibility forms
+ * (full-width letters, ligatures) replaced, accents dropped and runs of
+ * whitespace collapsed. Matches are plain substrings, so Korean words are
+ * found with any particle attached ("상담" matches "상담을").
+ */
+
+export interface TextMatch {
+  start: number;            // Offset of the match in the original text
+  end: number;              // Offset just past the match in the original text
+}
+
+// NFKD would split Hangul syllables into jamo and let "하" match inside "한"
+const HANGUL_SYLLABLE = /[가-힣]/;
+const COMBINING_MARKS = /\p{M}/gu;
+
+const foldChar = (char: string) =>
+  HANGUL_SYLLABLE.test(char)
+    ? char
+    : char.normalize("NFKD").replace(COMBINING_MARKS, "").toLowerCase();
+
+// Folded text, with the range of the original each folded character came from
+const fold = (text: string) => {
+  let folded = "";
+  const starts: number[] = [];
+  const ends: number[] = [];
+
+  let offset = 0;
+  for (const char of text) {
+    const next = offset + char.length;
+    const replacement = /\s/.test(char) ? " " : foldChar(char);
+    // A dropped accent belongs to the character before it
+    if (!replacement && ends.length > 0) {
+      ends[ends.length - 1] = next;
+    }
+    for (const foldedChar of replacement) {
+      if (foldedChar === " " && folded.endsWith(" ")) continue;
+      folded += foldedChar;
+      starts.push(offset);
+      ends.push(next);
+    }
+    offset = next;
+  }
+
+  return { folded, starts, ends };
+};
+
+export const foldQuery = (query: string) =>
+  fold(query.normalize("NFC")).folded.trim();
+
+/**
+ * Find all non-overlapping matches of a query folded with `foldQuery`
+ */
+export const findTextMatches = (text: string, foldedQuery: string) => {
+  if (!foldedQuery) return [];
+
+  const { folded, starts, ends } = fold(text);
+  const matches: TextMatch[] = [];
+  let index = folded.indexOf(foldedQuery);
+  while (index !== -1) {
+    matches.push({
+      start: starts[index],
+      end: ends[index + foldedQuery.length - 1],
+    });
+    index = folded.indexOf(foldedQuery, index + foldedQuery.length);
+  }
+  return matches;
+};
@@ -16,6 +16,7 @@ export type TranslationKey =
   | "english"
   | "korean"
   | "my_sessions"
+  | "saved_searches"
   | "in_progress"
   | "pending_review"
   | "search_placeholder"
@@ -36,6 +37,9 @@ export type TranslationKey =
   | "confirmPassword"
   | "updatePassword"
   | "emailNotifications"
+  | "emailFrequency"
+  | "emailImmediately"
+  | "emailDailyDigest"
   | "pushNotifications"
   | "feedbackNotifications"
   | "requestNotifications"
@@ -100,6 +104,7 @@ export const translations: Translations = {
     dark_mode: "Dark Mode",
     light_mode: "Light Mode",
     my_sessions: "My Sessions",
+    saved_searches: "Saved Searches",
     in_progress: "In Progress",
     pending_review: "Pending Review",
     search_placeholder: "Search sessions or feedback...",
@@ -123,6 +128,9 @@ export const translations: Translations = {
     confirmPassword: "Confirm Password",
     updatePassword: "Update Password",
     emailNotifications: "Email Notifications",
+    emailFrequency: "Email delivery",
+    emailImmediately: "As they happen",
+    emailDailyDigest: "Daily digest",
     pushNotifications: "Push Notifications",
     feedbackNotifications: "Feedback Notifications",
     requestNotifications: "Request Notifications",
@@ -177,6 +185,7 @@ export const translations: Translations = {
     dark_mode: "다크 모드",
     light_mode: "라이트 모드",
     my_sessions: "내 세션",
+    saved_searches: "저장된 검색",
     in_progress: "진행 중",
     pending_review: "검토 대기 중",
     search_placeholder: "세션 또는 피드백 검색...",
@@ -200,6 +209,9 @@ export const translations: Translations = {
     confirmPassword: "비밀번호 확인",
     updatePassword: "비밀번호 업데이트",
     emailNotifications: "이메일 알림",
+    emailFrequency: "이메일 발송",
+    emailImmediately: "즉시",
+    emailDailyDigest: "일일 요약",
     pushNotifications: "푸시 알림",
     feedbackNotifications: "피드백 알림",
     requestNotifications: "요청 알림",
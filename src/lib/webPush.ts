@@ -0,0 +1,105 @@
+/**
+ * Web Push subscriptions for the current browser.
+ *
+ * The service worker in public/sw.js shows the pushes. Subscriptions are
+ * made with the server's VAPID public key (VITE_VAPID_PUBLIC_KEY) and
+ * stored per device in push_subscriptions, where the
+ * send-push-notifications Edge Function picks them up.
+ */
+import { PushDevice, revokePushDevice, savePushSubscription } from "./api";
+
+const SERVICE_WORKER_URL = `${import.meta.env.BASE_URL}sw.js`;
+
+const getVapidPublicKey = (): string =>
+  import.meta.env.VITE_VAPID_PUBLIC_KEY || "";
+
+export const isPushSupported = () =>
+  "serviceWorker" in navigator &&
+  "PushManager" in window &&
+  "Notification" in window &&
+  !!getVapidPublicKey();
+
+// VAPID keys are distributed base64url encoded; subscribe() wants the bytes
+const urlBase64ToUint8Array = (value: string) => {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4))
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+};
+
+// "Chrome on macOS", shown in the device list in settings
+const describeDevice = () => {
+  const agent = navigator.userAgent;
+  const browser = /Edg\//.test(agent)
+    ? "Edge"
+    : /Firefox\//.test(agent)
+      ? "Firefox"
+      : /Chrome\//.test(agent)
+        ? "Chrome"
+        : /Safari\//.test(agent)
+          ? "Safari"
+          : "Browser";
+  const os = /Android/.test(agent)
+    ? "Android"
+    : /iPhone|iPad/.test(agent)
+      ? "iOS"
+      : /Mac OS X/.test(agent)
+        ? "macOS"
+        : /Windows/.test(agent)
+          ? "Windows"
+          : /Linux/.test(agent)
+            ? "Linux"
+            : "an unknown system";
+  return `${browser} on ${os}`;
+};
+
+// This browser's subscription, if it has one
+export const getCurrentPushSubscription =
+  async (): Promise<PushSubscription | null> => {
+    if (!isPushSupported()) return null;
+    const registration = await navigator.serviceWorker.getRegistration(
+      SERVICE_WORKER_URL,
+    );
+    return registration ? registration.pushManager.getSubscription() : null;
+  };
+
+/**
+ * Ask for permission and subscribe this browser. Throws if push isn't
+ * available or the user blocks notifications.
+ */
+export const enablePushOnThisDevice = async (): Promise<PushDevice> => {
+  if (!isPushSupported()) {
+    throw new Error("Push notifications aren't supported in this browser");
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    throw new Error("Notifications are blocked for this site");
+  }
+
+  const registration = await navigator.serviceWorker.register(
+    SERVICE_WORKER_URL,
+  );
+  await navigator.serviceWorker.ready;
+
+  const subscription =
+    (await registration.pushManager.getSubscription()) ||
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(getVapidPublicKey()),
+    }));
+
+  return savePushSubscription(subscription, describeDevice());
+};
+
+/**
+ * Revoke a device. When it is this browser, its subscription is cancelled
+ * too so the push service stops accepting messages for it.
+ */
+export const revokeDevice = async (device: PushDevice) => {
+  const current = await getCurrentPushSubscription().catch(() => null);
+  if (current && current.endpoint === device.endpoint) {
+    await current.unsubscribe();
+  }
+  await revokePushDevice(device.id);
+};
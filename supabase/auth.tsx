@@ -166,7 +166,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
    * @returns true if the user is an admin, false otherwise
    */
   const isAdmin = (): boolean => {
-    return user?.user_metadata?.role === "admin" || false;
+    // app_metadata, unlike user_metadata, can't be changed by the user
+    return user?.app_metadata?.role === "admin" || false;
   };
 
   /**
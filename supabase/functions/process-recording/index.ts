@@ -0,0 +1,314 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+import {
+  AudioProcessor,
+  getAudioProcessor,
+  getPeaksPixelsPerSecond,
+  getProcessingOptions,
+} from './processors.ts';
+import {
+  decryptRecording,
+  encryptRecording,
+  getProcessingSessionKey,
+} from '../transcribe-session/encryption.ts';
+import { renderRedactedAudio } from './redactedAudio.ts';
+
+// Supabase edge runtime global used to keep working after the response is sent
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+async function setProcessingStatus(
+  supabaseClient: any,
+  sessionId: string,
+  status: 'queued' | 'processing' | 'ready' | 'failed',
+  errorMessage: string | null = null
+) {
+  const { error } = await supabaseClient
+    .from("sessions")
+    .update({
+      processing_status: status,
+      processing_error: errorMessage,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", sessionId);
+
+  if (error) {
+    console.error(`Error setting processing status to ${status}:`, error);
+  }
+}
+
+// sessions/<user>/123-interview.wav.enc -> sessions/<user>/123-interview-normalized.mp3.enc
+function getProcessedPath(path: string, extension: string, isEncrypted: boolean) {
+  const stem = path.replace(/\.enc$/, '').replace(/\.[^./]+$/, '');
+  return `${stem}-normalized.${extension}${isEncrypted ? '.enc' : ''}`;
+}
+
+function isProcessedPath(path: string) {
+  return /-normalized\.[^./]+(\.enc)?$/.test(path);
+}
+
+// Generate and store waveform peaks for the processed audio. The peaks only
+// hold the loudness envelope, so they are stored unencrypted. A recording
+// without peaks still plays, so failures are logged rather than thrown.
+async function storePeaks(
+  supabaseClient: any,
+  processor: AudioProcessor,
+  audio: Blob,
+  audioPath: string
+): Promise<string | null> {
+  try {
+    const peaks = await processor.generatePeaks(audio, {
+      fileName: audioPath.split('/').pop() ?? 'session-audio',
+      pixelsPerSecond: getPeaksPixelsPerSecond(),
+    });
+    const peaksPath = `${audioPath.replace(/\.enc$/, '').replace(/\.[^./]+$/, '')}-peaks.json`;
+
+    const { error } = await supabaseClient.storage
+      .from('audio')
+      .upload(peaksPath, new Blob([JSON.stringify(peaks)]), {
+        contentType: 'application/json',
+        upsert: true,
+      });
+
+    if (error) {
+      throw error;
+    }
+    return peaksPath;
+  } catch (error) {
+    console.error(`Error generating peaks for ${audioPath}:`, error);
+    return null;
+  }
+}
+
+async function processRecording(supabaseClient: any, session: any) {
+  const processor = getAudioProcessor();
+  console.log(`Processing session ${session.id} with ${processor.name}`);
+
+  await setProcessingStatus(supabaseClient, session.id, 'processing');
+
+  // audio_url holds the path in the private audio bucket
+  const { data: download, error: downloadError } = await supabaseClient.storage
+    .from('audio')
+    .download(session.audio_url);
+
+  if (downloadError) {
+    throw new Error(`Could not download audio: ${downloadError.message}`);
+  }
+
+  // Recordings encrypted in the browser are decrypted in memory only
+  let audio = download;
+  let key: CryptoKey | null = null;
+  if (session.is_encrypted) {
+    key = await getProcessingSessionKey(supabaseClient, session.id, session.key_version);
+    audio = await decryptRecording(download, key, session.audio_mime_type);
+  }
+
+  const fileName = session.audio_url.split('/').pop().replace(/\.enc$/, '');
+  const processed = await processor.process(audio, getProcessingOptions(fileName));
+
+  // Store the result under the same session key, next to the original
+  const processedPath = getProcessedPath(session.audio_url, processed.extension, !!key);
+  const { error: uploadError } = await supabaseClient.storage
+    .from('audio')
+    .upload(
+      processedPath,
+      key ? await encryptRecording(processed.audio, key) : processed.audio,
+      {
+        contentType: key ? 'application/octet-stream' : processed.mimeType,
+        upsert: true,
+      }
+    );
+
+  if (uploadError) {
+    throw new Error(`Could not store processed audio: ${uploadError.message}`);
+  }
+
+  const peaksPath = await storePeaks(
+    supabaseClient,
+    processor,
+    processed.audio,
+    processedPath
+  );
+
+  const { error: updateError } = await supabaseClient
+    .from("sessions")
+    .update({
+      audio_url: processedPath,
+      audio_mime_type: processed.mimeType,
+      original_mime_type: session.audio_mime_type,
+      duration: processed.duration,
+      sample_rate: processed.sampleRate,
+      channels: processed.channels,
+      bit_rate: processed.bitRate,
+      loudness_lufs: processed.loudnessLufs,
+      trimmed_start: processed.trimmedStart,
+      peaks_url: peaksPath,
+      // Rendered again from the new audio once it is transcribed
+      redacted_audio_url: null,
+      redacted_audio_mime_type: null,
+      processing_status: 'ready',
+      processing_error: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", session.id);
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  // The processed file replaces the upload and any bleeped copy of it
+  const { error: removeError } = await supabaseClient.storage
+    .from('audio')
+    .remove([session.audio_url, session.redacted_audio_url].filter(Boolean));
+
+  if (removeError) {
+    console.error(`Error removing original upload of session ${session.id}:`, removeError);
+  }
+
+  console.log(`Processed session ${session.id}: ${processed.duration}s of ${processed.mimeType}`);
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // redactedAudioOnly re-renders the bleeped copy, e.g. after a key rotation
+    const { sessionId, redactedAudioOnly } = await req.json();
+
+    if (!sessionId) {
+      throw new Error('Missing required parameters');
+    }
+
+    // Look the session up as the caller so RLS decides whether they may process it
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+
+    const { data: visibleSession, error: sessionError } = await userClient
+      .from("sessions")
+      .select("id, user_id")
+      .eq("id", sessionId)
+      .single();
+
+    if (sessionError || !visibleSession) {
+      return new Response(
+        JSON.stringify({ error: 'Session not found' }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Processing replaces the recording and then transcribes it again, so
+    // only the owner may start it
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user || user.id !== visibleSession.user_id) {
+      return new Response(
+        JSON.stringify({ error: 'Only the session owner can process it' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    // audio_url isn't readable by signed-in users, so the rest of the row
+    // is loaded with the service role
+    const { data: session, error: loadError } = await supabaseClient
+      .from("sessions")
+      .select("id, audio_url, redacted_audio_url, is_encrypted, key_version, audio_mime_type, processing_status")
+      .eq("id", visibleSession.id)
+      .single();
+
+    if (loadError) {
+      throw loadError;
+    }
+
+    if (!session.audio_url) {
+      throw new Error('Session has no audio to process');
+    }
+
+    if (redactedAudioOnly) {
+      EdgeRuntime.waitUntil(
+        renderRedactedAudio(supabaseClient, session.id).catch((error) =>
+          console.error(`Error rendering redacted audio for session ${session.id}:`, error)
+        )
+      );
+
+      return new Response(
+        JSON.stringify({ sessionId: session.id, status: 'queued' }),
+        {
+          status: 202,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Processing a processed recording would trim it again and shift the
+    // transcript, so only the original upload is processed
+    if (session.processing_status === 'ready' && isProcessedPath(session.audio_url)) {
+      return new Response(
+        JSON.stringify({ error: 'Session recording is already processed' }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    await setProcessingStatus(supabaseClient, session.id, 'queued');
+
+    // Processing can take minutes, so answer now and keep working.
+    // Transcription runs afterwards so its timestamps match the trimmed
+    // audio; if processing fails the original upload is transcribed instead.
+    EdgeRuntime.waitUntil(
+      processRecording(supabaseClient, session)
+        .catch(async (error) => {
+          console.error(`Error processing session ${session.id}:`, error);
+          await setProcessingStatus(
+            supabaseClient,
+            session.id,
+            'failed',
+            error.message ?? String(error)
+          );
+        })
+        .then(() =>
+          userClient.functions.invoke('supabase-functions-transcribe-session', {
+            body: { sessionId: session.id },
+          })
+        )
+    );
+
+    return new Response(
+      JSON.stringify({ sessionId: session.id, status: 'queued' }),
+      {
+        status: 202,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error queueing processing:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
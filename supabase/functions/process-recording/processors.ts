@@ -0,0 +1,189 @@
+// Types
+export type AudioProcessingOptions = {
+  fileName: string;
+  targetLufs: number;          // Integrated loudness to normalize to
+  silenceThresholdDb: number;  // Level below which leading/trailing audio counts as silence
+  bitRate: number;             // Output bit rate in bits per second
+};
+
+export type ProcessedAudio = {
+  audio: Blob;                 // Transcoded recording
+  mimeType: string;
+  extension: string;           // File extension for the transcoded recording
+  duration: number;            // Seconds, after trimming
+  sampleRate: number | null;
+  channels: number | null;
+  bitRate: number | null;
+  loudnessLufs: number | null; // Measured loudness of the input
+  trimmedStart: number;        // Seconds of leading silence removed
+};
+
+// Waveform peaks in the audiowaveform JSON format
+// (https://github.com/bbc/audiowaveform/blob/master/doc/DataFormat.md)
+export type WaveformPeaks = {
+  version: number;
+  channels: number;
+  sample_rate: number;
+  samples_per_pixel: number;
+  bits: number;
+  length: number;
+  data: number[];              // Interleaved min/max pairs per channel
+};
+
+// Stretch of audio to replace with a tone, in seconds
+export type BleepRange = {
+  start: number;
+  end: number;
+};
+
+// Every transcoding backend implements this interface so the edge
+// function doesn't care which tool did the work.
+export interface AudioProcessor {
+  name: string;
+  process(audio: Blob, options: AudioProcessingOptions): Promise<ProcessedAudio>;
+  generatePeaks(
+    audio: Blob,
+    options: { fileName: string; pixelsPerSecond: number }
+  ): Promise<WaveformPeaks>;
+  bleep(
+    audio: Blob,
+    options: { fileName: string; ranges: BleepRange[]; bitRate: number }
+  ): Promise<{ audio: Blob; mimeType: string; extension: string }>;
+}
+
+const numberHeader = (headers: Headers, name: string) => {
+  const value = headers.get(name);
+  return value === null || value === '' ? null : Number(value);
+};
+
+// Talks to an ffmpeg worker over HTTP. The worker receives the file and the
+// options as multipart form data and answers with the MP3 as the body and
+// the measurements in X-Audio-* response headers (see project docs).
+export class FfmpegHttpProcessor implements AudioProcessor {
+  name = 'ffmpeg-http';
+
+  constructor(
+    private url: string,
+    private apiKey?: string
+  ) {}
+
+  async process(audio: Blob, options: AudioProcessingOptions): Promise<ProcessedAudio> {
+    const form = new FormData();
+    form.append('file', audio, options.fileName);
+    form.append('format', 'mp3');
+    form.append('target_lufs', String(options.targetLufs));
+    form.append('silence_threshold_db', String(options.silenceThresholdDb));
+    form.append('bit_rate', String(options.bitRate));
+
+    const headers: Record<string, string> = {};
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(this.url, { method: 'POST', body: form, headers });
+
+    if (!response.ok) {
+      throw new Error(
+        `Audio processor responded with ${response.status}: ${await response.text()}`
+      );
+    }
+
+    const duration = numberHeader(response.headers, 'x-audio-duration');
+    if (duration === null) {
+      throw new Error('Audio processor did not report a duration');
+    }
+
+    return {
+      audio: await response.blob(),
+      mimeType: 'audio/mpeg',
+      extension: 'mp3',
+      duration,
+      sampleRate: numberHeader(response.headers, 'x-audio-sample-rate'),
+      channels: numberHeader(response.headers, 'x-audio-channels'),
+      bitRate: numberHeader(response.headers, 'x-audio-bit-rate'),
+      loudnessLufs: numberHeader(response.headers, 'x-audio-input-loudness'),
+      trimmedStart: numberHeader(response.headers, 'x-audio-trimmed-start') ?? 0,
+    };
+  }
+
+  async generatePeaks(
+    audio: Blob,
+    options: { fileName: string; pixelsPerSecond: number }
+  ): Promise<WaveformPeaks> {
+    const form = new FormData();
+    form.append('file', audio, options.fileName);
+    form.append('format', 'peaks');
+    form.append('pixels_per_second', String(options.pixelsPerSecond));
+
+    const headers: Record<string, string> = {};
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(this.url, { method: 'POST', body: form, headers });
+
+    if (!response.ok) {
+      throw new Error(
+        `Audio processor responded with ${response.status}: ${await response.text()}`
+      );
+    }
+
+    return await response.json();
+  }
+
+  async bleep(
+    audio: Blob,
+    options: { fileName: string; ranges: BleepRange[]; bitRate: number }
+  ): Promise<{ audio: Blob; mimeType: string; extension: string }> {
+    const form = new FormData();
+    form.append('file', audio, options.fileName);
+    form.append('format', 'bleep');
+    form.append('ranges', JSON.stringify(options.ranges));
+    form.append('bit_rate', String(options.bitRate));
+
+    const headers: Record<string, string> = {};
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(this.url, { method: 'POST', body: form, headers });
+
+    if (!response.ok) {
+      throw new Error(
+        `Audio processor responded with ${response.status}: ${await response.text()}`
+      );
+    }
+
+    return { audio: await response.blob(), mimeType: 'audio/mpeg', extension: 'mp3' };
+  }
+}
+
+// Pick the processor from the AUDIO_PROCESSOR env var
+export function getAudioProcessor(): AudioProcessor {
+  const processorName = Deno.env.get('AUDIO_PROCESSOR') ?? 'ffmpeg-http';
+
+  switch (processorName) {
+    case 'ffmpeg-http':
+      return new FfmpegHttpProcessor(
+        Deno.env.get('FFMPEG_WORKER_URL') ?? 'http://localhost:9100/process',
+        Deno.env.get('FFMPEG_WORKER_API_KEY') ?? undefined
+      );
+    default:
+      throw new Error(`Unknown audio processor: ${processorName}`);
+  }
+}
+
+// Processing settings, overridable through env vars
+export function getProcessingOptions(fileName: string): AudioProcessingOptions {
+  return {
+    fileName,
+    targetLufs: Number(Deno.env.get('AUDIO_TARGET_LUFS') ?? -16),
+    silenceThresholdDb: Number(Deno.env.get('AUDIO_SILENCE_THRESHOLD_DB') ?? -50),
+    bitRate: Number(Deno.env.get('AUDIO_BIT_RATE') ?? 96000),
+  };
+}
+
+// Waveform resolution; 50 peaks per second keeps an hour of audio under 2 MB
+export function getPeaksPixelsPerSecond(): number {
+  return Number(Deno.env.get('WAVEFORM_PIXELS_PER_SECOND') ?? 50);
+}
@@ -0,0 +1,185 @@
+// Bleeped copy of a session recording for everyone but its owner.
+//
+// Renders sessions.redaction_ranges into the audio, stores the result next to
+// the recording under the same session key and records it in
+// sessions.redacted_audio_url. Storage RLS only shares that copy with the
+// supervisor. Whatever changes redaction_ranges clears redacted_audio_url
+// first, so a copy with outdated ranges is never served.
+
+import { getAudioProcessor, getProcessingOptions } from './processors.ts';
+import {
+  decryptRecording,
+  encryptRecording,
+  getProcessingSessionKey,
+} from '../transcribe-session/encryption.ts';
+
+// sessions/<user>/123-interview-normalized.mp3.enc -> sessions/<user>/123-interview-normalized-redacted-<time>.mp3.enc
+function getRedactedPath(path: string, extension: string, isEncrypted: boolean) {
+  const stem = path.replace(/\.enc$/, '').replace(/\.[^./]+$/, '');
+  return `${stem}-redacted-${Date.now()}.${extension}${isEncrypted ? '.enc' : ''}`;
+}
+
+/**
+ * Render and store the bleeped copy for a session. Returns its path, or null
+ * when the session has no recording or its ranges changed while rendering.
+ */
+export async function renderRedactedAudio(
+  supabaseClient: any,
+  sessionId: string
+): Promise<string | null> {
+  const { data: session, error: sessionError } = await supabaseClient
+    .from("sessions")
+    .select("id, audio_url, audio_mime_type, is_encrypted, key_version, redaction_ranges, redacted_audio_url")
+    .eq("id", sessionId)
+    .single();
+
+  if (sessionError) {
+    throw sessionError;
+  }
+
+  if (!session.audio_url) {
+    return null;
+  }
+
+  const ranges = session.redaction_ranges || [];
+  const extension = session.audio_url.replace(/\.enc$/, '').split('.').pop();
+  let redactedPath: string;
+  let mimeType: string;
+
+  if (ranges.length === 0) {
+    // Nothing to bleep: share a copy of the recording as it is
+    redactedPath = getRedactedPath(session.audio_url, extension, session.is_encrypted);
+    mimeType = session.audio_mime_type;
+
+    const { error: copyError } = await supabaseClient.storage
+      .from('audio')
+      .copy(session.audio_url, redactedPath);
+
+    if (copyError) {
+      throw new Error(`Could not copy audio: ${copyError.message}`);
+    }
+  } else {
+    const { data: download, error: downloadError } = await supabaseClient.storage
+      .from('audio')
+      .download(session.audio_url);
+
+    if (downloadError) {
+      throw new Error(`Could not download audio: ${downloadError.message}`);
+    }
+
+    // Recordings encrypted in the browser are decrypted in memory only
+    let audio = download;
+    let key: CryptoKey | null = null;
+    if (session.is_encrypted) {
+      key = await getProcessingSessionKey(supabaseClient, session.id, session.key_version);
+      audio = await decryptRecording(download, key, session.audio_mime_type);
+    }
+
+    const fileName = session.audio_url.split('/').pop().replace(/\.enc$/, '');
+    const bleeped = await getAudioProcessor().bleep(audio, {
+      fileName,
+      ranges: ranges.map(({ start, end }: { start: number; end: number }) => ({ start, end })),
+      bitRate: getProcessingOptions(fileName).bitRate,
+    });
+
+    redactedPath = getRedactedPath(session.audio_url, bleeped.extension, !!key);
+    mimeType = bleeped.mimeType;
+
+    const { error: uploadError } = await supabaseClient.storage
+      .from('audio')
+      .upload(
+        redactedPath,
+        key ? await encryptRecording(bleeped.audio, key) : bleeped.audio,
+        {
+          contentType: key ? 'application/octet-stream' : bleeped.mimeType,
+        }
+      );
+
+    if (uploadError) {
+      throw new Error(`Could not store redacted audio: ${uploadError.message}`);
+    }
+  }
+
+  // Only publish the copy if the recording and its ranges are still the ones
+  // it was rendered from; a newer render takes over otherwise
+  const { data: updated, error: updateError } = await supabaseClient
+    .from("sessions")
+    .update({
+      redacted_audio_url: redactedPath,
+      redacted_audio_mime_type: mimeType,
+    })
+    .eq("id", session.id)
+    .eq("audio_url", session.audio_url)
+    .eq("key_version", session.key_version)
+    .eq("redaction_ranges", JSON.stringify(ranges))
+    .select("id");
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  const published = updated && updated.length > 0;
+  const stalePaths = published
+    ? [session.redacted_audio_url].filter(Boolean)
+    : [redactedPath];
+
+  if (stalePaths.length > 0) {
+    const { error: removeError } = await supabaseClient.storage
+      .from('audio')
+      .remove(stalePaths);
+
+    if (removeError) {
+      console.error(`Error removing old redacted audio of session ${session.id}:`, removeError);
+    }
+  }
+
+  console.log(
+    published
+      ? `Rendered redacted audio for session ${session.id}: ${ranges.length} ranges`
+      : `Discarded redacted audio for session ${session.id}: its ranges changed`
+  );
+  return published ? redactedPath : null;
+}
+
+/**
+ * Store new redaction ranges for a session. Withdraws the bleeped copy in
+ * the same update, since it no longer matches; render a new one afterwards.
+ */
+export async function storeRedactionRanges(
+  supabaseClient: any,
+  sessionId: string,
+  ranges: { start: number; end: number; category: string }[]
+) {
+  const { data: session, error: sessionError } = await supabaseClient
+    .from("sessions")
+    .select("redacted_audio_url")
+    .eq("id", sessionId)
+    .single();
+
+  if (sessionError) {
+    throw sessionError;
+  }
+
+  const { error: updateError } = await supabaseClient
+    .from("sessions")
+    .update({
+      redaction_ranges: ranges,
+      redacted_audio_url: null,
+      redacted_audio_mime_type: null,
+    })
+    .eq("id", sessionId);
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  if (session.redacted_audio_url) {
+    const { error: removeError } = await supabaseClient.storage
+      .from('audio')
+      .remove([session.redacted_audio_url]);
+
+    if (removeError) {
+      console.error(`Error removing old redacted audio of session ${sessionId}:`, removeError);
+    }
+  }
+}
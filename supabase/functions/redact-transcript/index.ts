@@ -0,0 +1,80 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+import { redactSession } from './redaction.ts';
+import { renderRedactedAudio } from '../process-recording/redactedAudio.ts';
+
+// Supabase edge runtime global used to keep working after the response is sent
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { sessionId } = await req.json();
+
+    if (!sessionId) {
+      throw new Error('Missing required parameters');
+    }
+
+    // Look the session up as the caller so RLS decides whether they may redact it
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+
+    const { data: session, error: sessionError } = await userClient
+      .from("sessions")
+      .select("id")
+      .eq("id", sessionId)
+      .single();
+
+    if (sessionError || !session) {
+      return new Response(
+        JSON.stringify({ error: 'Session not found' }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    const { redactedText, ranges } = await redactSession(supabaseClient, session.id);
+
+    // Bleeping the audio takes a while, so answer with the text right away
+    EdgeRuntime.waitUntil(
+      renderRedactedAudio(supabaseClient, session.id).catch((error) =>
+        console.error(`Error rendering redacted audio for session ${session.id}:`, error)
+      )
+    );
+
+    return new Response(
+      JSON.stringify({ sessionId: session.id, redactedText, ranges }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error redacting transcript:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
@@ -0,0 +1,280 @@
+// PII detection and redaction for transcript segments.
+//
+// Rules are regular expressions grouped by category. Every category is on by
+// default; set REDACTION_CATEGORIES to a comma separated list to enable only
+// some of them, and REDACTION_CUSTOM_PATTERNS to a JSON array of
+// {"category": "...", "pattern": "..."} objects to add deployment specific rules.
+// Client names come from the Client: and Name: fields of the session notes
+// (see extractNames).
+
+import { storeRedactionRanges } from '../process-recording/redactedAudio.ts';
+
+export interface RedactionRule {
+  category: string;
+  pattern: RegExp;
+}
+
+export interface RedactionSegment {
+  id: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface RedactionRange {
+  start: number;
+  end: number;
+  category: string;
+}
+
+export interface RedactionResult {
+  // Redacted text per segment id, only for segments that contained PII
+  redactedText: Record<string, string>;
+  // Merged audio ranges to bleep, in seconds
+  ranges: RedactionRange[];
+}
+
+const MONTHS =
+  'January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec';
+
+const STREET_TYPES =
+  'Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Place|Pl|Way|Terrace|Crescent';
+
+export const DEFAULT_RULES: RedactionRule[] = [
+  {
+    category: 'email',
+    pattern: /\b[\w.+-]+@[\w-]+\.[\w.-]+\b/g,
+  },
+  {
+    category: 'phone',
+    pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\b\d{2,4})[\s.-]?\d{3,4}[\s.-]?\d{4}\b/g,
+  },
+  {
+    category: 'id_number',
+    pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
+  },
+  {
+    category: 'date',
+    pattern: new RegExp(
+      [
+        '\\b\\d{1,2}[/.-]\\d{1,2}[/.-](?:\\d{4}|\\d{2})\\b',
+        '\\b\\d{4}-\\d{2}-\\d{2}\\b',
+        `\\b(?:${MONTHS})\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}\\b`,
+        `\\b\\d{1,2}(?:st|nd|rd|th)?\\s+(?:of\\s+)?(?:${MONTHS})\\.?,?\\s+\\d{4}\\b`,
+      ].join('|'),
+      'gi'
+    ),
+  },
+  {
+    category: 'address',
+    pattern: new RegExp(
+      `\\b\\d{1,5}\\s+(?:[A-Z][\\w'-]*\\s+){1,3}(?:${STREET_TYPES})\\b\\.?`,
+      'g'
+    ),
+  },
+];
+
+// Words in a name field that are not part of the name, e.g. "Client: Mr Smith"
+const NON_NAME_WORDS = new Set([
+  'Client', 'Counselor', 'Counsellor', 'Supervisor', 'Session', 'Therapist',
+  'Mr', 'Mrs', 'Ms', 'Dr', 'The', 'This', 'That', 'They', 'She', 'He', 'We',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+  ...MONTHS.split('|'),
+]);
+
+// Placeholder written in place of a match, e.g. [NAME] or [PHONE]
+const placeholder = (category: string) => `[${category.toUpperCase()}]`;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Build the name dictionary from the session notes: the capitalized words of
+ * a "Client:" or "Name:" field. Other capitalized words in the notes are
+ * left alone, since most of them are ordinary words.
+ */
+export function extractNames(notes: string | null | undefined): string[] {
+  if (!notes) {
+    return [];
+  }
+
+  const names = new Set<string>();
+
+  for (const match of notes.matchAll(/\b(?:client|name)\s*:\s*([^\n,;]+)/gi)) {
+    for (const word of match[1].trim().split(/\s+/)) {
+      if (/^[A-Z][\w'-]+$/.test(word) && !NON_NAME_WORDS.has(word)) {
+        names.add(word);
+      }
+    }
+  }
+
+  return [...names];
+}
+
+/**
+ * Rules enabled for this deployment, plus a name rule for this session.
+ */
+export function getRedactionRules(names: string[] = []): RedactionRule[] {
+  const enabled = Deno.env.get('REDACTION_CATEGORIES');
+  const categories = enabled
+    ? enabled.split(',').map((category) => category.trim()).filter(Boolean)
+    : null;
+
+  const rules = [...DEFAULT_RULES];
+
+  const customPatterns = Deno.env.get('REDACTION_CUSTOM_PATTERNS');
+  if (customPatterns) {
+    for (const { category, pattern } of JSON.parse(customPatterns)) {
+      rules.push({ category, pattern: new RegExp(pattern, 'gi') });
+    }
+  }
+
+  // Case sensitive, so a client called Rose doesn't redact "rose"
+  if (names.length > 0) {
+    rules.push({
+      category: 'name',
+      pattern: new RegExp(`\\b(?:${names.map(escapeRegExp).join('|')})\\b`, 'g'),
+    });
+  }
+
+  return categories
+    ? rules.filter((rule) => categories.includes(rule.category))
+    : rules;
+}
+
+// Extra audio either side of a match, since its position is only estimated
+const RANGE_PADDING_SECONDS = 0.3;
+
+/**
+ * Redact every segment and work out which stretches of audio to bleep.
+ *
+ * Segments only carry start/end times, so a match's position in the audio is
+ * estimated from its character offset within the segment text.
+ */
+export function redactSegments(
+  segments: RedactionSegment[],
+  rules: RedactionRule[]
+): RedactionResult {
+  const redactedText: Record<string, string> = {};
+  const ranges: RedactionRange[] = [];
+
+  for (const segment of segments) {
+    const matches: { index: number; length: number; category: string }[] = [];
+
+    for (const rule of rules) {
+      for (const match of segment.text.matchAll(rule.pattern)) {
+        matches.push({
+          index: match.index ?? 0,
+          length: match[0].length,
+          category: rule.category,
+        });
+      }
+    }
+
+    if (matches.length === 0) {
+      continue;
+    }
+
+    // Earlier matches first; on overlap keep the longer one
+    matches.sort((a, b) => a.index - b.index || b.length - a.length);
+
+    const duration = segment.end - segment.start;
+    const textLength = Math.max(segment.text.length, 1);
+    let result = '';
+    let cursor = 0;
+
+    for (const match of matches) {
+      if (match.index < cursor) {
+        continue;
+      }
+
+      result += segment.text.slice(cursor, match.index) + placeholder(match.category);
+      cursor = match.index + match.length;
+
+      ranges.push({
+        start: Math.max(
+          segment.start,
+          segment.start + (match.index / textLength) * duration - RANGE_PADDING_SECONDS
+        ),
+        end: Math.min(
+          segment.end,
+          segment.start + (cursor / textLength) * duration + RANGE_PADDING_SECONDS
+        ),
+        category: match.category,
+      });
+    }
+
+    redactedText[segment.id] = result + segment.text.slice(cursor);
+  }
+
+  return { redactedText, ranges: mergeRanges(ranges) };
+}
+
+// Join overlapping ranges so the player bleeps each stretch once
+function mergeRanges(ranges: RedactionRange[]): RedactionRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: RedactionRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Run the redaction pass for a session and store the results:
+ * transcript_segments.redacted_text and sessions.redaction_ranges. The
+ * bleeped audio is withdrawn; render it again with renderRedactedAudio.
+ */
+export async function redactSession(supabaseClient: any, sessionId: string) {
+  const { data: session, error: sessionError } = await supabaseClient
+    .from("sessions")
+    .select("id, notes")
+    .eq("id", sessionId)
+    .single();
+
+  if (sessionError) {
+    throw sessionError;
+  }
+
+  const { data: segments, error: segmentsError } = await supabaseClient
+    .from("transcript_segments")
+    .select("id, start, end, text, redacted_text")
+    .eq("session_id", sessionId)
+    .order("start");
+
+  if (segmentsError) {
+    throw segmentsError;
+  }
+
+  const { redactedText, ranges } = redactSegments(
+    segments,
+    getRedactionRules(extractNames(session.notes))
+  );
+
+  // Only touch segments whose redacted copy changed
+  for (const segment of segments) {
+    const nextText = redactedText[segment.id] ?? null;
+    if (nextText === segment.redacted_text) {
+      continue;
+    }
+
+    const { error } = await supabaseClient
+      .from("transcript_segments")
+      .update({ redacted_text: nextText })
+      .eq("id", segment.id);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  await storeRedactionRanges(supabaseClient, sessionId, ranges);
+
+  return { redactedText, ranges };
+}
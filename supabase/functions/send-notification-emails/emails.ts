@@ -0,0 +1,134 @@
+import { EmailMessage } from './transports.ts';
+
+// Types
+export type NotificationType = 'feedback' | 'request' | 'system';
+
+export type PendingNotification = {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  event: string;
+  title: string;
+  session_id: string | null;
+  saved_search_id: string | null;
+  read_at: string | null;
+  created_at: string;
+};
+
+export type EmailFrequency = 'immediate' | 'daily';
+
+// Subset of user_profiles.preferences written by the settings page
+export type NotificationPreferences = {
+  emailNotifications?: boolean;
+  emailFrequency?: EmailFrequency;
+  pushNotifications?: boolean;
+  feedbackNotifications?: boolean;
+  requestNotifications?: boolean;
+  systemNotifications?: boolean;
+};
+
+// Same defaults the settings page shows for a user who never saved
+export function getEmailFrequency(preferences: NotificationPreferences): EmailFrequency {
+  return preferences.emailFrequency === 'daily' ? 'daily' : 'immediate';
+}
+
+// Per-type toggles, shared by every delivery method
+export function isTypeEnabled(
+  preferences: NotificationPreferences,
+  type: NotificationType
+): boolean {
+  switch (type) {
+    case 'feedback':
+      return preferences.feedbackNotifications ?? true;
+    case 'request':
+      return preferences.requestNotifications ?? true;
+    case 'system':
+      return preferences.systemNotifications ?? false;
+  }
+}
+
+export function wantsEmail(
+  preferences: NotificationPreferences,
+  type: NotificationType
+): boolean {
+  return preferences.emailNotifications !== false && isTypeEnabled(preferences, type);
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Sessions open straight from ?session=<id> and saved searches from
+// ?saved=<id>; everything else lands on the notifications page. All of them
+// sit behind the login.
+export function getNotificationLink(appUrl: string, notification: PendingNotification) {
+  // Supervisors can't open a session before accepting the request for it
+  if (notification.event === 'supervision_requested') {
+    return `${appUrl}/notifications?tab=request`;
+  }
+  if (notification.saved_search_id) {
+    return `${appUrl}/search?saved=${notification.saved_search_id}`;
+  }
+  return notification.session_id
+    ? `${appUrl}/sessions?session=${notification.session_id}`
+    : `${appUrl}/notifications`;
+}
+
+const FOOTER =
+  'For confidentiality, session details are only shown after you sign in. ' +
+  'You can change which emails you receive under Settings > Notifications.';
+
+// Emails only carry the notification title and a link. Titles are fixed
+// strings, while the message names people and sessions, so it stays in the app.
+export function buildImmediateEmail(
+  to: string,
+  appUrl: string,
+  notification: PendingNotification
+): EmailMessage {
+  const link = getNotificationLink(appUrl, notification);
+
+  return {
+    to,
+    subject: notification.title,
+    text: `${notification.title}\n\nView it here: ${link}\n\n${FOOTER}`,
+    html:
+      `<p><strong>${escapeHtml(notification.title)}</strong></p>` +
+      `<p><a href="${escapeHtml(link)}">View it in Session Review</a></p>` +
+      `<p style="color:#6b7280;font-size:12px">${escapeHtml(FOOTER)}</p>`,
+  };
+}
+
+export function buildDigestEmail(
+  to: string,
+  appUrl: string,
+  notifications: PendingNotification[]
+): EmailMessage {
+  const count = notifications.length;
+  const subject = `You have ${count} new notification${count === 1 ? '' : 's'}`;
+  const items = notifications.map((notification) => ({
+    title: notification.title,
+    link: getNotificationLink(appUrl, notification),
+  }));
+
+  return {
+    to,
+    subject,
+    text:
+      `${subject} since your last digest:\n\n` +
+      items.map((item) => `- ${item.title}: ${item.link}`).join('\n') +
+      `\n\nSee them all: ${appUrl}/notifications\n\n${FOOTER}`,
+    html:
+      `<p>${escapeHtml(subject)} since your last digest:</p><ul>` +
+      items
+        .map(
+          (item) =>
+            `<li><a href="${escapeHtml(item.link)}">${escapeHtml(item.title)}</a></li>`
+        )
+        .join('') +
+      `</ul><p><a href="${escapeHtml(`${appUrl}/notifications`)}">See them all</a></p>` +
+      `<p style="color:#6b7280;font-size:12px">${escapeHtml(FOOTER)}</p>`,
+  };
+}
@@ -0,0 +1,217 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+import { EmailTransport, getEmailTransport } from './transports.ts';
+import {
+  buildDigestEmail,
+  buildImmediateEmail,
+  getEmailFrequency,
+  NotificationPreferences,
+  PendingNotification,
+  wantsEmail,
+} from './emails.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Notifications handled per run; anything left over goes out on the next one
+const BATCH_SIZE = 500;
+
+type DeliveryResult = { sent: number; skipped: number; failed: number };
+
+async function markProcessed(supabaseClient: any, notificationIds: string[]) {
+  if (notificationIds.length === 0) return;
+
+  const { error } = await supabaseClient
+    .from("notifications")
+    .update({ email_processed_at: new Date().toISOString() })
+    .in("id", notificationIds);
+
+  if (error) {
+    console.error('Error marking notifications as emailed:', error);
+  }
+}
+
+async function getUserEmail(supabaseClient: any, userId: string) {
+  const { data, error } = await supabaseClient.auth.admin.getUserById(userId);
+  if (error) {
+    console.error(`Error looking up email for ${userId}:`, error);
+    return null;
+  }
+  return data.user?.email ?? null;
+}
+
+// Immediate runs only look at users who want each notification right away,
+// so a pile of notifications waiting for a digest can't fill the batch
+async function getPendingNotifications(
+  supabaseClient: any,
+  mode: 'immediate' | 'digest'
+): Promise<PendingNotification[]> {
+  let query = supabaseClient
+    .from("notifications")
+    .select("id, user_id, type, event, title, session_id, saved_search_id, read_at, created_at")
+    .is("email_processed_at", null)
+    .order("created_at", { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (mode === 'immediate') {
+    const { data: digestUsers, error } = await supabaseClient
+      .from("user_profiles")
+      .select("id")
+      .eq("preferences->>emailFrequency", "daily");
+
+    if (error) throw error;
+
+    if (digestUsers.length > 0) {
+      query = query.not(
+        "user_id",
+        "in",
+        `(${digestUsers.map((profile: any) => profile.id).join(',')})`
+      );
+    }
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+}
+
+async function deliverNotifications(
+  supabaseClient: any,
+  transport: EmailTransport,
+  mode: 'immediate' | 'digest'
+): Promise<DeliveryResult> {
+  const appUrl = (Deno.env.get('APP_URL') ?? 'http://localhost:5173').replace(/\/$/, '');
+  const result: DeliveryResult = { sent: 0, skipped: 0, failed: 0 };
+
+  const pending = await getPendingNotifications(supabaseClient, mode);
+  if (pending.length === 0) return result;
+
+  const byUser = new Map<string, PendingNotification[]>();
+  pending.forEach((notification) => {
+    byUser.set(notification.user_id, [
+      ...(byUser.get(notification.user_id) ?? []),
+      notification,
+    ]);
+  });
+
+  const { data: profiles, error: profilesError } = await supabaseClient
+    .from("user_profiles")
+    .select("id, preferences")
+    .in("id", Array.from(byUser.keys()));
+
+  if (profilesError) throw profilesError;
+
+  const preferencesByUser = new Map<string, NotificationPreferences>(
+    profiles.map((profile: any) => [profile.id, profile.preferences ?? {}])
+  );
+
+  for (const [userId, notifications] of byUser) {
+    const preferences = preferencesByUser.get(userId) ?? {};
+    const frequency = getEmailFrequency(preferences);
+
+    // Daily digests wait for the digest run
+    if (frequency === 'daily' && mode !== 'digest') continue;
+
+    const wanted = notifications.filter((notification) =>
+      wantsEmail(preferences, notification.type) &&
+      // Nothing to catch up on if it was already read in the app
+      !(frequency === 'daily' && notification.read_at)
+    );
+    const unwanted = notifications.filter((notification) => !wanted.includes(notification));
+
+    const email = wanted.length > 0 ? await getUserEmail(supabaseClient, userId) : null;
+    if (!email) {
+      await markProcessed(supabaseClient, notifications.map(({ id }) => id));
+      result.skipped += notifications.length;
+      continue;
+    }
+
+    await markProcessed(supabaseClient, unwanted.map(({ id }) => id));
+    result.skipped += unwanted.length;
+
+    // Failed sends stay pending and are retried on the next run
+    if (frequency === 'daily') {
+      try {
+        await transport.send(buildDigestEmail(email, appUrl, wanted));
+        await markProcessed(supabaseClient, wanted.map(({ id }) => id));
+        result.sent += 1;
+      } catch (error) {
+        console.error(`Error sending digest to ${userId}:`, error);
+        result.failed += 1;
+      }
+      continue;
+    }
+
+    for (const notification of wanted) {
+      try {
+        await transport.send(buildImmediateEmail(email, appUrl, notification));
+        await markProcessed(supabaseClient, [notification.id]);
+        result.sent += 1;
+      } catch (error) {
+        console.error(`Error emailing notification ${notification.id}:`, error);
+        result.failed += 1;
+      }
+    }
+  }
+
+  return result;
+}
+
+// Called on a schedule with the service role key: every minute or so with
+// { "mode": "immediate" }, and once a day with { "mode": "digest" }
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  let transport: EmailTransport | null = null;
+  try {
+    const { mode = 'immediate' } = await req.json().catch(() => ({}));
+
+    if (mode !== 'immediate' && mode !== 'digest') {
+      throw new Error(`Unknown delivery mode: ${mode}`);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey,
+    );
+
+    transport = getEmailTransport();
+    const result = await deliverNotifications(supabaseClient, transport, mode);
+    console.log(`Email ${mode} run via ${transport.name}:`, result);
+
+    return new Response(
+      JSON.stringify({ mode, ...result }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error sending notification emails:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } finally {
+    await transport?.close().catch(() => undefined);
+  }
+});
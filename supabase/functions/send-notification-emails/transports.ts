@@ -0,0 +1,95 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+// Types
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+// Every mail backend implements this interface so the edge function
+// doesn't care how the message leaves the building.
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Any SMTP server: a real relay in production, or a local catcher
+// (Inbucket, Mailpit, MailHog, ...) during development
+export class SmtpTransport implements EmailTransport {
+  name = 'smtp';
+  private client: SMTPClient;
+
+  constructor(
+    private from: string,
+    options: {
+      hostname: string;
+      port: number;
+      tls: boolean;
+      username?: string;
+      password?: string;
+    }
+  ) {
+    this.client = new SMTPClient({
+      connection: {
+        hostname: options.hostname,
+        port: options.port,
+        tls: options.tls,
+        auth: options.username
+          ? { username: options.username, password: options.password ?? '' }
+          : undefined,
+      },
+      // Local catchers accept plain connections without STARTTLS
+      debug: { allowUnsecure: !options.tls, noStartTLS: !options.tls },
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.client.send({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      content: message.text,
+      html: message.html,
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.client.close();
+  }
+}
+
+// Writes messages to the function log instead of sending them
+export class LogTransport implements EmailTransport {
+  name = 'log';
+
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`Email to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+
+  async close(): Promise<void> {}
+}
+
+// Pick the transport from the EMAIL_TRANSPORT env var. SMTP defaults to
+// the Inbucket catcher that `supabase start` runs on port 54325.
+export function getEmailTransport(): EmailTransport {
+  const transportName = Deno.env.get('EMAIL_TRANSPORT') ?? 'smtp';
+  const from = Deno.env.get('EMAIL_FROM') ?? 'Session Review <no-reply@localhost>';
+
+  switch (transportName) {
+    case 'smtp':
+      return new SmtpTransport(from, {
+        hostname: Deno.env.get('SMTP_HOST') ?? 'localhost',
+        port: Number(Deno.env.get('SMTP_PORT') ?? '54325'),
+        tls: Deno.env.get('SMTP_TLS') === 'true',
+        username: Deno.env.get('SMTP_USER') ?? undefined,
+        password: Deno.env.get('SMTP_PASS') ?? undefined,
+      });
+    case 'log':
+      return new LogTransport();
+    default:
+      throw new Error(`Unknown email transport: ${transportName}`);
+  }
+}
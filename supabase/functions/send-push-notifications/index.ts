@@ -0,0 +1,150 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import webpush from 'npm:web-push@3.6.7';
+
+import {
+  getNotificationLink,
+  isTypeEnabled,
+  NotificationPreferences,
+  PendingNotification,
+} from '../send-notification-emails/emails.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Push services drop a message nobody picked up within a day
+const PUSH_TTL_SECONDS = 60 * 60 * 24;
+
+type PushResult = { sent: number; removed: number; failed: number };
+
+function wantsPush(preferences: NotificationPreferences, notification: PendingNotification) {
+  return preferences.pushNotifications !== false &&
+    isTypeEnabled(preferences, notification.type);
+}
+
+async function pushNotification(
+  supabaseClient: any,
+  notification: PendingNotification
+): Promise<PushResult> {
+  const result: PushResult = { sent: 0, removed: 0, failed: 0 };
+
+  const { data: profile, error: profileError } = await supabaseClient
+    .from("user_profiles")
+    .select("preferences")
+    .eq("id", notification.user_id)
+    .maybeSingle();
+
+  if (profileError) throw profileError;
+
+  if (!wantsPush(profile?.preferences ?? {}, notification)) {
+    return result;
+  }
+
+  const { data: subscriptions, error: subscriptionsError } = await supabaseClient
+    .from("push_subscriptions")
+    .select("id, endpoint, p256dh, auth")
+    .eq("user_id", notification.user_id);
+
+  if (subscriptionsError) throw subscriptionsError;
+
+  // Like emails, pushes show on lock screens, so they carry the title and
+  // a link but never the message
+  const appUrl = (Deno.env.get('APP_URL') ?? 'http://localhost:5173').replace(/\/$/, '');
+  const payload = JSON.stringify({
+    title: notification.title,
+    url: getNotificationLink(appUrl, notification),
+    tag: notification.id,
+  });
+
+  for (const subscription of subscriptions) {
+    try {
+      await webpush.sendNotification(
+        {
+          endpoint: subscription.endpoint,
+          keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+        },
+        payload,
+        { TTL: PUSH_TTL_SECONDS }
+      );
+
+      await supabaseClient
+        .from("push_subscriptions")
+        .update({ last_used_at: new Date().toISOString() })
+        .eq("id", subscription.id);
+      result.sent += 1;
+    } catch (error) {
+      // The browser unsubscribed or the subscription expired
+      if (error.statusCode === 404 || error.statusCode === 410) {
+        await supabaseClient
+          .from("push_subscriptions")
+          .delete()
+          .eq("id", subscription.id);
+        result.removed += 1;
+      } else {
+        console.error(`Error pushing to device ${subscription.id}:`, error);
+        result.failed += 1;
+      }
+    }
+  }
+
+  return result;
+}
+
+// Called by a database webhook on INSERT into notifications, with the
+// service role key
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  try {
+    const { type, table, record } = await req.json();
+
+    if (type !== 'INSERT' || table !== 'notifications' || !record) {
+      throw new Error('Expected a notifications INSERT webhook payload');
+    }
+
+    webpush.setVapidDetails(
+      Deno.env.get('VAPID_SUBJECT') ?? 'mailto:admin@localhost',
+      Deno.env.get('VAPID_PUBLIC_KEY') ?? '',
+      Deno.env.get('VAPID_PRIVATE_KEY') ?? ''
+    );
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey,
+    );
+
+    const result = await pushNotification(supabaseClient, record);
+
+    return new Response(
+      JSON.stringify({ notificationId: record.id, ...result }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error sending push notifications:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
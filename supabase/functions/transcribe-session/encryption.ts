@@ -0,0 +1,132 @@
+// Decryption of recordings encrypted in the browser (see src/lib/crypto.ts).
+//
+// Encrypted recordings are shared with the 'processing' escrow key. Its
+// private key is stored as a JWK in the PROCESSING_PRIVATE_KEY secret and
+// never leaves the Edge Functions.
+
+const MAGIC = 'SRE1';
+const HEADER_SIZE = 16;
+const TAG_SIZE = 16;
+const CHUNK_SIZE = 256 * 1024;
+
+const RSA_PARAMS = { name: 'RSA-OAEP', hash: 'SHA-256' };
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+// IV and additional data for chunk `index`; must match the browser
+function chunkParams(ivPrefix: Uint8Array, index: number, isLast: boolean) {
+  const iv = new Uint8Array(12);
+  iv.set(ivPrefix);
+  new DataView(iv.buffer).setUint32(8, index);
+
+  const additionalData = new Uint8Array(5);
+  new DataView(additionalData.buffer).setUint32(0, index);
+  additionalData[4] = isLast ? 1 : 0;
+
+  return { name: 'AES-GCM', iv, additionalData };
+}
+
+async function getProcessingPrivateKey(): Promise<CryptoKey> {
+  const jwk = Deno.env.get('PROCESSING_PRIVATE_KEY');
+  if (!jwk) {
+    throw new Error('PROCESSING_PRIVATE_KEY is not set; encrypted recordings cannot be transcribed');
+  }
+
+  return crypto.subtle.importKey('jwk', JSON.parse(jwk), RSA_PARAMS, false, ['unwrapKey']);
+}
+
+// Unwrap the processing copy of a session key
+export async function getProcessingSessionKey(
+  supabaseClient: any,
+  sessionId: string,
+  keyVersion: number
+): Promise<CryptoKey> {
+  const { data, error } = await supabaseClient
+    .from('session_keys')
+    .select('wrapped_key')
+    .eq('session_id', sessionId)
+    .eq('key_version', keyVersion)
+    .eq('recipient', 'processing')
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw new Error('Recording was not shared with the processing key; ask an admin to set it up');
+  }
+
+  return crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(data.wrapped_key),
+    await getProcessingPrivateKey(),
+    RSA_PARAMS,
+    { name: 'AES-GCM' },
+    false,
+    // Encrypt too, so processed audio can be stored under the same key
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Decrypt a whole encrypted recording
+export async function decryptRecording(
+  encrypted: Blob,
+  key: CryptoKey,
+  mimeType?: string
+): Promise<Blob> {
+  const bytes = new Uint8Array(await encrypted.arrayBuffer());
+
+  if (
+    bytes.length < HEADER_SIZE ||
+    new TextDecoder().decode(bytes.slice(0, 4)) !== MAGIC
+  ) {
+    throw new Error('Not an encrypted recording');
+  }
+
+  const chunkSize = new DataView(bytes.buffer).getUint32(4) + TAG_SIZE;
+  const ivPrefix = bytes.slice(8, HEADER_SIZE);
+  const parts: Uint8Array[] = [];
+
+  let offset = HEADER_SIZE;
+  for (let index = 0; offset < bytes.length; index++) {
+    const end = Math.min(offset + chunkSize, bytes.length);
+    const plaintext = await crypto.subtle.decrypt(
+      chunkParams(ivPrefix, index, end === bytes.length),
+      key,
+      bytes.slice(offset, end)
+    );
+    parts.push(new Uint8Array(plaintext));
+    offset = end;
+  }
+
+  return new Blob(parts, { type: mimeType });
+}
+
+// Encrypt a recording in the same chunked format as the browser
+export async function encryptRecording(
+  plaintext: Blob,
+  key: CryptoKey
+): Promise<Blob> {
+  const bytes = new Uint8Array(await plaintext.arrayBuffer());
+  const ivPrefix = crypto.getRandomValues(new Uint8Array(8));
+  const header = new Uint8Array(HEADER_SIZE);
+  header.set(new TextEncoder().encode(MAGIC));
+  new DataView(header.buffer).setUint32(4, CHUNK_SIZE);
+  header.set(ivPrefix, 8);
+
+  const parts: BlobPart[] = [header];
+  const chunkCount = Math.max(Math.ceil(bytes.length / CHUNK_SIZE), 1);
+  for (let index = 0; index < chunkCount; index++) {
+    parts.push(
+      await crypto.subtle.encrypt(
+        chunkParams(ivPrefix, index, index === chunkCount - 1),
+        key,
+        bytes.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE)
+      )
+    );
+  }
+
+  return new Blob(parts, { type: 'application/octet-stream' });
+}
@@ -0,0 +1,228 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+import { getTranscriptionProvider, TranscribedSegment } from './providers.ts';
+import { decryptRecording, getProcessingSessionKey } from './encryption.ts';
+import {
+  extractNames,
+  getRedactionRules,
+  redactSegments,
+} from '../redact-transcript/redaction.ts';
+import {
+  renderRedactedAudio,
+  storeRedactionRanges,
+} from '../process-recording/redactedAudio.ts';
+
+// Supabase edge runtime global used to keep working after the response is sent
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+async function setTranscriptionStatus(
+  supabaseClient: any,
+  sessionId: string,
+  status: 'queued' | 'transcribing' | 'ready' | 'failed',
+  errorMessage: string | null = null
+) {
+  const { error } = await supabaseClient
+    .from("sessions")
+    .update({
+      transcription_status: status,
+      transcription_error: errorMessage,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", sessionId);
+
+  if (error) {
+    console.error(`Error setting transcription status to ${status}:`, error);
+  }
+}
+
+// Rename raw diarization labels (SPEAKER_00, spk_1, ...) to "Speaker 1",
+// "Speaker 2", ... in order of first appearance
+function normalizeSpeakers(segments: TranscribedSegment[]): TranscribedSegment[] {
+  const speakerNames = new Map<string, string>();
+
+  return segments.map((segment) => {
+    if (!segment.speaker) {
+      return segment;
+    }
+    if (!speakerNames.has(segment.speaker)) {
+      speakerNames.set(segment.speaker, `Speaker ${speakerNames.size + 1}`);
+    }
+    return { ...segment, speaker: speakerNames.get(segment.speaker) };
+  });
+}
+
+async function transcribeSession(supabaseClient: any, session: any) {
+  try {
+    // Inside the try so a misconfigured provider marks the session failed
+    const provider = getTranscriptionProvider();
+    console.log(`Transcribing session ${session.id} with ${provider.name}`);
+
+    await setTranscriptionStatus(supabaseClient, session.id, 'transcribing');
+
+    // audio_url holds the path in the private audio bucket
+    const { data: download, error: downloadError } = await supabaseClient.storage
+      .from('audio')
+      .download(session.audio_url);
+
+    if (downloadError) {
+      throw new Error(`Could not download audio: ${downloadError.message}`);
+    }
+
+    // Recordings encrypted in the browser are decrypted in memory only
+    let audio = download;
+    let fileName = session.audio_url.split('/').pop() || 'session-audio';
+    if (session.is_encrypted) {
+      const key = await getProcessingSessionKey(
+        supabaseClient,
+        session.id,
+        session.key_version
+      );
+      audio = await decryptRecording(download, key, session.audio_mime_type);
+      fileName = fileName.replace(/\.enc$/, '');
+    }
+
+    const segments = normalizeSpeakers(
+      await provider.transcribe(audio, { fileName })
+    );
+
+    // Redact PII up front so supervisors never see an unredacted row
+    const { redactedText, ranges } = redactSegments(
+      segments.map((segment, index) => ({ ...segment, id: String(index) })),
+      getRedactionRules(extractNames(session.notes))
+    );
+
+    // Replace any transcript left over from a previous run, in one transaction
+    const { error: replaceError } = await supabaseClient.rpc("replace_transcript", {
+      p_session_id: session.id,
+      p_segments: segments.map((segment, index) => ({
+        start: segment.start,
+        end: segment.end,
+        text: segment.text,
+        redacted_text: redactedText[String(index)] ?? null,
+        speaker: segment.speaker ?? null,
+        confidence: segment.confidence ?? null,
+      })),
+    });
+
+    if (replaceError) {
+      throw replaceError;
+    }
+
+    await storeRedactionRanges(supabaseClient, session.id, ranges);
+
+    await setTranscriptionStatus(supabaseClient, session.id, 'ready');
+    console.log(`Stored ${segments.length} segments for session ${session.id}`);
+
+    // The supervisor can't play the recording until its bleeped copy exists
+    await renderRedactedAudio(supabaseClient, session.id).catch((error) =>
+      console.error(`Error rendering redacted audio for session ${session.id}:`, error)
+    );
+  } catch (error) {
+    console.error(`Error transcribing session ${session.id}:`, error);
+    await setTranscriptionStatus(
+      supabaseClient,
+      session.id,
+      'failed',
+      error.message ?? String(error)
+    );
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { sessionId } = await req.json();
+
+    if (!sessionId) {
+      throw new Error('Missing required parameters');
+    }
+
+    // Look the session up as the caller so RLS decides whether they may see it
+    const userClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+
+    const { data: visibleSession, error: sessionError } = await userClient
+      .from("sessions")
+      .select("id, user_id")
+      .eq("id", sessionId)
+      .single();
+
+    if (sessionError || !visibleSession) {
+      return new Response(
+        JSON.stringify({ error: 'Session not found' }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Transcribing replaces the transcript, with its corrections and
+    // redactions, so only the owner may start it
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user || user.id !== visibleSession.user_id) {
+      return new Response(
+        JSON.stringify({ error: 'Only the session owner can transcribe it' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    // audio_url isn't readable by signed-in users, so the rest of the row
+    // is loaded with the service role
+    const { data: session, error: loadError } = await supabaseClient
+      .from("sessions")
+      .select("id, user_id, audio_url, notes, is_encrypted, key_version, audio_mime_type")
+      .eq("id", visibleSession.id)
+      .single();
+
+    if (loadError) {
+      throw loadError;
+    }
+
+    if (!session.audio_url) {
+      throw new Error('Session has no audio to transcribe');
+    }
+
+    await setTranscriptionStatus(supabaseClient, session.id, 'queued');
+
+    // Transcription can take minutes, so answer now and keep working
+    EdgeRuntime.waitUntil(transcribeSession(supabaseClient, session));
+
+    return new Response(
+      JSON.stringify({ sessionId: session.id, status: 'queued' }),
+      {
+        status: 202,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    console.error('Error queueing transcription:', error);
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    );
+  }
+});
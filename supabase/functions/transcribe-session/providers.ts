@@ -0,0 +1,96 @@
+// Types
+export type TranscribedSegment = {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string | null;
+  confidence?: number | null;
+};
+
+export type TranscriptionOptions = {
+  fileName: string;
+  language?: string;
+};
+
+// Every speech-to-text backend implements this interface so the
+// edge function doesn't care which engine produced the segments.
+export interface TranscriptionProvider {
+  name: string;
+  transcribe(
+    audio: Blob,
+    options: TranscriptionOptions
+  ): Promise<TranscribedSegment[]>;
+}
+
+// Talks to any server exposing the OpenAI-style
+// POST /v1/audio/transcriptions endpoint (whisper.cpp server,
+// faster-whisper-server, LocalAI, ...).
+export class WhisperHttpProvider implements TranscriptionProvider {
+  name = 'whisper-http';
+
+  constructor(
+    private baseUrl: string,
+    private model: string = 'whisper-1',
+    private apiKey?: string
+  ) {}
+
+  async transcribe(
+    audio: Blob,
+    options: TranscriptionOptions
+  ): Promise<TranscribedSegment[]> {
+    const form = new FormData();
+    form.append('file', audio, options.fileName);
+    form.append('model', this.model);
+    form.append('response_format', 'verbose_json');
+    if (options.language) {
+      form.append('language', options.language);
+    }
+
+    const headers: Record<string, string> = {};
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(
+      `${this.baseUrl.replace(/\/$/, '')}/v1/audio/transcriptions`,
+      { method: 'POST', body: form, headers }
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `Whisper server responded with ${response.status}: ${await response.text()}`
+      );
+    }
+
+    const result = await response.json();
+
+    return (result.segments || []).map((segment: any) => ({
+      start: segment.start,
+      end: segment.end,
+      text: String(segment.text || '').trim(),
+      // Diarizing servers (e.g. WhisperX) label each segment with a speaker
+      speaker: segment.speaker ?? null,
+      // avg_logprob is a log probability; map it back onto 0..1
+      confidence:
+        typeof segment.avg_logprob === 'number'
+          ? Math.min(1, Math.exp(segment.avg_logprob))
+          : null,
+    }));
+  }
+}
+
+// Pick the provider from the TRANSCRIPTION_PROVIDER env var
+export function getTranscriptionProvider(): TranscriptionProvider {
+  const providerName = Deno.env.get('TRANSCRIPTION_PROVIDER') ?? 'whisper-http';
+
+  switch (providerName) {
+    case 'whisper-http':
+      return new WhisperHttpProvider(
+        Deno.env.get('WHISPER_API_URL') ?? 'http://localhost:9000',
+        Deno.env.get('WHISPER_MODEL') ?? 'whisper-1',
+        Deno.env.get('WHISPER_API_KEY') ?? undefined
+      );
+    default:
+      throw new Error(`Unknown transcription provider: ${providerName}`);
+  }
+}
@@ -0,0 +1,64 @@
+-- Create transcript_segments table
+CREATE TABLE IF NOT EXISTS transcript_segments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  start FLOAT NOT NULL,
+  "end" FLOAT NOT NULL,
+  text TEXT NOT NULL,
+  speaker TEXT,
+  confidence FLOAT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS transcript_segments_session_id_start_idx
+  ON transcript_segments(session_id, start);
+
+-- Enable RLS
+ALTER TABLE transcript_segments ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for transcript segments (mirrors access to the parent session)
+DROP POLICY IF EXISTS "Users can view transcripts of their own sessions" ON transcript_segments;
+CREATE POLICY "Users can view transcripts of their own sessions"
+  ON transcript_segments FOR SELECT
+  USING (
+    session_id IN (
+      SELECT id FROM sessions WHERE user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Supervisors can view transcripts of assigned sessions" ON transcript_segments;
+CREATE POLICY "Supervisors can view transcripts of assigned sessions"
+  ON transcript_segments FOR SELECT
+  USING (
+    session_id IN (
+      SELECT id FROM sessions WHERE supervisor_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can insert transcripts for their own sessions" ON transcript_segments;
+CREATE POLICY "Users can insert transcripts for their own sessions"
+  ON transcript_segments FOR INSERT
+  WITH CHECK (
+    session_id IN (
+      SELECT id FROM sessions WHERE user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update transcripts of their own sessions" ON transcript_segments;
+CREATE POLICY "Users can update transcripts of their own sessions"
+  ON transcript_segments FOR UPDATE
+  USING (
+    session_id IN (
+      SELECT id FROM sessions WHERE user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can delete transcripts of their own sessions" ON transcript_segments;
+CREATE POLICY "Users can delete transcripts of their own sessions"
+  ON transcript_segments FOR DELETE
+  USING (
+    session_id IN (
+      SELECT id FROM sessions WHERE user_id = auth.uid()
+    )
+  );
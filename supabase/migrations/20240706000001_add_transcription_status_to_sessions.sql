@@ -0,0 +1,25 @@
+-- Track speech-to-text progress separately from the review status
+DO $$
+BEGIN
+    -- Add transcription_status column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_schema = 'public' 
+        AND table_name = 'sessions' 
+        AND column_name = 'transcription_status'
+    ) THEN
+        ALTER TABLE public.sessions ADD COLUMN transcription_status TEXT
+          CHECK (transcription_status IN ('queued', 'transcribing', 'ready', 'failed'));
+    END IF;
+
+    -- Add transcription_error column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_schema = 'public' 
+        AND table_name = 'sessions' 
+        AND column_name = 'transcription_error'
+    ) THEN
+        ALTER TABLE public.sessions ADD COLUMN transcription_error TEXT;
+    END IF;
+END
+$$;
@@ -0,0 +1,17 @@
+-- Map diarized speaker IDs (e.g. "Speaker 1") to their role in the session
+DO $$
+BEGIN
+    -- Add speaker_roles column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns 
+        WHERE table_schema = 'public' 
+        AND table_name = 'sessions' 
+        AND column_name = 'speaker_roles'
+    ) THEN
+        ALTER TABLE public.sessions ADD COLUMN speaker_roles JSONB NOT NULL DEFAULT '{}'::jsonb;
+    END IF;
+END
+$$;
+
+CREATE INDEX IF NOT EXISTS transcript_segments_session_id_speaker_idx
+  ON transcript_segments(session_id, speaker);
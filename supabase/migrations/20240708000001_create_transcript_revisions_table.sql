@@ -0,0 +1,194 @@
+-- Anchor feedback to the transcript segment it was left on
+DO $$
+BEGIN
+    -- Add segment_id column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'feedback'
+        AND column_name = 'segment_id'
+    ) THEN
+        ALTER TABLE public.feedback ADD COLUMN segment_id UUID
+          REFERENCES transcript_segments(id) ON DELETE SET NULL;
+    END IF;
+END
+$$;
+
+-- Create transcript_revisions table
+CREATE TABLE IF NOT EXISTS transcript_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('edit', 'retime', 'split', 'merge')),
+  segment_ids UUID[] NOT NULL,
+  before JSONB NOT NULL,
+  after JSONB NOT NULL,
+  author_id UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS transcript_revisions_session_id_idx
+  ON transcript_revisions(session_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE transcript_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are read-only for clients; they are written by the functions below
+DROP POLICY IF EXISTS "Users can view revisions of their sessions" ON transcript_revisions;
+CREATE POLICY "Users can view revisions of their sessions"
+  ON transcript_revisions FOR SELECT
+  USING (
+    session_id IN (
+      SELECT id FROM sessions WHERE user_id = auth.uid() OR supervisor_id = auth.uid()
+    )
+  );
+
+-- Both the counselor and the assigned supervisor may correct a transcript
+CREATE OR REPLACE FUNCTION public.can_edit_transcript(p_session_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM sessions
+    WHERE id = p_session_id
+    AND (user_id = auth.uid() OR supervisor_id = auth.uid())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Change the text and/or boundaries of a single segment
+CREATE OR REPLACE FUNCTION public.edit_transcript_segment(
+  p_segment_id UUID,
+  p_text TEXT,
+  p_start FLOAT,
+  p_end FLOAT
+)
+RETURNS transcript_segments AS $$
+DECLARE
+  v_before transcript_segments;
+  v_after transcript_segments;
+BEGIN
+  SELECT * INTO v_before FROM transcript_segments WHERE id = p_segment_id;
+  IF NOT FOUND OR NOT public.can_edit_transcript(v_before.session_id) THEN
+    RAISE EXCEPTION 'Transcript segment not found';
+  END IF;
+
+  IF p_start >= p_end THEN
+    RAISE EXCEPTION 'A segment must end after it starts';
+  END IF;
+
+  UPDATE transcript_segments
+  SET text = p_text, start = p_start, "end" = p_end, updated_at = NOW()
+  WHERE id = p_segment_id
+  RETURNING * INTO v_after;
+
+  INSERT INTO transcript_revisions (session_id, action, segment_ids, before, after, author_id)
+  VALUES (
+    v_before.session_id,
+    CASE WHEN v_before.text = p_text THEN 'retime' ELSE 'edit' END,
+    ARRAY[p_segment_id],
+    jsonb_build_array(to_jsonb(v_before)),
+    jsonb_build_array(to_jsonb(v_after)),
+    auth.uid()
+  );
+
+  RETURN v_after;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Split a segment in two at p_split_at seconds
+CREATE OR REPLACE FUNCTION public.split_transcript_segment(
+  p_segment_id UUID,
+  p_split_at FLOAT,
+  p_first_text TEXT,
+  p_second_text TEXT
+)
+RETURNS SETOF transcript_segments AS $$
+DECLARE
+  v_before transcript_segments;
+  v_first transcript_segments;
+  v_second transcript_segments;
+BEGIN
+  SELECT * INTO v_before FROM transcript_segments WHERE id = p_segment_id;
+  IF NOT FOUND OR NOT public.can_edit_transcript(v_before.session_id) THEN
+    RAISE EXCEPTION 'Transcript segment not found';
+  END IF;
+
+  IF p_split_at <= v_before.start OR p_split_at >= v_before."end" THEN
+    RAISE EXCEPTION 'The split point must fall inside the segment';
+  END IF;
+
+  UPDATE transcript_segments
+  SET text = p_first_text, "end" = p_split_at, updated_at = NOW()
+  WHERE id = p_segment_id
+  RETURNING * INTO v_first;
+
+  INSERT INTO transcript_segments (session_id, start, "end", text, speaker, confidence)
+  VALUES (v_before.session_id, p_split_at, v_before."end", p_second_text, v_before.speaker, v_before.confidence)
+  RETURNING * INTO v_second;
+
+  -- Feedback anchored after the split point follows the second half
+  UPDATE feedback
+  SET segment_id = v_second.id
+  WHERE segment_id = p_segment_id
+  AND timestamp >= p_split_at;
+
+  INSERT INTO transcript_revisions (session_id, action, segment_ids, before, after, author_id)
+  VALUES (
+    v_before.session_id,
+    'split',
+    ARRAY[v_first.id, v_second.id],
+    jsonb_build_array(to_jsonb(v_before)),
+    jsonb_build_array(to_jsonb(v_first), to_jsonb(v_second)),
+    auth.uid()
+  );
+
+  RETURN NEXT v_first;
+  RETURN NEXT v_second;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Merge two neighbouring segments into the first one
+CREATE OR REPLACE FUNCTION public.merge_transcript_segments(
+  p_first_id UUID,
+  p_second_id UUID
+)
+RETURNS transcript_segments AS $$
+DECLARE
+  v_first transcript_segments;
+  v_second transcript_segments;
+  v_merged transcript_segments;
+BEGIN
+  SELECT * INTO v_first FROM transcript_segments WHERE id = p_first_id;
+  SELECT * INTO v_second FROM transcript_segments WHERE id = p_second_id;
+  IF v_first.id IS NULL OR v_second.id IS NULL
+    OR v_first.session_id <> v_second.session_id
+    OR NOT public.can_edit_transcript(v_first.session_id) THEN
+    RAISE EXCEPTION 'Transcript segments not found';
+  END IF;
+
+  UPDATE transcript_segments
+  SET
+    text = v_first.text || ' ' || v_second.text,
+    start = LEAST(v_first.start, v_second.start),
+    "end" = GREATEST(v_first."end", v_second."end"),
+    updated_at = NOW()
+  WHERE id = p_first_id
+  RETURNING * INTO v_merged;
+
+  -- Move feedback over before the second segment disappears
+  UPDATE feedback
+  SET segment_id = p_first_id
+  WHERE segment_id = p_second_id;
+
+  DELETE FROM transcript_segments WHERE id = p_second_id;
+
+  INSERT INTO transcript_revisions (session_id, action, segment_ids, before, after, author_id)
+  VALUES (
+    v_first.session_id,
+    'merge',
+    ARRAY[p_first_id, p_second_id],
+    jsonb_build_array(to_jsonb(v_first), to_jsonb(v_second)),
+    jsonb_build_array(to_jsonb(v_merged)),
+    auth.uid()
+  );
+
+  RETURN v_merged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
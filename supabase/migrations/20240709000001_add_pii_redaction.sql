@@ -0,0 +1,102 @@
+-- Redacted copy of each transcript segment (NULL when no PII was found)
+DO $$
+BEGIN
+    -- Add redacted_text column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'transcript_segments'
+        AND column_name = 'redacted_text'
+    ) THEN
+        ALTER TABLE public.transcript_segments ADD COLUMN redacted_text TEXT;
+    END IF;
+
+    -- Add redaction_ranges column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'sessions'
+        AND column_name = 'redaction_ranges'
+    ) THEN
+        -- Audio ranges to bleep, e.g. [{"start": 12.3, "end": 13.1, "category": "name"}]
+        ALTER TABLE public.sessions ADD COLUMN redaction_ranges JSONB NOT NULL DEFAULT '[]';
+    END IF;
+END
+$$;
+
+-- True once the redaction pass has found PII in the session transcript
+CREATE OR REPLACE FUNCTION public.transcript_is_redacted(p_session_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM transcript_segments
+    WHERE session_id = p_session_id
+    AND redacted_text IS NOT NULL
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Supervisors no longer read segments directly; they go through get_session_transcript
+DROP POLICY IF EXISTS "Supervisors can view transcripts of assigned sessions" ON transcript_segments;
+
+-- The owner gets the original text, everyone else the redacted copy
+CREATE OR REPLACE FUNCTION public.get_session_transcript(p_session_id UUID)
+RETURNS TABLE (
+  id UUID,
+  start FLOAT,
+  "end" FLOAT,
+  text TEXT,
+  redacted_text TEXT,
+  speaker TEXT,
+  confidence FLOAT
+) AS $$
+DECLARE
+  v_is_owner BOOLEAN;
+BEGIN
+  SELECT s.user_id = auth.uid() INTO v_is_owner
+  FROM sessions s
+  WHERE s.id = p_session_id
+  AND (s.user_id = auth.uid() OR s.supervisor_id = auth.uid());
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    ts.id,
+    ts.start,
+    ts."end",
+    CASE WHEN v_is_owner THEN ts.text ELSE COALESCE(ts.redacted_text, ts.text) END,
+    ts.redacted_text,
+    ts.speaker,
+    ts.confidence
+  FROM transcript_segments ts
+  WHERE ts.session_id = p_session_id
+  ORDER BY ts.start;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Corrections work on the original text, so once a transcript holds redacted
+-- PII only the owner may correct it
+CREATE OR REPLACE FUNCTION public.can_edit_transcript(p_session_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM sessions
+    WHERE id = p_session_id
+    AND (
+      user_id = auth.uid()
+      OR (supervisor_id = auth.uid() AND NOT public.transcript_is_redacted(p_session_id))
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Revisions carry original text, so hide them from supervisors of redacted transcripts
+DROP POLICY IF EXISTS "Users can view revisions of their sessions" ON transcript_revisions;
+CREATE POLICY "Users can view revisions of their sessions"
+  ON transcript_revisions FOR SELECT
+  USING (
+    session_id IN (
+      SELECT id FROM sessions
+      WHERE user_id = auth.uid()
+      OR (supervisor_id = auth.uid() AND NOT public.transcript_is_redacted(id))
+    )
+  );
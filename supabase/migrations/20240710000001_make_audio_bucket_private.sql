@@ -0,0 +1,58 @@
+-- Session recordings and feedback audio are confidential: make the bucket private
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('audio', 'audio', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+-- Store storage paths instead of public URLs; clients mint signed URLs on demand
+UPDATE sessions
+SET audio_url = regexp_replace(audio_url, '^.*/storage/v1/object/public/audio/', '')
+WHERE audio_url LIKE '%/storage/v1/object/public/audio/%';
+
+UPDATE feedback
+SET audio_feedback = regexp_replace(audio_feedback, '^.*/storage/v1/object/public/audio/', '')
+WHERE audio_feedback LIKE '%/storage/v1/object/public/audio/%';
+
+UPDATE feedback
+SET audio_response = regexp_replace(audio_response, '^.*/storage/v1/object/public/audio/', '')
+WHERE audio_response LIKE '%/storage/v1/object/public/audio/%';
+
+-- New uploads go to sessions/<user id>/... or feedback/<user id>/...
+DROP POLICY IF EXISTS "Users can upload audio to their own folder" ON storage.objects;
+CREATE POLICY "Users can upload audio to their own folder"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'audio'
+    AND (storage.foldername(name))[1] IN ('sessions', 'feedback')
+    AND (storage.foldername(name))[2] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Users can delete audio in their own folder" ON storage.objects;
+CREATE POLICY "Users can delete audio in their own folder"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'audio'
+    AND (storage.foldername(name))[2] = auth.uid()::text
+  );
+
+-- Recordings are readable by the uploader and by whoever can see the session
+-- or feedback they belong to (the session owner and the assigned supervisor)
+DROP POLICY IF EXISTS "Session participants can read audio" ON storage.objects;
+CREATE POLICY "Session participants can read audio"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'audio'
+    AND (
+      (storage.foldername(name))[2] = auth.uid()::text
+      OR EXISTS (
+        SELECT 1 FROM sessions s
+        WHERE s.audio_url = storage.objects.name
+        AND (s.user_id = auth.uid() OR s.supervisor_id = auth.uid())
+      )
+      OR EXISTS (
+        SELECT 1 FROM feedback f
+        JOIN sessions s ON s.id = f.session_id
+        WHERE (f.audio_feedback = storage.objects.name OR f.audio_response = storage.objects.name)
+        AND (s.user_id = auth.uid() OR s.supervisor_id = auth.uid())
+      )
+    )
+  );
@@ -0,0 +1,175 @@
+-- Encryption metadata on sessions
+DO $$
+BEGIN
+    -- Add is_encrypted column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'sessions'
+        AND column_name = 'is_encrypted'
+    ) THEN
+        ALTER TABLE public.sessions ADD COLUMN is_encrypted BOOLEAN NOT NULL DEFAULT false;
+    END IF;
+
+    -- Add audio_mime_type column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'sessions'
+        AND column_name = 'audio_mime_type'
+    ) THEN
+        -- Type of the plaintext recording, needed to play it after decryption
+        ALTER TABLE public.sessions ADD COLUMN audio_mime_type TEXT;
+    END IF;
+
+    -- Add key_version column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'sessions'
+        AND column_name = 'key_version'
+    ) THEN
+        -- Bumped every time the session key is rotated
+        ALTER TABLE public.sessions ADD COLUMN key_version INTEGER NOT NULL DEFAULT 1;
+    END IF;
+END
+$$;
+
+-- True when the current user is an admin
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE auth.users.id = auth.uid()
+    AND auth.users.raw_user_meta_data->>'role' = 'admin'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Admins need to see encrypted sessions to restore users' access to them
+DROP POLICY IF EXISTS "Admins can view all sessions" ON sessions;
+CREATE POLICY "Admins can view all sessions"
+  ON sessions FOR SELECT
+  USING (public.is_admin());
+
+-- Per-user key pairs; the private key is wrapped with a key derived from the user's passphrase
+CREATE TABLE IF NOT EXISTS user_encryption_keys (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  public_key JSONB NOT NULL,
+  wrapped_private_key TEXT NOT NULL,
+  salt TEXT NOT NULL,
+  iv TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE user_encryption_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own encryption keys" ON user_encryption_keys;
+CREATE POLICY "Users can view their own encryption keys"
+  ON user_encryption_keys FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create their own encryption keys" ON user_encryption_keys;
+CREATE POLICY "Users can create their own encryption keys"
+  ON user_encryption_keys FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their own encryption keys" ON user_encryption_keys;
+CREATE POLICY "Users can update their own encryption keys"
+  ON user_encryption_keys FOR UPDATE
+  USING (user_id = auth.uid());
+
+-- Organisation-wide keys: 'recovery' lets admins restore access, 'processing'
+-- lets Edge Functions (transcription) read recordings. The processing private
+-- key only lives in the Edge Function secrets.
+CREATE TABLE IF NOT EXISTS encryption_escrow_keys (
+  id TEXT PRIMARY KEY CHECK (id IN ('recovery', 'processing')),
+  public_key JSONB NOT NULL,
+  wrapped_private_key TEXT,
+  salt TEXT,
+  iv TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE encryption_escrow_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage escrow keys" ON encryption_escrow_keys;
+CREATE POLICY "Admins can manage escrow keys"
+  ON encryption_escrow_keys FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- Public keys are needed by everyone who wraps a session key
+CREATE OR REPLACE FUNCTION public.get_encryption_public_keys(p_user_ids UUID[])
+RETURNS TABLE (owner_id TEXT, public_key JSONB) AS $$
+  SELECT user_id::text, user_encryption_keys.public_key
+  FROM user_encryption_keys
+  WHERE user_id = ANY(p_user_ids)
+  UNION ALL
+  SELECT id, encryption_escrow_keys.public_key
+  FROM encryption_escrow_keys;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Session keys wrapped for each recipient
+CREATE TABLE IF NOT EXISTS session_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  recipient TEXT NOT NULL CHECK (recipient IN ('user', 'recovery', 'processing')),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  key_version INTEGER NOT NULL,
+  wrapped_key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK ((recipient = 'user') = (user_id IS NOT NULL)),
+  UNIQUE NULLS NOT DISTINCT (session_id, key_version, recipient, user_id)
+);
+
+ALTER TABLE session_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own session keys" ON session_keys;
+CREATE POLICY "Users can view their own session keys"
+  ON session_keys FOR SELECT
+  USING (user_id = auth.uid() OR public.is_admin());
+
+-- The owner shares keys when uploading or rotating; admins when restoring access
+DROP POLICY IF EXISTS "Owners and admins can add session keys" ON session_keys;
+CREATE POLICY "Owners and admins can add session keys"
+  ON session_keys FOR INSERT
+  WITH CHECK (
+    session_id IN (SELECT id FROM sessions WHERE user_id = auth.uid())
+    OR (recipient = 'user' AND public.is_admin())
+  );
+
+-- Restoring access replaces the copy wrapped for a user's lost key pair
+DROP POLICY IF EXISTS "Admins can replace session keys" ON session_keys;
+CREATE POLICY "Admins can replace session keys"
+  ON session_keys FOR UPDATE
+  USING (recipient = 'user' AND public.is_admin());
+
+DROP POLICY IF EXISTS "Owners can remove session keys" ON session_keys;
+CREATE POLICY "Owners can remove session keys"
+  ON session_keys FOR DELETE
+  USING (session_id IN (SELECT id FROM sessions WHERE user_id = auth.uid()));
+
+-- Revoke a supervisor's copy of the key as soon as they are taken off a session.
+-- The owner's client then rotates the key and re-encrypts the recording.
+CREATE OR REPLACE FUNCTION public.revoke_previous_supervisor_key()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.supervisor_id IS NOT NULL THEN
+    DELETE FROM session_keys
+    WHERE session_id = NEW.id
+    AND recipient = 'user'
+    AND user_id = OLD.supervisor_id
+    AND user_id <> NEW.user_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_session_supervisor_changed ON sessions;
+CREATE TRIGGER on_session_supervisor_changed
+  AFTER UPDATE OF supervisor_id ON sessions
+  FOR EACH ROW
+  WHEN (OLD.supervisor_id IS DISTINCT FROM NEW.supervisor_id)
+  EXECUTE FUNCTION public.revoke_previous_supervisor_key();
@@ -0,0 +1,5 @@
+-- Long WAV recordings easily exceed the default upload size; they are now
+-- uploaded in chunks over tus, so allow files up to 2 GiB per object
+UPDATE storage.buckets
+SET file_size_limit = 2147483648
+WHERE id = 'audio';
@@ -0,0 +1,91 @@
+-- Uploads are transcoded and loudness-normalized by the process-recording
+-- Edge Function, which also records the audio metadata
+DO $$
+BEGIN
+    -- Add processing_status column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'sessions'
+        AND column_name = 'processing_status'
+    ) THEN
+        ALTER TABLE public.sessions ADD COLUMN processing_status TEXT
+          CHECK (processing_status IN ('queued', 'processing', 'ready', 'failed'));
+    END IF;
+
+    -- Add processing_error column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'sessions'
+        AND column_name = 'processing_error'
+    ) THEN
+        ALTER TABLE public.sessions ADD COLUMN processing_error TEXT;
+    END IF;
+
+    -- Add sample_rate column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'sessions'
+        AND column_name = 'sample_rate'
+    ) THEN
+        ALTER TABLE public.sessions ADD COLUMN sample_rate INTEGER;
+    END IF;
+
+    -- Add channels column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'sessions'
+        AND column_name = 'channels'
+    ) THEN
+        ALTER TABLE public.sessions ADD COLUMN channels INTEGER;
+    END IF;
+
+    -- Add bit_rate column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'sessions'
+        AND column_name = 'bit_rate'
+    ) THEN
+        ALTER TABLE public.sessions ADD COLUMN bit_rate INTEGER;
+    END IF;
+
+    -- Add loudness_lufs column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'sessions'
+        AND column_name = 'loudness_lufs'
+    ) THEN
+        -- Integrated loudness of the upload, before normalization
+        ALTER TABLE public.sessions ADD COLUMN loudness_lufs FLOAT;
+    END IF;
+
+    -- Add trimmed_start column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'sessions'
+        AND column_name = 'trimmed_start'
+    ) THEN
+        -- Seconds of leading silence removed from the upload
+        ALTER TABLE public.sessions ADD COLUMN trimmed_start FLOAT;
+    END IF;
+
+    -- Add original_mime_type column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'sessions'
+        AND column_name = 'original_mime_type'
+    ) THEN
+        ALTER TABLE public.sessions ADD COLUMN original_mime_type TEXT;
+    END IF;
+END
+$$;
+
+-- Duration is measured by the server now, to the millisecond
+ALTER TABLE public.sessions ALTER COLUMN duration TYPE FLOAT;
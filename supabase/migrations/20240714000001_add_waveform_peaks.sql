@@ -0,0 +1,37 @@
+-- Precomputed waveform peaks for each recording
+DO $$
+BEGIN
+    -- Add peaks_url column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'sessions'
+        AND column_name = 'peaks_url'
+    ) THEN
+        -- Storage path of the peaks JSON (audiowaveform format)
+        ALTER TABLE public.sessions ADD COLUMN peaks_url TEXT;
+    END IF;
+END
+$$;
+
+-- Peaks files are readable by whoever can read the recording they belong to
+DROP POLICY IF EXISTS "Session participants can read audio" ON storage.objects;
+CREATE POLICY "Session participants can read audio"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'audio'
+    AND (
+      (storage.foldername(name))[2] = auth.uid()::text
+      OR EXISTS (
+        SELECT 1 FROM sessions s
+        WHERE (s.audio_url = storage.objects.name OR s.peaks_url = storage.objects.name)
+        AND (s.user_id = auth.uid() OR s.supervisor_id = auth.uid())
+      )
+      OR EXISTS (
+        SELECT 1 FROM feedback f
+        JOIN sessions s ON s.id = f.session_id
+        WHERE (f.audio_feedback = storage.objects.name OR f.audio_response = storage.objects.name)
+        AND (s.user_id = auth.uid() OR s.supervisor_id = auth.uid())
+      )
+    )
+  );
@@ -0,0 +1,154 @@
+-- Threaded discussions on feedback items
+CREATE TABLE IF NOT EXISTS feedback_replies (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  feedback_id UUID NOT NULL REFERENCES feedback(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  text TEXT,
+  audio_path TEXT,            -- Storage path of a recorded reply in the audio bucket
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT feedback_replies_has_content
+    CHECK (COALESCE(btrim(text), '') <> '' OR audio_path IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS feedback_replies_feedback_id_idx
+  ON feedback_replies(feedback_id, created_at);
+
+-- Each thread can be marked resolved by either party
+DO $$
+BEGIN
+    -- Add resolved_at column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'feedback'
+        AND column_name = 'resolved_at'
+    ) THEN
+        ALTER TABLE public.feedback ADD COLUMN resolved_at TIMESTAMP WITH TIME ZONE;
+    END IF;
+
+    -- Add resolved_by column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'feedback'
+        AND column_name = 'resolved_by'
+    ) THEN
+        ALTER TABLE public.feedback ADD COLUMN resolved_by UUID
+          REFERENCES auth.users(id) ON DELETE SET NULL;
+    END IF;
+END
+$$;
+
+-- The counselor and the assigned supervisor of the session take part in its threads
+CREATE OR REPLACE FUNCTION public.can_discuss_feedback(p_feedback_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM feedback f
+    JOIN sessions s ON s.id = f.session_id
+    WHERE f.id = p_feedback_id
+    AND (s.user_id = auth.uid() OR s.supervisor_id = auth.uid())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Enable RLS
+ALTER TABLE feedback_replies ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can view replies" ON feedback_replies;
+CREATE POLICY "Participants can view replies"
+  ON feedback_replies FOR SELECT
+  USING (public.can_discuss_feedback(feedback_id) OR public.is_admin());
+
+DROP POLICY IF EXISTS "Participants can reply" ON feedback_replies;
+CREATE POLICY "Participants can reply"
+  ON feedback_replies FOR INSERT
+  WITH CHECK (author_id = auth.uid() AND public.can_discuss_feedback(feedback_id));
+
+DROP POLICY IF EXISTS "Users can update their own replies" ON feedback_replies;
+CREATE POLICY "Users can update their own replies"
+  ON feedback_replies FOR UPDATE
+  USING (author_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete their own replies" ON feedback_replies;
+CREATE POLICY "Users can delete their own replies"
+  ON feedback_replies FOR DELETE
+  USING (author_id = auth.uid());
+
+-- Only the feedback author may update feedback rows, so resolving goes through
+-- this function, which lets either participant open or close the thread
+CREATE OR REPLACE FUNCTION public.set_feedback_resolved(
+  p_feedback_id UUID,
+  p_resolved BOOLEAN
+)
+RETURNS feedback AS $$
+DECLARE
+  v_feedback feedback;
+BEGIN
+  IF NOT public.can_discuss_feedback(p_feedback_id) THEN
+    RAISE EXCEPTION 'Feedback not found';
+  END IF;
+
+  UPDATE feedback
+  SET
+    resolved_at = CASE WHEN p_resolved THEN NOW() ELSE NULL END,
+    resolved_by = CASE WHEN p_resolved THEN auth.uid() ELSE NULL END,
+    updated_at = NOW()
+  WHERE id = p_feedback_id
+  RETURNING * INTO v_feedback;
+
+  RETURN v_feedback;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Existing audio responses become the first reply of their thread, from the counselor
+INSERT INTO feedback_replies (feedback_id, author_id, audio_path, created_at, updated_at)
+SELECT f.id, s.user_id, f.audio_response, f.updated_at, f.updated_at
+FROM feedback f
+JOIN sessions s ON s.id = f.session_id
+WHERE f.audio_response IS NOT NULL
+AND s.user_id IS NOT NULL
+AND NOT EXISTS (
+  SELECT 1 FROM feedback_replies r
+  WHERE r.feedback_id = f.id AND r.audio_path = f.audio_response
+);
+
+-- Recorded replies are readable by the thread's participants
+DROP POLICY IF EXISTS "Session participants can read audio" ON storage.objects;
+CREATE POLICY "Session participants can read audio"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'audio'
+    AND (
+      (storage.foldername(name))[2] = auth.uid()::text
+      OR EXISTS (
+        SELECT 1 FROM sessions s
+        WHERE (s.audio_url = storage.objects.name OR s.peaks_url = storage.objects.name)
+        AND (s.user_id = auth.uid() OR s.supervisor_id = auth.uid())
+      )
+      OR EXISTS (
+        SELECT 1 FROM feedback f
+        JOIN sessions s ON s.id = f.session_id
+        WHERE (f.audio_feedback = storage.objects.name OR f.audio_response = storage.objects.name)
+        AND (s.user_id = auth.uid() OR s.supervisor_id = auth.uid())
+      )
+      OR EXISTS (
+        SELECT 1 FROM feedback_replies r
+        WHERE r.audio_path = storage.objects.name
+        AND public.can_discuss_feedback(r.feedback_id)
+      )
+    )
+  );
+
+-- Add to realtime publication only if not already added
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'feedback_replies'
+  ) THEN
+    EXECUTE 'ALTER PUBLICATION supabase_realtime ADD TABLE feedback_replies';
+  END IF;
+END
+$$;
@@ -0,0 +1,131 @@
+-- Feedback can be edited and (soft) deleted, with every change kept
+DO $$
+BEGIN
+    -- Add edited_at column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'feedback'
+        AND column_name = 'edited_at'
+    ) THEN
+        ALTER TABLE public.feedback ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE;
+    END IF;
+
+    -- Add deleted_at column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'feedback'
+        AND column_name = 'deleted_at'
+    ) THEN
+        ALTER TABLE public.feedback ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+    END IF;
+
+    -- Add deleted_by column if it doesn't exist
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'feedback'
+        AND column_name = 'deleted_by'
+    ) THEN
+        ALTER TABLE public.feedback ADD COLUMN deleted_by UUID
+          REFERENCES auth.users(id) ON DELETE SET NULL;
+    END IF;
+END
+$$;
+
+-- Create feedback_revisions table
+CREATE TABLE IF NOT EXISTS feedback_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  feedback_id UUID NOT NULL REFERENCES feedback(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('edit', 'delete', 'restore')),
+  before JSONB NOT NULL,
+  after JSONB NOT NULL,
+  author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS feedback_revisions_feedback_id_idx
+  ON feedback_revisions(feedback_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE feedback_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are read-only for clients; they are written by the trigger below
+DROP POLICY IF EXISTS "Participants can view feedback revisions" ON feedback_revisions;
+CREATE POLICY "Participants can view feedback revisions"
+  ON feedback_revisions FOR SELECT
+  USING (public.can_discuss_feedback(feedback_id) OR public.is_admin());
+
+-- Record every edit, delete and restore. Runs for any update path, so
+-- feedback a counselor was graded on can't change without a trace.
+CREATE OR REPLACE FUNCTION public.record_feedback_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_action TEXT;
+BEGIN
+  IF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted feedback cannot be changed';
+  END IF;
+
+  IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    v_action := 'delete';
+    NEW.deleted_at := NOW();
+    NEW.deleted_by := auth.uid();
+  ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    IF NOT public.is_admin() THEN
+      RAISE EXCEPTION 'Only admins can restore deleted feedback';
+    END IF;
+    v_action := 'restore';
+    NEW.deleted_by := NULL;
+  ELSIF (NEW.title, NEW.text, NEW.timestamp, NEW.end_timestamp, NEW.audio_feedback)
+    IS DISTINCT FROM (OLD.title, OLD.text, OLD.timestamp, OLD.end_timestamp, OLD.audio_feedback) THEN
+    v_action := 'edit';
+    NEW.edited_at := NOW();
+  ELSE
+    -- Bookkeeping such as resolving a thread or re-anchoring to a segment
+    RETURN NEW;
+  END IF;
+
+  NEW.updated_at := NOW();
+  INSERT INTO feedback_revisions (feedback_id, action, before, after, author_id)
+  VALUES (OLD.id, v_action, to_jsonb(OLD), to_jsonb(NEW), auth.uid());
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS record_feedback_revision ON feedback;
+CREATE TRIGGER record_feedback_revision
+  BEFORE UPDATE ON feedback
+  FOR EACH ROW EXECUTE FUNCTION public.record_feedback_revision();
+
+-- Feedback is never removed outright; authors soft delete by setting deleted_at
+DROP POLICY IF EXISTS "Users can delete their own feedback" ON feedback;
+
+-- Deleted feedback is hidden from everyone but admins. The policy from the
+-- original feedback migration would still show it to the counselor, so it goes.
+DROP POLICY IF EXISTS "Users can view feedback on their sessions" ON feedback;
+DROP POLICY IF EXISTS "Users can view their own feedback" ON feedback;
+CREATE POLICY "Users can view their own feedback"
+  ON feedback
+  FOR SELECT
+  USING (
+    (
+      deleted_at IS NULL
+      AND (
+        author_id = auth.uid() OR
+        session_id IN (
+          SELECT id FROM sessions WHERE user_id = auth.uid() OR supervisor_id = auth.uid()
+        )
+      )
+    )
+    OR public.is_admin()
+  );
+
+-- Admins may restore deleted feedback
+DROP POLICY IF EXISTS "Admins can update feedback" ON feedback;
+CREATE POLICY "Admins can update feedback"
+  ON feedback
+  FOR UPDATE
+  USING (public.is_admin());
@@ -0,0 +1,194 @@
+-- Competency rubrics, defined by admins per session type
+CREATE TABLE IF NOT EXISTS rubric_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  description TEXT,
+  session_type TEXT,          -- NULL: used for session types without a template of their own
+  scale_max INTEGER NOT NULL DEFAULT 5 CHECK (scale_max BETWEEN 2 AND 10),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One template per session type, and one default
+CREATE UNIQUE INDEX IF NOT EXISTS rubric_templates_session_type_idx
+  ON rubric_templates(COALESCE(session_type, ''));
+
+CREATE TABLE IF NOT EXISTS rubric_criteria (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  template_id UUID NOT NULL REFERENCES rubric_templates(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,         -- Competency, e.g. "Empathy"; scores roll up by this name
+  description TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS rubric_criteria_template_id_idx
+  ON rubric_criteria(template_id, position);
+
+-- A supervisor's score for one criterion of a session
+CREATE TABLE IF NOT EXISTS rubric_scores (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  criterion_id UUID NOT NULL REFERENCES rubric_criteria(id) ON DELETE CASCADE,
+  scorer_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  score INTEGER NOT NULL CHECK (score >= 1),
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (session_id, criterion_id)
+);
+
+-- Feedback items cited as evidence for a score
+CREATE TABLE IF NOT EXISTS rubric_score_evidence (
+  score_id UUID NOT NULL REFERENCES rubric_scores(id) ON DELETE CASCADE,
+  feedback_id UUID NOT NULL REFERENCES feedback(id) ON DELETE CASCADE,
+  PRIMARY KEY (score_id, feedback_id)
+);
+
+-- Enable RLS
+ALTER TABLE rubric_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rubric_criteria ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rubric_scores ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rubric_score_evidence ENABLE ROW LEVEL SECURITY;
+
+-- Everyone can read the rubrics; only admins define them
+DROP POLICY IF EXISTS "Rubric templates are viewable by everyone" ON rubric_templates;
+CREATE POLICY "Rubric templates are viewable by everyone"
+  ON rubric_templates FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage rubric templates" ON rubric_templates;
+CREATE POLICY "Admins can manage rubric templates"
+  ON rubric_templates FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+DROP POLICY IF EXISTS "Rubric criteria are viewable by everyone" ON rubric_criteria;
+CREATE POLICY "Rubric criteria are viewable by everyone"
+  ON rubric_criteria FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage rubric criteria" ON rubric_criteria;
+CREATE POLICY "Admins can manage rubric criteria"
+  ON rubric_criteria FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- Scores are read by the session's counselor and supervisor; they are
+-- written through save_rubric_score below
+DROP POLICY IF EXISTS "Participants can view rubric scores" ON rubric_scores;
+CREATE POLICY "Participants can view rubric scores"
+  ON rubric_scores FOR SELECT
+  USING (
+    session_id IN (
+      SELECT id FROM sessions WHERE user_id = auth.uid() OR supervisor_id = auth.uid()
+    )
+    OR public.is_admin()
+  );
+
+DROP POLICY IF EXISTS "Participants can view rubric evidence" ON rubric_score_evidence;
+CREATE POLICY "Participants can view rubric evidence"
+  ON rubric_score_evidence FOR SELECT
+  USING (score_id IN (SELECT id FROM rubric_scores));
+
+-- Score one criterion of a session, or clear it with a NULL score. Only the
+-- session's supervisor may score; evidence must be live feedback on the session.
+CREATE OR REPLACE FUNCTION public.save_rubric_score(
+  p_session_id UUID,
+  p_criterion_id UUID,
+  p_score INTEGER,
+  p_comment TEXT,
+  p_feedback_ids UUID[]
+)
+RETURNS rubric_scores AS $$
+DECLARE
+  v_scale_max INTEGER;
+  v_score rubric_scores;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM sessions WHERE id = p_session_id AND supervisor_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the session''s supervisor can score it';
+  END IF;
+
+  IF p_score IS NULL THEN
+    DELETE FROM rubric_scores
+    WHERE session_id = p_session_id AND criterion_id = p_criterion_id;
+    RETURN NULL;
+  END IF;
+
+  SELECT t.scale_max INTO v_scale_max
+  FROM rubric_criteria c
+  JOIN rubric_templates t ON t.id = c.template_id
+  WHERE c.id = p_criterion_id;
+
+  IF v_scale_max IS NULL THEN
+    RAISE EXCEPTION 'Criterion not found';
+  END IF;
+  IF p_score < 1 OR p_score > v_scale_max THEN
+    RAISE EXCEPTION 'Score must be between 1 and %', v_scale_max;
+  END IF;
+
+  INSERT INTO rubric_scores (session_id, criterion_id, scorer_id, score, comment)
+  VALUES (p_session_id, p_criterion_id, auth.uid(), p_score, NULLIF(btrim(p_comment), ''))
+  ON CONFLICT (session_id, criterion_id) DO UPDATE
+  SET
+    scorer_id = EXCLUDED.scorer_id,
+    score = EXCLUDED.score,
+    comment = EXCLUDED.comment,
+    updated_at = NOW()
+  RETURNING * INTO v_score;
+
+  DELETE FROM rubric_score_evidence WHERE score_id = v_score.id;
+  INSERT INTO rubric_score_evidence (score_id, feedback_id)
+  SELECT v_score.id, f.id
+  FROM feedback f
+  WHERE f.id = ANY(COALESCE(p_feedback_ids, '{}'))
+  AND f.session_id = p_session_id
+  AND f.deleted_at IS NULL;
+
+  RETURN v_score;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Average score per competency over a counselor's sessions, as a share of
+-- each template's scale so rubrics with different scales can be combined.
+-- Runs with the caller's rights, so it only sees scores the caller may read.
+CREATE OR REPLACE FUNCTION public.get_competency_summary(p_user_id UUID)
+RETURNS TABLE (
+  competency TEXT,
+  average_percent NUMERIC,
+  session_count BIGINT,
+  last_scored_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT
+    c.name,
+    ROUND(AVG(rs.score::NUMERIC / t.scale_max) * 100, 1),
+    COUNT(DISTINCT rs.session_id),
+    MAX(rs.updated_at)
+  FROM rubric_scores rs
+  JOIN rubric_criteria c ON c.id = rs.criterion_id
+  JOIN rubric_templates t ON t.id = c.template_id
+  JOIN sessions s ON s.id = rs.session_id
+  WHERE s.user_id = p_user_id
+  GROUP BY c.name
+  ORDER BY c.name;
+$$ LANGUAGE sql STABLE;
+
+-- Starter rubric used for every session type until admins add their own
+INSERT INTO rubric_templates (name, description, session_type, scale_max)
+SELECT 'Core Counseling Skills', 'Competencies assessed in every session', NULL, 5
+WHERE NOT EXISTS (SELECT 1 FROM rubric_templates WHERE session_type IS NULL);
+
+INSERT INTO rubric_criteria (template_id, name, description, position)
+SELECT t.id, c.name, c.description, c.position
+FROM rubric_templates t
+CROSS JOIN (VALUES
+  ('Empathy', 'Conveys understanding of the client''s feelings and perspective', 0),
+  ('Open Questions', 'Uses open-ended questions to invite exploration', 1),
+  ('Reflective Listening', 'Reflects content and feeling back accurately', 2),
+  ('Goal Setting', 'Works with the client towards concrete, shared goals', 3)
+) AS c(name, description, position)
+WHERE t.session_type IS NULL
+AND NOT EXISTS (SELECT 1 FROM rubric_criteria WHERE template_id = t.id);
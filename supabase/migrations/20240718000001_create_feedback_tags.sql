@@ -0,0 +1,71 @@
+-- Tags that categorize feedback, managed by admins
+CREATE TABLE IF NOT EXISTS feedback_tags (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL UNIQUE,
+  category TEXT NOT NULL DEFAULT 'general' CHECK (category IN ('general', 'technique')),
+  color TEXT NOT NULL DEFAULT '#dc2626' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  position INTEGER NOT NULL DEFAULT 0,
+  archived_at TIMESTAMP WITH TIME ZONE,  -- Archived tags stay on feedback but can't be picked
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS feedback_tag_assignments (
+  feedback_id UUID NOT NULL REFERENCES feedback(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES feedback_tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (feedback_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS feedback_tag_assignments_tag_id_idx
+  ON feedback_tag_assignments(tag_id);
+
+-- Enable RLS
+ALTER TABLE feedback_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE feedback_tag_assignments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Feedback tags are viewable by everyone" ON feedback_tags;
+CREATE POLICY "Feedback tags are viewable by everyone"
+  ON feedback_tags FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage feedback tags" ON feedback_tags;
+CREATE POLICY "Admins can manage feedback tags"
+  ON feedback_tags FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- Tags on feedback are visible wherever the feedback is
+DROP POLICY IF EXISTS "Users can view tags on visible feedback" ON feedback_tag_assignments;
+CREATE POLICY "Users can view tags on visible feedback"
+  ON feedback_tag_assignments FOR SELECT
+  USING (feedback_id IN (SELECT id FROM feedback));
+
+-- Only the feedback's author tags it, and only with tags that aren't archived
+DROP POLICY IF EXISTS "Authors can tag their feedback" ON feedback_tag_assignments;
+CREATE POLICY "Authors can tag their feedback"
+  ON feedback_tag_assignments FOR INSERT
+  WITH CHECK (
+    feedback_id IN (
+      SELECT id FROM feedback WHERE author_id = auth.uid() AND deleted_at IS NULL
+    )
+    AND tag_id IN (SELECT id FROM feedback_tags WHERE archived_at IS NULL)
+  );
+
+DROP POLICY IF EXISTS "Authors can untag their feedback" ON feedback_tag_assignments;
+CREATE POLICY "Authors can untag their feedback"
+  ON feedback_tag_assignments FOR DELETE
+  USING (
+    feedback_id IN (
+      SELECT id FROM feedback WHERE author_id = auth.uid() AND deleted_at IS NULL
+    )
+  );
+
+-- Starter taxonomy
+INSERT INTO feedback_tags (name, category, color, position) VALUES
+  ('Strength', 'general', '#16a34a', 0),
+  ('Growth Area', 'general', '#d97706', 1),
+  ('Ethics Concern', 'general', '#dc2626', 2),
+  ('CBT', 'technique', '#2563eb', 3),
+  ('Motivational Interviewing', 'technique', '#7c3aed', 4),
+  ('Solution-Focused', 'technique', '#0891b2', 5),
+  ('Person-Centered', 'technique', '#db2777', 6)
+ON CONFLICT (name) DO NOTHING;
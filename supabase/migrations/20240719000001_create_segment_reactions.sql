@@ -0,0 +1,132 @@
+-- Quick reactions to a transcript segment, kept apart from feedback
+CREATE TABLE IF NOT EXISTS segment_reactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  segment_id UUID NOT NULL REFERENCES transcript_segments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reaction TEXT NOT NULL CHECK (reaction IN ('like', 'insightful', 'question', 'concern')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (segment_id, user_id, reaction)
+);
+
+CREATE INDEX IF NOT EXISTS segment_reactions_session_id_idx
+  ON segment_reactions(session_id);
+
+-- Enable RLS
+ALTER TABLE segment_reactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can view segment reactions" ON segment_reactions;
+CREATE POLICY "Participants can view segment reactions"
+  ON segment_reactions FOR SELECT
+  USING (
+    session_id IN (
+      SELECT id FROM sessions WHERE user_id = auth.uid() OR supervisor_id = auth.uid()
+    )
+    OR public.is_admin()
+  );
+
+-- The counselor and supervisor react as themselves, on segments of that session
+DROP POLICY IF EXISTS "Participants can add their reactions" ON segment_reactions;
+CREATE POLICY "Participants can add their reactions"
+  ON segment_reactions FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND session_id IN (
+      SELECT id FROM sessions WHERE user_id = auth.uid() OR supervisor_id = auth.uid()
+    )
+    AND segment_id IN (
+      SELECT id FROM transcript_segments ts WHERE ts.session_id = segment_reactions.session_id
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can remove their reactions" ON segment_reactions;
+CREATE POLICY "Users can remove their reactions"
+  ON segment_reactions FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Same as before, but reactions on the second segment survive the merge
+CREATE OR REPLACE FUNCTION public.merge_transcript_segments(
+  p_first_id UUID,
+  p_second_id UUID
+)
+RETURNS transcript_segments AS $$
+DECLARE
+  v_first transcript_segments;
+  v_second transcript_segments;
+  v_merged transcript_segments;
+BEGIN
+  SELECT * INTO v_first FROM transcript_segments WHERE id = p_first_id;
+  SELECT * INTO v_second FROM transcript_segments WHERE id = p_second_id;
+  IF v_first.id IS NULL OR v_second.id IS NULL
+    OR v_first.session_id <> v_second.session_id
+    OR NOT public.can_edit_transcript(v_first.session_id) THEN
+    RAISE EXCEPTION 'Transcript segments not found';
+  END IF;
+
+  UPDATE transcript_segments
+  SET
+    text = v_first.text || ' ' || v_second.text,
+    start = LEAST(v_first.start, v_second.start),
+    "end" = GREATEST(v_first."end", v_second."end"),
+    updated_at = NOW()
+  WHERE id = p_first_id
+  RETURNING * INTO v_merged;
+
+  -- Move feedback over before the second segment disappears
+  UPDATE feedback
+  SET segment_id = p_first_id
+  WHERE segment_id = p_second_id;
+
+  -- Reactions move along too, unless the user gave the same one to both halves
+  UPDATE segment_reactions r
+  SET segment_id = p_first_id
+  WHERE r.segment_id = p_second_id
+  AND NOT EXISTS (
+    SELECT 1 FROM segment_reactions kept
+    WHERE kept.segment_id = p_first_id
+    AND kept.user_id = r.user_id
+    AND kept.reaction = r.reaction
+  );
+
+  DELETE FROM transcript_segments WHERE id = p_second_id;
+
+  INSERT INTO transcript_revisions (session_id, action, segment_ids, before, after, author_id)
+  VALUES (
+    v_first.session_id,
+    'merge',
+    ARRAY[p_first_id, p_second_id],
+    jsonb_build_array(to_jsonb(v_first), to_jsonb(v_second)),
+    jsonb_build_array(to_jsonb(v_merged)),
+    auth.uid()
+  );
+
+  RETURN v_merged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Likes used to be stored as feedback titled "Liked". Turn them into
+-- reactions on the segment they fell in, then remove the ones converted
+-- from feedback. Likes outside every segment, or without an author, stay
+-- as feedback so nothing is lost.
+INSERT INTO segment_reactions (session_id, segment_id, user_id, reaction, created_at)
+SELECT DISTINCT ON (ts.id, f.author_id)
+  f.session_id, ts.id, f.author_id, 'like', f.created_at
+FROM feedback f
+JOIN transcript_segments ts
+  ON ts.session_id = f.session_id
+  AND f.timestamp >= ts.start
+  AND f.timestamp <= ts."end"
+WHERE f.title = 'Liked'
+  AND f.text = '👍 This part was well done.'
+  AND f.author_id IS NOT NULL
+ORDER BY ts.id, f.author_id, f.created_at
+ON CONFLICT (segment_id, user_id, reaction) DO NOTHING;
+
+DELETE FROM feedback f
+USING transcript_segments ts
+WHERE ts.session_id = f.session_id
+  AND f.timestamp >= ts.start
+  AND f.timestamp <= ts."end"
+  AND f.title = 'Liked'
+  AND f.text = '👍 This part was well done.'
+  AND f.author_id IS NOT NULL;
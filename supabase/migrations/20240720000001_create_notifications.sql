@@ -0,0 +1,226 @@
+-- In-app notifications, written by the triggers below
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,  -- Recipient
+  type TEXT NOT NULL CHECK (type IN ('feedback', 'request', 'system')),
+  event TEXT NOT NULL CHECK (
+    event IN ('feedback_added', 'feedback_reply', 'session_assigned', 'supervisor_approved')
+  ),
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  session_id UUID REFERENCES sessions(id) ON DELETE CASCADE,
+  feedback_id UUID REFERENCES feedback(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,         -- Who caused it, if anyone
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_id_created_at_idx
+  ON notifications(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS notifications_unread_idx
+  ON notifications(user_id)
+  WHERE read_at IS NULL;
+
+-- Enable RLS
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own notifications" ON notifications;
+CREATE POLICY "Users can view their own notifications"
+  ON notifications FOR SELECT
+  USING (user_id = auth.uid());
+
+-- Only to mark them read or unread; there is no INSERT policy
+DROP POLICY IF EXISTS "Users can update their own notifications" ON notifications;
+CREATE POLICY "Users can update their own notifications"
+  ON notifications FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+REVOKE UPDATE ON notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON notifications TO authenticated;
+
+-- Name shown in notification messages
+CREATE OR REPLACE FUNCTION public.user_display_name(p_user_id UUID)
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    NULLIF(p.full_name, ''),
+    u.raw_user_meta_data->>'full_name',
+    u.email,
+    'Someone'
+  )
+  FROM auth.users u
+  LEFT JOIN public.user_profiles p ON p.id = u.id
+  WHERE u.id = p_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.user_display_name(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Notify a user, unless they caused the event themselves. Session
+-- supervisor IDs may still point at the supervisors table rather than a
+-- user, so recipients that aren't users are skipped.
+CREATE OR REPLACE FUNCTION public.create_notification(
+  p_user_id UUID,
+  p_type TEXT,
+  p_event TEXT,
+  p_title TEXT,
+  p_message TEXT,
+  p_session_id UUID DEFAULT NULL,
+  p_feedback_id UUID DEFAULT NULL,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  IF p_user_id IS NULL
+    OR p_user_id = p_actor_id
+    OR NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_user_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO notifications (
+    user_id, type, event, title, message, session_id, feedback_id, actor_id
+  )
+  VALUES (
+    p_user_id, p_type, p_event, p_title, p_message, p_session_id, p_feedback_id, p_actor_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only triggers create notifications
+REVOKE EXECUTE ON FUNCTION public.create_notification(UUID, TEXT, TEXT, TEXT, TEXT, UUID, UUID, UUID)
+  FROM PUBLIC, anon, authenticated;
+
+-- New feedback on my session
+CREATE OR REPLACE FUNCTION public.notify_feedback_added()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_session sessions;
+BEGIN
+  SELECT * INTO v_session FROM sessions WHERE id = NEW.session_id;
+
+  PERFORM public.create_notification(
+    v_session.user_id,
+    'feedback',
+    'feedback_added',
+    'New feedback received',
+    format(
+      '%s has provided feedback on your session ''%s''.',
+      public.user_display_name(NEW.author_id),
+      v_session.title
+    ),
+    NEW.session_id,
+    NEW.id,
+    NEW.author_id
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_feedback_added ON feedback;
+CREATE TRIGGER notify_feedback_added
+  AFTER INSERT ON feedback
+  FOR EACH ROW EXECUTE FUNCTION public.notify_feedback_added();
+
+-- A reply, recorded or written, to my feedback
+CREATE OR REPLACE FUNCTION public.notify_feedback_reply()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_feedback feedback;
+  v_session_title TEXT;
+BEGIN
+  SELECT * INTO v_feedback FROM feedback WHERE id = NEW.feedback_id;
+  SELECT title INTO v_session_title FROM sessions WHERE id = v_feedback.session_id;
+
+  PERFORM public.create_notification(
+    v_feedback.author_id,
+    'feedback',
+    'feedback_reply',
+    CASE WHEN NEW.audio_path IS NOT NULL THEN 'Audio response received' ELSE 'New reply' END,
+    format(
+      '%s responded to your feedback on ''%s''.',
+      public.user_display_name(NEW.author_id),
+      v_session_title
+    ),
+    v_feedback.session_id,
+    v_feedback.id,
+    NEW.author_id
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_feedback_reply ON feedback_replies;
+CREATE TRIGGER notify_feedback_reply
+  AFTER INSERT ON feedback_replies
+  FOR EACH ROW EXECUTE FUNCTION public.notify_feedback_reply();
+
+-- A session assigned to me for review, on upload or reassignment
+CREATE OR REPLACE FUNCTION public.notify_session_assigned()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.supervisor_id IS NULL
+    OR (TG_OP = 'UPDATE' AND NEW.supervisor_id IS NOT DISTINCT FROM OLD.supervisor_id) THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.create_notification(
+    NEW.supervisor_id,
+    'request',
+    'session_assigned',
+    'Session assigned to you',
+    format(
+      '%s asked you to review ''%s''.',
+      public.user_display_name(NEW.user_id),
+      NEW.title
+    ),
+    NEW.id,
+    NULL,
+    NEW.user_id
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_session_assigned ON sessions;
+CREATE TRIGGER notify_session_assigned
+  AFTER INSERT OR UPDATE OF supervisor_id ON sessions
+  FOR EACH ROW EXECUTE FUNCTION public.notify_session_assigned();
+
+-- My supervisor account was approved
+CREATE OR REPLACE FUNCTION public.notify_supervisor_approved()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_approved AND NOT COALESCE(OLD.is_approved, FALSE) THEN
+    PERFORM public.create_notification(
+      NEW.id,
+      'system',
+      'supervisor_approved',
+      'Supervisor account approved',
+      'Your supervisor account has been approved. Counselors can now send you sessions to review.',
+      NULL,
+      NULL,
+      auth.uid()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_supervisor_approved ON user_profiles;
+CREATE TRIGGER notify_supervisor_approved
+  AFTER UPDATE OF is_approved ON user_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.notify_supervisor_approved();
+
+-- Add to realtime publication only if not already added
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'notifications'
+  ) THEN
+    EXECUTE 'ALTER PUBLICATION supabase_realtime ADD TABLE notifications';
+  END IF;
+END
+$$;
@@ -0,0 +1,18 @@
+-- Notification preferences set on the settings page (emailNotifications,
+-- emailFrequency, feedbackNotifications, ...)
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS preferences JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Set once the send-notification-emails function has dealt with a
+-- notification, whether it was emailed or skipped by the user's preferences
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS email_processed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS notifications_email_pending_idx
+  ON notifications(created_at)
+  WHERE email_processed_at IS NULL;
+
+-- Don't email everything that happened before delivery existed
+UPDATE notifications
+SET email_processed_at = NOW()
+WHERE email_processed_at IS NULL;
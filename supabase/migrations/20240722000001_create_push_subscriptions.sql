@@ -0,0 +1,62 @@
+-- Web Push subscriptions, one per browser or device a user enabled push on
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,      -- Push service URL for this device
+  p256dh TEXT NOT NULL,               -- Device public key, base64url
+  auth TEXT NOT NULL,                 -- Device auth secret, base64url
+  device_name TEXT,                   -- Shown in settings, e.g. "Chrome on macOS"
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE  -- Last successful push
+);
+
+CREATE INDEX IF NOT EXISTS push_subscriptions_user_id_idx
+  ON push_subscriptions(user_id);
+
+-- Enable RLS
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own devices" ON push_subscriptions;
+CREATE POLICY "Users can view their own devices"
+  ON push_subscriptions FOR SELECT
+  USING (user_id = auth.uid());
+
+-- Devices are added through save_push_subscription, not inserted directly
+DROP POLICY IF EXISTS "Users can revoke their own devices" ON push_subscriptions;
+CREATE POLICY "Users can revoke their own devices"
+  ON push_subscriptions FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Subscribe the current browser. An endpoint belongs to one browser, so if
+-- someone else used it before (a shared computer) it moves to the caller.
+CREATE OR REPLACE FUNCTION public.save_push_subscription(
+  p_endpoint TEXT,
+  p_p256dh TEXT,
+  p_auth TEXT,
+  p_device_name TEXT DEFAULT NULL
+)
+RETURNS push_subscriptions AS $$
+DECLARE
+  v_subscription push_subscriptions;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, device_name)
+  VALUES (auth.uid(), p_endpoint, p_p256dh, p_auth, p_device_name)
+  ON CONFLICT (endpoint) DO UPDATE
+  SET
+    user_id = auth.uid(),
+    p256dh = EXCLUDED.p256dh,
+    auth = EXCLUDED.auth,
+    device_name = EXCLUDED.device_name,
+    created_at = CASE
+      WHEN push_subscriptions.user_id = auth.uid() THEN push_subscriptions.created_at
+      ELSE NOW()
+    END
+  RETURNING * INTO v_subscription;
+
+  RETURN v_subscription;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
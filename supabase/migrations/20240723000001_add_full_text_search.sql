@@ -0,0 +1,136 @@
+-- Full-text search over sessions, feedback and transcripts. The 'simple'
+-- configuration is used because sessions are recorded in English and
+-- Korean, so there is no single language to stem for.
+ALTER TABLE public.sessions
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(notes, '')), 'B')
+  ) STORED;
+
+ALTER TABLE public.feedback
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(text, '')), 'B')
+  ) STORED;
+
+-- Redacted text wins, so search never surfaces PII the transcript hides
+ALTER TABLE public.transcript_segments
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    to_tsvector('simple', coalesce(redacted_text, text, ''))
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS sessions_search_vector_idx
+  ON sessions USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS feedback_search_vector_idx
+  ON feedback USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS transcript_segments_search_vector_idx
+  ON transcript_segments USING GIN (search_vector);
+
+-- 'fam ther' -> 'fam':* & 'ther':*, so results show up while typing.
+-- tsquery operators are stripped, so any input is a valid query.
+CREATE OR REPLACE FUNCTION public.to_prefix_tsquery(p_query TEXT)
+RETURNS TSQUERY AS $$
+  SELECT to_tsquery('simple', string_agg(word || ':*', ' & '))
+  FROM regexp_split_to_table(
+    trim(regexp_replace(coalesce(p_query, ''), '[&|!():*<>''\\]+', ' ', 'g')),
+    '\s+'
+  ) AS word
+  WHERE word <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Ranked hits across sessions, feedback and transcript segments. Runs as
+-- the caller, so RLS limits the hits to what they could open anyway.
+-- Snippets mark matches with <mark></mark>; `position` is the second to
+-- jump to for feedback and transcript hits.
+CREATE OR REPLACE FUNCTION public.search_everything(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  result_type TEXT,
+  id UUID,
+  session_id UUID,
+  session_title TEXT,
+  title TEXT,
+  snippet TEXT,
+  "position" FLOAT,
+  rank REAL,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  WITH q AS (
+    SELECT public.to_prefix_tsquery(p_query) AS query
+  ),
+  hits AS (
+    SELECT
+      'session' AS result_type,
+      s.id,
+      s.id AS session_id,
+      s.title AS session_title,
+      s.title,
+      coalesce(nullif(s.notes, ''), s.title) AS body,
+      NULL::FLOAT AS "position",
+      ts_rank(s.search_vector, q.query) AS rank,
+      s.created_at
+    FROM sessions s, q
+    WHERE s.search_vector @@ q.query
+
+    UNION ALL
+
+    SELECT
+      'feedback',
+      f.id,
+      f.session_id,
+      s.title,
+      coalesce(nullif(f.title, ''), 'Feedback'),
+      f.text,
+      f.timestamp,
+      ts_rank(f.search_vector, q.query),
+      f.created_at
+    FROM feedback f
+    JOIN sessions s ON s.id = f.session_id, q
+    WHERE f.search_vector @@ q.query
+    AND f.deleted_at IS NULL
+
+    UNION ALL
+
+    SELECT
+      'transcript',
+      t.id,
+      t.session_id,
+      s.title,
+      coalesce(t.speaker, 'Transcript'),
+      coalesce(t.redacted_text, t.text),
+      t.start,
+      ts_rank(t.search_vector, q.query),
+      s.created_at
+    FROM transcript_segments t
+    JOIN sessions s ON s.id = t.session_id, q
+    WHERE t.search_vector @@ q.query
+
+    ORDER BY rank DESC, created_at DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 50)
+  )
+  -- Headlines are slow, so only build them for the hits returned
+  SELECT
+    hits.result_type,
+    hits.id,
+    hits.session_id,
+    hits.session_title,
+    hits.title,
+    ts_headline(
+      'simple',
+      hits.body,
+      q.query,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=10, MaxFragments=1'
+    ),
+    hits."position",
+    hits.rank,
+    hits.created_at
+  FROM hits, q
+  ORDER BY hits.rank DESC, hits.created_at DESC;
+$$ LANGUAGE sql STABLE;
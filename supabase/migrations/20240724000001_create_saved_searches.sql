@@ -0,0 +1,263 @@
+-- Search with facets. Adding parameters changes the signature, so the old
+-- function goes first rather than leaving an ambiguous overload behind.
+DROP FUNCTION IF EXISTS public.search_everything(TEXT, INTEGER);
+
+-- Same as before, narrowed by optional filters. Session type, supervisor,
+-- counselor and status apply to the session a hit belongs to. A feedback
+-- hit must carry the tag itself; session and transcript hits need a
+-- session with feedback carrying it. The date range applies to the date
+-- shown with each hit. A blank query lists everything matching the filters.
+CREATE OR REPLACE FUNCTION public.search_everything(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_types TEXT[] DEFAULT NULL,          -- 'session', 'feedback', 'transcript'
+  p_session_type TEXT DEFAULT NULL,
+  p_supervisor_id UUID DEFAULT NULL,
+  p_counselor_id UUID DEFAULT NULL,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_tag_id UUID DEFAULT NULL,
+  p_status TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  result_type TEXT,
+  id UUID,
+  session_id UUID,
+  session_title TEXT,
+  title TEXT,
+  snippet TEXT,
+  "position" FLOAT,
+  rank REAL,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  WITH q AS (
+    SELECT public.to_prefix_tsquery(p_query) AS query
+  ),
+  scope AS (
+    SELECT s.*
+    FROM sessions s
+    WHERE (p_session_type IS NULL OR s.session_type = p_session_type)
+    AND (p_supervisor_id IS NULL OR s.supervisor_id = p_supervisor_id)
+    AND (p_counselor_id IS NULL OR s.user_id = p_counselor_id)
+    AND (p_status IS NULL OR s.status = p_status)
+    AND (
+      p_tag_id IS NULL
+      OR EXISTS (
+        SELECT 1
+        FROM feedback tagged
+        JOIN feedback_tag_assignments a ON a.feedback_id = tagged.id
+        WHERE tagged.session_id = s.id
+        AND tagged.deleted_at IS NULL
+        AND a.tag_id = p_tag_id
+      )
+    )
+  ),
+  hits AS (
+    SELECT
+      'session' AS result_type,
+      s.id,
+      s.id AS session_id,
+      s.title AS session_title,
+      s.title,
+      coalesce(nullif(s.notes, ''), s.title) AS body,
+      NULL::FLOAT AS "position",
+      coalesce(ts_rank(s.search_vector, q.query), 0) AS rank,
+      s.created_at
+    FROM scope s, q
+    WHERE (q.query IS NULL OR s.search_vector @@ q.query)
+    AND (p_types IS NULL OR 'session' = ANY(p_types))
+
+    UNION ALL
+
+    SELECT
+      'feedback',
+      f.id,
+      f.session_id,
+      s.title,
+      coalesce(nullif(f.title, ''), 'Feedback'),
+      f.text,
+      f.timestamp,
+      coalesce(ts_rank(f.search_vector, q.query), 0),
+      f.created_at
+    FROM feedback f
+    JOIN scope s ON s.id = f.session_id, q
+    WHERE (q.query IS NULL OR f.search_vector @@ q.query)
+    AND (p_types IS NULL OR 'feedback' = ANY(p_types))
+    AND f.deleted_at IS NULL
+    AND (
+      p_tag_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM feedback_tag_assignments a
+        WHERE a.feedback_id = f.id AND a.tag_id = p_tag_id
+      )
+    )
+
+    UNION ALL
+
+    SELECT
+      'transcript',
+      t.id,
+      t.session_id,
+      s.title,
+      coalesce(t.speaker, 'Transcript'),
+      coalesce(t.redacted_text, t.text),
+      t.start,
+      coalesce(ts_rank(t.search_vector, q.query), 0),
+      s.created_at
+    FROM transcript_segments t
+    JOIN scope s ON s.id = t.session_id, q
+    -- Without a query every segment would match, so transcripts need one
+    WHERE q.query IS NOT NULL
+    AND t.search_vector @@ q.query
+    AND (p_types IS NULL OR 'transcript' = ANY(p_types))
+  ),
+  filtered AS (
+    SELECT *
+    FROM hits
+    WHERE (p_from IS NULL OR hits.created_at >= p_from)
+    AND (p_to IS NULL OR hits.created_at <= p_to)
+    ORDER BY hits.rank DESC, hits.created_at DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 50)
+  )
+  -- Headlines are slow, so only build them for the hits returned
+  SELECT
+    filtered.result_type,
+    filtered.id,
+    filtered.session_id,
+    filtered.session_title,
+    filtered.title,
+    CASE
+      WHEN q.query IS NULL THEN left(filtered.body, 200)
+      ELSE ts_headline(
+        'simple',
+        filtered.body,
+        q.query,
+        'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=10, MaxFragments=1'
+      )
+    END,
+    filtered."position",
+    filtered.rank,
+    filtered.created_at
+  FROM filtered, q
+  ORDER BY filtered.rank DESC, filtered.created_at DESC;
+$$ LANGUAGE sql STABLE;
+
+-- Counselors whose sessions the caller can see, for the counselor filter
+CREATE OR REPLACE FUNCTION public.get_search_counselors()
+RETURNS TABLE (id UUID, name TEXT) AS $$
+  SELECT DISTINCT s.user_id, public.user_display_name(s.user_id)
+  FROM sessions s
+  WHERE s.user_id = auth.uid()
+  OR s.supervisor_id = auth.uid()
+  OR public.is_admin()
+  ORDER BY 2;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- A query and filter set saved under a name
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL DEFAULT '',
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,     -- SearchFilters from the app
+  notify BOOLEAN NOT NULL DEFAULT FALSE,          -- Notify the owner about new results
+  last_checked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+-- Enable RLS
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own saved searches" ON saved_searches;
+CREATE POLICY "Users can manage their own saved searches"
+  ON saved_searches FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Notifications about new results link back to the saved search
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS saved_search_id UUID REFERENCES saved_searches(id) ON DELETE CASCADE;
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_event_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_event_check CHECK (
+  event IN (
+    'feedback_added',
+    'feedback_reply',
+    'session_assigned',
+    'supervisor_approved',
+    'saved_search_match'
+  )
+);
+
+-- Notify owners of saved searches that have new results since the last
+-- check. Each search runs as its owner, so RLS decides what counts as a
+-- result for them, exactly as if they had searched themselves.
+CREATE OR REPLACE FUNCTION public.check_saved_searches()
+RETURNS VOID AS $$
+DECLARE
+  v_search saved_searches;
+  v_count INTEGER;
+BEGIN
+  FOR v_search IN SELECT * FROM saved_searches WHERE notify LOOP
+    PERFORM set_config(
+      'request.jwt.claims',
+      json_build_object('sub', v_search.user_id, 'role', 'authenticated')::TEXT,
+      TRUE
+    );
+    SET LOCAL ROLE authenticated;
+
+    SELECT count(*) INTO v_count
+    FROM public.search_everything(
+      v_search.query,
+      50,
+      (SELECT array_agg(value) FROM jsonb_array_elements_text(v_search.filters->'types')),
+      v_search.filters->>'sessionType',
+      (v_search.filters->>'supervisorId')::UUID,
+      (v_search.filters->>'counselorId')::UUID,
+      GREATEST((v_search.filters->>'from')::TIMESTAMP WITH TIME ZONE, v_search.last_checked_at),
+      (v_search.filters->>'to')::TIMESTAMP WITH TIME ZONE,
+      (v_search.filters->>'tagId')::UUID,
+      v_search.filters->>'status'
+    );
+
+    RESET ROLE;
+    PERFORM set_config('request.jwt.claims', '', TRUE);
+
+    IF v_count > 0 THEN
+      INSERT INTO notifications (user_id, type, event, title, message, saved_search_id)
+      VALUES (
+        v_search.user_id,
+        'system',
+        'saved_search_match',
+        'New search results',
+        format(
+          '%s new result%s for your saved search ''%s''.',
+          CASE WHEN v_count >= 50 THEN '50+' ELSE v_count::TEXT END,
+          CASE WHEN v_count = 1 THEN '' ELSE 's' END,
+          v_search.name
+        ),
+        v_search.id
+      );
+    END IF;
+
+    UPDATE saved_searches SET last_checked_at = NOW() WHERE id = v_search.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the scheduler runs the check
+REVOKE EXECUTE ON FUNCTION public.check_saved_searches() FROM PUBLIC, anon, authenticated;
+
+-- Check every 15 minutes where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'check-saved-searches',
+      '*/15 * * * *',
+      'SELECT public.check_saved_searches()'
+    );
+  END IF;
+END
+$$;
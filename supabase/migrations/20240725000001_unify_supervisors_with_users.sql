@@ -0,0 +1,165 @@
+-- Supervisors become a profile extension of supervisor accounts: a
+-- supervisors row shares its id with the user's auth.users and
+-- user_profiles rows, so sessions.supervisor_id is the supervisor's user ID.
+
+-- True when the user is a supervisor an admin has approved. Callers can't
+-- read other users' profiles, so this runs with the owner's rights.
+CREATE OR REPLACE FUNCTION public.is_approved_supervisor(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE id = p_user_id
+    AND role = 'supervisor'
+    AND is_approved
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Match existing supervisors rows to supervisor accounts: by id where the
+-- seed data already shares it, otherwise by name
+CREATE TEMP TABLE supervisor_accounts AS
+SELECT DISTINCT ON (s.id)
+  s.id AS supervisor_id,
+  p.id AS user_id
+FROM supervisors s
+JOIN public.user_profiles p
+  ON p.role = 'supervisor'
+  AND (p.id = s.id OR lower(trim(p.full_name)) = lower(trim(s.name)))
+ORDER BY s.id, (p.id = s.id) DESC, p.created_at;
+
+-- Point sessions at the accounts. Sessions whose supervisor has no account
+-- could never be reviewed, so they become unassigned. Nobody is being newly
+-- assigned, so the key revocation and notification triggers stay off.
+ALTER TABLE sessions DROP CONSTRAINT IF EXISTS sessions_supervisor_id_fkey;
+ALTER TABLE sessions DISABLE TRIGGER on_session_supervisor_changed;
+ALTER TABLE sessions DISABLE TRIGGER notify_session_assigned;
+
+UPDATE sessions
+SET supervisor_id = a.user_id
+FROM supervisor_accounts a
+WHERE sessions.supervisor_id = a.supervisor_id
+AND a.supervisor_id <> a.user_id;
+
+UPDATE sessions
+SET supervisor_id = NULL
+WHERE supervisor_id IS NOT NULL
+AND supervisor_id NOT IN (
+  SELECT id FROM public.user_profiles WHERE role = 'supervisor'
+);
+
+ALTER TABLE sessions ENABLE TRIGGER on_session_supervisor_changed;
+ALTER TABLE sessions ENABLE TRIGGER notify_session_assigned;
+
+-- Keep one supervisors row per account, preferring the one that already
+-- shares its id, and drop the rows without an account
+DELETE FROM supervisors
+WHERE id NOT IN (
+  SELECT DISTINCT ON (user_id) supervisor_id
+  FROM supervisor_accounts
+  ORDER BY user_id, (supervisor_id = user_id) DESC
+);
+
+UPDATE supervisors
+SET id = a.user_id, updated_at = NOW()
+FROM supervisor_accounts a
+WHERE supervisors.id = a.supervisor_id
+AND a.supervisor_id <> a.user_id;
+
+-- Supervisor accounts without a row get one from their profile
+INSERT INTO supervisors (id, name, level)
+SELECT
+  p.id,
+  public.user_display_name(p.id),
+  initcap(coalesce(p.supervisor_level, 'associate'))
+FROM public.user_profiles p
+WHERE p.role = 'supervisor'
+ON CONFLICT (id) DO NOTHING;
+
+DROP TABLE supervisor_accounts;
+
+ALTER TABLE supervisors ALTER COLUMN id DROP DEFAULT;
+ALTER TABLE supervisors DROP CONSTRAINT IF EXISTS supervisors_id_fkey;
+ALTER TABLE supervisors
+  ADD CONSTRAINT supervisors_id_fkey
+  FOREIGN KEY (id) REFERENCES public.user_profiles(id) ON DELETE CASCADE;
+
+ALTER TABLE sessions
+  ADD CONSTRAINT sessions_supervisor_id_fkey
+  FOREIGN KEY (supervisor_id) REFERENCES supervisors(id) ON DELETE SET NULL;
+
+-- Create the supervisors row when an account becomes a supervisor, and
+-- keep its name in step with the profile
+CREATE OR REPLACE FUNCTION public.sync_supervisor_profile()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role = 'supervisor' THEN
+    INSERT INTO supervisors (id, name, level)
+    VALUES (
+      NEW.id,
+      public.user_display_name(NEW.id),
+      initcap(coalesce(NEW.supervisor_level, 'associate'))
+    )
+    ON CONFLICT (id) DO UPDATE
+    SET name = EXCLUDED.name, updated_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_supervisor_profile ON user_profiles;
+CREATE TRIGGER sync_supervisor_profile
+  AFTER INSERT OR UPDATE OF role, full_name ON user_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.sync_supervisor_profile();
+
+-- Counselors see approved supervisors and the supervisors of their own
+-- sessions. Supervisors see and edit their own row; admins see everyone.
+DROP POLICY IF EXISTS "Public read access for supervisors" ON supervisors;
+DROP POLICY IF EXISTS "Users can view approved supervisors" ON supervisors;
+CREATE POLICY "Users can view approved supervisors"
+  ON supervisors FOR SELECT
+  USING (
+    public.is_approved_supervisor(id)
+    OR id = auth.uid()
+    OR public.is_admin()
+    OR id IN (SELECT supervisor_id FROM sessions WHERE user_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Supervisors can update their own profile" ON supervisors;
+CREATE POLICY "Supervisors can update their own profile"
+  ON supervisors FOR UPDATE
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid());
+
+-- The directory and the supervisor pickers list approved supervisors only
+CREATE OR REPLACE VIEW public.approved_supervisors AS
+SELECT s.*
+FROM supervisors s
+WHERE public.is_approved_supervisor(s.id);
+
+REVOKE ALL ON public.approved_supervisors FROM anon;
+GRANT SELECT ON public.approved_supervisors TO authenticated;
+
+-- The old policy compared supervisor_id with itself, so every signed-in
+-- user could read every assigned session
+DROP POLICY IF EXISTS "Supervisors can view assigned sessions" ON sessions;
+CREATE POLICY "Supervisors can view assigned sessions"
+  ON sessions FOR SELECT
+  USING (supervisor_id = auth.uid());
+
+-- Sessions can only be sent to approved supervisors. Checked when the
+-- supervisor changes, so sessions keep a supervisor who is later unapproved.
+CREATE OR REPLACE FUNCTION public.check_session_supervisor()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.supervisor_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.supervisor_id IS DISTINCT FROM OLD.supervisor_id)
+    AND NOT public.is_approved_supervisor(NEW.supervisor_id) THEN
+    RAISE EXCEPTION 'Sessions can only be assigned to approved supervisors';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_session_supervisor ON sessions;
+CREATE TRIGGER check_session_supervisor
+  BEFORE INSERT OR UPDATE OF supervisor_id ON sessions
+  FOR EACH ROW EXECUTE FUNCTION public.check_session_supervisor();
@@ -0,0 +1,411 @@
+-- Counselors ask a supervisor to review a session instead of assigning it.
+-- A request is 'requested' until the supervisor accepts or declines it; an
+-- accepted request moves to 'in_review' with the supervisor's first feedback
+-- and to 'completed' when they complete the review.
+CREATE TABLE IF NOT EXISTS supervision_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  counselor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  supervisor_id UUID NOT NULL REFERENCES supervisors(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'accepted', 'declined', 'cancelled', 'in_review', 'completed')),
+  message TEXT,                                   -- Optional note from the counselor
+  decline_reason TEXT,                            -- Optional reason from the supervisor
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  responded_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- A session waits on one supervisor at a time
+CREATE UNIQUE INDEX IF NOT EXISTS supervision_requests_pending_idx
+  ON supervision_requests (session_id)
+  WHERE status = 'requested';
+
+CREATE INDEX IF NOT EXISTS supervision_requests_supervisor_idx
+  ON supervision_requests (supervisor_id, status);
+
+-- Enable RLS
+ALTER TABLE supervision_requests ENABLE ROW LEVEL SECURITY;
+
+-- Both sides read their requests; all changes go through the functions below
+DROP POLICY IF EXISTS "Users can view their supervision requests" ON supervision_requests;
+CREATE POLICY "Users can view their supervision requests"
+  ON supervision_requests FOR SELECT
+  USING (
+    counselor_id = auth.uid()
+    OR supervisor_id = auth.uid()
+    OR public.is_admin()
+  );
+
+-- Existing assignments count as accepted requests
+INSERT INTO supervision_requests (session_id, counselor_id, supervisor_id, status, created_at, responded_at)
+SELECT
+  s.id,
+  s.user_id,
+  s.supervisor_id,
+  CASE s.status
+    WHEN 'completed' THEN 'completed'
+    WHEN 'in_progress' THEN 'in_review'
+    ELSE 'accepted'
+  END,
+  s.created_at,
+  s.created_at
+FROM sessions s
+WHERE s.supervisor_id IS NOT NULL
+AND s.user_id IS NOT NULL
+AND NOT EXISTS (SELECT 1 FROM supervision_requests r WHERE r.session_id = s.id);
+
+-- Request events on the notifications page's Requests tab
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_event_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_event_check CHECK (
+  event IN (
+    'feedback_added',
+    'feedback_reply',
+    'session_assigned',
+    'supervisor_approved',
+    'saved_search_match',
+    'supervision_requested',
+    'supervision_accepted',
+    'supervision_declined',
+    'supervision_completed'
+  )
+);
+
+-- Ask a supervisor to review one of my sessions. Sessions that already have
+-- a supervisor can be offered to another one, who takes over once accepted.
+CREATE OR REPLACE FUNCTION public.request_supervision(
+  p_session_id UUID,
+  p_supervisor_id UUID,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_session sessions%ROWTYPE;
+  v_request_id UUID;
+BEGIN
+  SELECT * INTO v_session FROM sessions WHERE id = p_session_id;
+  IF v_session.id IS NULL OR v_session.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  IF p_supervisor_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot review your own session';
+  END IF;
+
+  IF v_session.supervisor_id = p_supervisor_id THEN
+    RAISE EXCEPTION 'This supervisor is already reviewing the session';
+  END IF;
+
+  IF NOT public.is_approved_supervisor(p_supervisor_id) THEN
+    RAISE EXCEPTION 'Sessions can only be assigned to approved supervisors';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM supervision_requests
+    WHERE session_id = p_session_id
+    AND status = 'requested'
+  ) THEN
+    RAISE EXCEPTION 'This session is already waiting for a supervisor to respond';
+  END IF;
+
+  INSERT INTO supervision_requests (session_id, counselor_id, supervisor_id, message)
+  VALUES (p_session_id, auth.uid(), p_supervisor_id, NULLIF(trim(p_message), ''))
+  RETURNING id INTO v_request_id;
+
+  -- The supervisor can't open the session yet, so the notification links to
+  -- the Requests tab rather than the session
+  PERFORM public.create_notification(
+    p_supervisor_id,
+    'request',
+    'supervision_requested',
+    'New supervision request',
+    format(
+      '%s asked you to review ''%s''.',
+      public.user_display_name(auth.uid()),
+      v_session.title
+    ),
+    NULL,
+    NULL,
+    auth.uid()
+  );
+
+  RETURN v_request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Accept or decline a request sent to me. Accepting assigns an unassigned
+-- session straight away; otherwise the counselor hands it over.
+CREATE OR REPLACE FUNCTION public.respond_to_supervision_request(
+  p_request_id UUID,
+  p_accept BOOLEAN,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_request supervision_requests%ROWTYPE;
+  v_session sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request FROM supervision_requests WHERE id = p_request_id FOR UPDATE;
+  IF v_request.id IS NULL OR v_request.supervisor_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  IF v_request.status <> 'requested' THEN
+    RAISE EXCEPTION 'This request is no longer waiting for a response';
+  END IF;
+
+  SELECT * INTO v_session FROM sessions WHERE id = v_request.session_id;
+
+  IF p_accept THEN
+    IF NOT public.is_approved_supervisor(auth.uid()) THEN
+      RAISE EXCEPTION 'Sessions can only be assigned to approved supervisors';
+    END IF;
+
+    UPDATE supervision_requests
+    SET status = 'accepted', responded_at = NOW(), updated_at = NOW()
+    WHERE id = p_request_id;
+
+    IF v_session.supervisor_id IS NULL THEN
+      UPDATE sessions
+      SET supervisor_id = v_request.supervisor_id, updated_at = NOW()
+      WHERE id = v_request.session_id;
+    END IF;
+
+    PERFORM public.create_notification(
+      v_request.counselor_id,
+      'request',
+      'supervision_accepted',
+      'Supervision request accepted',
+      CASE
+        WHEN v_session.supervisor_id IS NULL THEN format(
+          '%s accepted your request to review ''%s''.',
+          public.user_display_name(auth.uid()),
+          v_session.title
+        )
+        ELSE format(
+          '%s accepted your request to review ''%s''. Open the session to hand it over.',
+          public.user_display_name(auth.uid()),
+          v_session.title
+        )
+      END,
+      v_request.session_id,
+      NULL,
+      auth.uid()
+    );
+  ELSE
+    UPDATE supervision_requests
+    SET
+      status = 'declined',
+      decline_reason = NULLIF(trim(p_reason), ''),
+      responded_at = NOW(),
+      updated_at = NOW()
+    WHERE id = p_request_id;
+
+    PERFORM public.create_notification(
+      v_request.counselor_id,
+      'request',
+      'supervision_declined',
+      'Supervision request declined',
+      format(
+        '%s declined your request to review ''%s''.%s Choose another supervisor from the session.',
+        public.user_display_name(auth.uid()),
+        v_session.title,
+        CASE
+          WHEN NULLIF(trim(p_reason), '') IS NULL THEN ''
+          ELSE format(' Reason: %s.', rtrim(trim(p_reason), '.'))
+        END
+      ),
+      v_request.session_id,
+      NULL,
+      auth.uid()
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Withdraw a request the supervisor hasn't answered yet
+CREATE OR REPLACE FUNCTION public.cancel_supervision_request(p_request_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE supervision_requests
+  SET status = 'cancelled', updated_at = NOW()
+  WHERE id = p_request_id
+  AND counselor_id = auth.uid()
+  AND status = 'requested';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This request is no longer waiting for a response';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The session's supervisor completes the review
+CREATE OR REPLACE FUNCTION public.complete_supervision(p_session_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_session sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_session FROM sessions WHERE id = p_session_id;
+  IF v_session.id IS NULL OR v_session.supervisor_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the session''s supervisor can complete the review';
+  END IF;
+
+  IF v_session.status = 'completed' THEN
+    RETURN;
+  END IF;
+
+  UPDATE supervision_requests
+  SET status = 'completed', updated_at = NOW()
+  WHERE session_id = p_session_id
+  AND supervisor_id = auth.uid()
+  AND status IN ('accepted', 'in_review');
+
+  UPDATE sessions
+  SET status = 'completed', updated_at = NOW()
+  WHERE id = p_session_id;
+
+  PERFORM public.create_notification(
+    v_session.user_id,
+    'request',
+    'supervision_completed',
+    'Review completed',
+    format(
+      '%s completed the review of ''%s''.',
+      public.user_display_name(auth.uid()),
+      v_session.title
+    ),
+    p_session_id,
+    NULL,
+    auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The supervisor's first feedback starts the review
+CREATE OR REPLACE FUNCTION public.start_supervision_review()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM sessions
+    WHERE id = NEW.session_id
+    AND supervisor_id = NEW.author_id
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE supervision_requests
+  SET status = 'in_review', updated_at = NOW()
+  WHERE session_id = NEW.session_id
+  AND supervisor_id = NEW.author_id
+  AND status = 'accepted';
+
+  UPDATE sessions
+  SET status = 'in_progress', updated_at = NOW()
+  WHERE id = NEW.session_id
+  AND status = 'pending';
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS start_supervision_review ON feedback;
+CREATE TRIGGER start_supervision_review
+  AFTER INSERT ON feedback
+  FOR EACH ROW EXECUTE FUNCTION public.start_supervision_review();
+
+-- Requests with the session and both people, for the inbox and the session
+-- page. Supervisors can't read a session before they accept it, so this
+-- runs with the owner's rights and only returns the caller's own requests.
+CREATE OR REPLACE FUNCTION public.get_supervision_requests(
+  p_session_id UUID DEFAULT NULL,
+  p_incoming BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  id UUID,
+  session_id UUID,
+  session_title TEXT,
+  session_type TEXT,
+  session_duration INTEGER,
+  counselor_id UUID,
+  counselor_name TEXT,
+  supervisor_id UUID,
+  supervisor_name TEXT,
+  supervisor_avatar TEXT,
+  status TEXT,
+  message TEXT,
+  decline_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  responded_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT
+    r.id,
+    r.session_id,
+    s.title,
+    s.session_type,
+    s.duration,
+    r.counselor_id,
+    public.user_display_name(r.counselor_id),
+    r.supervisor_id,
+    sv.name,
+    sv.avatar,
+    r.status,
+    r.message,
+    r.decline_reason,
+    r.created_at,
+    r.responded_at
+  FROM supervision_requests r
+  JOIN sessions s ON s.id = r.session_id
+  JOIN supervisors sv ON sv.id = r.supervisor_id
+  WHERE (r.counselor_id = auth.uid() OR r.supervisor_id = auth.uid())
+  AND (p_session_id IS NULL OR r.session_id = p_session_id)
+  AND (NOT p_incoming OR (r.supervisor_id = auth.uid() AND r.status = 'requested'))
+  ORDER BY r.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- A session's supervisor is whoever accepted a request for it
+CREATE OR REPLACE FUNCTION public.check_session_supervisor()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.supervisor_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.supervisor_id IS DISTINCT FROM OLD.supervisor_id) THEN
+    IF NOT public.is_approved_supervisor(NEW.supervisor_id) THEN
+      RAISE EXCEPTION 'Sessions can only be assigned to approved supervisors';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM supervision_requests
+      WHERE session_id = NEW.id
+      AND supervisor_id = NEW.supervisor_id
+      AND status IN ('accepted', 'in_review', 'completed')
+    ) THEN
+      RAISE EXCEPTION 'The supervisor has not accepted a request to review this session';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The previous supervisor's request ends when the session is handed over
+CREATE OR REPLACE FUNCTION public.close_previous_supervision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.supervisor_id IS NOT NULL
+    AND OLD.supervisor_id IS DISTINCT FROM NEW.supervisor_id THEN
+    UPDATE supervision_requests
+    SET status = 'cancelled', updated_at = NOW()
+    WHERE session_id = NEW.id
+    AND supervisor_id = OLD.supervisor_id
+    AND status IN ('accepted', 'in_review');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS close_previous_supervision ON sessions;
+CREATE TRIGGER close_previous_supervision
+  AFTER UPDATE OF supervisor_id ON sessions
+  FOR EACH ROW EXECUTE FUNCTION public.close_previous_supervision();
+
+-- Supervisors hear about sessions through the request, and a supervisor
+-- only changes once they accept one
+DROP TRIGGER IF EXISTS notify_session_assigned ON sessions;
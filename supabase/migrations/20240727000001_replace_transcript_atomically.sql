@@ -0,0 +1,26 @@
+-- Replace a session's whole transcript in one transaction, so a failed
+-- insert can't leave the session without one. Runs with the caller's
+-- rights: RLS only lets the owner (or the service role) replace segments.
+CREATE OR REPLACE FUNCTION public.replace_transcript(
+  p_session_id UUID,
+  p_segments JSONB  -- [{"start", "end", "text", "redacted_text", "speaker", "confidence"}]
+)
+RETURNS SETOF transcript_segments AS $$
+BEGIN
+  DELETE FROM transcript_segments WHERE session_id = p_session_id;
+
+  RETURN QUERY
+  INSERT INTO transcript_segments (session_id, start, "end", text, redacted_text, speaker, confidence)
+  SELECT
+    p_session_id,
+    s.start,
+    s."end",
+    s.text,
+    s.redacted_text,
+    s.speaker,
+    s.confidence
+  FROM jsonb_to_recordset(COALESCE(p_segments, '[]'::jsonb))
+    AS s(start FLOAT, "end" FLOAT, text TEXT, redacted_text TEXT, speaker TEXT, confidence FLOAT)
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,61 @@
+-- Supervisors used to get the original recording and rely on the player to
+-- bleep PII. process-recording now renders a bleeped copy from
+-- redaction_ranges; only that copy is shared, the original stays with the owner.
+-- Existing sessions get their copy the next time their transcript is redacted.
+DO $$
+BEGIN
+    -- Storage path of the bleeped copy; NULL while it is (re)rendered
+    IF NOT EXISTS (
+        SELECT 1
+        FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'sessions'
+        AND column_name = 'redacted_audio_url'
+    ) THEN
+        ALTER TABLE public.sessions ADD COLUMN redacted_audio_url TEXT;
+    END IF;
+
+    -- Type of the bleeped copy once decrypted
+    IF NOT EXISTS (
+        SELECT 1
+        FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'sessions'
+        AND column_name = 'redacted_audio_mime_type'
+    ) THEN
+        ALTER TABLE public.sessions ADD COLUMN redacted_audio_mime_type TEXT;
+    END IF;
+END $$;
+
+-- The original recording is readable by its owner only; the supervisor gets
+-- the bleeped copy and the waveform peaks
+DROP POLICY IF EXISTS "Session participants can read audio" ON storage.objects;
+CREATE POLICY "Session participants can read audio"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'audio'
+    AND (
+      (storage.foldername(name))[2] = auth.uid()::text
+      OR EXISTS (
+        SELECT 1 FROM sessions s
+        WHERE s.audio_url = storage.objects.name
+        AND s.user_id = auth.uid()
+      )
+      OR EXISTS (
+        SELECT 1 FROM sessions s
+        WHERE (s.redacted_audio_url = storage.objects.name OR s.peaks_url = storage.objects.name)
+        AND (s.user_id = auth.uid() OR s.supervisor_id = auth.uid())
+      )
+      OR EXISTS (
+        SELECT 1 FROM feedback f
+        JOIN sessions s ON s.id = f.session_id
+        WHERE (f.audio_feedback = storage.objects.name OR f.audio_response = storage.objects.name)
+        AND (s.user_id = auth.uid() OR s.supervisor_id = auth.uid())
+      )
+      OR EXISTS (
+        SELECT 1 FROM feedback_replies r
+        WHERE r.audio_path = storage.objects.name
+        AND public.can_discuss_feedback(r.feedback_id)
+      )
+    )
+  );
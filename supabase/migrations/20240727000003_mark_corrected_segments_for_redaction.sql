@@ -0,0 +1,167 @@
+-- Corrections used to leave redacted_text as it was, so supervisors kept
+-- seeing the old redacted copy of the new text, and the second half of a
+-- split had none at all, exposing the original. Any change to the text now
+-- replaces redacted_text with a placeholder until redact-transcript has run
+-- over the new text. Meanwhile the transcript counts as redacted, so only
+-- the owner can correct it.
+
+-- Change the text and/or boundaries of a single segment
+CREATE OR REPLACE FUNCTION public.edit_transcript_segment(
+  p_segment_id UUID,
+  p_text TEXT,
+  p_start FLOAT,
+  p_end FLOAT
+)
+RETURNS transcript_segments AS $$
+DECLARE
+  v_before transcript_segments;
+  v_after transcript_segments;
+BEGIN
+  SELECT * INTO v_before FROM transcript_segments WHERE id = p_segment_id;
+  IF NOT FOUND OR NOT public.can_edit_transcript(v_before.session_id) THEN
+    RAISE EXCEPTION 'Transcript segment not found';
+  END IF;
+
+  IF p_start >= p_end THEN
+    RAISE EXCEPTION 'A segment must end after it starts';
+  END IF;
+
+  UPDATE transcript_segments
+  SET
+    text = p_text,
+    redacted_text = CASE
+      WHEN v_before.text = p_text THEN v_before.redacted_text
+      ELSE '[REDACTION PENDING]'
+    END,
+    start = p_start,
+    "end" = p_end,
+    updated_at = NOW()
+  WHERE id = p_segment_id
+  RETURNING * INTO v_after;
+
+  INSERT INTO transcript_revisions (session_id, action, segment_ids, before, after, author_id)
+  VALUES (
+    v_before.session_id,
+    CASE WHEN v_before.text = p_text THEN 'retime' ELSE 'edit' END,
+    ARRAY[p_segment_id],
+    jsonb_build_array(to_jsonb(v_before)),
+    jsonb_build_array(to_jsonb(v_after)),
+    auth.uid()
+  );
+
+  RETURN v_after;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Split a segment in two at p_split_at seconds
+CREATE OR REPLACE FUNCTION public.split_transcript_segment(
+  p_segment_id UUID,
+  p_split_at FLOAT,
+  p_first_text TEXT,
+  p_second_text TEXT
+)
+RETURNS SETOF transcript_segments AS $$
+DECLARE
+  v_before transcript_segments;
+  v_first transcript_segments;
+  v_second transcript_segments;
+BEGIN
+  SELECT * INTO v_before FROM transcript_segments WHERE id = p_segment_id;
+  IF NOT FOUND OR NOT public.can_edit_transcript(v_before.session_id) THEN
+    RAISE EXCEPTION 'Transcript segment not found';
+  END IF;
+
+  IF p_split_at <= v_before.start OR p_split_at >= v_before."end" THEN
+    RAISE EXCEPTION 'The split point must fall inside the segment';
+  END IF;
+
+  UPDATE transcript_segments
+  SET text = p_first_text, redacted_text = '[REDACTION PENDING]', "end" = p_split_at, updated_at = NOW()
+  WHERE id = p_segment_id
+  RETURNING * INTO v_first;
+
+  INSERT INTO transcript_segments (session_id, start, "end", text, redacted_text, speaker, confidence)
+  VALUES (v_before.session_id, p_split_at, v_before."end", p_second_text, '[REDACTION PENDING]', v_before.speaker, v_before.confidence)
+  RETURNING * INTO v_second;
+
+  -- Feedback anchored after the split point follows the second half
+  UPDATE feedback
+  SET segment_id = v_second.id
+  WHERE segment_id = p_segment_id
+  AND timestamp >= p_split_at;
+
+  INSERT INTO transcript_revisions (session_id, action, segment_ids, before, after, author_id)
+  VALUES (
+    v_before.session_id,
+    'split',
+    ARRAY[v_first.id, v_second.id],
+    jsonb_build_array(to_jsonb(v_before)),
+    jsonb_build_array(to_jsonb(v_first), to_jsonb(v_second)),
+    auth.uid()
+  );
+
+  RETURN NEXT v_first;
+  RETURN NEXT v_second;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Merge two neighbouring segments into the first one
+CREATE OR REPLACE FUNCTION public.merge_transcript_segments(
+  p_first_id UUID,
+  p_second_id UUID
+)
+RETURNS transcript_segments AS $$
+DECLARE
+  v_first transcript_segments;
+  v_second transcript_segments;
+  v_merged transcript_segments;
+BEGIN
+  SELECT * INTO v_first FROM transcript_segments WHERE id = p_first_id;
+  SELECT * INTO v_second FROM transcript_segments WHERE id = p_second_id;
+  IF v_first.id IS NULL OR v_second.id IS NULL
+    OR v_first.session_id <> v_second.session_id
+    OR NOT public.can_edit_transcript(v_first.session_id) THEN
+    RAISE EXCEPTION 'Transcript segments not found';
+  END IF;
+
+  UPDATE transcript_segments
+  SET
+    text = v_first.text || ' ' || v_second.text,
+    redacted_text = '[REDACTION PENDING]',
+    start = LEAST(v_first.start, v_second.start),
+    "end" = GREATEST(v_first."end", v_second."end"),
+    updated_at = NOW()
+  WHERE id = p_first_id
+  RETURNING * INTO v_merged;
+
+  -- Move feedback over before the second segment disappears
+  UPDATE feedback
+  SET segment_id = p_first_id
+  WHERE segment_id = p_second_id;
+
+  -- Reactions move along too, unless the user gave the same one to both halves
+  UPDATE segment_reactions r
+  SET segment_id = p_first_id
+  WHERE r.segment_id = p_second_id
+  AND NOT EXISTS (
+    SELECT 1 FROM segment_reactions kept
+    WHERE kept.segment_id = p_first_id
+    AND kept.user_id = r.user_id
+    AND kept.reaction = r.reaction
+  );
+
+  DELETE FROM transcript_segments WHERE id = p_second_id;
+
+  INSERT INTO transcript_revisions (session_id, action, segment_ids, before, after, author_id)
+  VALUES (
+    v_first.session_id,
+    'merge',
+    ARRAY[p_first_id, p_second_id],
+    jsonb_build_array(to_jsonb(v_first), to_jsonb(v_second)),
+    jsonb_build_array(to_jsonb(v_merged)),
+    auth.uid()
+  );
+
+  RETURN v_merged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
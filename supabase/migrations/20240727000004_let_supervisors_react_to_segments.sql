@@ -0,0 +1,22 @@
+-- The reactions insert policy looked the segment up under the caller's RLS,
+-- and supervisors can't read transcript_segments directly, so their
+-- reactions were rejected. Check the segment with the owner's rights instead.
+CREATE OR REPLACE FUNCTION public.can_react_to_segment(p_session_id UUID, p_segment_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM transcript_segments ts
+    JOIN sessions s ON s.id = ts.session_id
+    WHERE ts.id = p_segment_id
+    AND ts.session_id = p_session_id
+    AND (s.user_id = auth.uid() OR s.supervisor_id = auth.uid())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- The counselor and supervisor react as themselves, on segments of that session
+DROP POLICY IF EXISTS "Participants can add their reactions" ON segment_reactions;
+CREATE POLICY "Participants can add their reactions"
+  ON segment_reactions FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND public.can_react_to_segment(session_id, segment_id)
+  );
@@ -0,0 +1,162 @@
+-- Supervisors can't read transcript_segments directly, so the transcript
+-- branch of search_everything never found anything for them. Segments are
+-- now searched through a function that checks access to the session itself
+-- and, like get_session_transcript, gives everyone but the owner the
+-- redacted text.
+CREATE OR REPLACE FUNCTION public.search_transcript_segments(p_query tsquery)
+RETURNS TABLE (
+  id UUID,
+  session_id UUID,
+  speaker TEXT,
+  text TEXT,
+  start FLOAT,
+  rank REAL
+) AS $$
+  SELECT
+    t.id,
+    t.session_id,
+    t.speaker,
+    CASE WHEN s.user_id = auth.uid() THEN t.text ELSE coalesce(t.redacted_text, t.text) END,
+    t.start,
+    coalesce(ts_rank(t.search_vector, p_query), 0)
+  FROM transcript_segments t
+  JOIN sessions s ON s.id = t.session_id
+  -- Without a query every segment would match, so transcripts need one
+  WHERE p_query IS NOT NULL
+  AND t.search_vector @@ p_query
+  AND (s.user_id = auth.uid() OR s.supervisor_id = auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Same as before, with transcript hits from search_transcript_segments
+CREATE OR REPLACE FUNCTION public.search_everything(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_types TEXT[] DEFAULT NULL,          -- 'session', 'feedback', 'transcript'
+  p_session_type TEXT DEFAULT NULL,
+  p_supervisor_id UUID DEFAULT NULL,
+  p_counselor_id UUID DEFAULT NULL,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_tag_id UUID DEFAULT NULL,
+  p_status TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  result_type TEXT,
+  id UUID,
+  session_id UUID,
+  session_title TEXT,
+  title TEXT,
+  snippet TEXT,
+  "position" FLOAT,
+  rank REAL,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  WITH q AS (
+    SELECT public.to_prefix_tsquery(p_query) AS query
+  ),
+  scope AS (
+    SELECT s.*
+    FROM sessions s
+    WHERE (p_session_type IS NULL OR s.session_type = p_session_type)
+    AND (p_supervisor_id IS NULL OR s.supervisor_id = p_supervisor_id)
+    AND (p_counselor_id IS NULL OR s.user_id = p_counselor_id)
+    AND (p_status IS NULL OR s.status = p_status)
+    AND (
+      p_tag_id IS NULL
+      OR EXISTS (
+        SELECT 1
+        FROM feedback tagged
+        JOIN feedback_tag_assignments a ON a.feedback_id = tagged.id
+        WHERE tagged.session_id = s.id
+        AND tagged.deleted_at IS NULL
+        AND a.tag_id = p_tag_id
+      )
+    )
+  ),
+  hits AS (
+    SELECT
+      'session' AS result_type,
+      s.id,
+      s.id AS session_id,
+      s.title AS session_title,
+      s.title,
+      coalesce(nullif(s.notes, ''), s.title) AS body,
+      NULL::FLOAT AS "position",
+      coalesce(ts_rank(s.search_vector, q.query), 0) AS rank,
+      s.created_at
+    FROM scope s, q
+    WHERE (q.query IS NULL OR s.search_vector @@ q.query)
+    AND (p_types IS NULL OR 'session' = ANY(p_types))
+
+    UNION ALL
+
+    SELECT
+      'feedback',
+      f.id,
+      f.session_id,
+      s.title,
+      coalesce(nullif(f.title, ''), 'Feedback'),
+      f.text,
+      f.timestamp,
+      coalesce(ts_rank(f.search_vector, q.query), 0),
+      f.created_at
+    FROM feedback f
+    JOIN scope s ON s.id = f.session_id, q
+    WHERE (q.query IS NULL OR f.search_vector @@ q.query)
+    AND (p_types IS NULL OR 'feedback' = ANY(p_types))
+    AND f.deleted_at IS NULL
+    AND (
+      p_tag_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM feedback_tag_assignments a
+        WHERE a.feedback_id = f.id AND a.tag_id = p_tag_id
+      )
+    )
+
+    UNION ALL
+
+    SELECT
+      'transcript',
+      t.id,
+      t.session_id,
+      s.title,
+      coalesce(t.speaker, 'Transcript'),
+      t.text,
+      t.start,
+      t.rank,
+      s.created_at
+    FROM q
+    CROSS JOIN LATERAL public.search_transcript_segments(q.query) t
+    JOIN scope s ON s.id = t.session_id
+    WHERE (p_types IS NULL OR 'transcript' = ANY(p_types))
+  ),
+  filtered AS (
+    SELECT *
+    FROM hits
+    WHERE (p_from IS NULL OR hits.created_at >= p_from)
+    AND (p_to IS NULL OR hits.created_at <= p_to)
+    ORDER BY hits.rank DESC, hits.created_at DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 50)
+  )
+  -- Headlines are slow, so only build them for the hits returned
+  SELECT
+    filtered.result_type,
+    filtered.id,
+    filtered.session_id,
+    filtered.session_title,
+    filtered.title,
+    CASE
+      WHEN q.query IS NULL THEN left(filtered.body, 200)
+      ELSE ts_headline(
+        'simple',
+        filtered.body,
+        q.query,
+        'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=10, MaxFragments=1'
+      )
+    END,
+    filtered."position",
+    filtered.rank,
+    filtered.created_at
+  FROM filtered, q
+  ORDER BY filtered.rank DESC, filtered.created_at DESC;
+$$ LANGUAGE sql STABLE;
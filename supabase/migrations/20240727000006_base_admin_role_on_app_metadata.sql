@@ -0,0 +1,22 @@
+-- The admin role was read from raw_user_meta_data, which every user can
+-- change on themselves through supabase.auth.updateUser. raw_app_meta_data
+-- can only be set with the service role, so the role is read from there.
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE auth.users.id = auth.uid()
+    AND auth.users.raw_app_meta_data->>'role' = 'admin'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- The original profile policies made the same check inline
+DROP POLICY IF EXISTS "Admins can view all profiles" ON public.user_profiles;
+CREATE POLICY "Admins can view all profiles"
+  ON public.user_profiles FOR SELECT
+  USING (public.is_admin());
+
+DROP POLICY IF EXISTS "Admins can update all profiles" ON public.user_profiles;
+CREATE POLICY "Admins can update all profiles"
+  ON public.user_profiles FOR UPDATE
+  USING (public.is_admin());
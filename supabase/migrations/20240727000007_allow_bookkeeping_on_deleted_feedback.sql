@@ -0,0 +1,44 @@
+-- Deleted feedback rejected every update, including segment_id being moved
+-- by a split or merge, or cleared when its segment is deleted (ON DELETE SET
+-- NULL), which made those fail. Only edits to the content are rejected now.
+CREATE OR REPLACE FUNCTION public.record_feedback_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_action TEXT;
+BEGIN
+  -- Bookkeeping such as re-anchoring to another segment, or the segment
+  -- being removed, still applies to deleted feedback
+  IF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NOT NULL THEN
+    IF (NEW.title, NEW.text, NEW.timestamp, NEW.end_timestamp, NEW.audio_feedback)
+      IS DISTINCT FROM (OLD.title, OLD.text, OLD.timestamp, OLD.end_timestamp, OLD.audio_feedback) THEN
+      RAISE EXCEPTION 'Deleted feedback cannot be changed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    v_action := 'delete';
+    NEW.deleted_at := NOW();
+    NEW.deleted_by := auth.uid();
+  ELSIF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+    IF NOT public.is_admin() THEN
+      RAISE EXCEPTION 'Only admins can restore deleted feedback';
+    END IF;
+    v_action := 'restore';
+    NEW.deleted_by := NULL;
+  ELSIF (NEW.title, NEW.text, NEW.timestamp, NEW.end_timestamp, NEW.audio_feedback)
+    IS DISTINCT FROM (OLD.title, OLD.text, OLD.timestamp, OLD.end_timestamp, OLD.audio_feedback) THEN
+    v_action := 'edit';
+    NEW.edited_at := NOW();
+  ELSE
+    -- Bookkeeping such as resolving a thread or re-anchoring to a segment
+    RETURN NEW;
+  END IF;
+
+  NEW.updated_at := NOW();
+  INSERT INTO feedback_revisions (feedback_id, action, before, after, author_id)
+  VALUES (OLD.id, v_action, to_jsonb(OLD), to_jsonb(NEW), auth.uid());
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,30 @@
+-- "Users can update their own profile" covers every column, so users could
+-- make themselves approved supervisors, which is_approved_supervisor and the
+-- supervisor pickers trust. Role and approval are now only changed by admins
+-- (or the service role); users keep editing the rest of their profile.
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    -- Signing up: admin can't be chosen, and supervisors wait for approval
+    IF NEW.role NOT IN ('counselor', 'supervisor') THEN
+      RAISE EXCEPTION 'Only admins can assign the % role', NEW.role;
+    END IF;
+    NEW.is_approved := NEW.role <> 'supervisor';
+  ELSIF NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.is_approved IS DISTINCT FROM OLD.is_approved THEN
+    RAISE EXCEPTION 'Only admins can change roles and approval';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS protect_profile_role ON user_profiles;
+CREATE TRIGGER protect_profile_role
+  BEFORE INSERT OR UPDATE ON user_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_role();
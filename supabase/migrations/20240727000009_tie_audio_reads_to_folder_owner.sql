@@ -0,0 +1,55 @@
+-- Audio reads were granted on any row naming the object, but those rows are
+-- written by users: anyone can insert a session with someone else's path as
+-- its audio_url, and owners can point audio_url, peaks_url and
+-- redacted_audio_url anywhere. A row now only shares objects stored in its
+-- owner's folder: session files under sessions/<owner>/, feedback audio
+-- under feedback/<author>/.
+CREATE OR REPLACE FUNCTION public.can_read_audio_object(p_name TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT
+    -- Everything a user uploaded themselves
+    (storage.foldername(p_name))[2] = auth.uid()::text
+    -- The supervisor gets the bleeped copy and the waveform peaks
+    OR EXISTS (
+      SELECT 1 FROM sessions s
+      WHERE (s.redacted_audio_url = p_name OR s.peaks_url = p_name)
+      AND (storage.foldername(p_name))[1] = 'sessions'
+      AND (storage.foldername(p_name))[2] = s.user_id::text
+      AND (s.user_id = auth.uid() OR s.supervisor_id = auth.uid())
+    )
+    -- Audio feedback is recorded by the feedback author
+    OR EXISTS (
+      SELECT 1 FROM feedback f
+      JOIN sessions s ON s.id = f.session_id
+      WHERE f.audio_feedback = p_name
+      AND (storage.foldername(p_name))[1] = 'feedback'
+      AND (storage.foldername(p_name))[2] = f.author_id::text
+      AND (s.user_id = auth.uid() OR s.supervisor_id = auth.uid())
+    )
+    -- Legacy audio responses were recorded by the counselor
+    OR EXISTS (
+      SELECT 1 FROM feedback f
+      JOIN sessions s ON s.id = f.session_id
+      WHERE f.audio_response = p_name
+      AND (storage.foldername(p_name))[1] = 'feedback'
+      AND (storage.foldername(p_name))[2] = s.user_id::text
+      AND (s.user_id = auth.uid() OR s.supervisor_id = auth.uid())
+    )
+    OR EXISTS (
+      SELECT 1 FROM feedback_replies r
+      WHERE r.audio_path = p_name
+      AND (storage.foldername(p_name))[1] = 'feedback'
+      AND (storage.foldername(p_name))[2] = r.author_id::text
+      AND public.can_discuss_feedback(r.feedback_id)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- The original recording lives in its owner's folder, so the first branch
+-- already covers it and no row points anyone else at it
+DROP POLICY IF EXISTS "Session participants can read audio" ON storage.objects;
+CREATE POLICY "Session participants can read audio"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'audio'
+    AND public.can_read_audio_object(name)
+  );
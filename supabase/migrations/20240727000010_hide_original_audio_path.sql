@@ -0,0 +1,185 @@
+-- Supervisors and admins can read the session row, and with it audio_url,
+-- while they hold the session key, so the original recording was only
+-- "owner only" as long as nobody looked at the path. audio_url is no longer
+-- granted to signed-in users; owners get it from get_own_session_audio and
+-- the edge functions read it with the service role.
+REVOKE SELECT ON public.sessions FROM anon, authenticated;
+GRANT SELECT (
+  id,
+  title,
+  user_id,
+  supervisor_id,
+  duration,
+  notes,
+  session_type,
+  status,
+  created_at,
+  updated_at,
+  transcription_status,
+  transcription_error,
+  speaker_roles,
+  redaction_ranges,
+  is_encrypted,
+  audio_mime_type,
+  key_version,
+  processing_status,
+  processing_error,
+  sample_rate,
+  channels,
+  bit_rate,
+  loudness_lufs,
+  trimmed_start,
+  original_mime_type,
+  peaks_url,
+  search_vector,
+  redacted_audio_url,
+  redacted_audio_mime_type
+) ON public.sessions TO authenticated;
+
+-- Storage paths of the caller's own original recordings
+CREATE OR REPLACE FUNCTION public.get_own_session_audio()
+RETURNS TABLE (
+  session_id UUID,
+  audio_url TEXT
+) AS $$
+  SELECT s.id, s.audio_url
+  FROM sessions s
+  WHERE s.user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.get_own_session_audio() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_own_session_audio() TO authenticated;
+
+-- Same as before, without s.*: the caller can no longer read every column
+CREATE OR REPLACE FUNCTION public.search_everything(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_types TEXT[] DEFAULT NULL,          -- 'session', 'feedback', 'transcript'
+  p_session_type TEXT DEFAULT NULL,
+  p_supervisor_id UUID DEFAULT NULL,
+  p_counselor_id UUID DEFAULT NULL,
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_tag_id UUID DEFAULT NULL,
+  p_status TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  result_type TEXT,
+  id UUID,
+  session_id UUID,
+  session_title TEXT,
+  title TEXT,
+  snippet TEXT,
+  "position" FLOAT,
+  rank REAL,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  WITH q AS (
+    SELECT public.to_prefix_tsquery(p_query) AS query
+  ),
+  scope AS (
+    SELECT s.id, s.title, s.notes, s.search_vector, s.created_at
+    FROM sessions s
+    WHERE (p_session_type IS NULL OR s.session_type = p_session_type)
+    AND (p_supervisor_id IS NULL OR s.supervisor_id = p_supervisor_id)
+    AND (p_counselor_id IS NULL OR s.user_id = p_counselor_id)
+    AND (p_status IS NULL OR s.status = p_status)
+    AND (
+      p_tag_id IS NULL
+      OR EXISTS (
+        SELECT 1
+        FROM feedback tagged
+        JOIN feedback_tag_assignments a ON a.feedback_id = tagged.id
+        WHERE tagged.session_id = s.id
+        AND tagged.deleted_at IS NULL
+        AND a.tag_id = p_tag_id
+      )
+    )
+  ),
+  hits AS (
+    SELECT
+      'session' AS result_type,
+      s.id,
+      s.id AS session_id,
+      s.title AS session_title,
+      s.title,
+      coalesce(nullif(s.notes, ''), s.title) AS body,
+      NULL::FLOAT AS "position",
+      coalesce(ts_rank(s.search_vector, q.query), 0) AS rank,
+      s.created_at
+    FROM scope s, q
+    WHERE (q.query IS NULL OR s.search_vector @@ q.query)
+    AND (p_types IS NULL OR 'session' = ANY(p_types))
+
+    UNION ALL
+
+    SELECT
+      'feedback',
+      f.id,
+      f.session_id,
+      s.title,
+      coalesce(nullif(f.title, ''), 'Feedback'),
+      f.text,
+      f.timestamp,
+      coalesce(ts_rank(f.search_vector, q.query), 0),
+      f.created_at
+    FROM feedback f
+    JOIN scope s ON s.id = f.session_id, q
+    WHERE (q.query IS NULL OR f.search_vector @@ q.query)
+    AND (p_types IS NULL OR 'feedback' = ANY(p_types))
+    AND f.deleted_at IS NULL
+    AND (
+      p_tag_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM feedback_tag_assignments a
+        WHERE a.feedback_id = f.id AND a.tag_id = p_tag_id
+      )
+    )
+
+    UNION ALL
+
+    SELECT
+      'transcript',
+      t.id,
+      t.session_id,
+      s.title,
+      coalesce(t.speaker, 'Transcript'),
+      t.text,
+      t.start,
+      t.rank,
+      s.created_at
+    FROM q
+    CROSS JOIN LATERAL public.search_transcript_segments(q.query) t
+    JOIN scope s ON s.id = t.session_id
+    WHERE (p_types IS NULL OR 'transcript' = ANY(p_types))
+  ),
+  filtered AS (
+    SELECT *
+    FROM hits
+    WHERE (p_from IS NULL OR hits.created_at >= p_from)
+    AND (p_to IS NULL OR hits.created_at <= p_to)
+    ORDER BY hits.rank DESC, hits.created_at DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 50)
+  )
+  -- Headlines are slow, so only build them for the hits returned
+  SELECT
+    filtered.result_type,
+    filtered.id,
+    filtered.session_id,
+    filtered.session_title,
+    filtered.title,
+    CASE
+      WHEN q.query IS NULL THEN left(filtered.body, 200)
+      ELSE ts_headline(
+        'simple',
+        filtered.body,
+        q.query,
+        'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=10, MaxFragments=1'
+      )
+    END,
+    filtered."position",
+    filtered.rank,
+    filtered.created_at
+  FROM filtered, q
+  ORDER BY filtered.rank DESC, filtered.created_at DESC;
+$$ LANGUAGE sql STABLE;
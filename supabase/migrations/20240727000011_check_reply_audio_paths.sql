@@ -0,0 +1,22 @@
+-- Replies could name any object as their audio_path, and authors could move
+-- their replies to other threads since updates were never checked. A reply
+-- now only points at audio in its author's folder, and stays in a thread the
+-- author can discuss.
+DROP POLICY IF EXISTS "Participants can reply" ON feedback_replies;
+CREATE POLICY "Participants can reply"
+  ON feedback_replies FOR INSERT
+  WITH CHECK (
+    author_id = auth.uid()
+    AND public.can_discuss_feedback(feedback_id)
+    AND (audio_path IS NULL OR audio_path LIKE 'feedback/' || author_id::text || '/%')
+  );
+
+DROP POLICY IF EXISTS "Users can update their own replies" ON feedback_replies;
+CREATE POLICY "Users can update their own replies"
+  ON feedback_replies FOR UPDATE
+  USING (author_id = auth.uid())
+  WITH CHECK (
+    author_id = auth.uid()
+    AND public.can_discuss_feedback(feedback_id)
+    AND (audio_path IS NULL OR audio_path LIKE 'feedback/' || author_id::text || '/%')
+  );
@@ -0,0 +1,24 @@
+-- Authors couldn't soft delete their own feedback: the deleted row no longer
+-- passes "Users can view their own feedback", so the update was rejected as
+-- a row-level security violation. Deleting goes through this function,
+-- which checks the author itself; the audit trail trigger still records it.
+CREATE OR REPLACE FUNCTION public.delete_feedback(p_feedback_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM feedback
+    WHERE id = p_feedback_id
+    AND deleted_at IS NULL
+    AND (author_id = auth.uid() OR public.is_admin())
+  ) THEN
+    RAISE EXCEPTION 'Feedback not found';
+  END IF;
+
+  UPDATE feedback
+  SET deleted_at = NOW()
+  WHERE id = p_feedback_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.delete_feedback(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.delete_feedback(UUID) TO authenticated;
@@ -0,0 +1,66 @@
+-- Filters are stored as the client sent them and cast here, so a single
+-- saved search with a malformed id or date made the whole run raise and no
+-- one was notified. Each search is now checked on its own; one that fails
+-- is logged and skipped, and the rest go on.
+-- Same as before, with the per-search exception handler.
+CREATE OR REPLACE FUNCTION public.check_saved_searches()
+RETURNS VOID AS $$
+DECLARE
+  v_search saved_searches;
+  v_count INTEGER;
+BEGIN
+  FOR v_search IN SELECT * FROM saved_searches WHERE notify LOOP
+    BEGIN
+      PERFORM set_config(
+        'request.jwt.claims',
+        json_build_object('sub', v_search.user_id, 'role', 'authenticated')::TEXT,
+        TRUE
+      );
+      SET LOCAL ROLE authenticated;
+
+      SELECT count(*) INTO v_count
+      FROM public.search_everything(
+        v_search.query,
+        50,
+        (SELECT array_agg(value) FROM jsonb_array_elements_text(v_search.filters->'types')),
+        v_search.filters->>'sessionType',
+        (v_search.filters->>'supervisorId')::UUID,
+        (v_search.filters->>'counselorId')::UUID,
+        GREATEST((v_search.filters->>'from')::TIMESTAMP WITH TIME ZONE, v_search.last_checked_at),
+        (v_search.filters->>'to')::TIMESTAMP WITH TIME ZONE,
+        (v_search.filters->>'tagId')::UUID,
+        v_search.filters->>'status'
+      );
+
+      RESET ROLE;
+      PERFORM set_config('request.jwt.claims', '', TRUE);
+    EXCEPTION WHEN others THEN
+      -- The role and claims set above are rolled back with the block
+      RAISE WARNING 'Skipping saved search %: %', v_search.id, SQLERRM;
+      CONTINUE;
+    END;
+
+    IF v_count > 0 THEN
+      INSERT INTO notifications (user_id, type, event, title, message, saved_search_id)
+      VALUES (
+        v_search.user_id,
+        'system',
+        'saved_search_match',
+        'New search results',
+        format(
+          '%s new result%s for your saved search ''%s''.',
+          CASE WHEN v_count >= 50 THEN '50+' ELSE v_count::TEXT END,
+          CASE WHEN v_count = 1 THEN '' ELSE 's' END,
+          v_search.name
+        ),
+        v_search.id
+      );
+    END IF;
+
+    UPDATE saved_searches SET last_checked_at = NOW() WHERE id = v_search.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the scheduler runs the check
+REVOKE EXECUTE ON FUNCTION public.check_saved_searches() FROM PUBLIC, anon, authenticated;
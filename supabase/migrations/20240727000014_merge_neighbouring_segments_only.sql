@@ -0,0 +1,75 @@
+-- merge_transcript_segments took any two segments of a session. Merging a
+-- segment with itself deleted it after doubling its text, and merging
+-- segments further apart swallowed everything said in between into one
+-- time range. Only two different, neighbouring segments can be merged now.
+
+-- Same as before, with the neighbour check
+CREATE OR REPLACE FUNCTION public.merge_transcript_segments(
+  p_first_id UUID,
+  p_second_id UUID
+)
+RETURNS transcript_segments AS $$
+DECLARE
+  v_first transcript_segments;
+  v_second transcript_segments;
+  v_merged transcript_segments;
+BEGIN
+  SELECT * INTO v_first FROM transcript_segments WHERE id = p_first_id;
+  SELECT * INTO v_second FROM transcript_segments WHERE id = p_second_id;
+  IF v_first.id IS NULL OR v_second.id IS NULL
+    OR v_first.session_id <> v_second.session_id
+    OR NOT public.can_edit_transcript(v_first.session_id) THEN
+    RAISE EXCEPTION 'Transcript segments not found';
+  END IF;
+
+  IF p_first_id = p_second_id OR EXISTS (
+    SELECT 1 FROM transcript_segments ts
+    WHERE ts.session_id = v_first.session_id
+    AND ts.id NOT IN (p_first_id, p_second_id)
+    AND ts.start > LEAST(v_first.start, v_second.start)
+    AND ts.start < GREATEST(v_first.start, v_second.start)
+  ) THEN
+    RAISE EXCEPTION 'Only two neighbouring segments can be merged';
+  END IF;
+
+  UPDATE transcript_segments
+  SET
+    text = v_first.text || ' ' || v_second.text,
+    redacted_text = '[REDACTION PENDING]',
+    start = LEAST(v_first.start, v_second.start),
+    "end" = GREATEST(v_first."end", v_second."end"),
+    updated_at = NOW()
+  WHERE id = p_first_id
+  RETURNING * INTO v_merged;
+
+  -- Move feedback over before the second segment disappears
+  UPDATE feedback
+  SET segment_id = p_first_id
+  WHERE segment_id = p_second_id;
+
+  -- Reactions move along too, unless the user gave the same one to both halves
+  UPDATE segment_reactions r
+  SET segment_id = p_first_id
+  WHERE r.segment_id = p_second_id
+  AND NOT EXISTS (
+    SELECT 1 FROM segment_reactions kept
+    WHERE kept.segment_id = p_first_id
+    AND kept.user_id = r.user_id
+    AND kept.reaction = r.reaction
+  );
+
+  DELETE FROM transcript_segments WHERE id = p_second_id;
+
+  INSERT INTO transcript_revisions (session_id, action, segment_ids, before, after, author_id)
+  VALUES (
+    v_first.session_id,
+    'merge',
+    ARRAY[p_first_id, p_second_id],
+    jsonb_build_array(to_jsonb(v_first), to_jsonb(v_second)),
+    jsonb_build_array(to_jsonb(v_merged)),
+    auth.uid()
+  );
+
+  RETURN v_merged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
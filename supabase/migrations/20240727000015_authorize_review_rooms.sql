@@ -0,0 +1,31 @@
+-- Review rooms were public realtime channels, so anyone who knew a session
+-- id could join, see who had it open and follow their playback. The client
+-- now joins review:<session id> as a private channel, and realtime
+-- authorization only admits the session's counselor and supervisor.
+CREATE OR REPLACE FUNCTION public.can_join_review_room(p_topic TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM sessions s
+    WHERE 'review:' || s.id::text = p_topic
+    AND (s.user_id = auth.uid() OR s.supervisor_id = auth.uid())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Viewers and playback positions are both shared through presence
+DROP POLICY IF EXISTS "Session participants can join review rooms" ON realtime.messages;
+CREATE POLICY "Session participants can join review rooms"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'presence'
+    AND public.can_join_review_room(realtime.topic())
+  );
+
+DROP POLICY IF EXISTS "Session participants can share in review rooms" ON realtime.messages;
+CREATE POLICY "Session participants can share in review rooms"
+  ON realtime.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'presence'
+    AND public.can_join_review_room(realtime.topic())
+  );
@@ -2,9 +2,11 @@ import { supabase } from "@/supabase/supabase";
 
 // Create necessary buckets if they don't exist
 export const createStorageBuckets = async () => {
-  // Create audio bucket for session recordings and feedback audio responses
+  // Create audio bucket for session recordings and feedback audio responses.
+  // Recordings are confidential, so the bucket is private and files are only
+  // reachable through short-lived signed URLs (see getSignedAudioUrl).
   const { data: audioBucket, error: audioBucketError } =
-    await supabase.storage.createBucket("audio", { public: true });
+    await supabase.storage.createBucket("audio", { public: false });
 
   if (
     audioBucketError &&
@@ -14,6 +16,19 @@ export const createStorageBuckets = async () => {
     throw audioBucketError;
   }
 
+  // Older installs created the bucket as public; lock it down
+  if (audioBucketError) {
+    const { error: updateError } = await supabase.storage.updateBucket(
+      "audio",
+      { public: false },
+    );
+
+    if (updateError) {
+      console.error("Error making audio bucket private:", updateError);
+      throw updateError;
+    }
+  }
+
   console.log("Storage buckets initialized");
 };
 